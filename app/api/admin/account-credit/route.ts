@@ -0,0 +1,84 @@
+import {
+  listAccountCreditEntries,
+  settleAccountCredit,
+  type AccountCreditEntry,
+  type AccountCreditStatus
+} from "@/checkout";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { roundMoney } from "@/lib/fx";
+import { NextRequest, NextResponse } from "next/server";
+
+const STATUSES: AccountCreditStatus[] = ["reserved", "charged", "settled", "released"];
+
+/** Unsettled (reserved + charged) totals per debtor and currency. */
+function outstandingByDebtor(entries: AccountCreditEntry[]): Record<string, Record<string, number>> {
+  const totals: Record<string, Record<string, number>> = {};
+  for (const entry of entries) {
+    if (entry.status !== "reserved" && entry.status !== "charged") continue;
+    const byCurrency = (totals[entry.debtorId] ??= {});
+    byCurrency[entry.amount.currency] = roundMoney((byCurrency[entry.amount.currency] ?? 0) + entry.amount.amount);
+  }
+  return totals;
+}
+
+/**
+ * Admin: account_credit debts (newest first) and what each debtor still owes.
+ * Query: debtorId ("account:<accountId>" or "user:<userId>"), status.
+ */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status") as AccountCreditStatus | null;
+  try {
+    const debtorId = searchParams.get("debtorId") ?? undefined;
+    const [items, all] = await Promise.all([
+      listAccountCreditEntries({ debtorId, ...(status && STATUSES.includes(status) && { status }) }),
+      listAccountCreditEntries({ debtorId })
+    ]);
+    return NextResponse.json({ data: { items, outstanding: outstandingByDebtor(all) } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to list account credit" } },
+      { status: 500 }
+    );
+  }
+}
+
+/** Admin: mark a booking's invoice paid. Body: { prebookId }. Frees that amount of the debtor's credit. */
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+  const prebookId = typeof body?.prebookId === "string" ? body.prebookId.trim() : "";
+  if (!prebookId) {
+    return NextResponse.json(
+      { error: { message: "prebookId is required" } },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const settled = await settleAccountCredit(prebookId);
+    if (!settled) {
+      return NextResponse.json(
+        { error: { message: "No charged account credit for this booking" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: settled });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to settle account credit" } },
+      { status: 500 }
+    );
+  }
+}
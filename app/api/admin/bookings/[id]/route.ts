@@ -0,0 +1,29 @@
+import { getBookingStore } from "@/bookings";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Support: one ledger booking by ledger id (prebookId) or LiteAPI bookingId. */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const store = getBookingStore();
+    const record =
+      (await store.get(params.id)) ?? (await store.getByBookingId(params.id));
+    if (!record) {
+      return NextResponse.json(
+        { error: { message: "Booking not found" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: record });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load booking" } },
+      { status: 500 }
+    );
+  }
+}
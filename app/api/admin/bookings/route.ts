@@ -0,0 +1,44 @@
+import { getBookingStore, type BookingRecordStatus } from "@/bookings";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+const STATUSES: BookingRecordStatus[] = ["pending", "confirmed", "failed", "cancelled"];
+
+function optionalInt(value: string | null): number | undefined {
+  if (value == null) return undefined;
+  const n = parseInt(value, 10);
+  return Number.isNaN(n) ? undefined : n;
+}
+
+/**
+ * Support: list ledger bookings (newest first).
+ * Query: email, userId, hotelId, bookingId, status, createdFrom, createdTo (ISO), limit, offset.
+ */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status");
+
+  try {
+    const result = await getBookingStore().list({
+      email: searchParams.get("email") ?? undefined,
+      userId: searchParams.get("userId") ?? undefined,
+      hotelId: searchParams.get("hotelId") ?? undefined,
+      bookingId: searchParams.get("bookingId") ?? undefined,
+      status: STATUSES.includes(status as BookingRecordStatus)
+        ? (status as BookingRecordStatus)
+        : undefined,
+      createdFrom: searchParams.get("createdFrom") ?? undefined,
+      createdTo: searchParams.get("createdTo") ?? undefined,
+      limit: optionalInt(searchParams.get("limit")),
+      offset: optionalInt(searchParams.get("offset"))
+    });
+    return NextResponse.json({ data: result.items, total: result.total });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to list bookings" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { getAllCacheStats } from "@/lib/cache";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Diagnostics: per-cache store, size, evictions and hit/miss counters (this server instance's counters).
+ * Caches appear once they have been used since the server started.
+ */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    return NextResponse.json({ data: await getAllCacheStats() });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to read cache stats" } },
+      { status: 500 }
+    );
+  }
+}
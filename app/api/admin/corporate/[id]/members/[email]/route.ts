@@ -0,0 +1,30 @@
+import { deleteCorporateMember, getCorporateMember, syncCorporateMembershipForEmail } from "@/corporate";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Admin: remove a member from the account (their user goes back to a regular member profile). */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; email: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const email = decodeURIComponent(params.email);
+    const member = await getCorporateMember(email);
+    if (!member || member.accountId !== params.id) {
+      return NextResponse.json(
+        { error: { message: "Member not found" } },
+        { status: 404 }
+      );
+    }
+    await deleteCorporateMember(member.email);
+    await syncCorporateMembershipForEmail(member.email);
+    return NextResponse.json({ data: { deleted: true } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to remove member" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { getCorporateAccount, saveCorporateMember, syncCorporateMembershipForEmail } from "@/corporate";
+import { parseMemberFields } from "@/corporate/validate";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Admin: add or update a member. Body: { email, role?: "travel_manager" | "traveller", firstName?, lastName? }. */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseMemberFields(body);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: { message: parsed.message } },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const account = await getCorporateAccount(params.id);
+    if (!account) {
+      return NextResponse.json(
+        { error: { message: "Corporate account not found" } },
+        { status: 404 }
+      );
+    }
+    const member = await saveCorporateMember({ ...parsed.value, accountId: account.id });
+    if (!member) {
+      return NextResponse.json(
+        { error: { message: "This email belongs to another corporate account", code: "MEMBER_IN_OTHER_ACCOUNT" } },
+        { status: 409 }
+      );
+    }
+    await syncCorporateMembershipForEmail(member.email);
+    return NextResponse.json({ data: member });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to save member" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { deleteCorporateAccount, getCorporateAccount, listCorporateMembers } from "@/corporate";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Admin: one corporate account with its members. */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const account = await getCorporateAccount(params.id);
+    if (!account) {
+      return NextResponse.json(
+        { error: { message: "Corporate account not found" } },
+        { status: 404 }
+      );
+    }
+    const members = await listCorporateMembers(account.id);
+    return NextResponse.json({ data: { account, members } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load corporate account" } },
+      { status: 500 }
+    );
+  }
+}
+
+/** Admin: delete a corporate account. Refused while it still has members (remove or deactivate them first). */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const members = await listCorporateMembers(params.id);
+    if (members.length > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            message: `Account still has ${members.length} member(s)`,
+            code: "ACCOUNT_HAS_MEMBERS"
+          }
+        },
+        { status: 409 }
+      );
+    }
+    const deleted = await deleteCorporateAccount(params.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: { message: "Corporate account not found" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: { deleted: true } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to delete corporate account" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { listMailboxMessages } from "@/corporate";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Local mailbox of the default approval notifier (what would have been emailed), newest first.
+ * Query: to? (recipient email), limit? (default 50).
+ */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+  try {
+    const { searchParams } = req.nextUrl;
+    const limit = Math.min(200, Math.max(1, Number(searchParams.get("limit")) || 50));
+    const messages = await listMailboxMessages(searchParams.get("to") ?? undefined);
+    return NextResponse.json({ data: messages.slice(0, limit) });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load mailbox" } },
+      { status: 500 }
+    );
+  }
+}
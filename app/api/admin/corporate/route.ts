@@ -0,0 +1,118 @@
+import {
+  listCorporateAccounts,
+  listCorporateMembers,
+  saveCorporateAccount,
+  syncCorporateMembershipForEmail,
+  type CorporateAccountInput,
+  type TravelPolicy
+} from "@/corporate";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function parsePolicy(value: any): TravelPolicy | string {
+  const policy: TravelPolicy = {};
+  if (value == null) return policy;
+  if (typeof value !== "object") return "policy must be an object";
+  if (value.maxNightlyRate != null) {
+    const { amount, currency } = value.maxNightlyRate ?? {};
+    if (typeof amount !== "number" || !(amount > 0) || typeof currency !== "string" || !/^[A-Z]{3}$/i.test(currency)) {
+      return "policy.maxNightlyRate must be { amount > 0, currency (ISO code) }";
+    }
+    policy.maxNightlyRate = { amount, currency: currency.toUpperCase() };
+  }
+  if (value.maxStarRating != null) {
+    if (typeof value.maxStarRating !== "number" || value.maxStarRating < 1 || value.maxStarRating > 5) {
+      return "policy.maxStarRating must be a number from 1 to 5";
+    }
+    policy.maxStarRating = value.maxStarRating;
+  }
+  return policy;
+}
+
+/** Admin: all corporate accounts. */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    return NextResponse.json({ data: await listCorporateAccounts() });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to list corporate accounts" } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Admin: create or replace a corporate account.
+ * Body: { id, name, active?, billing?: { companyName?, billingEmail?, address?, taxId? },
+ *         policy?: { maxNightlyRate?: { amount, currency }, maxStarRating? } }.
+ */
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const id = typeof body?.id === "string" ? body.id.trim() : "";
+  if (!/^[a-z0-9_-]+$/i.test(id)) {
+    return NextResponse.json(
+      { error: { message: "id is required (letters, digits, _ or -)" } },
+      { status: 400 }
+    );
+  }
+  const name = optionalText(body.name);
+  if (!name) {
+    return NextResponse.json(
+      { error: { message: "name is required" } },
+      { status: 400 }
+    );
+  }
+  const policy = parsePolicy(body.policy);
+  if (typeof policy === "string") {
+    return NextResponse.json(
+      { error: { message: policy } },
+      { status: 400 }
+    );
+  }
+
+  const account: CorporateAccountInput = {
+    id,
+    name,
+    active: body.active !== false,
+    billing: {
+      companyName: optionalText(body.billing?.companyName) ?? name,
+      billingEmail: optionalText(body.billing?.billingEmail),
+      address: optionalText(body.billing?.address),
+      taxId: optionalText(body.billing?.taxId)
+    },
+    policy
+  };
+
+  try {
+    const saved = await saveCorporateAccount(account);
+    // Activating or deactivating changes every member's user type; apply it without waiting for their next sign-in.
+    for (const member of await listCorporateMembers(saved.id)) {
+      await syncCorporateMembershipForEmail(member.email).catch((err) =>
+        console.error("Corporate: failed to sync member", member.email, err)
+      );
+    }
+    return NextResponse.json({ data: saved });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to save corporate account" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { deletePromoRule, getPromoRule, listPromoRedemptions } from "@/promo";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Admin: one promo rule with its redemptions. */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const rule = await getPromoRule(params.code);
+    if (!rule) {
+      return NextResponse.json(
+        { error: { message: "Promo rule not found" } },
+        { status: 404 }
+      );
+    }
+    const redemptions = await listPromoRedemptions(rule.code);
+    return NextResponse.json({ data: { rule, redemptions } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load promo rule" } },
+      { status: 500 }
+    );
+  }
+}
+
+/** Admin: delete a promo rule. Existing redemptions are kept for the audit trail. */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const deleted = await deletePromoRule(params.code);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: { message: "Promo rule not found" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: { deleted: true } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to delete promo rule" } },
+      { status: 500 }
+    );
+  }
+}
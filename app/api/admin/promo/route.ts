@@ -0,0 +1,64 @@
+import { listPromoRules, savePromoRule, type PromoRule } from "@/promo";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Admin: list promo rules (seeded with SAVE10 / FLAT20 on first use). */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    return NextResponse.json({ data: await listPromoRules() });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to list promo rules" } },
+      { status: 500 }
+    );
+  }
+}
+
+function validateRule(body: any): string | null {
+  if (typeof body?.code !== "string" || !body.code.trim()) return "code is required";
+  const d = body?.discount;
+  if (d?.type === "percent") {
+    if (typeof d.percent !== "number" || d.percent <= 0 || d.percent > 100) {
+      return "discount.percent must be between 0 and 100";
+    }
+  } else if (d?.type === "fixed") {
+    if (typeof d.amount !== "number" || d.amount <= 0 || typeof d.currency !== "string") {
+      return "discount.amount and discount.currency are required for fixed discounts";
+    }
+  } else {
+    return "discount.type must be percent or fixed";
+  }
+  return null;
+}
+
+/** Admin: create or replace a promo rule (keyed by code). */
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  let body: Omit<PromoRule, "createdAt" | "updatedAt">;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const invalid = validateRule(body);
+  if (invalid) {
+    return NextResponse.json({ error: { message: invalid } }, { status: 400 });
+  }
+
+  try {
+    const rule = await savePromoRule({ ...body, active: body.active !== false });
+    return NextResponse.json({ data: rule });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to save promo rule" } },
+      { status: 500 }
+    );
+  }
+}
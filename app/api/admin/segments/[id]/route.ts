@@ -0,0 +1,64 @@
+import { deleteSegment, getSegment, listSegmentRules } from "@/segments";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Admin: one segment with the rules that point at it. */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const segment = await getSegment(params.id);
+    if (!segment) {
+      return NextResponse.json(
+        { error: { message: "Segment not found" } },
+        { status: 404 }
+      );
+    }
+    const rules = (await listSegmentRules()).filter((r) => r.segmentId === segment.id);
+    return NextResponse.json({ data: { segment, rules } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load segment" } },
+      { status: 500 }
+    );
+  }
+}
+
+/** Admin: delete a segment. Refused while rules still point at it. */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const inUse = (await listSegmentRules()).filter((r) => r.segmentId === params.id);
+    if (inUse.length > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            message: `Segment is used by rules: ${inUse.map((r) => r.id).join(", ")}`,
+            code: "SEGMENT_IN_USE"
+          }
+        },
+        { status: 409 }
+      );
+    }
+    const deleted = await deleteSegment(params.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: { message: "Segment not found" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: { deleted: true } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to delete segment" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { deriveUserTypeFromEmail } from "@/auth";
+import type { LoyaltyLevel, UserType } from "@/auth/types";
+import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
+import { getCachedHotelDetails } from "@/lib/liteapi";
+import { explainMarginForProfile } from "@/lib/margin-resolver";
+import type { MarginContext } from "@/segments";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+const USER_TYPES: UserType[] = ["member", "employee", "b2b"];
+const LOYALTY_LEVELS: LoyaltyLevel[] = ["explorer", "adventurer", "voyager"];
+
+/**
+ * Admin: "what margin would this user get for this hotel?" without logging in as them.
+ * Body: { email?, userType?, loyaltyLevel?, accountId?, hotelId?, channel? ("cug" default), at? (ISO date) }.
+ * userType defaults from the email domain, as at login; guests/b2c always get the LiteAPI account default.
+ * Hotel context for margin overrides: hotelId, countryCode, city, starRating, checkin, checkout (YYYY-MM-DD).
+ * Country, city and stars not given are looked up from the hotel's details, as the rates routes do.
+ */
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const email = typeof body?.email === "string" ? body.email.trim().toLowerCase() : undefined;
+  const userType: UserType = USER_TYPES.includes(body?.userType)
+    ? body.userType
+    : email
+      ? deriveUserTypeFromEmail(email)
+      : "member";
+  const loyaltyLevel: LoyaltyLevel = LOYALTY_LEVELS.includes(body?.loyaltyLevel) ? body.loyaltyLevel : "explorer";
+  const accountId = typeof body?.accountId === "string" && body.accountId.trim() ? body.accountId.trim() : undefined;
+  const channel = body?.channel === "b2c" ? "b2c" : "cug";
+  const at = typeof body?.at === "string" && !Number.isNaN(Date.parse(body.at)) ? new Date(body.at) : new Date();
+  const str = (v: unknown) => (typeof v === "string" && v.trim() !== "" ? v.trim() : undefined);
+  const hotelId = str(body?.hotelId);
+  const context: MarginContext = {
+    hotelId,
+    countryCode: str(body?.countryCode)?.toUpperCase(),
+    city: str(body?.city),
+    starRating: typeof body?.starRating === "number" ? body.starRating : undefined,
+    checkin: str(body?.checkin),
+    checkout: str(body?.checkout)
+  };
+
+  const profile = { userType, loyaltyLevel, email, accountId };
+  try {
+    if (hotelId && (context.countryCode == null || context.city == null || context.starRating == null)) {
+      const details = await getCachedHotelDetails(hotelId, undefined, getLiteApiKeyForChannel(channel));
+      context.countryCode ??= details?.countryCode;
+      context.city ??= details?.city;
+      context.starRating ??= details?.starRating;
+    }
+    const { margin, resolution, override } = await explainMarginForProfile(profile, channel, at, context);
+    return NextResponse.json({
+      data: {
+        input: { ...profile, channel, ...context, at: at.toISOString() },
+        margin,
+        segment: resolution?.segment ?? null,
+        rule: resolution?.rule ?? null,
+        override
+      }
+    });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to resolve margin" } },
+      { status: 500 }
+    );
+  }
+}
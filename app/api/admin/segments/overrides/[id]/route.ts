@@ -0,0 +1,51 @@
+import { deleteMarginOverride, getMarginOverride } from "@/segments";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Admin: one margin override. */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const override = await getMarginOverride(params.id);
+    if (!override) {
+      return NextResponse.json(
+        { error: { message: "Margin override not found" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: override });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load margin override" } },
+      { status: 500 }
+    );
+  }
+}
+
+/** Admin: delete a margin override. */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const deleted = await deleteMarginOverride(params.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: { message: "Margin override not found" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: { deleted: true } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to delete margin override" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  listMarginOverrides,
+  saveMarginOverride,
+  type MarginOverride,
+  type MarginOverrideMatch
+} from "@/segments";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.filter((v): v is string => typeof v === "string" && v.trim() !== "").map((v) => v.trim());
+  return list.length > 0 ? list : undefined;
+}
+
+function parseMatch(value: any): MarginOverrideMatch | string {
+  const match: MarginOverrideMatch = {};
+  const hotelIds = stringList(value?.hotelIds);
+  const countryCodes = stringList(value?.countryCodes)?.map((c) => c.toUpperCase());
+  const cities = stringList(value?.cities);
+  if (hotelIds) match.hotelIds = hotelIds;
+  if (countryCodes) {
+    if (countryCodes.some((c) => !/^[A-Z]{2}$/.test(c))) return "match.countryCodes must be 2-letter codes";
+    match.countryCodes = countryCodes;
+  }
+  if (cities) match.cities = cities;
+  if (Array.isArray(value?.starRatings)) {
+    const stars = value.starRatings.filter((n: unknown) => typeof n === "number" && n >= 1 && n <= 5);
+    if (stars.length !== value.starRatings.length) return "match.starRatings must be numbers from 1 to 5";
+    if (stars.length > 0) match.starRatings = stars;
+  }
+  for (const key of ["stayFrom", "stayTo"] as const) {
+    if (value?.[key] == null || value[key] === "") continue;
+    if (typeof value[key] !== "string" || !DATE_RE.test(value[key])) return `match.${key} must be YYYY-MM-DD`;
+    match[key] = value[key];
+  }
+  if (match.stayFrom && match.stayTo && match.stayFrom > match.stayTo) {
+    return "match.stayFrom must not be after match.stayTo";
+  }
+  if (Object.keys(match).length === 0) return "match must set at least one criterion";
+  return match;
+}
+
+/** Admin: margin overrides in evaluation order (priority ascending). */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    return NextResponse.json({ data: await listMarginOverrides() });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to list margin overrides" } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Admin: create or replace a margin override.
+ * Body: { id?, name?, priority, match: { hotelIds?, countryCodes?, cities?, starRatings?, stayFrom?, stayTo? },
+ * margin? | marginDelta?, additionalMarkup?, channels?, segmentIds?, active? }.
+ */
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const badRequest = (message: string) =>
+    NextResponse.json({ error: { message } }, { status: 400 });
+
+  if (typeof body?.priority !== "number" || !Number.isFinite(body.priority)) {
+    return badRequest("priority must be a number (lower runs first)");
+  }
+  const match = parseMatch(body.match);
+  if (typeof match === "string") return badRequest(match);
+  const isNum = (v: unknown) => typeof v === "number" && Number.isFinite(v);
+  if (body.margin == null && body.marginDelta == null && body.additionalMarkup == null) {
+    return badRequest("set margin, marginDelta or additionalMarkup");
+  }
+  if (body.margin != null && body.marginDelta != null) {
+    return badRequest("set either margin or marginDelta, not both");
+  }
+  for (const key of ["margin", "marginDelta", "additionalMarkup"]) {
+    if (body[key] != null && !isNum(body[key])) return badRequest(`${key} must be a number`);
+  }
+  const channels = stringList(body.channels);
+  if (channels?.some((c) => c !== "b2c" && c !== "cug")) return badRequest("channels must be b2c and/or cug");
+  const segmentIds = stringList(body.segmentIds);
+
+  const override: Omit<MarginOverride, "createdAt" | "updatedAt"> = {
+    id: typeof body.id === "string" && body.id.trim() ? body.id.trim() : randomUUID(),
+    ...(typeof body.name === "string" && body.name.trim() && { name: body.name.trim() }),
+    priority: body.priority,
+    active: body.active !== false,
+    match,
+    ...(body.margin != null && { margin: body.margin }),
+    ...(body.marginDelta != null && { marginDelta: body.marginDelta }),
+    ...(body.additionalMarkup != null && { additionalMarkup: body.additionalMarkup }),
+    ...(channels && { channels: channels as ("b2c" | "cug")[] }),
+    ...(segmentIds && { segmentIds })
+  };
+
+  try {
+    return NextResponse.json({ data: await saveMarginOverride(override) });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to save margin override" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { isPaymentMode } from "@/checkout";
+import { listSegmentRules, listSegments, saveSegment, type Segment } from "@/segments";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Ids that collide with the static routes under /api/admin/segments. */
+const RESERVED_IDS = ["rules", "overrides", "dry-run"];
+
+function optionalNumber(value: unknown): number | null | undefined {
+  if (value === null) return null;
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  return undefined;
+}
+
+/** Pay-later modes for the segment; undefined when the value is not a list of known modes (pay_now is implicit). */
+function parsePaymentModes(value: unknown): Segment["paymentModes"] | undefined {
+  if (value == null) return [];
+  if (!Array.isArray(value) || !value.every((m) => isPaymentMode(m) && m !== "pay_now")) return undefined;
+  return Array.from(new Set(value)) as Segment["paymentModes"];
+}
+
+/** Credit limit for account_credit; null when absent, undefined when invalid. */
+function parseCreditLimit(value: unknown): Segment["creditLimit"] | null | undefined {
+  if (value == null) return null;
+  const limit = value as { amount?: unknown; currency?: unknown };
+  if (typeof limit.amount !== "number" || !(limit.amount > 0) || typeof limit.currency !== "string") return undefined;
+  const currency = limit.currency.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(currency) ? { amount: limit.amount, currency } : undefined;
+}
+
+/** Admin: all segments and rules (rules in evaluation order). */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const [segments, rules] = await Promise.all([listSegments(), listSegmentRules()]);
+    return NextResponse.json({ data: { segments, rules } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to list segments" } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Admin: create or replace a segment.
+ * Body: { id, name, effectiveMargin, additionalMarkup?, displayDiscountPercent?, isCug?, paymentModes?, creditLimit? }
+ * (numbers or null; paymentModes lists "account_credit" and/or "pay_at_property"; creditLimit is { amount, currency }
+ * and is required for account_credit to be offered).
+ */
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const id = typeof body?.id === "string" ? body.id.trim() : "";
+  if (!/^[a-z0-9_-]+$/i.test(id) || RESERVED_IDS.includes(id)) {
+    return NextResponse.json(
+      { error: { message: "id is required (letters, digits, _ or -)" } },
+      { status: 400 }
+    );
+  }
+  const effectiveMargin = optionalNumber(body.effectiveMargin);
+  const additionalMarkup = optionalNumber(body.additionalMarkup ?? null);
+  const displayDiscountPercent = optionalNumber(body.displayDiscountPercent ?? null);
+  if (effectiveMargin === undefined || additionalMarkup === undefined || displayDiscountPercent === undefined) {
+    return NextResponse.json(
+      { error: { message: "effectiveMargin is required; margins and percents must be numbers or null" } },
+      { status: 400 }
+    );
+  }
+
+  const paymentModes = parsePaymentModes(body.paymentModes);
+  if (paymentModes === undefined) {
+    return NextResponse.json(
+      { error: { message: 'paymentModes must be a list of "account_credit" and "pay_at_property"' } },
+      { status: 400 }
+    );
+  }
+
+  const creditLimit = parseCreditLimit(body.creditLimit);
+  if (creditLimit === undefined) {
+    return NextResponse.json(
+      { error: { message: "creditLimit must be { amount, currency } with a positive amount, or null" } },
+      { status: 400 }
+    );
+  }
+
+  const segment: Omit<Segment, "createdAt" | "updatedAt"> = {
+    id,
+    name: typeof body.name === "string" && body.name.trim() ? body.name.trim() : id,
+    effectiveMargin,
+    additionalMarkup,
+    displayDiscountPercent,
+    isCug: body.isCug !== false,
+    ...(paymentModes.length > 0 && { paymentModes }),
+    ...(creditLimit && { creditLimit })
+  };
+
+  try {
+    return NextResponse.json({ data: await saveSegment(segment) });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to save segment" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { deleteSegmentRule, getSegmentRule } from "@/segments";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Admin: one segment rule. */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const rule = await getSegmentRule(params.id);
+    if (!rule) {
+      return NextResponse.json(
+        { error: { message: "Segment rule not found" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: rule });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load segment rule" } },
+      { status: 500 }
+    );
+  }
+}
+
+/** Admin: delete a segment rule. */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const deleted = await deleteSegmentRule(params.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: { message: "Segment rule not found" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: { deleted: true } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to delete segment rule" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import type { LoyaltyLevel, UserType } from "@/auth/types";
+import {
+  getSegment,
+  listSegmentRules,
+  saveSegmentRule,
+  type SegmentRule,
+  type SegmentRuleMatch
+} from "@/segments";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+const USER_TYPES: UserType[] = ["member", "employee", "b2b"];
+const LOYALTY_LEVELS: LoyaltyLevel[] = ["explorer", "adventurer", "voyager"];
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.filter((v): v is string => typeof v === "string" && v.trim() !== "").map((v) => v.trim());
+  return list.length > 0 ? list : undefined;
+}
+
+function parseMatch(value: any): SegmentRuleMatch | string {
+  switch (value?.type) {
+    case "b2b_account": {
+      const accountIds = stringList(value.accountIds);
+      return { type: "b2b_account", ...(accountIds && { accountIds }) };
+    }
+    case "email_domain": {
+      const domains = stringList(value.domains)?.map((d) => d.toLowerCase().replace(/^@/, ""));
+      return domains ? { type: "email_domain", domains } : "match.domains must list at least one domain";
+    }
+    case "user_type_loyalty": {
+      if (!USER_TYPES.includes(value.userType)) return `match.userType must be one of ${USER_TYPES.join(", ")}`;
+      const loyaltyLevels = stringList(value.loyaltyLevels);
+      if (loyaltyLevels?.some((l) => !LOYALTY_LEVELS.includes(l as LoyaltyLevel))) {
+        return `match.loyaltyLevels must be among ${LOYALTY_LEVELS.join(", ")}`;
+      }
+      return {
+        type: "user_type_loyalty",
+        userType: value.userType,
+        ...(loyaltyLevels && { loyaltyLevels: loyaltyLevels as LoyaltyLevel[] })
+      };
+    }
+    case "default":
+      return { type: "default" };
+    default:
+      return "match.type must be b2b_account, email_domain, user_type_loyalty or default";
+  }
+}
+
+function optionalDate(value: unknown): string | undefined | null {
+  if (value == null || value === "") return undefined;
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) return null;
+  return new Date(value).toISOString();
+}
+
+/** Admin: segment rules in evaluation order (priority ascending). */
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    return NextResponse.json({ data: await listSegmentRules() });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to list segment rules" } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Admin: create or replace a segment rule.
+ * Body: { id?, segmentId, priority, match: { type, ... }, active?, effectiveFrom?, effectiveTo?, description? }.
+ */
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const badRequest = (message: string) =>
+    NextResponse.json({ error: { message } }, { status: 400 });
+
+  const segmentId = typeof body?.segmentId === "string" ? body.segmentId.trim() : "";
+  if (!segmentId) return badRequest("segmentId is required");
+  if (typeof body.priority !== "number" || !Number.isFinite(body.priority)) {
+    return badRequest("priority must be a number (lower runs first)");
+  }
+  const match = parseMatch(body.match);
+  if (typeof match === "string") return badRequest(match);
+  const effectiveFrom = optionalDate(body.effectiveFrom);
+  const effectiveTo = optionalDate(body.effectiveTo);
+  if (effectiveFrom === null || effectiveTo === null) {
+    return badRequest("effectiveFrom and effectiveTo must be ISO dates");
+  }
+  if (effectiveFrom && effectiveTo && effectiveFrom >= effectiveTo) {
+    return badRequest("effectiveFrom must be before effectiveTo");
+  }
+
+  const rule: Omit<SegmentRule, "createdAt" | "updatedAt"> = {
+    id: typeof body.id === "string" && body.id.trim() ? body.id.trim() : randomUUID(),
+    segmentId,
+    priority: body.priority,
+    match,
+    active: body.active !== false,
+    ...(effectiveFrom && { effectiveFrom }),
+    ...(effectiveTo && { effectiveTo }),
+    ...(typeof body.description === "string" && body.description.trim() && { description: body.description.trim() })
+  };
+
+  try {
+    if (!(await getSegment(segmentId))) return badRequest(`Segment ${segmentId} does not exist`);
+    return NextResponse.json({ data: await saveSegmentRule(rule) });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to save segment rule" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { getUserById, listSessionsForUser, revokeAllSessionsForUser } from "@/auth";
+import { adminUnauthorizedResponse, isAdminRequest } from "@/lib/admin-auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Admin: a user's sessions, newest first (ended ones included). */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const user = await getUserById(params.id);
+    if (!user) {
+      return NextResponse.json(
+        { error: { message: "User not found" } },
+        { status: 404 }
+      );
+    }
+    const sessions = await listSessionsForUser(user.userId);
+    return NextResponse.json({ data: { sessions } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load sessions" } },
+      { status: 500 }
+    );
+  }
+}
+
+/** Admin: revoke all of a user's sessions (e.g. after a demotion, so the old profile stops being honoured). */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+  try {
+    const user = await getUserById(params.id);
+    if (!user) {
+      return NextResponse.json(
+        { error: { message: "User not found" } },
+        { status: 404 }
+      );
+    }
+    const revoked = await revokeAllSessionsForUser(user.userId, "admin");
+    return NextResponse.json({ data: { revoked } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to revoke sessions" } },
+      { status: 500 }
+    );
+  }
+}
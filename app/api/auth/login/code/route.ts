@@ -0,0 +1,54 @@
+import { isValidEmail, issueLoginCode, normalizeEmail } from "@/auth";
+import { getClientIp, takeRateLimit } from "@/lib/rate-limit";
+import { NextRequest, NextResponse } from "next/server";
+
+const WINDOW_MS = 10 * 60 * 1000;
+const EMAIL_LIMIT = { limit: 3, windowMs: WINDOW_MS };
+const IP_LIMIT = { limit: 10, windowMs: WINDOW_MS };
+
+/**
+ * Email a one-time sign-in code. Body: { email }.
+ * Always answers the same way for known and unknown emails (the code also creates the account on first use).
+ */
+export async function POST(req: NextRequest) {
+  let body: { email?: string } = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const email = typeof body.email === "string" ? normalizeEmail(body.email) : "";
+  if (!isValidEmail(email)) {
+    return NextResponse.json(
+      { error: { message: "Valid email is required" } },
+      { status: 400 }
+    );
+  }
+
+  const limits = [
+    takeRateLimit(`login-code:email:${email}`, EMAIL_LIMIT),
+    takeRateLimit(`login-code:ip:${getClientIp(req)}`, IP_LIMIT)
+  ];
+  const blocked = limits.find((l) => !l.allowed);
+  if (blocked) {
+    return NextResponse.json(
+      { error: { message: "Too many code requests. Please try again later.", code: "RATE_LIMITED" } },
+      { status: 429, headers: { "Retry-After": String(blocked.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    const { expiresAt } = await issueLoginCode(email);
+    return NextResponse.json({ ok: true, expiresAt });
+  } catch (err: any) {
+    console.error("Auth: failed to send login code", email, err);
+    return NextResponse.json(
+      { error: { message: "We couldn't send a sign-in code right now.", code: "LOGIN_CODE_UNAVAILABLE" } },
+      { status: 503 }
+    );
+  }
+}
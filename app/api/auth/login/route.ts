@@ -1,24 +1,26 @@
 import {
-  buildUserProfile,
+  createIdentityForUser,
+  normalizeEmail,
   setIdentityCookie,
-  deriveUserTypeFromEmail
-} from "@/auth/server";
-import type { IdentityBlob, Session, UserType, LoyaltyLevel } from "@/auth/types";
+  signInWithCode,
+  signInWithPassword
+} from "@/auth";
+import { refreshUserLoyalty } from "@/bookings";
+import { syncCorporateMembership } from "@/corporate";
+import { getClientIp, resetRateLimit, takeRateLimit } from "@/lib/rate-limit";
 import { NextRequest, NextResponse } from "next/server";
 
-const USER_TYPES: UserType[] = ["member", "employee", "b2b"];
-const LOYALTY_LEVELS: LoyaltyLevel[] = ["explorer", "adventurer", "voyager"];
+const WINDOW_MS = 15 * 60 * 1000;
+/** Per email: stops password guessing against one account. Per IP: stops spraying many accounts. */
+const EMAIL_LIMIT = { limit: 5, windowMs: WINDOW_MS };
+const IP_LIMIT = { limit: 30, windowMs: WINDOW_MS };
 
+/**
+ * Sign in with { email, password } or { email, code } (code from /api/auth/login/code).
+ * User type and loyalty come from the stored account, never from the request body.
+ */
 export async function POST(req: NextRequest) {
-  let body: {
-    email?: string;
-    password?: string;
-    displayName?: string;
-    phone?: string;
-    userType?: string;
-    loyaltyLevel?: string;
-    bookingsCount?: number;
-  } = {};
+  let body: { email?: string; password?: string; code?: string } = {};
   try {
     body = await req.json();
   } catch {
@@ -28,57 +30,65 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+  const email = typeof body.email === "string" ? normalizeEmail(body.email) : "";
+  const password = typeof body.password === "string" ? body.password : "";
+  const code = typeof body.code === "string" ? body.code.trim() : "";
   if (!email || !email.includes("@")) {
     return NextResponse.json(
       { error: { message: "Valid email is required" } },
       { status: 400 }
     );
   }
+  if (!password && !code) {
+    return NextResponse.json(
+      { error: { message: "password or code is required" } },
+      { status: 400 }
+    );
+  }
 
-  // Placeholder: no password check or DB; we accept any email and create a profile.
-  const userType = USER_TYPES.includes(body.userType as UserType)
-    ? (body.userType as UserType)
-    : deriveUserTypeFromEmail(email);
-  const loyaltyLevel = LOYALTY_LEVELS.includes(body.loyaltyLevel as LoyaltyLevel)
-    ? (body.loyaltyLevel as LoyaltyLevel)
-    : "explorer";
-  const bookingsCount =
-    typeof body.bookingsCount === "number" && body.bookingsCount >= 0
-      ? body.bookingsCount
-      : undefined;
-
-  const userId = `standalone-${email.replace(/[^a-z0-9]/gi, "-")}-${Date.now()}`;
-  const now = new Date().toISOString();
-  const session: Session = {
-    sessionId: `sess-${userId}-${now}`,
-    createdAt: now,
-    expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
-  };
-  const profile = buildUserProfile({
-    userId,
-    email,
-    displayName: typeof body.displayName === "string" ? body.displayName : undefined,
-    phone: typeof body.phone === "string" ? body.phone.trim() || undefined : undefined,
-    userType,
-    loyaltyLevel,
-    bookingsCount
-  });
-  const identity: IdentityBlob = { session, profile };
+  const emailKey = `login:email:${email}`;
+  const limits = [takeRateLimit(emailKey, EMAIL_LIMIT), takeRateLimit(`login:ip:${getClientIp(req)}`, IP_LIMIT)];
+  const blocked = limits.find((l) => !l.allowed);
+  if (blocked) {
+    return NextResponse.json(
+      { error: { message: "Too many sign-in attempts. Please try again later.", code: "RATE_LIMITED" } },
+      { status: 429, headers: { "Retry-After": String(blocked.retryAfterSeconds) } }
+    );
+  }
 
-  const { name, value, options } = setIdentityCookie(identity);
-  const res = NextResponse.json({
-    ok: true,
-    profile: {
-      userId: profile.userId,
-      email: profile.email,
-      displayName: profile.displayName,
-      phone: profile.phone,
-      userType: profile.userType,
-      loyaltyLevel: profile.loyaltyLevel,
-      bookingsCount: profile.bookingsCount
+  try {
+    const result = code ? await signInWithCode(email, code) : await signInWithPassword(email, password);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: { message: result.message, code: result.code } },
+        { status: 401 }
+      );
     }
-  });
-  res.cookies.set(name, value, options);
-  return res;
+    resetRateLimit(emailKey);
+
+    // Loyalty tier from the ledger as of now (bookings may have been confirmed or cancelled since the last sign-in)
+    let user =
+      (await refreshUserLoyalty(result.user.userId).catch((err) => {
+        console.error("Loyalty: failed to refresh on sign-in", result.user.userId, err);
+        return null;
+      })) ?? result.user;
+    // Corporate membership (b2b type and accountId) as currently configured for this email
+    user = await syncCorporateMembership(user).catch((err) => {
+      console.error("Corporate: failed to sync membership on sign-in", user.userId, err);
+      return user;
+    });
+    const identity = await createIdentityForUser(user, {
+      userAgent: req.headers.get("user-agent") ?? undefined,
+      ip: getClientIp(req)
+    });
+    const { name, value, options } = setIdentityCookie(identity);
+    const res = NextResponse.json({ ok: true, profile: identity.profile });
+    res.cookies.set(name, value, options);
+    return res;
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to sign in" } },
+      { status: 500 }
+    );
+  }
 }
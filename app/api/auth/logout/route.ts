@@ -1,7 +1,14 @@
-import { clearIdentityCookie } from "@/auth/server";
-import { NextResponse } from "next/server";
+import { clearIdentityCookie, getCookieIdentity, revokeSession } from "@/auth";
+import { NextRequest, NextResponse } from "next/server";
 
-export async function POST() {
+/** End the current session server-side (so a copied cookie stops working) and clear the cookie. */
+export async function POST(req: NextRequest) {
+  const identity = getCookieIdentity(req);
+  if (identity) {
+    await revokeSession(identity.session.sessionId, "logout").catch((err) =>
+      console.error("Auth: failed to revoke session on logout", identity.session.sessionId, err)
+    );
+  }
   const { name, value, options } = clearIdentityCookie();
   const res = NextResponse.json({ ok: true });
   res.cookies.set(name, value, options);
@@ -0,0 +1,58 @@
+import { createIdentityForUser, registerWithPassword, setIdentityCookie } from "@/auth";
+import { getClientIp, takeRateLimit } from "@/lib/rate-limit";
+import { NextRequest, NextResponse } from "next/server";
+
+const IP_LIMIT = { limit: 10, windowMs: 60 * 60 * 1000 };
+
+/**
+ * Create a password account and sign in. Body: { email, password, displayName?, phone? }.
+ * New accounts start as member / explorer; the employee type needs a verified email (sign in once with a code).
+ */
+export async function POST(req: NextRequest) {
+  let body: { email?: string; password?: string; displayName?: string; phone?: string } = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const limit = takeRateLimit(`register:ip:${getClientIp(req)}`, IP_LIMIT);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: { message: "Too many sign-ups from this network. Please try again later.", code: "RATE_LIMITED" } },
+      { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+    );
+  }
+
+  try {
+    const result = await registerWithPassword({
+      email: typeof body.email === "string" ? body.email : "",
+      password: typeof body.password === "string" ? body.password : "",
+      displayName: typeof body.displayName === "string" ? body.displayName.trim() || undefined : undefined,
+      phone: typeof body.phone === "string" ? body.phone.trim() || undefined : undefined
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: { message: result.message, code: result.code } },
+        { status: result.code === "EMAIL_TAKEN" ? 409 : 400 }
+      );
+    }
+
+    const identity = await createIdentityForUser(result.user, {
+      userAgent: req.headers.get("user-agent") ?? undefined,
+      ip: getClientIp(req)
+    });
+    const { name, value, options } = setIdentityCookie(identity);
+    const res = NextResponse.json({ ok: true, profile: identity.profile });
+    res.cookies.set(name, value, options);
+    return res;
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to create account" } },
+      { status: 500 }
+    );
+  }
+}
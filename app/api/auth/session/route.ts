@@ -1,16 +1,22 @@
-import { getChannelFromRequest } from "@/auth";
-import { getIdentityFromRequest } from "@/auth/server";
+import {
+  clearIdentityCookie,
+  createServerAuthAdapter,
+  getChannelFromRequest,
+  getCookieIdentity
+} from "@/auth";
 import { getMarginForRequest } from "@/lib/margin-resolver";
 import { NextRequest, NextResponse } from "next/server";
 
 /**
  * Returns current session, user profile, and promo config (Phase 4).
  * Client uses this to hydrate auth state and know whether to show promo (CUG + displayDiscountPercent).
+ * The profile is rebuilt from the user store; a cookie whose session ended (logout, revoke, expiry)
+ * or whose account no longer exists is cleared.
  */
 export async function GET(req: NextRequest) {
-  const identity = getIdentityFromRequest(req);
-  const channel = getChannelFromRequest(req);
-  const marginResult = getMarginForRequest(req, channel);
+  const identity = await createServerAuthAdapter(req).getIdentity();
+  const channel = await getChannelFromRequest(req);
+  const marginResult = await getMarginForRequest(req, channel);
 
   const promoConfig = {
     isCug: channel === "cug",
@@ -18,7 +24,12 @@ export async function GET(req: NextRequest) {
   };
 
   if (!identity) {
-    return NextResponse.json({ identity: null, promoConfig: { isCug: false, displayDiscountPercent: undefined } });
+    const res = NextResponse.json({ identity: null, promoConfig: { isCug: false, displayDiscountPercent: undefined } });
+    if (getCookieIdentity(req)) {
+      const { name, value, options } = clearIdentityCookie();
+      res.cookies.set(name, value, options);
+    }
+    return res;
   }
   return NextResponse.json({
     identity: {
@@ -0,0 +1,29 @@
+import { clearIdentityCookie, getIdentityFromRequest, revokeAllSessionsForUser } from "@/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Sign out everywhere: revoke every session of the signed-in user (this one included) and clear the cookie.
+ * Returns { data: { revoked } } with the number of sessions ended.
+ */
+export async function POST(req: NextRequest) {
+  const identity = await getIdentityFromRequest(req);
+  if (!identity) {
+    return NextResponse.json(
+      { error: { message: "Not signed in" } },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const revoked = await revokeAllSessionsForUser(identity.profile.userId, "revoke_all");
+    const { name, value, options } = clearIdentityCookie();
+    const res = NextResponse.json({ data: { revoked } });
+    res.cookies.set(name, value, options);
+    return res;
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to revoke sessions" } },
+      { status: 500 }
+    );
+  }
+}
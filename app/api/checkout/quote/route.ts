@@ -0,0 +1,144 @@
+import { createServerAuthAdapter } from "@/auth";
+import { getPrebookSnapshot, getPrebookStay, isPrebookExpired } from "@/bookings";
+import {
+  buildCheckoutQuote,
+  checkAccountCredit,
+  getAvailablePaymentModes,
+  getQuotePriceChange,
+  isPaymentMode
+} from "@/checkout";
+import {
+  checkStayAgainstPolicy,
+  findApprovalForPrebook,
+  getCorporateContext,
+  getPolicyStarRating,
+  isApprovalRequired
+} from "@/corporate";
+import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
+import { resolveSegmentForProfile } from "@/lib/margin-resolver";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Checkout quote.
+ * Body: { prebookId, offerId?, promoCode?, paymentMode?, shownPrice? }. Returns { data: { quote, token } }: the itemised price
+ * (base, included taxes, commission, local fees, discount, pay now) computed from our stored prebook.
+ * The checkout page renders `quote` and the confirmation page sends `token` to /api/rates/book.
+ * The quote is priced for `paymentMode` (default pay_now); promo codes only lower account_credit bookings.
+ * A refused promo code is not an error: the quote comes back without a discount and quote.promo explains why.
+ * With shownPrice (the hotel page's list price, or the previous prebook's price after a re-prebook),
+ * `priceChange` says how the prebook price differs from it. quote.expiresAt ends with the prebook's price hold.
+ * `paymentModes` lists how this user may pay (pay_now first; pay-later modes per segment and rate).
+ * B2B: `corporate` says whether the prebooked stay is in policy and whether the traveller must request approval
+ * (POST /api/corporate/approvals) instead of paying.
+ */
+export async function POST(req: NextRequest) {
+  let body: {
+    prebookId?: string;
+    offerId?: string;
+    promoCode?: string;
+    paymentMode?: string;
+    shownPrice?: { amount?: unknown; currency?: unknown };
+  } = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const prebookId = typeof body?.prebookId === "string" ? body.prebookId : "";
+  if (!prebookId) {
+    return NextResponse.json(
+      { error: { message: "prebookId is required" } },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const prebook = await getPrebookSnapshot(prebookId);
+    if (!prebook || (body.offerId && prebook.offerId && prebook.offerId !== body.offerId)) {
+      return NextResponse.json(
+        {
+          error: {
+            message: "Your price lock has expired. Please go back and select the room again.",
+            code: "PREBOOK_NOT_FOUND"
+          }
+        },
+        { status: 404 }
+      );
+    }
+
+    if (isPrebookExpired(prebook)) {
+      return NextResponse.json(
+        {
+          error: {
+            message: "Your price lock has expired. Please select the room again.",
+            code: "PREBOOK_EXPIRED"
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    const shown = body.shownPrice;
+    const priceChange = getQuotePriceChange(
+      typeof shown?.amount === "number" && typeof shown.currency === "string"
+        ? { amount: shown.amount, currency: shown.currency }
+        : undefined,
+      prebook
+    );
+
+    const profile = await createServerAuthAdapter(req).getUserProfile();
+    const signed = await buildCheckoutQuote(prebook, {
+      promoCode: typeof body.promoCode === "string" ? body.promoCode : undefined,
+      profile,
+      paymentMode: isPaymentMode(body.paymentMode) ? body.paymentMode : "pay_now"
+    });
+
+    const segment = await resolveSegmentForProfile(profile, prebook.channel);
+    let paymentModes = getAvailablePaymentModes({ channel: prebook.channel, segment, prebook });
+    // Only offer account credit while this booking still fits under the limit (booking re-checks it)
+    if (paymentModes.includes("account_credit") && profile && segment?.creditLimit) {
+      const credit = await checkAccountCredit({
+        profile,
+        limit: segment.creditLimit,
+        amount: { amount: signed.quote.payNow, currency: signed.quote.currency },
+        excludePrebookId: prebookId
+      });
+      if (!credit.ok) paymentModes = paymentModes.filter((mode) => mode !== "account_credit");
+    }
+
+    const ctx = await getCorporateContext(profile);
+    if (!ctx || !profile) return NextResponse.json({ data: { ...signed, priceChange, paymentModes } });
+    const stay = getPrebookStay(prebook);
+    const policy = checkStayAgainstPolicy(ctx.account, {
+      price: { amount: prebook.price, currency: prebook.currency },
+      checkin: stay.checkin,
+      checkout: stay.checkout,
+      rooms: Math.max(1, stay.rooms.length),
+      starRating: await getPolicyStarRating(prebook.hotelId, getLiteApiKeyForChannel(prebook.channel))
+    });
+    const approval = isApprovalRequired(ctx.member, policy)
+      ? await findApprovalForPrebook(prebookId, profile.userId)
+      : null;
+    return NextResponse.json({
+      data: {
+        ...signed,
+        priceChange,
+        paymentModes,
+        corporate: {
+          policy,
+          approvalRequired: isApprovalRequired(ctx.member, policy) && !approval,
+          ...(approval && { approvalId: approval.id })
+        }
+      }
+    });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to build checkout quote" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { approveApprovalRequest, getApprovalRequest, getCorporateContextForRequest } from "@/corporate";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Travel manager: approve a pending request. Re-runs the prebook for the held offer.
+ * Body: { note?, acceptPrice? }. 409 PRICE_CHANGED when the rate went up (approve again with acceptPrice
+ * set to the new price); 409 OFFER_UNAVAILABLE when it can no longer be booked (the request expires).
+ * Error responses for these carry the updated request in `data`.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    // empty body: approve without a note
+  }
+
+  try {
+    const ctx = await getCorporateContextForRequest(req);
+    if (ctx?.member.role !== "travel_manager") {
+      return NextResponse.json(
+        { error: { message: "Only travel managers can decide approval requests", code: "CORPORATE_ROLE_REQUIRED" } },
+        { status: 403 }
+      );
+    }
+    const approval = await getApprovalRequest(params.id);
+    const result =
+      approval?.accountId === ctx.account.id
+        ? await approveApprovalRequest(approval.id, ctx.member, {
+            note: typeof body?.note === "string" && body.note.trim() ? body.note.trim().slice(0, 500) : undefined,
+            acceptPrice: typeof body?.acceptPrice === "number" ? body.acceptPrice : undefined
+          })
+        : null;
+    if (!result) {
+      return NextResponse.json(
+        { error: { message: "Approval request not found" } },
+        { status: 404 }
+      );
+    }
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: { message: result.message, code: result.code }, ...(result.approval && { data: result.approval }) },
+        { status: result.status }
+      );
+    }
+    return NextResponse.json({ data: result.approval });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to approve request" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { createServerAuthAdapter } from "@/auth";
+import { isPaymentMode } from "@/checkout";
+import { getApprovalRequest, resumeApprovedPrebook } from "@/corporate";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * The traveller's approved prebook, in the same shape as POST /api/rates/prebook, so checkout can quote
+ * and pay for it. Also returns the approval (priceChange tells checkout whether the price moved).
+ * Query: paymentMode? (defaults to the mode the approval was requested with).
+ * Once the approved prebook's hold has ended, or it was made for the other kind of payment, the offer is prebooked
+ * again; a price above the approved one answers 409 APPROVAL_PRICE_CHANGED.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const profile = await createServerAuthAdapter(req).getUserProfile();
+    const approval = await getApprovalRequest(params.id);
+    if (!approval || !profile || approval.requestedByUserId !== profile.userId) {
+      return NextResponse.json(
+        { error: { message: "Approval request not found" } },
+        { status: 404 }
+      );
+    }
+    const paymentMode = req.nextUrl.searchParams.get("paymentMode");
+    const result = await resumeApprovedPrebook(approval.id, isPaymentMode(paymentMode) ? paymentMode : undefined);
+    if (!result) {
+      return NextResponse.json(
+        { error: { message: "Approval request not found" } },
+        { status: 404 }
+      );
+    }
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: { message: result.message, code: result.code } },
+        { status: result.status }
+      );
+    }
+    return NextResponse.json({ data: result.data, approval: result.approval });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load approved prebook" } },
+      { status: 500 }
+    );
+  }
+}
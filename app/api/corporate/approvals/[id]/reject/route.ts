@@ -0,0 +1,50 @@
+import { getApprovalRequest, getCorporateContextForRequest, rejectApprovalRequest } from "@/corporate";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Travel manager: reject a pending request. Body: { note? } (sent to the traveller). */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    // empty body: reject without a note
+  }
+
+  try {
+    const ctx = await getCorporateContextForRequest(req);
+    if (ctx?.member.role !== "travel_manager") {
+      return NextResponse.json(
+        { error: { message: "Only travel managers can decide approval requests", code: "CORPORATE_ROLE_REQUIRED" } },
+        { status: 403 }
+      );
+    }
+    const approval = await getApprovalRequest(params.id);
+    const result =
+      approval?.accountId === ctx.account.id
+        ? await rejectApprovalRequest(approval.id, ctx.member, {
+            note: typeof body?.note === "string" && body.note.trim() ? body.note.trim().slice(0, 500) : undefined
+          })
+        : null;
+    if (!result) {
+      return NextResponse.json(
+        { error: { message: "Approval request not found" } },
+        { status: 404 }
+      );
+    }
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: { message: result.message, code: result.code } },
+        { status: result.status }
+      );
+    }
+    return NextResponse.json({ data: result.approval });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to reject request" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { createServerAuthAdapter } from "@/auth";
+import { getApprovalRequest, getCorporateContext } from "@/corporate";
+import { NextRequest, NextResponse } from "next/server";
+
+/** One approval request: for travel managers of the company and the traveller who asked. */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const profile = await createServerAuthAdapter(req).getUserProfile();
+    const ctx = await getCorporateContext(profile);
+    const approval = await getApprovalRequest(params.id);
+    const visible =
+      ctx &&
+      approval?.accountId === ctx.account.id &&
+      (ctx.member.role === "travel_manager" || approval.requestedByUserId === profile?.userId);
+    if (!approval || !visible) {
+      return NextResponse.json(
+        { error: { message: "Approval request not found" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: approval });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load approval request" } },
+      { status: 500 }
+    );
+  }
+}
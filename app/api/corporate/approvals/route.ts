@@ -0,0 +1,136 @@
+import { createServerAuthAdapter } from "@/auth";
+import { getPrebookOccupancies, getPrebookSnapshot, getPrebookStay } from "@/bookings";
+import { isPaymentMode, verifyCheckoutQuote } from "@/checkout";
+import {
+  createApprovalRequest,
+  getCorporateContext,
+  getCorporateContextForRequest,
+  getPolicyStarRating,
+  listApprovalRequests,
+  type ApprovalStatus
+} from "@/corporate";
+import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
+import { parseOccupanciesParam } from "@/lib/occupancy";
+import { optionalString } from "@/lib/strings";
+import { NextRequest, NextResponse } from "next/server";
+
+const STATUSES: ApprovalStatus[] = ["pending", "approved", "rejected", "expired"];
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Approval requests, newest first. Travel managers see the whole company's; travellers see their own.
+ * Query: status? (pending | approved | rejected | expired).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const ctx = await getCorporateContextForRequest(req);
+    if (!ctx) {
+      return NextResponse.json(
+        { error: { message: "You are not a member of a company account", code: "NOT_CORPORATE" } },
+        { status: 404 }
+      );
+    }
+    const status = req.nextUrl.searchParams.get("status") as ApprovalStatus | null;
+    const profile = await createServerAuthAdapter(req).getUserProfile();
+    const items = await listApprovalRequests({
+      accountId: ctx.account.id,
+      ...(ctx.member.role !== "travel_manager" && { requestedByUserId: profile?.userId ?? "" }),
+      ...(status && STATUSES.includes(status) && { status })
+    });
+    return NextResponse.json({ data: { role: ctx.member.role, items } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load approval requests" } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Traveller: request approval for the out-of-policy rate held at checkout instead of paying.
+ * Body: { prebookId, quoteToken, occupancies? (URL format), paymentMode?, hotelName?, reason? }.
+ * The price, dates and rooms come from our prebook copy; the signed quote proves the caller was shown it.
+ */
+export async function POST(req: NextRequest) {
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const prebookId = optionalString(body?.prebookId);
+  if (!prebookId || typeof body?.quoteToken !== "string") {
+    return NextResponse.json(
+      { error: { message: "prebookId and quoteToken are required" } },
+      { status: 400 }
+    );
+  }
+  const reason = optionalString(body.reason);
+  if (reason && reason.length > MAX_REASON_LENGTH) {
+    return NextResponse.json(
+      { error: { message: `reason must be at most ${MAX_REASON_LENGTH} characters` } },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const profile = await createServerAuthAdapter(req).getUserProfile();
+    const ctx = await getCorporateContext(profile);
+    if (!ctx || !profile) {
+      return NextResponse.json(
+        { error: { message: "You are not a member of a company account", code: "NOT_CORPORATE" } },
+        { status: 404 }
+      );
+    }
+    const prebook = await getPrebookSnapshot(prebookId);
+    const paymentMode = isPaymentMode(body.paymentMode) ? body.paymentMode : "pay_now";
+    const verification = verifyCheckoutQuote(body.quoteToken, { prebookId, userId: profile.userId, prebook, paymentMode });
+    if (!verification.ok || !prebook) {
+      return NextResponse.json(
+        {
+          error: {
+            message: verification.ok ? "Your price lock has expired. Please select the room again." : verification.message,
+            code: verification.ok ? "PREBOOK_NOT_FOUND" : verification.code
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    // The policy check uses the stay as prebooked; the searched occupancies only supply child ages LiteAPI omits
+    const stay = getPrebookStay(prebook);
+    const searched = parseOccupanciesParam(optionalString(body.occupancies) ?? null);
+    const occupancies = getPrebookOccupancies(stay, searched) ?? searched;
+    const result = await createApprovalRequest(ctx, {
+      userId: profile.userId,
+      prebook,
+      stay: {
+        price: { amount: prebook.price, currency: prebook.currency },
+        checkin: stay.checkin,
+        checkout: stay.checkout,
+        rooms: Math.max(1, stay.rooms.length),
+        starRating: await getPolicyStarRating(prebook.hotelId, getLiteApiKeyForChannel(prebook.channel))
+      },
+      occupancies,
+      paymentMode,
+      hotelName: optionalString(body.hotelName),
+      reason
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: { message: result.message, code: result.code } },
+        { status: result.status }
+      );
+    }
+    return NextResponse.json({ data: result.approval });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to request approval" } },
+      { status: 500 }
+    );
+  }
+}
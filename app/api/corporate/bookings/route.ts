@@ -0,0 +1,55 @@
+import { getBookingStore, toTripSummary, type BookingRecordStatus } from "@/bookings";
+import { getCorporateContextForRequest } from "@/corporate";
+import { NextRequest, NextResponse } from "next/server";
+
+const STATUSES: BookingRecordStatus[] = ["confirmed", "cancelled"];
+
+/**
+ * Company booking list (newest first). Travel managers see every booking under the account;
+ * travellers see the ones they made or that were made for them.
+ * Query: status? (confirmed | cancelled), limit?, offset?.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const ctx = await getCorporateContextForRequest(req);
+    if (!ctx) {
+      return NextResponse.json(
+        { error: { message: "You are not a member of a company account", code: "NOT_CORPORATE" } },
+        { status: 404 }
+      );
+    }
+    const { searchParams } = req.nextUrl;
+    const status = searchParams.get("status") as BookingRecordStatus | null;
+    const limit = Number(searchParams.get("limit")) || 50;
+    const offset = Number(searchParams.get("offset")) || 0;
+
+    const { items } = await getBookingStore().list({
+      accountId: ctx.account.id,
+      ...(status && STATUSES.includes(status) && { status }),
+      limit: 200
+    });
+    const visible = items.filter(
+      (r) =>
+        STATUSES.includes(r.status) &&
+        (ctx.member.role === "travel_manager" ||
+          r.corporate?.bookedByEmail === ctx.member.email ||
+          r.corporate?.traveller.email === ctx.member.email)
+    );
+    const page = visible.slice(Math.max(0, offset), Math.max(0, offset) + Math.min(200, Math.max(1, limit)));
+
+    return NextResponse.json({
+      data: page.map((r) => ({
+        ...toTripSummary(r),
+        traveller: r.corporate?.traveller,
+        bookedByEmail: r.corporate?.bookedByEmail,
+        policy: r.corporate?.policy
+      })),
+      total: visible.length
+    });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load company bookings" } },
+      { status: 500 }
+    );
+  }
+}
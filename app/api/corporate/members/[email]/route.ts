@@ -0,0 +1,38 @@
+import {
+  deleteCorporateMember,
+  getCorporateContextForRequest,
+  getCorporateMember,
+  syncCorporateMembershipForEmail
+} from "@/corporate";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Travel manager: remove a traveller from their company (other travel managers are removed by support). */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { email: string } }
+) {
+  try {
+    const ctx = await getCorporateContextForRequest(req);
+    if (ctx?.member.role !== "travel_manager") {
+      return NextResponse.json(
+        { error: { message: "Only travel managers can manage travellers", code: "CORPORATE_ROLE_REQUIRED" } },
+        { status: 403 }
+      );
+    }
+    const member = await getCorporateMember(decodeURIComponent(params.email));
+    if (!member || member.accountId !== ctx.account.id || member.role !== "traveller") {
+      return NextResponse.json(
+        { error: { message: "Traveller not found" } },
+        { status: 404 }
+      );
+    }
+    await deleteCorporateMember(member.email);
+    await syncCorporateMembershipForEmail(member.email);
+    return NextResponse.json({ data: { deleted: true } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to remove traveller" } },
+      { status: 500 }
+    );
+  }
+}
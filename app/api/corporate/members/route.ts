@@ -0,0 +1,58 @@
+import {
+  getCorporateContextForRequest,
+  saveCorporateMember,
+  syncCorporateMembershipForEmail
+} from "@/corporate";
+import { parseMemberFields } from "@/corporate/validate";
+import { NextRequest, NextResponse } from "next/server";
+
+/** Travel manager: add or update a traveller in their company. Body: { email, firstName?, lastName? }. */
+export async function POST(req: NextRequest) {
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const ctx = await getCorporateContextForRequest(req);
+    if (ctx?.member.role !== "travel_manager") {
+      return NextResponse.json(
+        { error: { message: "Only travel managers can manage travellers", code: "CORPORATE_ROLE_REQUIRED" } },
+        { status: 403 }
+      );
+    }
+    // Managers add travellers; promoting to travel manager is done by support (admin API).
+    const parsed = parseMemberFields({ ...body, role: "traveller" });
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: { message: parsed.message } },
+        { status: 400 }
+      );
+    }
+    if (parsed.value.email === ctx.member.email) {
+      return NextResponse.json(
+        { error: { message: "You can't change your own membership" } },
+        { status: 400 }
+      );
+    }
+    const member = await saveCorporateMember({ ...parsed.value, accountId: ctx.account.id });
+    if (!member) {
+      return NextResponse.json(
+        { error: { message: "This email belongs to another company account", code: "MEMBER_IN_OTHER_ACCOUNT" } },
+        { status: 409 }
+      );
+    }
+    await syncCorporateMembershipForEmail(member.email);
+    return NextResponse.json({ data: member });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to save traveller" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { getCorporateContextForRequest, listCorporateMembers } from "@/corporate";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * The caller's company account: name, billing, travel policy and their role.
+ * Travel managers also get the member list (travellers they can book for).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const ctx = await getCorporateContextForRequest(req);
+    if (!ctx) {
+      return NextResponse.json(
+        { error: { message: "You are not a member of a company account", code: "NOT_CORPORATE" } },
+        { status: 404 }
+      );
+    }
+    const { account, member } = ctx;
+    const members = member.role === "travel_manager" ? await listCorporateMembers(account.id) : [member];
+    return NextResponse.json({
+      data: {
+        account: { id: account.id, name: account.name, billing: account.billing, policy: account.policy },
+        role: member.role,
+        members
+      }
+    });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load company account" } },
+      { status: 500 }
+    );
+  }
+}
@@ -51,7 +51,7 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    const channel = getChannelFromRequest(req);
+    const channel = await getChannelFromRequest(req);
     const apiKey = getLiteApiKeyForChannel(channel);
     const lang = typeof language === "string" ? language : undefined;
 
@@ -16,7 +16,7 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    const channel = getChannelFromRequest(req);
+    const channel = await getChannelFromRequest(req);
     const apiKey = getLiteApiKeyForChannel(channel);
     const resp = await getHotelDetails(hotelId, language, apiKey);
     return NextResponse.json(resp);
@@ -13,7 +13,7 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    const channel = getChannelFromRequest(req);
+    const channel = await getChannelFromRequest(req);
     const apiKey = getLiteApiKeyForChannel(channel);
     const resp = await getPlaces(q.trim(), language, apiKey);
     // Pass through full LiteAPI response including data[].types (Phase 1: place types for search-type and icons).
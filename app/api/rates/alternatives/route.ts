@@ -0,0 +1,72 @@
+import { getChannelFromRequest } from "@/auth";
+import { findAlternativeOffers } from "@/checkout";
+import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
+import { getHotelRatesForHotel, resolveGuestNationality } from "@/lib/liteapi";
+import { getHotelMarginResolver } from "@/lib/margin-resolver";
+import { parseOccupanciesParam, toApiOccupancies } from "@/lib/occupancy";
+import { optionalString } from "@/lib/strings";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Alternatives for an offer that could not be prebooked (sold out, price changed, expired).
+ * Body: { hotelId, checkin, checkout, occupancies? (URL format), currency?, guestNationality?, language?,
+ * offerId?, roomName?, boardName?, refundableTag?, price? } describing the picked offer. Fresh rates for the hotel,
+ * priced like the hotel page (segment margin and overrides); returns { data: AlternativeOffer[] }, closest first.
+ */
+export async function POST(req: NextRequest) {
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const hotelId = optionalString(body?.hotelId);
+  const checkin = optionalString(body?.checkin);
+  const checkout = optionalString(body?.checkout);
+  if (!hotelId || !checkin || !checkout) {
+    return NextResponse.json(
+      { error: { message: "hotelId, checkin and checkout are required" } },
+      { status: 400 }
+    );
+  }
+  const language = optionalString(body.language);
+
+  try {
+    const channel = await getChannelFromRequest(req);
+    const apiKey = getLiteApiKeyForChannel(channel);
+    const marginResolver = await getHotelMarginResolver(req, channel, { checkin, checkout, language, apiKey });
+    const { margin, additionalMarkup } = await marginResolver.marginForHotel(hotelId);
+    const resp = await getHotelRatesForHotel(
+      {
+        hotelId,
+        checkin,
+        checkout,
+        occupancies: toApiOccupancies(parseOccupanciesParam(optionalString(body.occupancies) ?? null)),
+        currency: optionalString(body.currency),
+        guestNationality: resolveGuestNationality(optionalString(body.guestNationality)),
+        language,
+        ...(margin != null && { margin }),
+        ...(additionalMarkup != null && { additionalMarkup })
+      },
+      apiKey
+    );
+    return NextResponse.json({
+      data: findAlternativeOffers(resp, {
+        roomName: optionalString(body.roomName),
+        boardName: optionalString(body.boardName),
+        refundableTag: optionalString(body.refundableTag),
+        price: typeof body.price === "number" ? body.price : undefined,
+        excludeOfferId: optionalString(body.offerId)
+      })
+    });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to find alternative rooms" } },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,112 @@
-import { getChannelFromRequest } from "@/auth";
-import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
+import { createServerAuthAdapter, getChannelFromRequest, isValidEmail, setIdentityCookie, type UserProfile } from "@/auth";
+import {
+  bookingRecordToBookResponse,
+  getBookingStore,
+  getPrebookOccupancies,
+  getPrebookSnapshot,
+  getPrebookStay,
+  recordBookingAttempt,
+  recordBookingConfirmed,
+  recordBookingFailed,
+  refreshLoyaltyIdentity,
+  sendBookingVoucher,
+  type BookingCorporate,
+  type BookingGuest,
+  type BookingHolder,
+  type BookingPromo,
+  type PrebookSnapshot
+} from "@/bookings";
+import {
+  chargeAccountCredit,
+  formatSpecialRequests,
+  getAvailablePaymentModes,
+  isCheckoutQuoteFor,
+  isPaymentMode,
+  parseSpecialRequests,
+  releaseAccountCredit,
+  reserveAccountCredit,
+  toBookPayment,
+  verifyCheckoutQuote,
+  type PaymentMode
+} from "@/checkout";
+import { getCorporateContext, getPolicyStarRating, resolveCorporateBooking } from "@/corporate";
+import { getLiteApiKeyForChannel, type Channel } from "@/lib/channel-keys";
+import { assignGuestsToRooms, isValidGuestName, isValidPhone, normalizeGuestName } from "@/lib/guests";
 import { bookRate } from "@/lib/liteapi";
+import type { Occupancy } from "@/lib/occupancy";
+import { withKeyedLock } from "@/lib/keyed-lock";
+import { getHotelMarginResolver, resolveSegmentForProfile } from "@/lib/margin-resolver";
+import { optionalString } from "@/lib/strings";
+import { lockPromoRedemption, markPromoRedeemed, releasePromoRedemption } from "@/promo";
 import { NextRequest, NextResponse } from "next/server";
 
+/** A pending ledger record younger than this means another book call for the prebook is (probably) still running. */
+const PENDING_BOOKING_STALE_MS = 2 * 60 * 1000;
+
+function parseOccupancies(value: unknown): Occupancy[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((o: any) => o && typeof o.adults === "number" && o.adults >= 1)
+    .map((o: any) => ({
+      adults: o.adults,
+      children: Array.isArray(o.children)
+        ? o.children.filter((a: unknown) => typeof a === "number" && !Number.isNaN(a))
+        : []
+    }));
+}
+
+/**
+ * Names in Latin letters, valid emails (the voucher is mailed to the holder) and phones.
+ * The per-room check needs the prebook, see assignGuestsToRooms below.
+ */
+function checkBookingContacts(holder: BookingHolder, guests: BookingGuest[]): string | null {
+  if (!isValidGuestName(holder.firstName) || !isValidGuestName(holder.lastName)) {
+    return "The holder's name must use English letters only.";
+  }
+  if ([holder.email, ...guests.map((g) => g.email)].some((email) => email != null && !isValidEmail(email))) {
+    return "Please enter a valid email address.";
+  }
+  if ([holder.phone, ...guests.map((g) => g.phone)].some((phone) => phone && !isValidPhone(phone))) {
+    return "Please enter a valid phone number.";
+  }
+  return null;
+}
+
+/** First adult of each room: LiteAPI takes one named guest per occupancy. */
+function occupancyLeads(guests: BookingGuest[]): BookingGuest[] {
+  return guests.filter(
+    (g, i) => g.type !== "child" && guests.findIndex((o) => o.occupancyNumber === g.occupancyNumber && o.type !== "child") === i
+  );
+}
+
+/** Re-validate and reserve the quoted promo on our stored prebook price. Never throws; a refused code is recorded. */
+async function lockPromoForBooking(
+  code: string,
+  prebook: PrebookSnapshot,
+  profile: UserProfile | null
+): Promise<BookingPromo> {
+  try {
+    const evaluation = await lockPromoRedemption({
+      code,
+      prebookId: prebook.prebookId,
+      amount: { amount: prebook.price, currency: prebook.currency },
+      profile
+    });
+    if (!evaluation.valid) return { code, rejectedReason: evaluation.reason };
+    const { rule } = evaluation;
+    return {
+      code: rule.code,
+      type: rule.discount.type,
+      value: rule.discount.type === "percent" ? rule.discount.percent : rule.discount.amount,
+      ...(rule.discount.type === "fixed" && { currency: rule.discount.currency }),
+      discount: evaluation.discount
+    };
+  } catch (err) {
+    console.error("Promo: failed to lock redemption", code, prebook.prebookId, err);
+    return { code, rejectedReason: "ERROR" };
+  }
+}
+
 export async function POST(req: NextRequest) {
   let body: any = {};
   try {
@@ -14,7 +118,15 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  if (!body?.prebookId || !body?.payment?.transactionId || !body?.holder) {
+  // pay_now (default) is paid through the payment SDK; pay-later modes book without a transaction.
+  const paymentMode: PaymentMode = body?.paymentMode == null ? "pay_now" : body.paymentMode;
+  if (!isPaymentMode(paymentMode)) {
+    return NextResponse.json(
+      { error: { message: "Unknown paymentMode", code: "PAYMENT_MODE_NOT_ALLOWED" } },
+      { status: 400 }
+    );
+  }
+  if (!body?.prebookId || !body?.holder || (paymentMode === "pay_now" && !body?.payment?.transactionId)) {
     return NextResponse.json(
       {
         error: {
@@ -26,16 +138,380 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  const prebookId = String(body.prebookId);
+  const transactionId = paymentMode === "pay_now" ? String(body.payment.transactionId) : "";
+  const holderPhone = optionalString(body.holder.phone);
+  const holder: BookingHolder = {
+    firstName: normalizeGuestName(String(body.holder.firstName ?? "")),
+    lastName: normalizeGuestName(String(body.holder.lastName ?? "")),
+    email: String(body.holder.email ?? "").trim(),
+    ...(holderPhone && { phone: holderPhone })
+  };
+  // Every adult and child is named; children carry no contact details. Only the lead adult of each room goes to LiteAPI.
+  const requestedGuests: BookingGuest[] = Array.isArray(body.guests)
+    ? body.guests.map((g: any): BookingGuest => {
+        const type = g?.type === "child" ? "child" : "adult";
+        const phone = type === "adult" ? optionalString(g?.phone) : undefined;
+        return {
+          occupancyNumber: Number(g?.occupancyNumber) || 1,
+          firstName: normalizeGuestName(String(g?.firstName ?? "")),
+          lastName: normalizeGuestName(String(g?.lastName ?? "")),
+          type,
+          ...(type === "adult" && { email: optionalString(g?.email) ?? holder.email }),
+          ...(phone && { phone })
+        };
+      })
+    : [];
+  const contactError = checkBookingContacts(holder, requestedGuests);
+  if (contactError) {
+    return NextResponse.json({ error: { message: contactError, code: "INVALID_GUESTS" } }, { status: 400 });
+  }
+  const specialRequests = parseSpecialRequests(body.specialRequests);
+  const remarks = formatSpecialRequests(specialRequests);
+
+  let channel: Channel;
+  let apiKey: string;
   try {
-    const channel = getChannelFromRequest(req);
-    const apiKey = getLiteApiKeyForChannel(channel);
-    const resp = await bookRate(body, apiKey);
-    return NextResponse.json(resp);
+    channel = await getChannelFromRequest(req);
+    apiKey = getLiteApiKeyForChannel(channel);
   } catch (err: any) {
     return NextResponse.json(
       { error: { message: err.message ?? "Failed to book rate" } },
       { status: 500 }
     );
   }
-}
 
+  // One book call per prebook at a time: repeats (refresh, back/forward, strict-mode double mount) wait here,
+  // then get the stored result instead of a second LiteAPI booking.
+  return withKeyedLock(`book:${prebookId}`, async () => {
+    const existing = await getBookingStore()
+      .get(prebookId)
+      .catch((err) => {
+        console.error("Booking ledger: failed to read record", prebookId, err);
+        return null;
+      });
+
+    const identity = await createServerAuthAdapter(req).getIdentity();
+
+    if (existing && (existing.status === "confirmed" || existing.status === "cancelled")) {
+      // The stored booking (guests, voucher link) goes only to its owner or to whoever holds this checkout's quote.
+      const isOwner = !!existing.userId && existing.userId === identity?.profile.userId;
+      if (!isOwner && !isCheckoutQuoteFor(body.quoteToken, { prebookId, userId: existing.userId })) {
+        return NextResponse.json(
+          { error: { message: "This reservation has already been booked.", code: "PREBOOK_ALREADY_BOOKED" } },
+          { status: 409 }
+        );
+      }
+      if (
+        (existing.paymentMode ?? "pay_now") !== paymentMode ||
+        (paymentMode === "pay_now" && existing.transactionId && existing.transactionId !== transactionId)
+      ) {
+        return NextResponse.json(
+          {
+            error: {
+              message: "This reservation was already booked with a different payment.",
+              code: "PREBOOK_ALREADY_BOOKED"
+            }
+          },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json({
+        ...bookingRecordToBookResponse(existing),
+        paymentMode: existing.paymentMode ?? "pay_now",
+        specialRequests: existing.specialRequests,
+        voucherToken: existing.voucherToken,
+        alreadyConfirmed: true
+      });
+    }
+
+    if (
+      existing?.status === "pending" &&
+      Date.now() - Date.parse(existing.updatedAt) < PENDING_BOOKING_STALE_MS
+    ) {
+      return NextResponse.json(
+        {
+          error: {
+            message: "We are still confirming this booking. Please wait a moment.",
+            code: "BOOKING_IN_PROGRESS"
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    // The price shown at checkout must be the price we book: verify the signed quote against our prebook copy.
+    if (typeof body.quoteToken !== "string" || !body.quoteToken) {
+      return NextResponse.json(
+        { error: { message: "quoteToken is required for booking", code: "QUOTE_REQUIRED" } },
+        { status: 400 }
+      );
+    }
+    const prebook = await getPrebookSnapshot(prebookId).catch((err) => {
+      console.error("Prebook snapshot: failed to read", prebookId, err);
+      return null;
+    });
+    const verification = verifyCheckoutQuote(body.quoteToken, {
+      prebookId,
+      userId: identity?.profile.userId,
+      prebook,
+      paymentMode,
+      paymentTaken: paymentMode === "pay_now"
+    });
+    if (!verification.ok) {
+      return NextResponse.json(
+        { error: { message: verification.message, code: verification.code } },
+        { status: 409 }
+      );
+    }
+    const { quote } = verification;
+
+    // Every adult and child of every prebooked room named; the browser's occupancies only supply child ages
+    // LiteAPI did not return. Children get their ages from the occupancy.
+    const stay = prebook ? getPrebookStay(prebook) : undefined;
+    const occupancies = stay ? getPrebookOccupancies(stay, parseOccupancies(body.occupancies)) : null;
+    if (!occupancies) {
+      return NextResponse.json(
+        {
+          error: {
+            message: "The guests do not match this reservation. Please select the room again.",
+            code: "INVALID_GUESTS"
+          }
+        },
+        { status: 400 }
+      );
+    }
+    const assigned = assignGuestsToRooms(occupancies, requestedGuests);
+    if (!assigned.ok) {
+      return NextResponse.json({ error: { message: assigned.message, code: "INVALID_GUESTS" } }, { status: 400 });
+    }
+    const guests = assigned.guests;
+
+    // Pay-later modes depend on the user's segment and on the rate (pay at property); re-check what checkout offered.
+    const segment = paymentMode !== "pay_now" ? await resolveSegmentForProfile(identity?.profile ?? null, channel) : null;
+    if (paymentMode !== "pay_now") {
+      const allowed = prebook ? getAvailablePaymentModes({ channel, segment, prebook }) : [];
+      if (!allowed.includes(paymentMode)) {
+        return NextResponse.json(
+          {
+            error: {
+              message: "This payment option is not available for this reservation. Please pay now instead.",
+              code: "PAYMENT_MODE_NOT_ALLOWED"
+            }
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // pay_now pays through the payment SDK started for this prebook; pay-later modes need one prebooked without it.
+    if (prebook && (prebook.paymentSdk ?? true) !== (paymentMode === "pay_now")) {
+      return NextResponse.json(
+        {
+          error: {
+            message: "This reservation was held for a different payment option. Please go back to checkout.",
+            code: "PAYMENT_MODE_NOT_ALLOWED"
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    // B2B: company context, optional booking on behalf of another traveller, and the travel policy check.
+    let corporate: BookingCorporate | undefined;
+    const corporateCtx = identity
+      ? await getCorporateContext(identity.profile).catch((err) => {
+          console.error("Corporate: failed to load account", identity.profile.accountId, err);
+          return null;
+        })
+      : null;
+    if (identity && corporateCtx) {
+      // Hotel, dates and rooms as prebooked: the nightly rate must not depend on what the browser sends
+      const starRating = await getPolicyStarRating(prebook?.hotelId, apiKey);
+      const result = await resolveCorporateBooking(corporateCtx, {
+        userId: identity.profile.userId,
+        prebookId,
+        onBehalfOf: optionalString(body.onBehalfOf),
+        price: prebook ? { amount: prebook.price, currency: prebook.currency } : undefined,
+        checkin: stay?.checkin,
+        checkout: stay?.checkout,
+        rooms: occupancies.length,
+        starRating
+      });
+      if (!result.ok) {
+        return NextResponse.json(
+          { error: { message: result.message, code: result.code } },
+          { status: result.status }
+        );
+      }
+      corporate = result.corporate;
+    }
+
+    // Reserve the quoted promo; if it no longer gives the quoted discount (limit reached, expired), refuse to book.
+    const promo =
+      quote.promo?.applied && prebook
+        ? await lockPromoForBooking(quote.promo.code, prebook, identity?.profile ?? null)
+        : undefined;
+    if ((promo?.discount?.amount ?? 0) !== quote.discount) {
+      if (promo?.discount) {
+        await releasePromoRedemption(prebookId).catch((err) =>
+          console.error("Promo: failed to release redemption", prebookId, err)
+        );
+      }
+      return NextResponse.json(
+        {
+          error: {
+            message: "Your promo code no longer applies to this reservation. Please review the new price.",
+            code: "QUOTE_PRICE_CHANGED"
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    // account_credit: what the customer will owe (pay now, after the promo) must fit under the segment's credit limit.
+    if (paymentMode === "account_credit") {
+      const limit = segment?.creditLimit;
+      const credit =
+        identity && limit
+          ? await reserveAccountCredit({
+              prebookId,
+              profile: identity.profile,
+              limit,
+              amount: { amount: quote.payNow, currency: quote.currency }
+            })
+          : null;
+      if (!credit?.ok) {
+        if (promo?.discount) {
+          await releasePromoRedemption(prebookId).catch((err) =>
+            console.error("Promo: failed to release redemption", prebookId, err)
+          );
+        }
+        const available = credit?.available;
+        return NextResponse.json(
+          {
+            error: {
+              message: `This booking is more than your available account credit${
+                available ? ` (${available.currency} ${available.amount.toFixed(2)})` : ""
+              }. Please pay now instead.`,
+              code: "CREDIT_LIMIT_REACHED"
+            }
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Margin as priced for this hotel and stay (segment + overrides), for the ledger
+    const ledgerHotelId = prebook?.hotelId;
+    const margin = await getHotelMarginResolver(req, channel, {
+      checkin: stay?.checkin,
+      checkout: stay?.checkout,
+      apiKey
+    })
+      .then((resolver) => (ledgerHotelId ? resolver.marginForHotel(ledgerHotelId) : resolver.base))
+      .catch((err) => {
+        console.error("Booking ledger: failed to resolve margin", prebookId, err);
+        return {};
+      });
+
+    // Hotel, dates and rooms as prebooked (the voucher and calendar read them; the book response replaces them
+    // once confirmed). Ledger failures are logged but never block the booking itself.
+    await recordBookingAttempt({
+      prebookId,
+      transactionId: transactionId || undefined,
+      paymentMode,
+      hotelId: ledgerHotelId,
+      checkin: stay?.checkin,
+      checkout: stay?.checkout,
+      occupancies,
+      holder,
+      guests,
+      channel,
+      userId: identity?.profile.userId,
+      userEmail: identity?.profile.email,
+      margin,
+      promo,
+      corporate,
+      specialRequests,
+      quote: {
+        quoteId: quote.quoteId,
+        currency: quote.currency,
+        subtotal: quote.subtotal,
+        discount: quote.discount,
+        payNow: quote.payNow,
+        localFees: quote.localFees,
+        total: quote.total
+      }
+    }).catch((err) => console.error("Booking ledger: failed to record attempt", prebookId, err));
+
+    try {
+      const resp = await bookRate(
+        {
+          prebookId,
+          holder,
+          payment: toBookPayment(paymentMode, transactionId),
+          // LiteAPI takes remarks per room; the requests apply to the whole stay, so every room gets them.
+          guests: occupancyLeads(guests).map((g) => ({
+            occupancyNumber: g.occupancyNumber,
+            firstName: g.firstName,
+            lastName: g.lastName,
+            email: g.email ?? holder.email,
+            ...(g.phone && { phone: g.phone }),
+            ...(remarks && { remarks })
+          }))
+        },
+        apiKey
+      );
+      const confirmed = await recordBookingConfirmed(prebookId, resp).catch((err) => {
+        console.error("Booking ledger: failed to record confirmation", prebookId, err);
+        return null;
+      });
+      // Voucher email (HTML + PDF) to the lead guest, sent without holding up the response (it never throws;
+      // voucherSentAt records delivery). The confirmation page can download it again with the token.
+      if (confirmed) void sendBookingVoucher(confirmed);
+      if (promo?.discount) {
+        await markPromoRedeemed(prebookId, resp?.data?.bookingId).catch((err) =>
+          console.error("Promo: failed to mark redeemed", prebookId, err)
+        );
+      }
+      if (paymentMode === "account_credit") {
+        await chargeAccountCredit(prebookId, resp?.data?.bookingId).catch((err) =>
+          console.error("Account credit: failed to charge", prebookId, err)
+        );
+      }
+      const res = NextResponse.json({ ...resp, paymentMode, specialRequests, voucherToken: confirmed?.voucherToken });
+      // The confirmed booking may move the user up a tier: recount and re-issue the cookie with the new profile.
+      if (identity) {
+        const refreshed = await refreshLoyaltyIdentity(identity).catch((err) => {
+          console.error("Loyalty: failed to refresh after booking", prebookId, err);
+          return null;
+        });
+        if (refreshed) {
+          const { name, value, options } = setIdentityCookie(refreshed);
+          res.cookies.set(name, value, options);
+        }
+      }
+      return res;
+    } catch (err: any) {
+      const message = err.message ?? "Failed to book rate";
+      await recordBookingFailed(prebookId, message).catch((ledgerErr) =>
+        console.error("Booking ledger: failed to record failure", prebookId, ledgerErr)
+      );
+      if (promo?.discount) {
+        await releasePromoRedemption(prebookId).catch((promoErr) =>
+          console.error("Promo: failed to release redemption", prebookId, promoErr)
+        );
+      }
+      if (paymentMode === "account_credit") {
+        await releaseAccountCredit(prebookId).catch((creditErr) =>
+          console.error("Account credit: failed to release", prebookId, creditErr)
+        );
+      }
+      return NextResponse.json(
+        { error: { message } },
+        { status: 500 }
+      );
+    }
+  });
+}
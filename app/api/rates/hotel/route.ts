@@ -1,6 +1,7 @@
 import { getChannelFromRequest } from "@/auth";
+import { getCorporateContextForRequest, policyLimitsInCurrency } from "@/corporate";
 import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
-import { getMarginForRequest } from "@/lib/margin-resolver";
+import { getHotelMarginResolver } from "@/lib/margin-resolver";
 import { getHotelRatesForHotel, resolveGuestNationality } from "@/lib/liteapi";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -49,9 +50,11 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    const channel = getChannelFromRequest(req);
+    const channel = await getChannelFromRequest(req);
     const apiKey = getLiteApiKeyForChannel(channel);
-    const marginResult = getMarginForRequest(req, channel);
+    // Segment margin plus any per-hotel/destination override (same resolution as the search list)
+    const marginResolver = await getHotelMarginResolver(req, channel, { checkin, checkout, language, apiKey });
+    const marginResult = await marginResolver.marginForHotel(String(hotelId));
     const marginValue = marginResult.margin ?? null;
     const additionalMarkupValue = marginResult.additionalMarkup ?? null;
 
@@ -84,8 +87,12 @@ export async function POST(req: NextRequest) {
       displayDiscountPercent: marginResult.displayDiscountPercent ?? undefined
     };
 
+    // B2B travel policy in the requested currency so the page can flag out-of-policy rates
+    const corporate = await getCorporateContextForRequest(req).catch(() => null);
+    const travelPolicy = corporate ? policyLimitsInCurrency(corporate.account.policy, currency ?? "USD") : null;
+
     return NextResponse.json(
-      { ...resp, promoConfig },
+      { ...resp, promoConfig, travelPolicy },
       { headers: resHeaders }
     );
   } catch (err: any) {
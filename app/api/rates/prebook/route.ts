@@ -1,4 +1,6 @@
-import { getChannelFromRequest } from "@/auth";
+import { getChannelFromRequest, getIdentityFromRequest } from "@/auth";
+import { recordPrebook } from "@/bookings";
+import { classifyPrebookFailure } from "@/checkout";
 import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
 import { prebookRate } from "@/lib/liteapi";
 import { NextRequest, NextResponse } from "next/server";
@@ -14,7 +16,9 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  const { offerId, usePaymentSdk } = body;
+  const { offerId } = body;
+  // pay_now prebooks for the payment SDK; checkout prebooks without it for pay-later modes
+  const usePaymentSdk = body.usePaymentSdk !== false;
 
   if (!offerId) {
     return NextResponse.json(
@@ -24,17 +28,32 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    const channel = getChannelFromRequest(req);
+    const channel = await getChannelFromRequest(req);
     const apiKey = getLiteApiKeyForChannel(channel);
     const resp = await prebookRate(
       {
         offerId,
-        usePaymentSdk: usePaymentSdk ?? true
+        usePaymentSdk
       },
       apiKey
     );
+    // Keep our own copy of the quoted price for promo validation and booking (never trust the browser's numbers).
+    await recordPrebook(resp, {
+      channel,
+      userId: (await getIdentityFromRequest(req))?.profile.userId,
+      paymentSdk: usePaymentSdk
+    }).catch((err) => console.error("Prebook snapshot: failed to record", err));
     return NextResponse.json(resp);
   } catch (err: any) {
+    // Sold out, price changed, expired or supplier error: checkout suggests alternatives (POST /api/rates/alternatives)
+    const failure = classifyPrebookFailure(err);
+    if (failure) {
+      console.warn("Prebook failed", failure.code, offerId, err.message);
+      return NextResponse.json(
+        { error: { message: failure.message, code: failure.code } },
+        { status: failure.status }
+      );
+    }
     return NextResponse.json(
       { error: { message: err.message ?? "Failed to prebook rate" } },
       { status: 500 }
@@ -0,0 +1,47 @@
+/**
+ * Flexible-dates search — POST /api/rates/search/flexible.
+ * Body: the rates search body (place, vibe, area or hotelIds; dates; occupancies; …) plus flex: "around" | "week".
+ * Returns: { data: FlexibleDatesResponse } — cheapest price per date window for the destination and per hotel
+ * (src/search/flexible.ts). Errors use the rates search's { error: { message, code } } shape.
+ * See docs/FLEXIBLE_DATES.md.
+ */
+
+import {
+  flexibleSearchCache,
+  flexibleSearchCacheKey,
+  isFlexibleDates,
+  loadFlexibleDates,
+  prepareRatesSearch,
+  ratesSearchErrorResponse
+} from "@/search";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function POST(req: NextRequest) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: { message: "Invalid request", code: "INVALID_PARAMS" } }, { status: 400 });
+  }
+
+  const flex = body?.flex;
+  if (!isFlexibleDates(flex)) {
+    return NextResponse.json(
+      { error: { message: 'flex must be "around" or "week"', code: "INVALID_PARAMS" } },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const prepared = await prepareRatesSearch(req, body);
+    if (!prepared.ok) return prepared.response;
+    const { ctx } = prepared;
+
+    const data = await flexibleSearchCache.getOrLoad(flexibleSearchCacheKey(ctx, flex), () =>
+      loadFlexibleDates(req, ctx, flex)
+    );
+    return NextResponse.json({ data }, { headers: ctx.headers });
+  } catch (err: any) {
+    return ratesSearchErrorResponse(err);
+  }
+}
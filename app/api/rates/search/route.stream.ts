@@ -0,0 +1,217 @@
+/**
+ * Streaming search — POST /api/rates/search when USE_RATES_STREAM=true and the client accepts
+ * application/x-ndjson or text/event-stream (route.ts decides). Events: src/search/stream.ts; docs/STREAM_SEARCH.md.
+ *
+ * Same request parsing, cache and final response as the JSON handler (src/search/rates-search.ts):
+ * - A cached search (fresh, or stale while it refreshes) is replayed at once: meta, hotels, done.
+ * - Otherwise LiteAPI's rates stream is read chunk by chunk: each chunk is validated and margin overrides applied, and
+ *   new hotels are sent with their prices. Cached hotel details and the refundable check follow as their own events.
+ *   The finished SearchResponse is cached, so the next request (JSON or stream) gets the same result.
+ * Errors before the first event are JSON like the non-stream handler; after that they end the stream as an
+ * "error" event.
+ */
+
+import { applyMarginOverrides, fetchHotelRatesStream, type HotelDetailsData, searchHotelRates } from "@/lib/liteapi";
+import {
+  buildSearchResultHotels,
+  type CachedRatesSearch,
+  emptyParsedRates,
+  loadHotelDetails,
+  loadRatesSearch,
+  mergeParsedRates,
+  NoRatesError,
+  parseRatesResponse,
+  parseRefundableHotelIds,
+  prepareRatesSearch,
+  ratesSearchError,
+  ratesSearchErrorResponse,
+  ratesSearchPage,
+  type RatesSearchContext,
+  searchCache,
+  SEARCH_RESPONSE_VERSION,
+  type SearchResultHotel
+} from "@/search";
+import {
+  encodeSearchStreamEvent,
+  readStreamMessages,
+  SEARCH_STREAM_CONTENT_TYPES,
+  searchStreamFormatForAccept,
+  type SearchResultDetails,
+  type SearchStreamEvent,
+  type SearchStreamFormat
+} from "@/search/stream";
+import { NextRequest } from "next/server";
+
+type Send = (event: SearchStreamEvent) => void;
+
+const encoder = new TextEncoder();
+
+/** Response whose body is the events `run` sends; a throw ends it with an "error" event. */
+function eventStream(
+  format: SearchStreamFormat,
+  headers: Record<string, string>,
+  abort: AbortController,
+  run: (send: Send) => Promise<void>
+): Response {
+  // Late enrichment results can still arrive after an error ended the stream
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    start(ctrl) {
+      const send: Send = (event) => {
+        if (!closed && !abort.signal.aborted) ctrl.enqueue(encoder.encode(encodeSearchStreamEvent(event, format)));
+      };
+      run(send)
+        .catch((err) => {
+          if (abort.signal.aborted) return;
+          console.error("[rates/search] stream failed", err?.message ?? err);
+          send({ type: "error", error: ratesSearchError(err).error });
+        })
+        .finally(() => {
+          if (!closed && !abort.signal.aborted) ctrl.close();
+          closed = true;
+        });
+    },
+    cancel() {
+      abort.abort();
+    }
+  });
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      "Content-Type": SEARCH_STREAM_CONTENT_TYPES[format],
+      "Cache-Control": "no-store",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
+
+function metaEvent(ctx: RatesSearchContext): SearchStreamEvent {
+  return {
+    type: "meta",
+    version: SEARCH_RESPONSE_VERSION,
+    mode: ctx.mode,
+    promoConfig: ctx.promoConfig,
+    travelPolicy: ctx.travelPolicy
+  };
+}
+
+function detailsOf(hotel: SearchResultHotel): SearchResultDetails {
+  const { address, city, countryCode, location, rating, reviewCount, starRating } = hotel;
+  return Object.fromEntries(
+    Object.entries({ address, city, countryCode, location, rating, reviewCount, starRating }).filter(([, v]) => v != null)
+  );
+}
+
+async function streamLive(ctx: RatesSearchContext, upstream: ReadableStream<Uint8Array>, send: Send): Promise<void> {
+  const { baseParams, apiKey, marginResolver } = ctx;
+  const state = emptyParsedRates();
+  const sent = new Set<string>();
+  const refundable = new Set<string>();
+  const details: Record<string, HotelDetailsData | null> = {};
+  const enrichments: Promise<void>[] = [];
+
+  send(metaEvent(ctx));
+
+  const markRefundable = (ids: Set<string>) => {
+    ids.forEach((id) => refundable.add(id));
+    const hotelIds = [...ids].filter((id) => sent.has(id));
+    if (hotelIds.length > 0) send({ type: "refundable", hotelIds });
+  };
+  // Unpaged: the whole refundable-only search runs alongside, as in the JSON path
+  const refundableSearch = ctx.paged
+    ? null
+    : searchHotelRates({ ...baseParams, refundableRatesOnly: true }, apiKey).then((resp) =>
+        markRefundable(parseRefundableHotelIds(resp))
+      );
+  refundableSearch?.catch(() => {});
+
+  const sendHotels = (ids: string[]) => {
+    if (ids.length === 0) return;
+    ids.forEach((id) => sent.add(id));
+    send({ type: "hotels", hotels: buildSearchResultHotels({ ...state, order: ids }, refundable, details) });
+    enrichments.push(
+      loadHotelDetails(ctx, ids).then((loaded) => {
+        Object.assign(details, loaded);
+        const patch: Record<string, SearchResultDetails> = {};
+        for (const hotel of buildSearchResultHotels({ ...state, order: ids }, refundable, details)) {
+          const fields = detailsOf(hotel);
+          if (Object.keys(fields).length > 0) patch[hotel.id] = fields;
+        }
+        if (Object.keys(patch).length > 0) send({ type: "enrichment", details: patch });
+      })
+    );
+  };
+
+  for await (const message of readStreamMessages(upstream, "sse")) {
+    if (message === "[DONE]") break;
+    let chunk: any;
+    try {
+      chunk = JSON.parse(message);
+    } catch {
+      console.warn("[rates/search] skipped an unreadable LiteAPI stream chunk");
+      continue;
+    }
+    if (chunk?.error) {
+      throw Object.assign(new Error(chunk.error.message ?? "LiteAPI rates stream failed"), { status: 502 });
+    }
+    if (marginResolver.hasOverrides) chunk = await applyMarginOverrides(chunk, baseParams, apiKey, marginResolver);
+    const { priced } = mergeParsedRates(state, parseRatesResponse(chunk));
+    const repriced = priced.filter((id) => sent.has(id));
+    if (repriced.length > 0) {
+      send({ type: "prices", prices: Object.fromEntries(repriced.map((id) => [id, state.prices.get(id)!])) });
+    }
+    // Wait for a hotel's static content (name, photo) before sending it
+    sendHotels(state.order.filter((id) => !sent.has(id) && state.content.has(id)));
+  }
+  sendHotels(state.order.filter((id) => !sent.has(id)));
+
+  if (ctx.paged && state.ratedIds.length > 0) {
+    const resp = await searchHotelRates(
+      { ...baseParams, hotelIds: state.ratedIds, offset: undefined, refundableRatesOnly: true },
+      apiKey
+    );
+    markRefundable(parseRefundableHotelIds(resp));
+  }
+  await refundableSearch;
+  await Promise.all(enrichments);
+
+  if (state.invalid > 0) console.warn(`[rates/search] dropped ${state.invalid} malformed LiteAPI entries`);
+  // Phase 9: no availability for these dates (hotels returned but no rates). Later pages just come back empty.
+  if (ctx.offset === 0 && state.ratedIds.length > 0 && state.prices.size === 0) throw new NoRatesError();
+
+  const payload: CachedRatesSearch["payload"] = {
+    version: SEARCH_RESPONSE_VERSION,
+    mode: ctx.mode,
+    hotels: buildSearchResultHotels(state, refundable, details),
+    promoConfig: ctx.promoConfig,
+    page: ratesSearchPage(ctx, state.order.length)
+  };
+  send({ type: "done", page: payload.page });
+  await searchCache
+    .set(ctx.cacheKey, { payload, headers: ctx.headers })
+    .catch((err) => console.warn("[rates/search] cache write failed", err));
+}
+
+export async function POST(req: NextRequest) {
+  const format = searchStreamFormatForAccept(req.headers.get("accept")) ?? "ndjson";
+  try {
+    const prepared = await prepareRatesSearch(req);
+    if (!prepared.ok) return prepared.response;
+    const { ctx } = prepared;
+    const abort = new AbortController();
+
+    if (await searchCache.canServe(ctx.cacheKey)) {
+      const { payload, headers } = await searchCache.getOrLoad(ctx.cacheKey, () => loadRatesSearch(ctx));
+      return eventStream(format, headers, abort, async (send) => {
+        send(metaEvent(ctx));
+        send({ type: "hotels", hotels: payload.hotels });
+        send({ type: "done", page: payload.page });
+      });
+    }
+
+    const upstream = await fetchHotelRatesStream(ctx.baseParams, ctx.apiKey, abort.signal);
+    return eventStream(format, ctx.headers, abort, (send) => streamLive(ctx, upstream, send));
+  } catch (err: any) {
+    return ratesSearchErrorResponse(err);
+  }
+}
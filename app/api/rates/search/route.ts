@@ -1,14 +1,19 @@
+import { isRatesStreamEnabled } from "@/search";
+import { searchStreamFormatForAccept } from "@/search/stream";
 import { NextRequest } from "next/server";
 
 /**
  * POST /api/rates/search
  *
- * Uses the non-stream search implementation. Streaming (Phase 5) was deprecated;
- * the stream handler is kept in _deprecated/route.stream.ts for future use.
- * See docs/deprecated/STREAM_SEARCH_README.md and
- * docs/IMPLEMENTATION_PLAN_SEARCH_SPEED_AND_STREAM.md.
+ * JSON by default (route.non-stream.backup.ts). With USE_RATES_STREAM=true, clients that accept
+ * application/x-ndjson or text/event-stream get the same search as events while it arrives (route.stream.ts).
+ * See docs/STREAM_SEARCH.md and docs/IMPLEMENTATION_PLAN_SEARCH_SPEED_AND_STREAM.md.
  */
 export async function POST(req: NextRequest) {
+  if (isRatesStreamEnabled() && searchStreamFormatForAccept(req.headers.get("accept"))) {
+    const { POST: streamPost } = await import("./route.stream");
+    return streamPost(req);
+  }
   const { POST: nonStreamPost } = await import("./route.non-stream.backup");
   return nonStreamPost(req);
 }
@@ -0,0 +1,81 @@
+import { getIdentityFromRequest } from "@/auth";
+import { deleteSavedTraveller, parseSavedTravellerFields, updateSavedTraveller } from "@/travellers";
+import { NextRequest, NextResponse } from "next/server";
+
+/** PUT /api/travellers/[id] — replace a saved traveller's details (same body as POST /api/travellers). */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const identity = await getIdentityFromRequest(req);
+  if (!identity) {
+    return NextResponse.json(
+      { error: { message: "Log in to edit saved travellers" } },
+      { status: 401 }
+    );
+  }
+
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseSavedTravellerFields(body);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: { message: parsed.message } },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const traveller = await updateSavedTraveller(identity.profile.userId, params.id, parsed.value);
+    if (!traveller) {
+      return NextResponse.json(
+        { error: { message: "Traveller not found" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: traveller });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to save traveller" } },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE /api/travellers/[id] */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const identity = await getIdentityFromRequest(req);
+  if (!identity) {
+    return NextResponse.json(
+      { error: { message: "Log in to edit saved travellers" } },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const deleted = await deleteSavedTraveller(identity.profile.userId, params.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: { message: "Traveller not found" } },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ data: { deleted: true } });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to remove traveller" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { getIdentityFromRequest } from "@/auth";
+import { createSavedTraveller, listSavedTravellers, MAX_SAVED_TRAVELLERS, parseSavedTravellerFields } from "@/travellers";
+import { NextRequest, NextResponse } from "next/server";
+
+/** GET /api/travellers — the logged-in user's saved travellers. */
+export async function GET(req: NextRequest) {
+  const identity = await getIdentityFromRequest(req);
+  if (!identity) {
+    return NextResponse.json(
+      { error: { message: "Log in to see your saved travellers" } },
+      { status: 401 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ data: await listSavedTravellers(identity.profile.userId) });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load travellers" } },
+      { status: 500 }
+    );
+  }
+}
+
+/** POST /api/travellers — save a traveller. Body: { relation, firstName, lastName, birthDate?, email?, phone? }. */
+export async function POST(req: NextRequest) {
+  const identity = await getIdentityFromRequest(req);
+  if (!identity) {
+    return NextResponse.json(
+      { error: { message: "Log in to save travellers" } },
+      { status: 401 }
+    );
+  }
+
+  let body: any = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { message: "Invalid JSON body" } },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseSavedTravellerFields(body);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: { message: parsed.message } },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const traveller = await createSavedTraveller(identity.profile.userId, parsed.value);
+    if (!traveller) {
+      return NextResponse.json(
+        { error: { message: `You can save up to ${MAX_SAVED_TRAVELLERS} travellers`, code: "TRAVELLER_LIMIT_REACHED" } },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ data: traveller });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to save traveller" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { getIdentityFromRequest, setIdentityCookie } from "@/auth";
+import { findTripForUser, getBookingStore, refreshLoyaltyIdentity, toTripSummary } from "@/bookings";
+import { releaseAccountCredit } from "@/checkout";
+import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
+import { cancelBooking } from "@/lib/liteapi";
+import { NextRequest, NextResponse } from "next/server";
+
+/** POST /api/trips/[bookingId]/cancel — cancel one of the caller's bookings via LiteAPI and mark it cancelled in the ledger. */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { bookingId: string } }
+) {
+  const identity = await getIdentityFromRequest(req);
+  if (!identity) {
+    return NextResponse.json(
+      { error: { message: "Log in to manage your trips" } },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const record = await findTripForUser(identity.profile, params.bookingId);
+    if (!record) {
+      return NextResponse.json(
+        { error: { message: "Booking not found" } },
+        { status: 404 }
+      );
+    }
+    if (record.status === "cancelled") {
+      return NextResponse.json(
+        { error: { message: "This booking is already cancelled" } },
+        { status: 409 }
+      );
+    }
+
+    const apiKey = getLiteApiKeyForChannel(record.channel);
+    const resp = await cancelBooking(params.bookingId, apiKey);
+    const data = resp?.data ?? {};
+
+    const updated = await getBookingStore().update(record.id, {
+      status: "cancelled",
+      liteApiStatus: data.status ?? "CANCELLED"
+    });
+    if (record.paymentMode === "account_credit") {
+      await releaseAccountCredit(record.id).catch((err) =>
+        console.error("Account credit: failed to release after cancellation", params.bookingId, err)
+      );
+    }
+
+    const res = NextResponse.json({
+      data: {
+        trip: toTripSummary(updated ?? record),
+        cancellation: data
+      }
+    });
+    // A cancelled stay no longer counts towards loyalty: recount and re-issue the cookie.
+    const refreshed = await refreshLoyaltyIdentity(identity).catch((err) => {
+      console.error("Loyalty: failed to refresh after cancellation", params.bookingId, err);
+      return null;
+    });
+    if (refreshed) {
+      const { name, value, options } = setIdentityCookie(refreshed);
+      res.cookies.set(name, value, options);
+    }
+    return res;
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to cancel booking" } },
+      { status: 500 }
+    );
+  }
+}
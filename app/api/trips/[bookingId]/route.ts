@@ -0,0 +1,60 @@
+import { getIdentityFromRequest } from "@/auth";
+import { findTripForUser, toTripSummary } from "@/bookings";
+import { estimateRefund } from "@/lib/cancellation";
+import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
+import { getBooking } from "@/lib/liteapi";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * GET /api/trips/[bookingId] — live booking status from LiteAPI plus the refund the user would get if they cancelled now.
+ * Only for bookings in the caller's ledger (404 otherwise).
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { bookingId: string } }
+) {
+  const identity = await getIdentityFromRequest(req);
+  if (!identity) {
+    return NextResponse.json(
+      { error: { message: "Log in to see your trips" } },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const record = await findTripForUser(identity.profile, params.bookingId);
+    if (!record) {
+      return NextResponse.json(
+        { error: { message: "Booking not found" } },
+        { status: 404 }
+      );
+    }
+
+    // Use the key the booking was made with (guest bookings later claimed by a logged-in user stay on B2C).
+    const apiKey = getLiteApiKeyForChannel(record.channel);
+    const resp = await getBooking(params.bookingId, apiKey);
+    const live = resp?.data ?? null;
+
+    const price = typeof live?.price === "number" ? live.price : record.price?.amount;
+    const currency = live?.currency ?? record.price?.currency;
+    const isCancelled =
+      record.status === "cancelled" || String(live?.status ?? "").toUpperCase().startsWith("CANCELLED");
+    const refundEstimate =
+      !isCancelled && price != null && currency
+        ? estimateRefund(price, currency, live?.cancellationPolicies)
+        : null;
+
+    return NextResponse.json({
+      data: {
+        trip: toTripSummary(record),
+        live,
+        refundEstimate
+      }
+    });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load booking" } },
+      { status: 500 }
+    );
+  }
+}
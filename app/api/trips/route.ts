@@ -0,0 +1,24 @@
+import { getIdentityFromRequest } from "@/auth";
+import { listTripsForUser, toTripSummary } from "@/bookings";
+import { NextRequest, NextResponse } from "next/server";
+
+/** GET /api/trips — the logged-in user's confirmed and cancelled bookings (from our ledger). */
+export async function GET(req: NextRequest) {
+  const identity = await getIdentityFromRequest(req);
+  if (!identity) {
+    return NextResponse.json(
+      { error: { message: "Log in to see your trips" } },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const records = await listTripsForUser(identity.profile);
+    return NextResponse.json({ data: records.map(toTripSummary) });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load trips" } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { createServerAuthAdapter } from "@/auth";
+import {
+  buildBookingCalendar,
+  canAccessVoucher,
+  getBookingStore,
+  loadVoucher,
+  renderVoucherHtml,
+  renderVoucherPdf
+} from "@/bookings";
+import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
+import { getCachedHotelDetails } from "@/lib/liteapi";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * GET /api/vouchers/[id]?token=&format=pdf|html|ics — booking voucher for a ledger record (id = prebookId),
+ * or the stay as a calendar event (ics). Allowed with the voucher token returned by /api/rates/book, or for the logged-in owner of the booking.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const requested = req.nextUrl.searchParams.get("format");
+  const format = requested === "html" || requested === "ics" ? requested : "pdf";
+  try {
+    const record = await getBookingStore().get(params.id);
+    const profile = record ? await createServerAuthAdapter(req).getUserProfile() : null;
+    if (
+      !record ||
+      (record.status !== "confirmed" && record.status !== "cancelled") ||
+      !canAccessVoucher(record, { token: req.nextUrl.searchParams.get("token"), profile })
+    ) {
+      return NextResponse.json(
+        { error: { message: "Voucher not found" } },
+        { status: 404 }
+      );
+    }
+
+    const voucher = await loadVoucher(record);
+    const safeId = voucher.bookingId.replace(/[^\w-]/g, "");
+    if (format === "ics") {
+      const hotel = record.hotelId
+        ? await getCachedHotelDetails(record.hotelId, undefined, getLiteApiKeyForChannel(record.channel))
+        : null;
+      const calendar = buildBookingCalendar(voucher, hotel);
+      if (!calendar) {
+        return NextResponse.json(
+          { error: { message: "This booking has no stay dates" } },
+          { status: 404 }
+        );
+      }
+      return new NextResponse(calendar, {
+        headers: {
+          "content-type": "text/calendar; charset=utf-8",
+          "content-disposition": `attachment; filename="stay-${safeId}.ics"`,
+          "cache-control": "private, no-store"
+        }
+      });
+    }
+    if (format === "html") {
+      return new NextResponse(renderVoucherHtml(voucher), {
+        headers: { "content-type": "text/html; charset=utf-8", "cache-control": "private, no-store" }
+      });
+    }
+    return new NextResponse(new Uint8Array(renderVoucherPdf(voucher)), {
+      headers: {
+        "content-type": "application/pdf",
+        "content-disposition": `attachment; filename="voucher-${safeId}.pdf"`,
+        "cache-control": "private, no-store"
+      }
+    });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: { message: err.message ?? "Failed to load voucher" } },
+      { status: 500 }
+    );
+  }
+}
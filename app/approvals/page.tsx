@@ -0,0 +1,309 @@
+"use client";
+
+import type { ApprovalRequest, ApprovalStatus, CorporateRole } from "@/corporate/types";
+import { describePolicyViolations } from "@/corporate/policy";
+import { useAuth } from "@/context/AuthContext";
+import { BottomNav } from "@/components/BottomNav";
+import { ArrowLeftIcon, CalendarIcon } from "@/components/Icons";
+import { serializeOccupancies } from "@/lib/occupancy";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+
+const STATUS_LABELS: Record<ApprovalStatus, string> = {
+  pending: "Waiting for approval",
+  approved: "Approved",
+  rejected: "Not approved",
+  expired: "Rate expired"
+};
+
+const STATUS_CLASSES: Record<ApprovalStatus, string> = {
+  pending: "border-amber-300 bg-amber-50 text-amber-800",
+  approved: "border-[var(--primary)]/40 bg-[var(--primary)]/10 text-[var(--primary)]",
+  rejected: "border-red-500/40 bg-red-50 text-red-700",
+  expired: "border-[var(--sky-blue)] bg-[var(--light-bg)] text-[var(--muted-foreground)]"
+};
+
+function formatStayDate(dateStr: string | undefined): string {
+  if (!dateStr) return "—";
+  const d = new Date(dateStr);
+  if (Number.isNaN(d.getTime())) return dateStr;
+  return d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${amount.toFixed(2)}`;
+}
+
+/** Checkout for the approved prebook (the page loads it through /api/corporate/approvals/[id]/prebook). */
+function checkoutUrl(approval: ApprovalRequest): string {
+  const params = new URLSearchParams({
+    hotelId: approval.hotelId ?? "",
+    offerId: approval.offerId,
+    checkin: approval.checkin ?? "",
+    checkout: approval.checkout ?? "",
+    occupancies: serializeOccupancies(approval.occupancies),
+    approvalId: approval.id
+  });
+  return `/checkout?${params.toString()}`;
+}
+
+function ApprovalCard({
+  approval,
+  canDecide,
+  isRequester,
+  onUpdated
+}: {
+  approval: ApprovalRequest;
+  canDecide: boolean;
+  isRequester: boolean;
+  onUpdated: (approval: ApprovalRequest) => void;
+}) {
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingPrice, setPendingPrice] = useState<number | null>(null);
+
+  const traveller =
+    [approval.traveller.firstName, approval.traveller.lastName].filter(Boolean).join(" ") || approval.traveller.email;
+  const change = approval.priceChange;
+
+  const decide = async (action: "approve" | "reject") => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/corporate/approvals/${encodeURIComponent(approval.id)}/${action}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          note: note.trim() || undefined,
+          ...(action === "approve" && pendingPrice != null && { acceptPrice: pendingPrice })
+        })
+      });
+      const json = await res.json();
+      if (json?.data) onUpdated(json.data as ApprovalRequest);
+      if (!res.ok || json?.error) {
+        if (json?.error?.code === "PRICE_CHANGED" && json?.data?.priceChange) {
+          setPendingPrice((json.data as ApprovalRequest).priceChange!.current);
+        }
+        setError(json?.error?.message ?? "Could not update this request");
+        return;
+      }
+      setPendingPrice(null);
+    } catch {
+      setError("Could not update this request");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 shadow-sm space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-[var(--dark-text)] truncate">
+            {approval.hotelName ?? "Hotel booking"}
+          </p>
+          <p className="text-xs text-[var(--muted-foreground)] mt-0.5 flex items-center gap-1">
+            <CalendarIcon className="w-3.5 h-3.5" />
+            {formatStayDate(approval.checkin)} – {formatStayDate(approval.checkout)}
+          </p>
+        </div>
+        <span className={`shrink-0 rounded-full px-2.5 py-0.5 text-[11px] font-semibold border ${STATUS_CLASSES[approval.status]}`}>
+          {STATUS_LABELS[approval.status]}
+        </span>
+      </div>
+
+      <div className="text-xs text-[var(--muted-foreground)] space-y-0.5">
+        <p>
+          Traveller <span className="font-medium text-[var(--dark-text)]">{traveller}</span>
+        </p>
+        <p>
+          Price{" "}
+          <span className="font-medium text-[var(--dark-text)]">
+            {formatMoney(approval.heldPrice.amount, approval.heldPrice.currency)}
+          </span>
+        </p>
+        <p className="text-amber-800">Out of policy · {describePolicyViolations(approval.policy.violations)}</p>
+        {approval.reason && <p>Reason: {approval.reason}</p>}
+        {approval.decidedByEmail && approval.status !== "pending" && (
+          <p>
+            Decided by {approval.decidedByEmail}
+            {approval.decisionNote ? `: ${approval.decisionNote}` : ""}
+          </p>
+        )}
+      </div>
+
+      {change && (
+        <p className="rounded-lg border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          Price changed from {formatMoney(change.previous, change.currency)} to{" "}
+          <span className="font-semibold">{formatMoney(change.current, change.currency)}</span>.
+        </p>
+      )}
+
+      {canDecide && approval.status === "pending" && (
+        <div className="space-y-2 pt-1">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={500}
+            placeholder="Note for the traveller (optional)"
+            className="w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2 text-xs text-[var(--dark-text)] placeholder:text-[var(--muted-foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => decide("approve")}
+              className="flex-1 rounded-full bg-[var(--primary)] text-white text-xs font-semibold py-2 hover:bg-[var(--primary-hover)] disabled:opacity-50 transition"
+            >
+              {busy ? "Checking rate…" : pendingPrice != null ? "Approve new price" : "Approve"}
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => decide("reject")}
+              className="flex-1 rounded-full border border-[var(--sky-blue)] bg-white text-[var(--dark-text)] text-xs font-semibold py-2 hover:bg-[var(--light-bg)] disabled:opacity-50 transition"
+            >
+              Reject
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isRequester && approval.status === "approved" && (
+        <Link
+          href={checkoutUrl(approval)}
+          className="flex w-full items-center justify-center rounded-full bg-[var(--primary)] text-white text-xs font-semibold py-2 hover:bg-[var(--primary-hover)] transition"
+        >
+          Continue to payment
+        </Link>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </li>
+  );
+}
+
+export default function ApprovalsPage() {
+  const router = useRouter();
+  const { isReady, isLoggedIn, userProfile } = useAuth();
+  const [role, setRole] = useState<CorporateRole | null>(null);
+  const [items, setItems] = useState<ApprovalRequest[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isReady || !isLoggedIn) return;
+    let cancelled = false;
+    fetch("/api/corporate/approvals", { credentials: "include" })
+      .then((res) => res.json().then((json) => ({ ok: res.ok, json })))
+      .then(({ ok, json }) => {
+        if (cancelled) return;
+        if (!ok || json?.error) {
+          setError(json?.error?.message ?? "Could not load approval requests");
+          return;
+        }
+        setRole(json.data.role as CorporateRole);
+        setItems(json.data.items as ApprovalRequest[]);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Could not load approval requests");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isReady, isLoggedIn]);
+
+  const handleUpdated = useCallback((updated: ApprovalRequest) => {
+    setItems((prev) => (prev ?? []).map((a) => (a.id === updated.id ? updated : a)));
+  }, []);
+
+  const pending = (items ?? []).filter((a) => a.status === "pending");
+  const decided = (items ?? []).filter((a) => a.status !== "pending");
+  const email = userProfile?.email?.toLowerCase();
+
+  const renderList = (list: ApprovalRequest[]) => (
+    <ul className="space-y-3">
+      {list.map((approval) => (
+        <ApprovalCard
+          key={approval.id}
+          approval={approval}
+          canDecide={role === "travel_manager"}
+          isRequester={approval.requestedByEmail === email}
+          onUpdated={handleUpdated}
+        />
+      ))}
+    </ul>
+  );
+
+  return (
+    <main className="min-h-screen bg-[var(--light-bg)] text-[var(--dark-text)] pb-24">
+      <header className="sticky top-0 z-10 flex items-center gap-3 px-4 py-3 bg-white/95 backdrop-blur border-b border-[var(--sky-blue)] pt-[max(0.75rem,env(safe-area-inset-top))]">
+        <Link
+          href="/profile"
+          className="h-9 w-9 shrink-0 rounded-full border border-[var(--sky-blue)] bg-[var(--light-bg)] flex items-center justify-center text-[var(--dark-text)] hover:bg-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] transition-colors duration-[var(--expand-duration)]"
+          aria-label="Back to profile"
+        >
+          <ArrowLeftIcon className="w-5 h-5" />
+        </Link>
+        <h1 className="text-lg font-bold text-[var(--dark-text)] truncate">Approvals</h1>
+      </header>
+
+      <div className="max-w-md mx-auto px-4 py-6 space-y-6">
+        {isReady && !isLoggedIn && (
+          <section className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 shadow-sm space-y-4">
+            <p className="text-sm text-[var(--muted-foreground)]">
+              Log in with your company account to see approval requests.
+            </p>
+            <Link
+              href="/login"
+              className="inline-flex items-center justify-center w-full rounded-xl bg-[var(--primary)] hover:bg-[var(--primary-hover)] text-white font-semibold py-3 px-4 transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:ring-offset-2"
+            >
+              Log in
+            </Link>
+          </section>
+        )}
+
+        {isLoggedIn && !items && !error && (
+          <div className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 text-sm text-[var(--muted-foreground)] animate-pulse shadow-sm">
+            Loading approval requests…
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-xl border border-red-500/40 bg-red-50 px-3 py-3 text-xs text-red-700">
+            {error}
+          </div>
+        )}
+
+        {items && items.length === 0 && (
+          <section className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 shadow-sm text-sm text-[var(--muted-foreground)]">
+            {role === "travel_manager"
+              ? "No approval requests yet. Out-of-policy requests from your travellers show up here."
+              : "No approval requests yet. Rates outside your travel policy can be sent for approval at checkout."}
+          </section>
+        )}
+
+        {pending.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-semibold text-[var(--dark-text)]">
+              {role === "travel_manager" ? "Waiting for your decision" : "Waiting for approval"}
+            </h2>
+            {renderList(pending)}
+          </section>
+        )}
+
+        {decided.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-semibold text-[var(--dark-text)]">Decided</h2>
+            {renderList(decided)}
+          </section>
+        )}
+      </div>
+
+      <BottomNav onSearchClick={() => router.push("/")} />
+    </main>
+  );
+}
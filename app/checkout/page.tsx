@@ -1,11 +1,26 @@
 "use client";
 
+import type {
+  AlternativeOffer,
+  BedPreference,
+  PaymentMode,
+  PrebookFailureCode,
+  QuotePriceChange,
+  SpecialRequestOption
+} from "@/checkout/types";
+import { acceptsPromoCodes } from "@/checkout/payment-modes";
+import { BED_PREFERENCE_LABELS, SPECIAL_REQUEST_OPTION_LABELS } from "@/checkout/special-requests";
 import { useAuth } from "@/context/AuthContext";
+import { useSavedTravellers } from "@/hooks/useSavedTravellers";
+import type { SavedTraveller } from "@/travellers/types";
+import { describePolicyViolations } from "@/corporate/policy";
+import type { ApprovalPriceChange, ApprovalRequest, PolicyCheck } from "@/corporate/types";
 import { useLocaleCurrency } from "@/context/LocaleCurrencyContext";
-import { parseOccupanciesParam, totalGuests } from "@/lib/occupancy";
+import { checkGuestName, getAgeOn, getRoomGuestSlots, isValidGuestName, isValidPhone, type RoomGuestSlot } from "@/lib/guests";
+import { parseOccupanciesParam, totalGuests, type Occupancy } from "@/lib/occupancy";
 import { ArrowLeftIcon, BreakfastIcon, ChevronDownIcon, ChevronUpIcon, InfoIcon, MapPinIcon, UsersIcon } from "@/components/Icons";
 import { useRouter, useSearchParams } from "next/navigation";
-import { FormEvent, useEffect, useMemo, useRef, useState, Suspense } from "react";
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState, Suspense } from "react";
 
 interface PrebookPayload {
   data: {
@@ -48,11 +63,60 @@ interface HotelSummary {
   reviewCount?: number;
 }
 
+/** Signed quote from /api/checkout/quote (amounts in `currency`; see src/checkout/types.ts). */
+interface CheckoutQuotePayload {
+  quote: {
+    prebookId: string;
+    currency: string;
+    base: number;
+    includedTaxes: number;
+    commission: number;
+    subtotal: number;
+    discount: number;
+    payNow: number;
+    localFees: number;
+    total: number;
+    /** Mode the quote is priced for: promo discounts only lower account_credit bookings. */
+    paymentMode: PaymentMode;
+    /** End of the price hold (quote TTL capped at the prebook hold). */
+    expiresAt: string;
+    promo?:
+      | { applied: true; code: string; type: "percent" | "fixed"; value: number; currency?: string; message: string }
+      | { applied: false; code: string; reason: string; message: string };
+  };
+  token: string;
+  /** B2B only: travel policy check; approvalRequired means the traveller requests approval instead of paying. */
+  corporate?: { policy: PolicyCheck; approvalRequired: boolean; approvalId?: string };
+  /** How this user may pay; pay_now first. Pay-later modes come from the segment and the rate. */
+  paymentModes?: PaymentMode[];
+  /** Prebook price vs the price shown before it (hotel page list price, or the previous prebook). */
+  priceChange?: QuotePriceChange;
+}
+
+const PAYMENT_MODE_OPTIONS: Record<PaymentMode, { label: string; description: string }> = {
+  pay_now: { label: "Pay now", description: "Pay by card now to confirm your booking." },
+  account_credit: {
+    label: "Book on account",
+    description: "Nothing is charged now. The stay is billed to your account and invoiced later."
+  },
+  pay_at_property: {
+    label: "Pay at the property",
+    description: "We do not charge you. You pay the hotel directly; it may ask for a card as a guarantee."
+  }
+};
+
 interface GuestDetails {
   firstName: string;
   lastName: string;
   email: string;
   phone?: string;
+  /** Everyone else in the room, in companionSlots order (other adults, then children). */
+  companions?: CompanionDetails[];
+}
+
+interface CompanionDetails {
+  firstName: string;
+  lastName: string;
 }
 
 /** Stored shape: per-room guests for book API (Phase 3). Confirmation reads this. */
@@ -71,12 +135,147 @@ declare global {
 const GUEST_STORAGE_KEY = "liteapi_guest_details";
 const BOOKING_FOR_KEY = "liteapi_booking_for"; // "myself" | "someone_else"
 const PROMO_STORAGE_KEY_PREFIX = "liteapi_promo_"; // + offerId
+const QUOTE_STORAGE_KEY_PREFIX = "liteapi_quote_"; // + offerId (signed quote token, sent to book by confirmation)
 const SPECIAL_REQUESTS_KEY = "liteapi_special_requests";
+const SPECIAL_REQUEST_OPTIONS_KEY = "liteapi_special_request_options"; // { options, bedPreference } (sent to book by confirmation)
+const CORPORATE_TRAVELLER_KEY_PREFIX = "liteapi_corporate_traveller_"; // + offerId (member email, sent to book as onBehalfOf)
+/** Prebook failures where an equivalent offer from a fresh rates call may still be bookable. */
+const ALTERNATIVE_FAILURES: PrebookFailureCode[] = ["SOLD_OUT", "PRICE_CHANGED", "OFFER_EXPIRED"];
+type PrebookRefresh = "hold" | "payment_mode";
+
+/** Warn this long before the price hold (quote.expiresAt) ends; at the end checkout re-prebooks. */
+const PRICE_HOLD_WARNING_MS = 2 * 60 * 1000;
+
+/** Company account as returned by /api/corporate (travel managers get every member). */
+interface CorporatePayload {
+  account: { id: string; name: string };
+  role: "travel_manager" | "traveller";
+  members: { email: string; firstName?: string; lastName?: string; role: "travel_manager" | "traveller" }[];
+}
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
 
 function isValidEmail(email: string): boolean {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email?.trim() ?? "");
 }
 
+/** Guests to name in a room besides the primary guest (who fills in contact details). */
+function companionSlots(occupancy: Occupancy | undefined): RoomGuestSlot[] {
+  return occupancy ? getRoomGuestSlots(occupancy).slice(1) : [];
+}
+
+function isGuestRoomValid(guest: GuestDetails | undefined, occupancy: Occupancy | undefined): boolean {
+  if (!guest) return false;
+  return (
+    isValidGuestName(guest.firstName) &&
+    isValidGuestName(guest.lastName) &&
+    isValidEmail(guest.email) &&
+    (!guest.phone?.trim() || isValidPhone(guest.phone)) &&
+    companionSlots(occupancy).every(
+      (_, c) =>
+        isValidGuestName(guest.companions?.[c]?.firstName ?? "") &&
+        isValidGuestName(guest.companions?.[c]?.lastName ?? "")
+    )
+  );
+}
+
+/** Name input with the supplier's Latin-letter rules; offers a Latin spelling for Arabic or accented input. */
+function GuestNameInput({
+  label,
+  value,
+  onChange,
+  showErrors
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  showErrors: boolean;
+}) {
+  const check = value.trim() ? checkGuestName(value) : null;
+  // Transliteration hints show while typing; other problems once the user tried to continue
+  const hint = check && !check.valid && (showErrors || check.suggestion) ? check : null;
+  return (
+    <div className="space-y-1">
+      <label className="text-xs font-medium text-[var(--dark-text)]">{label}</label>
+      <input
+        type="text"
+        value={value}
+        autoComplete="off"
+        aria-invalid={hint ? true : undefined}
+        onChange={(e) => onChange(e.target.value)}
+        className={`w-full rounded-xl border bg-white px-3 py-2 text-sm text-[var(--dark-text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] ${
+          hint ? "border-amber-400" : "border-[var(--sky-blue)]"
+        }`}
+      />
+      {hint && (
+        <p className="text-[11px] text-amber-800">
+          {hint.message}.
+          {hint.suggestion && (
+            <>
+              {" "}
+              <button
+                type="button"
+                onClick={() => onChange(hint.suggestion!)}
+                className="font-semibold text-[var(--primary)] hover:underline"
+              >
+                Use “{hint.suggestion}”
+              </button>
+            </>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Saved travellers who fit a guest slot: adults for adult slots; children for child slots, those whose age at
+ * check-in matches the slot first.
+ */
+function travellersForSlot(travellers: SavedTraveller[], slot: RoomGuestSlot, checkin: string): SavedTraveller[] {
+  if (slot.type === "adult") return travellers.filter((t) => t.relation !== "child");
+  const children = travellers.filter((t) => t.relation === "child");
+  const matchesAge = (t: SavedTraveller) => !!t.birthDate && getAgeOn(t.birthDate, checkin) === slot.age;
+  return [...children.filter(matchesAge), ...children.filter((t) => !matchesAge(t))];
+}
+
+function SavedTravellerSelect({
+  travellers,
+  checkin,
+  onSelect
+}: {
+  travellers: SavedTraveller[];
+  checkin: string;
+  onSelect: (traveller: SavedTraveller) => void;
+}) {
+  if (travellers.length === 0) return null;
+  return (
+    <select
+      value=""
+      aria-label="Fill from a saved traveller"
+      onChange={(e) => {
+        const traveller = travellers.find((t) => t.id === e.target.value);
+        if (traveller) onSelect(traveller);
+      }}
+      className="w-full rounded-xl border border-[var(--sky-blue)] bg-[var(--light-bg)] px-3 py-1.5 text-xs text-[var(--dark-text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+    >
+      <option value="">Fill from saved traveller…</option>
+      {travellers.map((t) => {
+        const age = t.relation === "child" && t.birthDate ? getAgeOn(t.birthDate, checkin) : null;
+        return (
+          <option key={t.id} value={t.id}>
+            {t.firstName} {t.lastName}
+            {age != null ? ` (${age} at check-in)` : ""}
+          </option>
+        );
+      })}
+    </select>
+  );
+}
+
 function formatStayDate(dateStr: string): string {
   if (!dateStr) return dateStr;
   const d = new Date(dateStr);
@@ -110,14 +309,31 @@ function getDefaultGuestsForRooms(roomCount: number): GuestDetails[] {
 function CheckoutContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { locale } = useLocaleCurrency();
+  const { locale, currency } = useLocaleCurrency();
   const { userProfile, isReady: authReady } = useAuth();
+  const { travellers: savedTravellers } = useSavedTravellers();
 
   const hotelId = searchParams.get("hotelId") ?? "";
   const offerId = searchParams.get("offerId") ?? "";
   const checkin = searchParams.get("checkin") ?? "";
   const checkout = searchParams.get("checkout") ?? "";
   const occupanciesParam = searchParams.get("occupancies");
+  /** Set when returning from an approved out-of-policy request: pay against the prebook re-run on approval. */
+  const approvalId = searchParams.get("approvalId") ?? "";
+  /** Hotel page list price (offerRetailRate) for this offer; the quote reports how the prebook price differs. */
+  const listPriceParam = searchParams.get("listPrice");
+  const listCurrency = searchParams.get("listCurrency") ?? "";
+  const listPrice = useMemo(
+    () =>
+      listPriceParam && listCurrency && Number.isFinite(Number(listPriceParam))
+        ? { amount: Number(listPriceParam), currency: listCurrency }
+        : null,
+    [listPriceParam, listCurrency]
+  );
+  /** The picked offer's room, board and refundability, for matching alternatives if it cannot be prebooked. */
+  const roomNameParam = searchParams.get("roomName") ?? "";
+  const boardNameParam = searchParams.get("boardName") ?? "";
+  const refundableTagParam = searchParams.get("refundableTag") ?? "";
   const occupancies = useMemo(
     () => parseOccupanciesParam(occupanciesParam),
     [occupanciesParam]
@@ -131,6 +347,8 @@ function CheckoutContent() {
   const [hotelSummary, setHotelSummary] = useState<HotelSummary | null>(null);
 
   const [bookingFor, setBookingFor] = useState<"myself" | "someone_else">("myself");
+  const [corporate, setCorporate] = useState<CorporatePayload | null>(null);
+  const [corporateTraveller, setCorporateTraveller] = useState("");
   const [guestsPerRoom, setGuestsPerRoom] = useState<GuestDetails[]>(() =>
     getDefaultGuestsForRooms(roomCount)
   );
@@ -157,39 +375,119 @@ function CheckoutContent() {
   const [promoInput, setPromoInput] = useState("");
   const [promoLoading, setPromoLoading] = useState(false);
   const [promoError, setPromoError] = useState<string | null>(null);
-  const [appliedPromo, setAppliedPromo] = useState<{
-    code: string;
-    type: "percent" | "fixed";
-    value: number;
-    currency?: string;
-    message: string;
-  } | null>(null);
+  /** Server-authoritative price for this prebook (itemised, signed); the price summary renders only this. */
+  const [quote, setQuote] = useState<CheckoutQuotePayload | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
   /** Phase 9: Special requests */
   const [specialRequestsExpanded, setSpecialRequestsExpanded] = useState(false);
   const [specialRequests, setSpecialRequests] = useState("");
+  const [requestOptions, setRequestOptions] = useState<SpecialRequestOption[]>([]);
+  const [bedPreference, setBedPreference] = useState<BedPreference | null>(null);
+  /** Out-of-policy approval (B2B travellers) */
+  const [approvalPriceChange, setApprovalPriceChange] = useState<ApprovalPriceChange | null>(null);
+  const [approvalReason, setApprovalReason] = useState("");
+  const [approvalRequesting, setApprovalRequesting] = useState(false);
+  const [approvalError, setApprovalError] = useState<string | null>(null);
+  const [requestedApproval, setRequestedApproval] = useState<ApprovalRequest | null>(null);
+  const [paymentMode, setPaymentMode] = useState<PaymentMode>("pay_now");
+  /** Why the offer is being prebooked again in place: the price hold ended, or the payment mode needs the other kind. */
+  const [refreshingPrebook, setRefreshingPrebook] = useState<PrebookRefresh | null>(null);
+  const paymentModeRef = useRef<PaymentMode>("pay_now");
+  paymentModeRef.current = paymentMode;
+  /** Whether the current prebook was requested for the payment SDK (pay_now) or without it (pay-later modes). */
+  const prebookPaymentSdkRef = useRef(true);
+  const [holdNow, setHoldNow] = useState(() => Date.now());
+  /** Price the user was last shown, sent with every quote request (list price, then the expired prebook's). */
+  const shownPriceRef = useRef<{ amount: number; currency: string } | null>(null);
+  const [prebookErrorCode, setPrebookErrorCode] = useState<string | null>(null);
+  const [alternatives, setAlternatives] = useState<AlternativeOffer[] | null>(null);
+
+  const appliedPromo = quote?.quote.promo?.applied ? quote.quote.promo : null;
+
+  /**
+   * Fetch a signed quote for the current prebook and payment mode, optionally with a promo code; stores the token
+   * for the book call.
+   */
+  const requestQuote = useCallback(
+    async (promoCode?: string): Promise<CheckoutQuotePayload> => {
+      const prebookId = prebook?.data?.prebookId;
+      const res = await fetch("/api/checkout/quote", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          prebookId,
+          offerId,
+          promoCode,
+          paymentMode: paymentModeRef.current,
+          shownPrice: shownPriceRef.current ?? undefined
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok || json?.error || !json?.data?.token) {
+        throw new Error(json?.error?.message ?? "Could not load the price for this room.");
+      }
+      const payload = json.data as CheckoutQuotePayload;
+      // The mode was switched again while this quote loaded; the quote for the current mode is on its way
+      if (payload.quote.paymentMode !== paymentModeRef.current) return payload;
+      setQuote(payload);
+      setQuoteError(null);
+      if (typeof window !== "undefined" && offerId) {
+        try {
+          window.sessionStorage.setItem(`${QUOTE_STORAGE_KEY_PREFIX}${offerId}`, payload.token);
+        } catch {}
+      }
+      return payload;
+    },
+    [offerId, prebook?.data?.prebookId]
+  );
 
-  // Phase 7: Restore applied promo from sessionStorage (keyed by offerId)
+  /**
+   * Phase 7: Apply a promo code by re-quoting with it (server computes the discount).
+   * Returns an error message, or null when applied.
+   */
+  const applyPromoCode = useCallback(
+    async (rawCode: string): Promise<string | null> => {
+      const code = rawCode.trim();
+      if (!code) return "Please enter a promo code.";
+      const { quote: next } = await requestQuote(code);
+      if (!next.promo?.applied) return next.promo?.message ?? "Invalid or expired code";
+      if (typeof window !== "undefined" && offerId) {
+        try {
+          window.sessionStorage.setItem(
+            `${PROMO_STORAGE_KEY_PREFIX}${offerId}`,
+            JSON.stringify({ code: next.promo.code })
+          );
+        } catch {}
+      }
+      return null;
+    },
+    [offerId, requestQuote]
+  );
+
+  // Quote the fresh prebook (and again on a payment mode switch), with the promo applied earlier for this offer
+  // (if it still applies). A switch that needs the other kind of prebook waits for it.
   useEffect(() => {
-    if (typeof window === "undefined" || !offerId) return;
+    if (typeof window === "undefined" || !prebook?.data?.prebookId) return;
+    if (prebookPaymentSdkRef.current !== (paymentMode === "pay_now")) return;
+    let storedCode: string | undefined;
     try {
-      const key = `${PROMO_STORAGE_KEY_PREFIX}${offerId}`;
-      const stored = window.sessionStorage.getItem(key);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        if (parsed?.code && (parsed.type === "percent" || parsed.type === "fixed")) {
-          setAppliedPromo({
-            code: parsed.code,
-            type: parsed.type,
-            value: parsed.value ?? 0,
-            currency: parsed.currency,
-            message: parsed.message ?? "Promo code applied!",
-          });
-        }
-      }
+      const stored = offerId ? window.sessionStorage.getItem(`${PROMO_STORAGE_KEY_PREFIX}${offerId}`) : null;
+      storedCode = stored ? JSON.parse(stored)?.code ?? undefined : undefined;
     } catch {
       // ignore
     }
-  }, [offerId]);
+    requestQuote(storedCode)
+      .then(({ quote: next }) => {
+        // Kept for a mode the code does apply to (account credit)
+        if (storedCode && !next.promo?.applied && next.promo?.reason !== "PAYMENT_MODE") {
+          try {
+            window.sessionStorage.removeItem(`${PROMO_STORAGE_KEY_PREFIX}${offerId}`);
+          } catch {}
+        }
+      })
+      .catch((err: Error) => setQuoteError(err.message));
+  }, [offerId, prebook?.data?.prebookId, paymentMode, requestQuote]);
 
   // Phase 9: Restore special requests from localStorage
   useEffect(() => {
@@ -197,6 +495,11 @@ function CheckoutContent() {
     try {
       const stored = window.localStorage.getItem(SPECIAL_REQUESTS_KEY);
       if (stored != null) setSpecialRequests(stored.slice(0, 500));
+      const storedOptions = JSON.parse(window.localStorage.getItem(SPECIAL_REQUEST_OPTIONS_KEY) ?? "null");
+      if (Array.isArray(storedOptions?.options)) {
+        setRequestOptions(storedOptions.options.filter((o: string) => o in SPECIAL_REQUEST_OPTION_LABELS));
+      }
+      if (storedOptions?.bedPreference in BED_PREFERENCE_LABELS) setBedPreference(storedOptions.bedPreference);
     } catch {
       // ignore
     }
@@ -216,6 +519,22 @@ function CheckoutContent() {
     }
   }, [specialRequests]);
 
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      if (requestOptions.length > 0 || bedPreference) {
+        window.localStorage.setItem(
+          SPECIAL_REQUEST_OPTIONS_KEY,
+          JSON.stringify({ options: requestOptions, bedPreference: bedPreference ?? undefined })
+        );
+      } else {
+        window.localStorage.removeItem(SPECIAL_REQUEST_OPTIONS_KEY);
+      }
+    } catch {
+      // ignore
+    }
+  }, [requestOptions, bedPreference]);
+
   // Sync guestsPerRoom length when room count changes
   useEffect(() => {
     setGuestsPerRoom((prev) => {
@@ -248,7 +567,8 @@ function CheckoutContent() {
               firstName: g.firstName ?? "",
               lastName: g.lastName ?? "",
               email: g.email ?? "",
-              phone: g.phone ?? ""
+              phone: g.phone ?? "",
+              companions: Array.isArray(g.companions) ? g.companions : []
             })));
           } else if (guests.length > 0) {
             setGuestsPerRoom((prev) => {
@@ -258,7 +578,8 @@ function CheckoutContent() {
                   firstName: g.firstName ?? "",
                   lastName: g.lastName ?? "",
                   email: g.email ?? "",
-                  phone: g.phone ?? ""
+                  phone: g.phone ?? "",
+                  companions: Array.isArray(g.companions) ? g.companions : []
                 };
               });
               return next;
@@ -295,6 +616,7 @@ function CheckoutContent() {
     setGuestsPerRoom((prev) => {
       const next = [...prev];
       next[0] = {
+        ...next[0],
         firstName: next[0].firstName || firstName,
         lastName: next[0].lastName || lastName,
         email: next[0].email || email,
@@ -304,43 +626,189 @@ function CheckoutContent() {
     });
   }, [authReady, bookingFor, userProfile?.userId, userProfile?.email, userProfile?.displayName, userProfile?.phone]);
 
-  // Prebook when offerId is available
+  // B2B: load the company account so travel managers can book on behalf of a traveller
   useEffect(() => {
-    if (!offerId) {
-      setPrebookError("Missing offer. Please go back and select a room.");
-      setLoadingPrebook(false);
+    if (!authReady || userProfile?.userType !== "b2b") {
+      setCorporate(null);
       return;
     }
+    let cancelled = false;
+    fetch("/api/corporate")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => {
+        if (!cancelled) setCorporate(json?.data ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setCorporate(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authReady, userProfile?.userId, userProfile?.userType]);
+
+  const corporateTravellers = useMemo(
+    () =>
+      corporate?.role === "travel_manager"
+        ? corporate.members.filter((m) => m.email !== userProfile?.email?.toLowerCase())
+        : [],
+    [corporate, userProfile?.email]
+  );
+
+  const selectCorporateTraveller = (email: string) => {
+    setCorporateTraveller(email);
+    const member = corporateTravellers.find((m) => m.email === email);
+    if (!member) return;
+    setGuestsPerRoom((prev) => {
+      const next = [...prev];
+      next[0] = {
+        ...next[0],
+        firstName: member.firstName ?? "",
+        lastName: member.lastName ?? "",
+        email: member.email
+      };
+      return next;
+    });
+  };
 
-    async function run() {
+  /**
+   * Prebook the offer, for the payment SDK only when paying now. refresh: prebook again in place (the page stays
+   * up and the new quote reports any price change against the price the user was looking at).
+   */
+  const loadPrebook = useCallback(
+    async (refresh: PrebookRefresh | null) => {
+      const paymentSdk = paymentModeRef.current === "pay_now";
       try {
-        setLoadingPrebook(true);
+        if (refresh) {
+          setRefreshingPrebook(refresh);
+        } else {
+          setLoadingPrebook(true);
+          shownPriceRef.current = listPrice;
+        }
+        setQuote(null);
         setPrebookError(null);
-        const res = await fetch("/api/rates/prebook", {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify({
-            offerId,
-            usePaymentSdk: true
-          })
-        });
+        setPrebookErrorCode(null);
+        // An approved request holds its own prebook (re-run on approval, and again once that hold ended).
+        // Its first load uses the payment mode the approval was requested with.
+        const approvalQuery = refresh ? `?paymentMode=${paymentModeRef.current}` : "";
+        const res = approvalId
+          ? await fetch(`/api/corporate/approvals/${encodeURIComponent(approvalId)}/prebook${approvalQuery}`, {
+              credentials: "include"
+            })
+          : await fetch("/api/rates/prebook", {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              credentials: "include",
+              body: JSON.stringify({
+                offerId,
+                usePaymentSdk: paymentSdk
+              })
+            });
         const json = await res.json();
         if (!res.ok || json?.error) {
+          setPrebookErrorCode(json?.error?.code ?? null);
           throw new Error(
             json?.error?.message ?? "Failed to prebook this offer"
           );
         }
-        setPrebook(json as PrebookPayload);
+        const approvalMode: PaymentMode | undefined = approvalId && !refresh ? json.approval?.paymentMode ?? "pay_now" : undefined;
+        if (approvalMode) setPaymentMode(approvalMode);
+        prebookPaymentSdkRef.current = approvalMode ? approvalMode === "pay_now" : paymentSdk;
+        setPrebook({ data: json.data } as PrebookPayload);
+        setApprovalPriceChange(json.approval?.priceChange ?? null);
       } catch (err: any) {
+        setPrebook(null);
         setPrebookError(err.message ?? "Failed to prebook this offer");
       } finally {
         setLoadingPrebook(false);
+        setRefreshingPrebook(null);
       }
+    },
+    [offerId, approvalId, listPrice]
+  );
+
+  // Sold out, price changed or expired: look for the closest equivalent offers at this hotel
+  const alternativesWanted =
+    !approvalId && !!hotelId && ALTERNATIVE_FAILURES.includes(prebookErrorCode as PrebookFailureCode);
+  useEffect(() => {
+    setAlternatives(null);
+    if (!alternativesWanted) return;
+    let cancelled = false;
+    fetch("/api/rates/alternatives", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({
+        hotelId,
+        checkin,
+        checkout,
+        occupancies: occupanciesParam ?? undefined,
+        currency: listCurrency || currency,
+        language: locale,
+        offerId,
+        roomName: roomNameParam || undefined,
+        boardName: boardNameParam || undefined,
+        refundableTag: refundableTagParam || undefined,
+        price: listPrice?.amount
+      })
+    })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!cancelled) setAlternatives(Array.isArray(json?.data) ? json.data : []);
+      })
+      .catch(() => {
+        if (!cancelled) setAlternatives([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [alternativesWanted, hotelId, checkin, checkout, occupanciesParam, listCurrency, currency, locale, offerId, roomNameParam, boardNameParam, refundableTagParam, listPrice]);
+
+  /** Continue checkout with an alternative offer (prebooked like one picked on the hotel page). */
+  const selectAlternative = (alt: AlternativeOffer) => {
+    const params = new URLSearchParams({
+      hotelId,
+      offerId: alt.offerId,
+      checkin,
+      checkout,
+      listPrice: String(alt.price.amount),
+      listCurrency: alt.price.currency,
+      roomName: alt.roomName,
+      boardName: alt.boardName
+    });
+    if (alt.refundableTag) params.set("refundableTag", alt.refundableTag);
+    if (occupanciesParam) params.set("occupancies", occupanciesParam);
+    router.replace(`/checkout?${params.toString()}`);
+  };
+
+  // Prebook when offerId is available
+  useEffect(() => {
+    if (!offerId) {
+      setPrebookError("Missing offer. Please go back and select a room.");
+      setLoadingPrebook(false);
+      return;
     }
+    loadPrebook(null);
+  }, [offerId, loadPrebook]);
 
-    run();
-  }, [offerId]);
+  // Price hold: tick while a quote is held so the countdown and the expiry below stay current
+  const holdExpiresAt = quote ? Date.parse(quote.quote.expiresAt) : null;
+  useEffect(() => {
+    if (holdExpiresAt == null) return;
+    setHoldNow(Date.now());
+    const timer = window.setInterval(() => setHoldNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [holdExpiresAt]);
+  const holdRemainingMs = holdExpiresAt != null ? holdExpiresAt - holdNow : null;
+  const holdExpired = holdRemainingMs != null && holdRemainingMs <= 0;
+
+  // Hold ended: prebook again with the price the user was looking at as the reference for the price diff.
+  // An approved request is prebooked again by the approvals API (refused above the approved price).
+  useEffect(() => {
+    if (!holdExpired || !quote) return;
+    shownPriceRef.current = { amount: quote.quote.subtotal, currency: quote.quote.currency };
+    setQuote(null);
+    loadPrebook("hold");
+  }, [holdExpired, quote, loadPrebook]);
 
   // Fetch hotel name/address for booking summary when we have hotelId and prebook
   useEffect(() => {
@@ -377,22 +845,10 @@ function CheckoutContent() {
   const handleGuestSubmit = (e: FormEvent) => {
     e.preventDefault();
     setGuestTouched(true);
-    const allValid = guestsPerRoom.every(
-      (g) =>
-        !!g.firstName?.trim() &&
-        !!g.lastName?.trim() &&
-        !!g.email?.trim() &&
-        isValidEmail(g.email)
-    );
+    const allValid = guestsPerRoom.slice(0, roomCount).every((g, i) => isGuestRoomValid(g, occupancies[i]));
     if (!allValid) {
       // Phase 11.2: Scroll to first invalid room
-      const firstInvalidIndex = guestsPerRoom.findIndex(
-        (g) =>
-          !g.firstName?.trim() ||
-          !g.lastName?.trim() ||
-          !g.email?.trim() ||
-          !isValidEmail(g.email)
-      );
+      const firstInvalidIndex = guestsPerRoom.findIndex((g, i) => !isGuestRoomValid(g, occupancies[i]));
       if (firstInvalidIndex >= 0) {
         setActiveRoomTab(firstInvalidIndex);
       }
@@ -400,6 +856,12 @@ function CheckoutContent() {
       return;
     }
 
+    saveGuestDetails();
+    paymentSectionRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  /** Keep guest details for the confirmation page's book call (and for the next checkout). */
+  const saveGuestDetails = () => {
     try {
       if (typeof window !== "undefined") {
         window.localStorage.setItem(
@@ -410,12 +872,16 @@ function CheckoutContent() {
           } as StoredGuestPayload)
         );
         window.localStorage.setItem(BOOKING_FOR_KEY, bookingFor);
+        const travellerKey = `${CORPORATE_TRAVELLER_KEY_PREFIX}${offerId}`;
+        if (bookingFor === "someone_else" && corporateTraveller) {
+          window.sessionStorage.setItem(travellerKey, corporateTraveller);
+        } else {
+          window.sessionStorage.removeItem(travellerKey);
+        }
       }
     } catch {
       // ignore storage failures
     }
-
-    paymentSectionRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
   };
 
   // Phase 2 + Phase 11: Preload payment SDK when prebook is available; on refresh we get fresh prebook from API.
@@ -479,6 +945,73 @@ function CheckoutContent() {
     document.body.appendChild(script);
   }, [prebook?.data?.secretKey]);
 
+  // A quote for another payment mode is being replaced; its promo discount may not apply to this one
+  const hasQuote = quote != null && quote.quote.paymentMode === paymentMode;
+  const approvalRequired = quote?.corporate?.approvalRequired === true;
+  const paymentModes = quote?.paymentModes ?? ["pay_now"];
+  const payLater = paymentMode !== "pay_now";
+  const promoAvailable = acceptsPromoCodes(paymentMode);
+
+  // A re-quote (promo, approval) may drop the selected pay-later mode
+  useEffect(() => {
+    if (quote && !(quote.paymentModes ?? ["pay_now"]).includes(paymentMode)) setPaymentMode("pay_now");
+  }, [quote, paymentMode]);
+
+  // pay_now needs a prebook made for the payment SDK and pay-later modes one made without it: prebook again on a switch
+  useEffect(() => {
+    if (!prebook || loadingPrebook || refreshingPrebook) return;
+    if (prebookPaymentSdkRef.current === (paymentMode === "pay_now")) return;
+    if (quote) shownPriceRef.current = { amount: quote.quote.subtotal, currency: quote.quote.currency };
+    loadPrebook("payment_mode");
+  }, [paymentMode, prebook, loadingPrebook, refreshingPrebook, quote, loadPrebook]);
+
+  /** Pay-later modes skip the payment SDK: the confirmation page books straight away with the chosen mode. */
+  const confirmPayLater = () => {
+    if (!prebook?.data?.prebookId) return;
+    saveGuestDetails();
+    const params = new URLSearchParams({
+      prebookId: prebook.data.prebookId,
+      hotelId,
+      checkin,
+      checkout,
+      paymentMode
+    });
+    if (offerId) params.set("offerId", offerId);
+    if (occupanciesParam) params.set("occupancies", occupanciesParam);
+    router.push(`/confirmation?${params.toString()}`);
+  };
+
+  /** B2B traveller: send the held out-of-policy rate to a travel manager instead of paying. */
+  const handleRequestApproval = async () => {
+    if (!prebook?.data?.prebookId || !quote) return;
+    setApprovalRequesting(true);
+    setApprovalError(null);
+    try {
+      const res = await fetch("/api/corporate/approvals", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          prebookId: prebook.data.prebookId,
+          quoteToken: quote.token,
+          paymentMode,
+          occupancies: occupanciesParam ?? undefined,
+          hotelName: hotelSummary?.name,
+          reason: approvalReason.trim() || undefined
+        })
+      });
+      const json = await res.json();
+      if (!res.ok || json?.error) {
+        throw new Error(json?.error?.message ?? "Could not request approval");
+      }
+      setRequestedApproval(json.data as ApprovalRequest);
+    } catch (err: any) {
+      setApprovalError(err.message ?? "Could not request approval");
+    } finally {
+      setApprovalRequesting(false);
+    }
+  };
+
   // Unique id per prebook so the SDK only ever targets one container (avoids duplicate forms)
   const paymentElementId = prebook?.data?.prebookId
     ? `payment-element-${prebook.data.prebookId}`
@@ -486,7 +1019,8 @@ function CheckoutContent() {
 
   // Initialize payment form when container is mounted and script is ready (Phase 11: paymentRetryKey forces re-run)
   useEffect(() => {
-    if (!prebook?.data?.secretKey || !paymentScriptReady || !paymentContainerReady) return;
+    // Pay only against a verified quote: the confirmation page sends its token to /api/rates/book
+    if (!prebook?.data?.secretKey || !paymentScriptReady || !paymentContainerReady || !hasQuote || approvalRequired) return;
     if (typeof window === "undefined" || !window.LiteAPIPayment) return;
     const container = paymentContainerRef.current;
     if (!container) return;
@@ -503,6 +1037,8 @@ function CheckoutContent() {
       checkin,
       checkout
     });
+    // offerId lets the confirmation page find the signed quote for this offer (sessionStorage) for the book call
+    if (offerId) retParams.set("offerId", offerId);
     if (occupanciesParam) retParams.set("occupancies", occupanciesParam);
     const retParamsStr = retParams.toString();
 
@@ -533,77 +1069,24 @@ function CheckoutContent() {
         err?.message ?? "Failed to initialize payment form"
       );
     }
-  }, [prebook?.data?.prebookId, prebook?.data?.secretKey, paymentScriptReady, paymentContainerReady, paymentElementId, hotelId, checkin, checkout, occupanciesParam, paymentRetryKey]);
+  }, [prebook?.data?.prebookId, prebook?.data?.secretKey, paymentScriptReady, paymentContainerReady, paymentElementId, hotelId, offerId, checkin, checkout, occupanciesParam, paymentRetryKey, hasQuote, approvalRequired]);
 
   const roomTypes = prebook?.data?.roomTypes ?? [];
   const firstRoomType = roomTypes[0];
   const firstRate = firstRoomType?.rates?.[0];
 
-  // Pay now = prebook top-level price (LiteAPI: amount to pay online; includes commission + included taxes only)
-  const payNow =
-    prebook?.data?.price != null && prebook?.data?.currency
-      ? { amount: prebook.data.price, currency: prebook.data.currency }
-      : null;
-
-  // Per LiteAPI: included = in retailRate.total (pay now); included: false = pay at property (local fees).
-  // Included amounts are per-room → sum across all rates. Pay-at-property is total for all rooms, duplicated per rate → count once (first rate only).
-  const { includedTaxesAndFeesTotal, localFeesTotal } = (() => {
-    if (!payNow) return { includedTaxesAndFeesTotal: null as number | null, localFeesTotal: null as number | null };
-    let included = 0;
-    let local = 0;
-    let localFeesCounted = false;
-    for (const rt of roomTypes) {
-      for (const r of (rt as any).rates ?? []) {
-        const commission = r?.commission?.[0];
-        if (commission?.amount != null && typeof commission.amount === "number") included += commission.amount;
-        const taxes = r?.retailRate?.taxesAndFees;
-        if (Array.isArray(taxes)) {
-          for (const t of taxes) {
-            if (t?.amount == null || typeof t.amount !== "number") continue;
-            if (t.included) included += t.amount;
-            else if (!localFeesCounted) {
-              local += t.amount;
-            }
-          }
-        }
-        localFeesCounted = true; // after first rate, stop adding pay-at-property amounts
-      }
-    }
-    return {
-      includedTaxesAndFeesTotal: included > 0 ? included : null,
-      localFeesTotal: local > 0 ? local : null
-    };
-  })();
-
-  // Total = Pay now + Local fees (reference: Total = base + included taxes + local fees)
-  const totalBeforePromo = payNow
-    ? {
-        amount: payNow.amount + (localFeesTotal ?? 0),
-        currency: payNow.currency
-      }
-    : null;
-
-  // Phase 7: Discount from applied promo (percent off total or fixed amount)
-  const discountAmount = useMemo(() => {
-    if (!totalBeforePromo || !appliedPromo) return 0;
-    if (appliedPromo.type === "percent") {
-      return Math.round((totalBeforePromo.amount * appliedPromo.value) / 100);
-    }
-    return Math.min(appliedPromo.value, totalBeforePromo.amount);
-  }, [totalBeforePromo, appliedPromo]);
-
-  const total = totalBeforePromo
-    ? {
-        amount: Math.max(0, totalBeforePromo.amount - discountAmount),
-        currency: totalBeforePromo.currency
-      }
-    : null;
-
-  // Base (1 room × 1 night line) = Pay now - included taxes and fees
-  const baseAmount =
-    payNow && includedTaxesAndFeesTotal != null
-      ? payNow.amount - includedTaxesAndFeesTotal
-      : payNow?.amount ?? null;
+  // Price summary comes from the server quote (itemised from our stored prebook; see /api/checkout/quote).
+  // subtotal = prebook price (base + included taxes + commission); pay now = subtotal - promo discount (account credit only).
+  const q = quote?.quote ?? null;
+  const subtotal = q ? { amount: q.subtotal, currency: q.currency } : null;
+  const payNow = q ? { amount: q.payNow, currency: q.currency } : null;
+  // Commission is shown inside "Included taxes and fees" (service fees retained by the booking site).
+  const includedTaxesAndFeesTotal = q && q.includedTaxes + q.commission > 0 ? q.includedTaxes + q.commission : null;
+  const localFeesTotal = q && q.localFees > 0 ? q.localFees : null;
+  const totalBeforePromo = q ? { amount: q.subtotal + q.localFees, currency: q.currency } : null;
+  const discountAmount = q?.discount ?? 0;
+  const total = q ? { amount: q.total, currency: q.currency } : null;
+  const baseAmount = q?.base ?? null;
 
   const taxes = firstRate?.retailRate?.taxesAndFees?.[0];
 
@@ -644,13 +1127,7 @@ function CheckoutContent() {
 
   const guestValid =
     guestsPerRoom.length >= roomCount &&
-    guestsPerRoom.every(
-      (g) =>
-        !!g.firstName?.trim() &&
-        !!g.lastName?.trim() &&
-        !!g.email?.trim() &&
-        isValidEmail(g.email)
-    );
+    guestsPerRoom.slice(0, roomCount).every((g, i) => isGuestRoomValid(g, occupancies[i]));
 
   const setGuestForRoom = (roomIndex: number, updater: (g: GuestDetails) => GuestDetails) => {
     setGuestsPerRoom((prev) => {
@@ -662,6 +1139,17 @@ function CheckoutContent() {
     });
   };
 
+  const setCompanionForRoom = (roomIndex: number, companionIndex: number, patch: Partial<CompanionDetails>) => {
+    setGuestForRoom(roomIndex, (g) => {
+      const companions = Array.from(
+        { length: Math.max(g.companions?.length ?? 0, companionIndex + 1) },
+        (_, c) => g.companions?.[c] ?? { firstName: "", lastName: "" }
+      );
+      companions[companionIndex] = { ...companions[companionIndex], ...patch };
+      return { ...g, companions };
+    });
+  };
+
   // Subtitle: booking dates and guest count per Phase 1 (e.g. "2026-03-09 → 2026-03-13 · 2 guests")
   const headerSubtitle =
     checkin && checkout
@@ -708,17 +1196,78 @@ function CheckoutContent() {
       {!loadingPrebook && prebookError && (
         <div className="rounded-xl border border-red-500/40 bg-red-50 px-3 py-3 text-xs text-red-700 space-y-3">
           <p>{prebookError}</p>
-          <button
-            type="button"
-            onClick={() => {
-              const params = new URLSearchParams({ checkin, checkout });
-              if (occupanciesParam) params.set("occupancies", occupanciesParam);
-              router.push(`/hotel/${hotelId}?${params.toString()}`);
-            }}
-            className="rounded-full bg-[var(--primary)] text-white text-sm font-semibold px-4 py-2 hover:bg-[var(--primary-hover)] transition"
-          >
-            Go back to hotel
-          </button>
+          {alternativesWanted && alternatives == null && (
+            <p className="text-[var(--muted-foreground)] animate-pulse">Looking for similar rooms at this hotel…</p>
+          )}
+          {alternativesWanted && alternatives != null && alternatives.length === 0 && (
+            <p className="text-[var(--muted-foreground)]">We couldn&apos;t find a similar room for these dates.</p>
+          )}
+          {alternatives && alternatives.length > 0 && (
+            <div className="space-y-2">
+              <p className="font-semibold text-[var(--dark-text)]">Similar rooms still available</p>
+              <ul className="space-y-2">
+                {alternatives.map((alt) => {
+                  const refundable = alt.refundableTag !== "NRF" && alt.refundableTag !== "NRFN";
+                  return (
+                    <li
+                      key={alt.offerId}
+                      className="flex items-center justify-between gap-3 rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2.5 text-[var(--dark-text)]"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{alt.roomName}</p>
+                        <p className="text-[11px] text-[var(--muted-foreground)]">
+                          {alt.boardName} · {refundable ? "Free cancellation" : "Non-refundable"}
+                        </p>
+                        <p className="text-xs font-semibold mt-0.5">
+                          {alt.price.currency} {alt.price.amount.toFixed(2)}
+                          {listPrice && listPrice.currency === alt.price.currency && (
+                            <span className="font-normal text-[var(--muted-foreground)]">
+                              {" "}
+                              ({alt.price.amount >= listPrice.amount ? "+" : "−"}
+                              {Math.abs(alt.price.amount - listPrice.amount).toFixed(2)} vs your pick)
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => selectAlternative(alt)}
+                        className="shrink-0 rounded-full bg-[var(--primary)] text-white text-xs font-semibold px-3 py-1.5 hover:bg-[var(--primary-hover)] transition"
+                      >
+                        Select
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {prebookErrorCode === "SUPPLIER_ERROR" && (
+              <button
+                type="button"
+                onClick={() => loadPrebook(null)}
+                className="rounded-full bg-[var(--primary)] text-white text-sm font-semibold px-4 py-2 hover:bg-[var(--primary-hover)] transition"
+              >
+                Try again
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => {
+                const params = new URLSearchParams({ checkin, checkout });
+                if (occupanciesParam) params.set("occupancies", occupanciesParam);
+                router.push(`/hotel/${hotelId}?${params.toString()}`);
+              }}
+              className={
+                prebookErrorCode === "SUPPLIER_ERROR" || (alternatives?.length ?? 0) > 0
+                  ? "rounded-full border border-[var(--sky-blue)] bg-white text-[var(--dark-text)] text-sm font-semibold px-4 py-2 hover:bg-[var(--light-bg)] transition"
+                  : "rounded-full bg-[var(--primary)] text-white text-sm font-semibold px-4 py-2 hover:bg-[var(--primary-hover)] transition"
+              }
+            >
+              Go back to hotel
+            </button>
+          </div>
         </div>
       )}
 
@@ -860,10 +1409,10 @@ function CheckoutContent() {
                         ))}
                       </div>
                     )}
-                    {payNow && nights > 0 && roomCount > 0 && (
+                    {subtotal && nights > 0 && roomCount > 0 && (
                       <p className="text-sm text-[var(--muted-foreground)] pt-0.5">
-                        {payNow.currency}{" "}
-                        {(payNow.amount / (nights * roomCount)).toFixed(2)} average per room/night
+                        {subtotal.currency}{" "}
+                        {(subtotal.amount / (nights * roomCount)).toFixed(2)} average per room/night
                       </p>
                     )}
                   </div>
@@ -872,11 +1421,59 @@ function CheckoutContent() {
             </div>
           </section>
 
+          {/* Price hold: countdown before it ends, then a transparent re-prebook */}
+          {refreshingPrebook ? (
+            <div className="rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-3 text-xs text-[var(--muted-foreground)] animate-pulse">
+              {refreshingPrebook === "hold"
+                ? "Your price hold ended. Checking availability and the latest price…"
+                : "Holding this rate for your payment option…"}
+            </div>
+          ) : (
+            holdRemainingMs != null &&
+            holdRemainingMs > 0 &&
+            holdRemainingMs <= PRICE_HOLD_WARNING_MS && (
+              <div className="rounded-xl border border-amber-300 bg-amber-50 px-3 py-3 text-xs text-amber-800" role="status">
+                Your price is held for another <span className="font-semibold">{formatCountdown(holdRemainingMs)}</span>.
+                After that we will check availability and the price again.
+              </div>
+            )
+          )}
+
+          {/* Prebook price differs from the price shown on the hotel page (or before the hold was renewed) */}
+          {quote?.priceChange && (
+            <div className="rounded-xl border border-amber-300 bg-amber-50 px-3 py-3 text-xs text-amber-800" role="status">
+              Price changed from {quote.priceChange.currency} {quote.priceChange.previous.toFixed(2)} to{" "}
+              <span className="font-semibold">
+                {quote.priceChange.currency} {quote.priceChange.current.toFixed(2)}
+              </span>{" "}
+              ({quote.priceChange.difference > 0 ? "+" : "−"}
+              {quote.priceChange.currency} {Math.abs(quote.priceChange.difference).toFixed(2)}). The hotel updated this
+              rate after you selected it; you will pay the new price.
+            </div>
+          )}
+
+          {/* Approved out-of-policy request: the rate was prebooked again on approval */}
+          {approvalPriceChange && (
+            <div className="rounded-xl border border-amber-300 bg-amber-50 px-3 py-3 text-xs text-amber-800">
+              The price changed while your request was being approved: {approvalPriceChange.currency}{" "}
+              {approvalPriceChange.previous.toFixed(2)} → <span className="font-semibold">{approvalPriceChange.currency}{" "}
+              {approvalPriceChange.current.toFixed(2)}</span>. Your travel manager approved the new price.
+            </div>
+          )}
+
           {/* Phase 6: Price summary — design system colours and tooltips */}
           <section className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 space-y-3 shadow-sm">
             <h2 className="text-base font-semibold text-[var(--dark-text)]">
               Price summary
             </h2>
+            {quoteError && (
+              <p className="rounded-lg bg-red-50 border border-red-500/40 px-3 py-3 text-xs text-red-700">
+                {quoteError}
+              </p>
+            )}
+            {!quote && !quoteError && prebook && (
+              <p className="text-sm text-[var(--muted-foreground)]">Calculating your price…</p>
+            )}
             {payNow && total && (
               <>
                 <div className="flex justify-between items-baseline text-[var(--muted-foreground)] text-sm">
@@ -1027,120 +1624,116 @@ function CheckoutContent() {
                 Someone else
               </button>
             </div>
+            {bookingFor === "someone_else" && corporateTravellers.length > 0 && (
+              <div>
+                <label htmlFor="corporate-traveller" className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">
+                  Traveller at {corporate?.account.name}
+                </label>
+                <select
+                  id="corporate-traveller"
+                  value={corporateTraveller}
+                  onChange={(e) => selectCorporateTraveller(e.target.value)}
+                  className="w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2.5 text-sm text-[var(--dark-text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+                >
+                  <option value="">Not a company traveller</option>
+                  {corporateTravellers.map((m) => (
+                    <option key={m.email} value={m.email}>
+                      {[m.firstName, m.lastName].filter(Boolean).join(" ") || m.email}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-[11px] text-[var(--muted-foreground)] mt-0.5">
+                  The booking is recorded on your company account for this traveller.
+                </p>
+              </div>
+            )}
           </section>
 
-          {/* Promo code — design system card and inputs */}
-          <section className="rounded-2xl border border-[var(--sky-blue)] bg-white overflow-hidden shadow-sm">
-            <button
-              type="button"
-              onClick={() => setPromoExpanded((e) => !e)}
-              className="w-full px-4 py-3.5 flex items-center justify-between gap-2 text-left hover:bg-[var(--light-bg)] transition"
-            >
-              <span className="text-sm font-medium text-[var(--dark-text)]">
-                Have a promo code?
-              </span>
-              {promoExpanded ? (
-                <ChevronUpIcon className="w-5 h-5 text-[var(--muted-foreground)] flex-shrink-0" />
-              ) : (
-                <ChevronDownIcon className="w-5 h-5 text-[var(--muted-foreground)] flex-shrink-0" />
-              )}
-            </button>
-            {promoExpanded && (
-              <div className="px-4 pb-4 pt-0 space-y-3 border-t border-[var(--sky-blue)]">
-                {appliedPromo ? (
-                  <div className="flex items-center justify-between gap-2 pt-3">
-                    <p className="text-sm text-[var(--primary)] font-medium">
-                      {appliedPromo.message} ({appliedPromo.code})
-                    </p>
-                    <button
-                      type="button"
-                      onClick={() => {
-                        setAppliedPromo(null);
-                        setPromoError(null);
-                        if (typeof window !== "undefined" && offerId) {
-                          try {
-                            window.sessionStorage.removeItem(`${PROMO_STORAGE_KEY_PREFIX}${offerId}`);
-                          } catch {}
-                        }
-                      }}
-                      className="text-xs text-[var(--muted-foreground)] hover:text-[var(--dark-text)] underline"
-                    >
-                      Remove
-                    </button>
-                  </div>
+          {/* Promo code — design system card and inputs; only for modes where the discount lowers what is charged */}
+          {promoAvailable && (
+            <section className="rounded-2xl border border-[var(--sky-blue)] bg-white overflow-hidden shadow-sm">
+              <button
+                type="button"
+                onClick={() => setPromoExpanded((e) => !e)}
+                className="w-full px-4 py-3.5 flex items-center justify-between gap-2 text-left hover:bg-[var(--light-bg)] transition"
+              >
+                <span className="text-sm font-medium text-[var(--dark-text)]">
+                  Have a promo code?
+                </span>
+                {promoExpanded ? (
+                  <ChevronUpIcon className="w-5 h-5 text-[var(--muted-foreground)] flex-shrink-0" />
                 ) : (
-                  <>
-                    <div className="flex gap-2 pt-2">
-                      <input
-                        type="text"
-                        value={promoInput}
-                        onChange={(e) => {
-                          setPromoInput(e.target.value);
-                          setPromoError(null);
-                        }}
-                        placeholder="Enter promo code"
-                        className="flex-1 rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2 text-sm text-[var(--dark-text)] placeholder:text-[var(--muted-foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
-                      />
+                  <ChevronDownIcon className="w-5 h-5 text-[var(--muted-foreground)] flex-shrink-0" />
+                )}
+              </button>
+              {promoExpanded && (
+                <div className="px-4 pb-4 pt-0 space-y-3 border-t border-[var(--sky-blue)]">
+                  {appliedPromo ? (
+                    <div className="flex items-center justify-between gap-2 pt-3">
+                      <p className="text-sm text-[var(--primary)] font-medium">
+                        {appliedPromo.message} ({appliedPromo.code})
+                      </p>
                       <button
                         type="button"
-                        disabled={!promoInput.trim() || promoLoading}
-                        onClick={async () => {
-                          const code = promoInput.trim();
-                          if (!code) return;
-                          setPromoLoading(true);
+                        onClick={() => {
                           setPromoError(null);
-                          try {
-                            const res = await fetch("/api/promo/validate", {
-                              method: "POST",
-                              headers: { "content-type": "application/json" },
-                              body: JSON.stringify({ code, offerId }),
-                            });
-                            const json = await res.json();
-                            if (json.valid && (json.type === "percent" || json.type === "fixed")) {
-                              setAppliedPromo({
-                                code: code.toUpperCase(),
-                                type: json.type,
-                                value: json.value ?? 0,
-                                currency: json.currency,
-                                message: json.message ?? "Promo code applied!",
-                              });
-                              setPromoInput("");
-                              if (typeof window !== "undefined" && offerId) {
-                                try {
-                                  window.sessionStorage.setItem(
-                                    `${PROMO_STORAGE_KEY_PREFIX}${offerId}`,
-                                    JSON.stringify({
-                                      code: code.toUpperCase(),
-                                      type: json.type,
-                                      value: json.value,
-                                      currency: json.currency,
-                                      message: json.message ?? "Promo code applied!",
-                                    })
-                                  );
-                                } catch {}
-                              }
-                            } else {
-                              setPromoError(json?.message ?? "Invalid or expired code");
-                            }
-                          } catch {
-                            setPromoError("Could not validate code. Try again.");
-                          } finally {
-                            setPromoLoading(false);
+                          if (typeof window !== "undefined" && offerId) {
+                            try {
+                              window.sessionStorage.removeItem(`${PROMO_STORAGE_KEY_PREFIX}${offerId}`);
+                            } catch {}
                           }
+                          requestQuote().catch((err: Error) => setQuoteError(err.message));
                         }}
-                        className="rounded-xl bg-[var(--primary)] text-white text-sm font-medium px-4 py-2 hover:bg-[var(--primary-hover)] disabled:opacity-50 disabled:cursor-not-allowed transition"
+                        className="text-xs text-[var(--muted-foreground)] hover:text-[var(--dark-text)] underline"
                       >
-                        {promoLoading ? "…" : "Apply"}
+                        Remove
                       </button>
                     </div>
-                    {promoError && (
-                      <p className="text-xs text-red-600">{promoError}</p>
-                    )}
-                  </>
-                )}
-              </div>
-            )}
-          </section>
+                  ) : (
+                    <>
+                      <div className="flex gap-2 pt-2">
+                        <input
+                          type="text"
+                          value={promoInput}
+                          onChange={(e) => {
+                            setPromoInput(e.target.value);
+                            setPromoError(null);
+                          }}
+                          placeholder="Enter promo code"
+                          className="flex-1 rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2 text-sm text-[var(--dark-text)] placeholder:text-[var(--muted-foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                        />
+                        <button
+                          type="button"
+                          disabled={!promoInput.trim() || promoLoading}
+                          onClick={async () => {
+                            const code = promoInput.trim();
+                            if (!code) return;
+                            setPromoLoading(true);
+                            setPromoError(null);
+                            try {
+                              const error = await applyPromoCode(code);
+                              if (error) setPromoError(error);
+                              else setPromoInput("");
+                            } catch {
+                              setPromoError("Could not validate code. Try again.");
+                            } finally {
+                              setPromoLoading(false);
+                            }
+                          }}
+                          className="rounded-xl bg-[var(--primary)] text-white text-sm font-medium px-4 py-2 hover:bg-[var(--primary-hover)] disabled:opacity-50 disabled:cursor-not-allowed transition"
+                        >
+                          {promoLoading ? "…" : "Apply"}
+                        </button>
+                      </div>
+                      {promoError && (
+                        <p className="text-xs text-red-600">{promoError}</p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </section>
+          )}
 
           {/* Special requests — design system */}
           <section className="rounded-2xl border border-[var(--sky-blue)] bg-white overflow-hidden shadow-sm">
@@ -1152,6 +1745,11 @@ function CheckoutContent() {
               <div className="min-w-0 flex-1 text-left">
                 <span className="text-sm font-medium text-[var(--dark-text)] block">
                   Special requests (optional)
+                  {!specialRequestsExpanded && requestOptions.length + (bedPreference ? 1 : 0) > 0 && (
+                    <span className="ml-1 text-xs font-normal text-[var(--primary)]">
+                      · {requestOptions.length + (bedPreference ? 1 : 0)} selected
+                    </span>
+                  )}
                 </span>
                 <p className="text-xs text-[var(--muted-foreground)] mt-0.5">
                   Not guaranteed, but the property will do its best.
@@ -1165,10 +1763,54 @@ function CheckoutContent() {
             </button>
             {specialRequestsExpanded && (
               <div className="px-4 pb-4 pt-0 border-t border-[var(--sky-blue)]">
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {(Object.keys(SPECIAL_REQUEST_OPTION_LABELS) as SpecialRequestOption[]).map((option) => {
+                    const selected = requestOptions.includes(option);
+                    return (
+                      <button
+                        key={option}
+                        type="button"
+                        aria-pressed={selected}
+                        onClick={() =>
+                          setRequestOptions((prev) =>
+                            selected ? prev.filter((o) => o !== option) : [...prev, option]
+                          )
+                        }
+                        className={`rounded-full border px-3 py-1.5 text-xs font-medium transition ${
+                          selected
+                            ? "border-[var(--primary)] bg-[var(--primary)]/10 text-[var(--primary)]"
+                            : "border-[var(--sky-blue)] bg-white text-[var(--dark-text)] hover:bg-[var(--light-bg)]"
+                        }`}
+                      >
+                        {SPECIAL_REQUEST_OPTION_LABELS[option]}
+                      </button>
+                    );
+                  })}
+                </div>
+                <div className="mt-3">
+                  <p className="text-xs font-medium text-[var(--muted-foreground)]">Bed preference</p>
+                  <div className="flex gap-2 mt-1.5">
+                    {(Object.keys(BED_PREFERENCE_LABELS) as BedPreference[]).map((bed) => (
+                      <button
+                        key={bed}
+                        type="button"
+                        aria-pressed={bedPreference === bed}
+                        onClick={() => setBedPreference((prev) => (prev === bed ? null : bed))}
+                        className={`rounded-full border px-3 py-1.5 text-xs font-medium transition ${
+                          bedPreference === bed
+                            ? "border-[var(--primary)] bg-[var(--primary)]/10 text-[var(--primary)]"
+                            : "border-[var(--sky-blue)] bg-white text-[var(--dark-text)] hover:bg-[var(--light-bg)]"
+                        }`}
+                      >
+                        {BED_PREFERENCE_LABELS[bed]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
                 <textarea
                   value={specialRequests}
                   onChange={(e) => setSpecialRequests(e.target.value.slice(0, 500))}
-                  placeholder="E.g., early check-in, high floor, adjacent rooms…"
+                  placeholder="Anything else? E.g., arriving late, celebrating an anniversary…"
                   rows={4}
                   className="w-full mt-3 rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2.5 text-sm text-[var(--dark-text)] placeholder:text-[var(--muted-foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] resize-y min-h-[80px]"
                 />
@@ -1192,10 +1834,7 @@ function CheckoutContent() {
             {roomCount > 1 ? (
               <div className="flex gap-1 p-0.5 rounded-xl bg-[var(--light-bg)] border border-[var(--sky-blue)]">
                 {guestsPerRoom.slice(0, roomCount).map((_, i) => {
-                  const roomComplete =
-                    !!guestsPerRoom[i]?.firstName?.trim() &&
-                    !!guestsPerRoom[i]?.lastName?.trim() &&
-                    !!guestsPerRoom[i]?.email?.trim();
+                  const roomComplete = isGuestRoomValid(guestsPerRoom[i], occupancies[i]);
                   return (
                     <button
                       key={i}
@@ -1225,39 +1864,32 @@ function CheckoutContent() {
               ) : null}
               {guestsPerRoom[activeRoomTab] != null && (
                 <>
+                  <SavedTravellerSelect
+                    travellers={travellersForSlot(savedTravellers, { type: "adult" }, checkin)}
+                    checkin={checkin}
+                    onSelect={(t) =>
+                      setGuestForRoom(activeRoomTab, (g) => ({
+                        ...g,
+                        firstName: t.firstName,
+                        lastName: t.lastName,
+                        email: t.email ?? g.email,
+                        phone: t.phone ?? g.phone
+                      }))
+                    }
+                  />
                   <div className="grid grid-cols-2 gap-3">
-                    <div className="space-y-1">
-                      <label className="text-xs font-medium text-[var(--dark-text)]">
-                        First name
-                      </label>
-                      <input
-                        type="text"
-                        value={guestsPerRoom[activeRoomTab].firstName}
-                        onChange={(e) =>
-                          setGuestForRoom(activeRoomTab, (g) => ({
-                            ...g,
-                            firstName: e.target.value
-                          }))
-                        }
-                        className="w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2 text-sm text-[var(--dark-text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
-                      />
-                    </div>
-                    <div className="space-y-1">
-                      <label className="text-xs font-medium text-[var(--dark-text)]">
-                        Last name
-                      </label>
-                      <input
-                        type="text"
-                        value={guestsPerRoom[activeRoomTab].lastName}
-                        onChange={(e) =>
-                          setGuestForRoom(activeRoomTab, (g) => ({
-                            ...g,
-                            lastName: e.target.value
-                          }))
-                        }
-                        className="w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2 text-sm text-[var(--dark-text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
-                      />
-                    </div>
+                    <GuestNameInput
+                      label="First name"
+                      value={guestsPerRoom[activeRoomTab].firstName}
+                      showErrors={guestTouched}
+                      onChange={(firstName) => setGuestForRoom(activeRoomTab, (g) => ({ ...g, firstName }))}
+                    />
+                    <GuestNameInput
+                      label="Last name"
+                      value={guestsPerRoom[activeRoomTab].lastName}
+                      showErrors={guestTouched}
+                      onChange={(lastName) => setGuestForRoom(activeRoomTab, (g) => ({ ...g, lastName }))}
+                    />
                   </div>
                   <div className="space-y-1">
                     <label className="text-xs font-medium text-[var(--dark-text)]">
@@ -1290,7 +1922,52 @@ function CheckoutContent() {
                       }
                       className="w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2 text-sm text-[var(--dark-text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
                     />
+                    {guestTouched &&
+                      !!guestsPerRoom[activeRoomTab].phone?.trim() &&
+                      !isValidPhone(guestsPerRoom[activeRoomTab].phone ?? "") && (
+                        <p className="text-[11px] text-red-600">
+                          Please enter a valid phone number, e.g. +20 100 123 4567.
+                        </p>
+                      )}
                   </div>
+                  {companionSlots(occupancies[activeRoomTab]).length > 0 && (
+                    <div className="space-y-3 pt-1">
+                      <p className="text-xs font-medium text-[var(--dark-text)]">
+                        Other guests{roomCount > 1 ? ` in room ${activeRoomTab + 1}` : ""}
+                      </p>
+                      {companionSlots(occupancies[activeRoomTab]).map((slot, c) => {
+                        const companion = guestsPerRoom[activeRoomTab].companions?.[c];
+                        return (
+                          <div key={`${activeRoomTab}-${c}`} className="space-y-1">
+                            <p className="text-[11px] text-[var(--muted-foreground)]">
+                              {slot.type === "child" ? `Child, age ${slot.age}` : `Adult ${c + 2}`}
+                            </p>
+                            <SavedTravellerSelect
+                              travellers={travellersForSlot(savedTravellers, slot, checkin)}
+                              checkin={checkin}
+                              onSelect={(t) =>
+                                setCompanionForRoom(activeRoomTab, c, { firstName: t.firstName, lastName: t.lastName })
+                              }
+                            />
+                            <div className="grid grid-cols-2 gap-3">
+                              <GuestNameInput
+                                label="First name"
+                                value={companion?.firstName ?? ""}
+                                showErrors={guestTouched}
+                                onChange={(firstName) => setCompanionForRoom(activeRoomTab, c, { firstName })}
+                              />
+                              <GuestNameInput
+                                label="Last name"
+                                value={companion?.lastName ?? ""}
+                                showErrors={guestTouched}
+                                onChange={(lastName) => setCompanionForRoom(activeRoomTab, c, { lastName })}
+                              />
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
                 </>
               )}
               {guestTouched && guestsPerRoom[activeRoomTab] && !isValidEmail(guestsPerRoom[activeRoomTab].email) && guestsPerRoom[activeRoomTab].email?.trim() && (
@@ -1300,7 +1977,7 @@ function CheckoutContent() {
               )}
               {guestTouched && !guestValid && (
                 <p className="text-[11px] text-red-600">
-                  Please fill in primary guest details for all rooms before continuing.
+                  Please fill in the details of every guest{roomCount > 1 ? " in all rooms" : ""} before continuing.
                 </p>
               )}
 
@@ -1315,7 +1992,57 @@ function CheckoutContent() {
             </form>
           </section>
 
+          {/* Out-of-policy rate for a B2B traveller: request approval instead of paying */}
+          {approvalRequired && (
+            <section
+              ref={paymentSectionRef}
+              className="rounded-2xl border border-amber-300 bg-white p-4 space-y-3 shadow-sm"
+            >
+              <h2 className="text-sm font-semibold text-[var(--dark-text)]">
+                Approval required
+              </h2>
+              <p className="text-xs text-[var(--muted-foreground)]">
+                This rate is outside your company travel policy
+                {quote?.corporate ? ` (${describePolicyViolations(quote.corporate.policy.violations).toLowerCase()})` : ""}.
+                Send it to your travel manager; once approved you can complete the booking from Approvals in your profile.
+              </p>
+              {requestedApproval ? (
+                <div className="rounded-xl border border-[var(--primary)]/40 bg-[var(--primary)]/10 px-3 py-3 text-xs text-[var(--dark-text)] space-y-2">
+                  <p>Approval requested. We&apos;ll let you know when your travel manager decides.</p>
+                  <button
+                    type="button"
+                    onClick={() => router.push("/approvals")}
+                    className="rounded-full bg-[var(--primary)] text-white text-xs font-semibold px-4 py-2 hover:bg-[var(--primary-hover)] transition"
+                  >
+                    View approvals
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <textarea
+                    value={approvalReason}
+                    onChange={(e) => setApprovalReason(e.target.value.slice(0, 500))}
+                    rows={3}
+                    placeholder="Why do you need this rate? (optional)"
+                    className="w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2.5 text-sm text-[var(--dark-text)] placeholder:text-[var(--muted-foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+                  />
+                  {approvalError && <p className="text-xs text-red-600">{approvalError}</p>}
+                  <button
+                    type="button"
+                    onClick={handleRequestApproval}
+                    disabled={approvalRequesting || !guestValid}
+                    className="w-full rounded-full py-3.5 px-6 text-base font-semibold text-white bg-[var(--primary)] hover:bg-[var(--primary-hover)] shadow-md transition active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {approvalRequesting ? "Sending request…" : "Request approval"}
+                  </button>
+                </>
+              )}
+            </section>
+          )}
+
           {/* Payment section — design system */}
+          {!approvalRequired && (
+          <>
           <section
             ref={paymentSectionRef}
             className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 space-y-2 shadow-sm"
@@ -1323,8 +2050,39 @@ function CheckoutContent() {
             <h2 className="text-sm font-semibold text-[var(--dark-text)]">
               Payment
             </h2>
+              {paymentModes.length > 1 && (
+                <div className="space-y-2" role="radiogroup" aria-label="Payment option">
+                  {paymentModes.map((mode) => (
+                    <label
+                      key={mode}
+                      className={`flex items-start gap-2 rounded-xl border px-3 py-2.5 cursor-pointer transition ${
+                        paymentMode === mode
+                          ? "border-[var(--primary)] bg-[var(--primary)]/5"
+                          : "border-[var(--sky-blue)] bg-white"
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="paymentMode"
+                        value={mode}
+                        checked={paymentMode === mode}
+                        onChange={() => setPaymentMode(mode)}
+                        className="mt-0.5 accent-[var(--primary)]"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-[var(--dark-text)]">
+                          {PAYMENT_MODE_OPTIONS[mode].label}
+                        </span>
+                        <span className="block text-xs text-[var(--muted-foreground)]">
+                          {PAYMENT_MODE_OPTIONS[mode].description}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
               {/* Phase 2: Loading state while SDK initializes */}
-              {!paymentScriptReady && (
+              {!paymentScriptReady && !payLater && (
                 <div className="mt-1 rounded-xl border border-[var(--sky-blue)] bg-[var(--light-bg)] p-4 text-center">
                   <div className="animate-pulse space-y-2">
                     <div className="h-3 bg-[var(--muted)] rounded w-3/4 mx-auto"></div>
@@ -1342,10 +2100,10 @@ function CheckoutContent() {
                   (paymentContainerRef as React.MutableRefObject<HTMLDivElement | null>).current = el;
                   setPaymentContainerReady(!!el);
                 }}
-                className={`checkout-payment-element mt-1 space-y-2 min-h-[120px] ${!paymentScriptReady ? "hidden" : ""}`}
+                className={`checkout-payment-element mt-1 space-y-2 min-h-[120px] ${!paymentScriptReady || payLater ? "hidden" : ""}`}
               />
               {/* Phase 11.3: Payment init failure — user-friendly message and retry */}
-              {paymentError && (
+              {paymentError && !payLater && (
                 <div className="rounded-lg bg-red-50 border border-red-500/40 px-3 py-3 text-xs text-red-700 space-y-2">
                   <p>{paymentError}</p>
                   <p className="text-[11px] text-red-600">
@@ -1368,7 +2126,13 @@ function CheckoutContent() {
 
           {/* Phase 11.1: Confirm booking — disabled until guest valid and payment SDK ready */}
           <div className="pt-2 pb-6 px-1">
-            {!paymentScriptReady && !paymentError && prebook && (
+            {quote?.priceChange && quote.priceChange.difference > 0 && (
+              <p className="text-xs text-amber-800 mb-2 text-center">
+                The price went up to {quote.priceChange.currency} {quote.priceChange.current.toFixed(2)} since you
+                selected this room.
+              </p>
+            )}
+            {!paymentScriptReady && !paymentError && prebook && !payLater && (
               <p className="text-xs text-[var(--muted-foreground)] mb-2 text-center">
                 Loading payment form…
               </p>
@@ -1378,25 +2142,23 @@ function CheckoutContent() {
               onClick={() => {
                 if (!guestValid) {
                   setGuestTouched(true);
-                  const firstInvalid = guestsPerRoom.findIndex(
-                    (g) =>
-                      !g.firstName?.trim() ||
-                      !g.lastName?.trim() ||
-                      !g.email?.trim() ||
-                      !isValidEmail(g.email)
-                  );
+                  const firstInvalid = guestsPerRoom.findIndex((g, i) => !isGuestRoomValid(g, occupancies[i]));
                   if (firstInvalid >= 0) setActiveRoomTab(firstInvalid);
                   guestSectionRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+                } else if (payLater) {
+                  confirmPayLater();
                 } else {
                   paymentSectionRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
                 }
               }}
-              disabled={!prebook || !guestValid || !paymentScriptReady || !!paymentError}
+              disabled={!prebook || !guestValid || !hasQuote || !!refreshingPrebook || (!payLater && (!paymentScriptReady || !!paymentError))}
               className="w-full rounded-full py-3.5 px-6 text-base font-semibold text-white bg-[var(--primary)] hover:bg-[var(--primary-hover)] shadow-md transition active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Confirm booking
             </button>
           </div>
+          </>
+          )}
         </>
       )}
     </main>
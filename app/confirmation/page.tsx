@@ -1,15 +1,20 @@
 "use client";
 
+import { describeSpecialRequestOptions, parseSpecialRequests } from "@/checkout/special-requests";
+import type { PaymentMode, SpecialRequests } from "@/checkout/types";
+import { getRoomGuestSlots } from "@/lib/guests";
 import { parseOccupanciesParam, totalGuests } from "@/lib/occupancy";
 import Link from "next/link";
 import { useSearchParams } from "next/navigation";
-import { useEffect, useMemo, useState, Suspense } from "react";
+import { useEffect, useMemo, useRef, useState, Suspense } from "react";
 
 interface GuestDetails {
   firstName: string;
   lastName: string;
   email: string;
   phone?: string;
+  /** Other adults, then children of the room (set by checkout). */
+  companions?: { firstName: string; lastName: string }[];
 }
 
 const GUEST_STORAGE_VERSION = 2;
@@ -19,6 +24,14 @@ interface StoredGuestPayload {
 }
 
 interface BookingResponse {
+  /** Set by /api/rates/book when this prebook was already booked (repeat call); no second charge was made. */
+  alreadyConfirmed?: boolean;
+  /** How the booking is paid (set by /api/rates/book). */
+  paymentMode?: PaymentMode;
+  /** Lets this page download the voucher again (/api/vouchers/[prebookId]) without logging in. */
+  voucherToken?: string;
+  /** Special requests as recorded with the booking (sent to the hotel as remarks). */
+  specialRequests?: SpecialRequests;
   data: {
     bookingId: string;
     status: string;
@@ -39,6 +52,46 @@ interface BookingResponse {
 }
 
 const GUEST_STORAGE_KEY = "liteapi_guest_details";
+/** Retries while another book call for the same prebook is still running (409 BOOKING_IN_PROGRESS). */
+const BOOKING_IN_PROGRESS_RETRIES = 5;
+const BOOKING_IN_PROGRESS_RETRY_MS = 3000;
+const QUOTE_STORAGE_KEY_PREFIX = "liteapi_quote_"; // + offerId (set by checkout)
+const CORPORATE_TRAVELLER_KEY_PREFIX = "liteapi_corporate_traveller_"; // + offerId (set by checkout)
+const SPECIAL_REQUESTS_KEY = "liteapi_special_requests"; // set by checkout
+const SPECIAL_REQUEST_OPTIONS_KEY = "liteapi_special_request_options"; // set by checkout
+
+/** Special requests picked at checkout; sent to the hotel with the booking and printed on the voucher. */
+function readStoredSpecialRequests(): SpecialRequests | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const options = JSON.parse(window.localStorage.getItem(SPECIAL_REQUEST_OPTIONS_KEY) ?? "null");
+    return (
+      parseSpecialRequests({ ...options, note: window.localStorage.getItem(SPECIAL_REQUESTS_KEY) ?? undefined }) ?? null
+    );
+  } catch {
+    return null;
+  }
+}
+
+/** Signed checkout quote for this offer; /api/rates/book verifies it before booking. */
+function readStoredQuoteToken(offerId: string): string | null {
+  if (typeof window === "undefined" || !offerId) return null;
+  try {
+    return window.sessionStorage.getItem(`${QUOTE_STORAGE_KEY_PREFIX}${offerId}`);
+  } catch {
+    return null;
+  }
+}
+
+/** B2B: member email a travel manager picked at checkout; sent to book as onBehalfOf. */
+function readStoredCorporateTraveller(offerId: string): string | null {
+  if (typeof window === "undefined" || !offerId) return null;
+  try {
+    return window.sessionStorage.getItem(`${CORPORATE_TRAVELLER_KEY_PREFIX}${offerId}`);
+  } catch {
+    return null;
+  }
+}
 
 function ConfirmationLoading() {
   return (
@@ -55,10 +108,28 @@ function ConfirmationLoading() {
   );
 }
 
+/** What was (not) charged for pay-later bookings. */
+const PAY_LATER_NOTICES: Record<Exclude<PaymentMode, "pay_now">, { totalLabel: string; notice: string }> = {
+  account_credit: {
+    totalLabel: "Total billed to your account",
+    notice: "Nothing has been charged yet. This stay is billed to your account and invoiced after booking."
+  },
+  pay_at_property: {
+    totalLabel: "Total due at the property",
+    notice:
+      "We have not charged you and will not. You pay the hotel directly under its payment terms; it may ask for a card as a guarantee."
+  }
+};
+
 function ConfirmationContent() {
   const searchParams = useSearchParams();
   const prebookId = searchParams.get("prebookId") ?? "";
   const transactionId = searchParams.get("transactionId") ?? "";
+  /** Pay-later modes arrive without a transactionId (checkout skipped the payment SDK). */
+  const paymentModeParam = searchParams.get("paymentMode");
+  const paymentMode: PaymentMode =
+    paymentModeParam === "account_credit" || paymentModeParam === "pay_at_property" ? paymentModeParam : "pay_now";
+  const offerId = searchParams.get("offerId") ?? "";
   const hotelId = searchParams.get("hotelId") ?? "";
   const checkin = searchParams.get("checkin") ?? "";
   const checkout = searchParams.get("checkout") ?? "";
@@ -73,6 +144,8 @@ function ConfirmationContent() {
   const [booking, setBooking] = useState<BookingResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  /** prebookId:transactionId (or pay-later mode) already sent from this page instance (guards strict-mode double effects). */
+  const bookRequestKeyRef = useRef<string | null>(null);
 
   // Load guest details from storage (Phase 3: per-room or legacy single)
   useEffect(() => {
@@ -111,60 +184,100 @@ function ConfirmationContent() {
   // Call book endpoint once guest details are available
   useEffect(() => {
     if (!guestsForBook || guestsForBook.length === 0) return;
-    if (!prebookId || !transactionId) {
+    if (!prebookId || (paymentMode === "pay_now" && !transactionId)) {
       setError("Missing payment information. Please try booking again.");
       setLoading(false);
       return;
     }
 
+    const requestKey = `${prebookId}:${transactionId || paymentMode}`;
+    if (bookRequestKeyRef.current === requestKey) return;
+    bookRequestKeyRef.current = requestKey;
+
     const holder = guestsForBook[0];
     const roomCount = Math.max(1, occupancies.length);
-    const guestsPayload = guestsForBook.slice(0, roomCount).map((g, i) => ({
-      occupancyNumber: i + 1,
-      firstName: g.firstName,
-      lastName: g.lastName,
-      email: g.email
-    }));
+    // Every guest of every room: the primary guest with contact details, then the others in checkout's order
+    const guestsPayload = guestsForBook.slice(0, roomCount).flatMap((g, i) => [
+      {
+        occupancyNumber: i + 1,
+        type: "adult",
+        firstName: g.firstName,
+        lastName: g.lastName,
+        email: g.email,
+        phone: g.phone?.trim() || undefined
+      },
+      ...getRoomGuestSlots(occupancies[i] ?? { adults: 1, children: [] })
+        .slice(1)
+        .map((slot, c) => ({
+          occupancyNumber: i + 1,
+          type: slot.type,
+          firstName: g.companions?.[c]?.firstName ?? "",
+          lastName: g.companions?.[c]?.lastName ?? ""
+        }))
+    ]);
+
+    const requestBody = JSON.stringify({
+      prebookId,
+      holder: {
+        firstName: holder.firstName,
+        lastName: holder.lastName,
+        email: holder.email,
+        phone: holder.phone?.trim() || undefined
+      },
+      paymentMode,
+      ...(paymentMode === "pay_now" && {
+        payment: {
+          method: "TRANSACTION_ID",
+          transactionId
+        }
+      }),
+      guests:
+        guestsPayload.length > 0
+          ? guestsPayload
+          : [
+              {
+                occupancyNumber: 1,
+                firstName: holder.firstName,
+                lastName: holder.lastName,
+                email: holder.email
+              }
+            ],
+      // Child ages for rooms whose prebook does not list them (hotel, dates and rooms come from the prebook)
+      occupancies,
+      quoteToken: readStoredQuoteToken(offerId) ?? undefined,
+      onBehalfOf: readStoredCorporateTraveller(offerId) ?? undefined,
+      specialRequests: readStoredSpecialRequests() ?? undefined
+    });
 
     async function run() {
       try {
         setLoading(true);
         setError(null);
-        const res = await fetch("/api/rates/book", {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify({
-            prebookId,
-            holder: {
-              firstName: holder.firstName,
-              lastName: holder.lastName,
-              email: holder.email
-            },
-            payment: {
-              method: "TRANSACTION_ID",
-              transactionId
-            },
-            guests:
-              guestsPayload.length > 0
-                ? guestsPayload
-                : [
-                    {
-                      occupancyNumber: 1,
-                      firstName: holder.firstName,
-                      lastName: holder.lastName,
-                      email: holder.email
-                    }
-                  ]
-          })
-        });
-        const json = await res.json();
-        if (!res.ok || json?.error) {
-          throw new Error(
-            json?.error?.message ?? "Failed to finalize booking"
-          );
+        for (let attempt = 0; ; attempt++) {
+          const res = await fetch("/api/rates/book", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            credentials: "include",
+            body: requestBody
+          });
+          const json = await res.json();
+          // Another tab or request is booking this prebook; wait and ask again (the server then replays its result).
+          if (
+            res.status === 409 &&
+            json?.error?.code === "BOOKING_IN_PROGRESS" &&
+            attempt < BOOKING_IN_PROGRESS_RETRIES
+          ) {
+            await new Promise((resolve) => setTimeout(resolve, BOOKING_IN_PROGRESS_RETRY_MS));
+            continue;
+          }
+          if (!res.ok || json?.error) {
+            throw new Error(
+              json?.error?.message ?? "Failed to finalize booking"
+            );
+          }
+          setBooking(json as BookingResponse);
+          return;
         }
-        setBooking(json as BookingResponse);
       } catch (err: any) {
         setError(err.message ?? "Failed to finalize booking");
       } finally {
@@ -173,8 +286,15 @@ function ConfirmationContent() {
     }
 
     run();
-  }, [guestsForBook, prebookId, transactionId, occupancies.length]);
+  }, [guestsForBook, prebookId, transactionId, paymentMode, occupancies, offerId]);
 
+  const bookedMode = booking?.paymentMode ?? paymentMode;
+  const payLaterNotice = bookedMode === "pay_now" ? null : PAY_LATER_NOTICES[bookedMode];
+  const voucherUrl = (format: "pdf" | "html" | "ics") =>
+    `/api/vouchers/${encodeURIComponent(prebookId)}?${new URLSearchParams({
+      token: booking?.voucherToken ?? "",
+      format
+    }).toString()}`;
   const policy = booking?.data?.cancellationPolicies;
   const cancelInfo = policy?.cancelPolicyInfos?.[0]?.cancelTime;
 
@@ -186,7 +306,11 @@ function ConfirmationContent() {
     <main className="flex-1 flex flex-col px-4 pb-6 pt-6 gap-4">
       <header className="space-y-1">
         <h1 className="text-xl font-semibold tracking-tight">
-          {booking ? "Booking confirmed" : "Finalizing your booking"}
+          {booking
+            ? booking.alreadyConfirmed
+              ? "Booking already confirmed"
+              : "Booking confirmed"
+            : "Finalizing your booking"}
         </h1>
         <p className="text-[11px] text-slate-400">
           Thank you for booking with LiteAPI Demo Travel.
@@ -208,6 +332,16 @@ function ConfirmationContent() {
 
       {!loading && booking && (
         <>
+          {booking.alreadyConfirmed && (
+            <div className="rounded-xl border border-emerald-500/40 bg-emerald-500/10 px-3 py-2 text-xs text-emerald-200">
+              This reservation was already confirmed. You have not been charged again.
+            </div>
+          )}
+          {payLaterNotice && (
+            <div className="rounded-xl border border-sky-500/40 bg-sky-500/10 px-3 py-2 text-xs text-sky-200">
+              {payLaterNotice.notice}
+            </div>
+          )}
           <section className="rounded-2xl border border-slate-800 bg-slate-900/80 p-4 space-y-2 text-sm">
             <div className="flex items-baseline justify-between gap-2">
               <div>
@@ -258,7 +392,7 @@ function ConfirmationContent() {
 
             <div className="mt-2 text-[11px] text-slate-400">
               <p>
-                Total paid:{" "}
+                {payLaterNotice?.totalLabel ?? "Total paid"}:{" "}
                 <span className="text-slate-100 font-semibold">
                   {booking.data.currency} {booking.data.price}
                 </span>
@@ -282,6 +416,51 @@ function ConfirmationContent() {
             )}
           </section>
 
+          {booking.specialRequests && (
+            <section className="rounded-2xl border border-slate-800 bg-slate-900/80 p-4 text-[11px] space-y-1">
+              <p className="font-semibold text-slate-100">Special requests sent to the hotel</p>
+              {describeSpecialRequestOptions(booking.specialRequests).length > 0 && (
+                <p className="text-slate-300">{describeSpecialRequestOptions(booking.specialRequests).join(" · ")}</p>
+              )}
+              {booking.specialRequests.note && (
+                <p className="text-slate-300 whitespace-pre-wrap">{booking.specialRequests.note}</p>
+              )}
+              <p className="text-slate-500">Requests are not guaranteed; the property will do its best.</p>
+            </section>
+          )}
+
+          {booking.voucherToken && (
+            <section className="rounded-2xl border border-slate-800 bg-slate-900/80 p-4 space-y-2 text-sm">
+              <p className="text-[11px] text-slate-400">
+                We have emailed your voucher to{" "}
+                <span className="text-slate-100">{guestsForBook?.[0]?.email ?? "the lead guest"}</span>. Show it at
+                check-in.
+              </p>
+              <div className="flex gap-2">
+                <a
+                  href={voucherUrl("pdf")}
+                  className="flex-1 rounded-full bg-emerald-500 text-slate-950 text-xs font-semibold py-2 text-center"
+                >
+                  Download voucher (PDF)
+                </a>
+                <a
+                  href={voucherUrl("html")}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex-1 rounded-full border border-slate-600 text-slate-100 text-xs font-semibold py-2 text-center"
+                >
+                  View voucher
+                </a>
+              </div>
+              <a
+                href={voucherUrl("ics")}
+                className="block w-full rounded-full border border-slate-600 text-slate-100 text-xs font-semibold py-2 text-center"
+              >
+                Add to calendar (.ics)
+              </a>
+            </section>
+          )}
+
           <section className="space-y-2">
             <Link
               href={
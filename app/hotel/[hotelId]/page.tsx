@@ -4,15 +4,20 @@ import { SearchModal } from "@/components/SearchModal";
 import { ImageGallery } from "@/components/ImageGallery";
 import { RoomDetailSheet } from "@/components/RoomDetailSheet";
 import { HotelPageMap } from "@/components/HotelPageMap";
+import { FlexibleDatesStrip } from "@/components/FlexibleDatesStrip";
 import { MapPinIcon, CalendarIcon, UsersIcon, WifiIcon, BreakfastIcon, BedIcon, ShareIcon, HeartIcon, HeartIconFilled, ArrowLeftIcon } from "@/components/Icons";
 import { useLocaleCurrency } from "@/context/LocaleCurrencyContext";
 import { useFavoriteHotels } from "@/context/FavoriteHotelsContext";
+import { checkRateAgainstPolicy, describePolicyViolations } from "@/corporate/policy";
+import type { PolicyCheck, PolicyLimits } from "@/corporate/types";
 import { formatRangeShort, parseYYYYMMDD } from "@/lib/date-utils";
 import { parsePlaceTypes, serializePlaceTypes, type PlaceSuggestion } from "@/lib/place-utils";
 import { getNights, parseOccupanciesParam, serializeOccupancies, toApiOccupancies, totalGuests } from "@/lib/occupancy";
 import { buildResultsQueryParams, serializeResultsQuery, resultsUrl, parseResultsSearchParams, DEFAULT_NATIONALITY, backgroundSearchParamsSignature, PRELOADED_SEARCH_RESULT_KEY } from "@/lib/results-query";
 import { getLastSearch, setLastSearch, lastSearchResultsUrl, pushRecentHotel } from "@/lib/lastSearch";
 import { useBackgroundSearch } from "@/hooks/useBackgroundSearch";
+import { useFlexibleDates } from "@/hooks/useFlexibleDates";
+import { FLEXIBLE_DATES_LABELS, type FlexibleDates, type FlexibleDateWindow, flexibleDatePrices, isFlexibleDates } from "@/search/flexible";
 import type { Occupancy } from "@/lib/occupancy";
 import { useParams, useSearchParams, useRouter } from "next/navigation";
 import { useEffect, useMemo, useRef, useState } from "react";
@@ -52,6 +57,8 @@ interface HotelDetails {
 /** One selectable rate option (one offerId) under a room type. */
 interface RoomTypeOffer {
   offerId: string;
+  /** Rate room name; sent to checkout to match alternatives if the offer sells out. */
+  roomName?: string;
   boardName: string;
   /** Total to pay now (offerRetailRate = commission + included taxes). */
   totalAmount: number;
@@ -62,6 +69,8 @@ interface RoomTypeOffer {
   refundableTag?: string;
   cancelTime?: string;
   mappedRoomId?: number;
+  /** B2B: company travel policy check for this rate (absent for non-corporate users). */
+  policyCheck?: PolicyCheck;
 }
 
 /** One card = one room type; contains deduplicated, sorted rate options. */
@@ -118,6 +127,8 @@ export default function HotelPage() {
   const placeTypesParam = searchParams.get("placeTypes");
   const checkin = searchParams.get("checkin") ?? "";
   const checkout = searchParams.get("checkout") ?? "";
+  const flexParam = searchParams.get("flex");
+  const flexibleDates = isFlexibleDates(flexParam) ? flexParam : null;
   const occupanciesParam = searchParams.get("occupancies");
   const adultsLegacy = searchParams.get("adults");
   const occupancies = useMemo(() => {
@@ -348,6 +359,37 @@ export default function HotelPage() {
     return () => { cancelled = true; };
   }, [hotelId, checkin, checkout, occupancies, currency, locale]);
 
+  // Flexible dates (flex in the URL, from the results page or "Compare prices"): this hotel's price for nearby stays
+  const flexible = useFlexibleDates(
+    flexibleDates && hotelId && checkin && checkout
+      ? {
+          mode: "place",
+          hotelIds: [hotelId],
+          checkin,
+          checkout,
+          occupancies: toApiOccupancies(occupancies),
+          currency,
+          guestNationality: DEFAULT_NATIONALITY,
+          language: locale,
+          flex: flexibleDates
+        }
+      : null
+  );
+  const flexiblePrices = useMemo(
+    () => (flexible.data ? flexibleDatePrices(flexible.data, hotelId) : []),
+    [flexible.data, hotelId]
+  );
+
+  const replaceHotelQuery = (changes: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams.toString());
+    Object.entries(changes).forEach(([key, value]) => next.set(key, value));
+    router.replace(`/hotel/${hotelId}?${next.toString()}`, { scroll: false });
+  };
+  const handleFlexibleDateSelect = (stay: FlexibleDateWindow) => {
+    replaceHotelQuery({ checkin: stay.checkin, checkout: stay.checkout });
+  };
+  const showFlexibleDates = (flex: FlexibleDates) => replaceHotelQuery({ flex });
+
   const heroImage =
     details?.hotelImages?.find((img) => img.defaultImage)?.url ??
     details?.main_photo ??
@@ -387,6 +429,7 @@ export default function HotelPage() {
     const hotel = ratesData.data[0];
     const roomTypes = hotel?.roomTypes ?? [];
     const map = new Map<number, RoomGroup>();
+    const travelPolicy: PolicyLimits | undefined = ratesData.travelPolicy ?? undefined;
 
     for (const rt of roomTypes) {
       const firstRate = rt.rates?.[0];
@@ -429,6 +472,7 @@ export default function HotelPage() {
 
       const offer: RoomTypeOffer = {
         offerId: rt.offerId,
+        roomName,
         boardName: firstRate.boardName ?? "Room Only",
         totalAmount: amount,
         currency: curr ?? "USD",
@@ -436,7 +480,19 @@ export default function HotelPage() {
         payAtPropertyAmount: payAtProperty > 0 ? payAtProperty : undefined,
         refundableTag: firstRate.cancellationPolicies?.refundableTag,
         cancelTime: cancelInfo?.cancelTime,
-        mappedRoomId: mappedRoomId || undefined
+        mappedRoomId: mappedRoomId || undefined,
+        ...(travelPolicy && {
+          policyCheck: checkRateAgainstPolicy(
+            {
+              totalAmount: amount,
+              currency: curr,
+              nights,
+              rooms: occupancies.length,
+              starRating: details?.starRating
+            },
+            travelPolicy
+          )
+        })
       };
 
       const existing = map.get(mappedRoomId);
@@ -460,15 +516,22 @@ export default function HotelPage() {
       ...g,
       offers: deduplicateAndSortOffers(g.offers)
     }));
-  }, [ratesData, details, heroImage, occupancies.length]);
+  }, [ratesData, details, heroImage, occupancies.length, nights]);
 
   const handleSelectOffer = (offer: RoomTypeOffer) => {
     const params = new URLSearchParams({
       hotelId,
       offerId: offer.offerId,
       checkin,
-      checkout
+      checkout,
+      // List price (offerRetailRate) so checkout can show how the prebook price differs from it
+      listPrice: String(offer.totalAmount),
+      listCurrency: offer.currency,
+      // Room, board and refundability so checkout can suggest equivalent offers if this one is gone
+      boardName: offer.boardName
     });
+    if (offer.roomName) params.set("roomName", offer.roomName);
+    if (offer.refundableTag) params.set("refundableTag", offer.refundableTag);
     if (effectiveOccupanciesParam) params.set("occupancies", effectiveOccupanciesParam);
     router.push(`/checkout?${params.toString()}`);
   };
@@ -483,7 +546,8 @@ export default function HotelPage() {
       checkin: editCheckin,
       checkout: editCheckout,
       occupancies: editOccupancies,
-      nationality: DEFAULT_NATIONALITY
+      nationality: DEFAULT_NATIONALITY,
+      flexibleDates: flexibleDates ?? undefined
     });
     setLastSearch(params);
     const preloaded = backgroundSearch.getResultForParams(params);
@@ -884,6 +948,37 @@ export default function HotelPage() {
                 </span>
               </div>
             </button>
+            {checkin && checkout && (
+              flexibleDates ? (
+                <div className="pt-2 space-y-2">
+                  <p className="text-xs text-[var(--muted-foreground)]">
+                    {FLEXIBLE_DATES_LABELS[flexibleDates]} · total price for each stay
+                  </p>
+                  <FlexibleDatesStrip
+                    prices={flexiblePrices}
+                    checkin={checkin}
+                    checkout={checkout}
+                    onSelect={handleFlexibleDateSelect}
+                    loading={flexible.loading}
+                    locale={locale}
+                  />
+                  {flexible.error && (
+                    <p className="text-xs text-[var(--muted-foreground)]">{flexible.error}</p>
+                  )}
+                  {!flexible.loading && !flexible.error && flexible.data && flexiblePrices.length === 0 && (
+                    <p className="text-xs text-[var(--muted-foreground)]">No availability on nearby dates either.</p>
+                  )}
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => showFlexibleDates("around")}
+                  className="pt-1 text-xs font-medium text-[var(--primary)] hover:underline"
+                >
+                  Compare prices {FLEXIBLE_DATES_LABELS.around}
+                </button>
+              )
+            )}
           </section>
 
           <section id="rooms" ref={roomsSectionRef} className="space-y-2">
@@ -982,6 +1077,11 @@ export default function HotelPage() {
                           From {fromPrice} total
                         </p>
                       )}
+                      {minOffer?.policyCheck && !minOffer.policyCheck.inPolicy && (
+                        <p className="mt-1 inline-flex rounded-full border border-amber-300 bg-amber-50 px-2 py-0.5 text-[11px] font-medium text-amber-800">
+                          Out of policy · {describePolicyViolations(minOffer.policyCheck.violations)}
+                        </p>
+                      )}
                       <div className="flex items-center gap-3 mt-2 text-[var(--muted-foreground)]">
                         {roomMeta?.maxOccupancy != null && (
                           <span className="flex items-center gap-1 text-xs" title="Max guests">
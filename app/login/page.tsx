@@ -1,7 +1,6 @@
 "use client";
 
 import { useAuth } from "@/context/AuthContext";
-import type { UserType, LoyaltyLevel } from "@/auth/types";
 import { BottomNav } from "@/components/BottomNav";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
@@ -15,27 +14,22 @@ import {
   MAX_RATES_SEARCH_TIMEOUT
 } from "@/lib/rates-timeout";
 
-const USER_TYPES: { value: UserType; label: string }[] = [
-  { value: "member", label: "Member" },
-  { value: "employee", label: "Employee" },
-  { value: "b2b", label: "B2B" }
-];
+type SignInMethod = "password" | "code";
 
-const LOYALTY_LEVELS: { value: LoyaltyLevel; label: string; hint: string }[] = [
-  { value: "explorer", label: "Explorer", hint: "0–4 bookings" },
-  { value: "adventurer", label: "Adventurer", hint: "5–9 bookings" },
-  { value: "voyager", label: "Voyager", hint: "10+ bookings" }
-];
+const INPUT_CLASS =
+  "w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2.5 text-[var(--dark-text)] placeholder:text-[var(--muted-foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent";
 
 export default function LoginPage() {
   const router = useRouter();
-  const { login, isLoggedIn, isReady } = useAuth();
+  const { login, register, requestLoginCode, isLoggedIn, isReady } = useAuth();
+  const [method, setMethod] = useState<SignInMethod>("password");
+  const [isSignUp, setIsSignUp] = useState(false);
+  const [code, setCode] = useState("");
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [displayName, setDisplayName] = useState("");
   const [phone, setPhone] = useState("");
-  const [userType, setUserType] = useState<UserType>("member");
-  const [loyaltyLevel, setLoyaltyLevel] = useState<LoyaltyLevel>("explorer");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [ratesTimeoutSeconds, setRatesTimeoutSeconds] = useState(DEFAULT_RATES_SEARCH_TIMEOUT);
@@ -59,14 +53,27 @@ export default function LoginPage() {
     e.preventDefault();
     setError(null);
     setLoading(true);
-    const result = await login({
-      email: email.trim(),
-      password: password || undefined,
-      displayName: displayName.trim() || undefined,
-      phone: phone.trim() || undefined,
-      userType,
-      loyaltyLevel
-    });
+    const trimmedEmail = email.trim();
+    let result: { ok: boolean; error?: string };
+    if (method === "code" && !codeSentTo) {
+      result = await requestLoginCode(trimmedEmail);
+      setLoading(false);
+      if (result.ok) setCodeSentTo(trimmedEmail);
+      else setError(result.error ?? "Could not send code");
+      return;
+    }
+    if (method === "code") {
+      result = await login({ email: codeSentTo ?? trimmedEmail, code: code.trim() });
+    } else if (isSignUp) {
+      result = await register({
+        email: trimmedEmail,
+        password,
+        displayName: displayName.trim() || undefined,
+        phone: phone.trim() || undefined
+      });
+    } else {
+      result = await login({ email: trimmedEmail, password });
+    }
     setLoading(false);
     if (result.ok) {
       router.replace("/");
@@ -75,6 +82,25 @@ export default function LoginPage() {
     }
   };
 
+  const switchMethod = (next: SignInMethod) => {
+    setMethod(next);
+    setError(null);
+    setCode("");
+    setCodeSentTo(null);
+  };
+
+  const submitLabel = loading
+    ? method === "code" && !codeSentTo
+      ? "Sending code…"
+      : "Signing in…"
+    : method === "code"
+      ? codeSentTo
+        ? "Sign in"
+        : "Email me a code"
+      : isSignUp
+        ? "Create account"
+        : "Sign in";
+
   return (
     <main className="flex-1 flex flex-col min-h-screen bg-[var(--light-bg)] text-[var(--dark-text)] pb-24">
       <header className="sticky top-0 z-10 flex items-center gap-3 px-4 py-3 bg-white/95 backdrop-blur border-b border-[var(--sky-blue)] pt-[max(0.75rem,env(safe-area-inset-top))]">
@@ -94,6 +120,25 @@ export default function LoginPage() {
           </p>
         </div>
 
+      <div className="flex rounded-xl border border-[var(--sky-blue)] bg-white p-1" role="tablist" aria-label="Sign-in method">
+        {(["password", "code"] as const).map((m) => (
+          <button
+            key={m}
+            type="button"
+            role="tab"
+            aria-selected={method === m}
+            onClick={() => switchMethod(m)}
+            className={`flex-1 rounded-lg py-2 text-sm font-medium transition-colors ${
+              method === m
+                ? "bg-[var(--primary)] text-white"
+                : "text-[var(--muted-foreground)] hover:text-[var(--dark-text)]"
+            }`}
+          >
+            {m === "password" ? "Password" : "Email code"}
+          </button>
+        ))}
+      </div>
+
       <form onSubmit={handleSubmit} className="flex flex-col gap-4">
         <div>
           <label htmlFor="login-email" className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">
@@ -104,108 +149,110 @@ export default function LoginPage() {
             type="email"
             autoComplete="email"
             value={email}
-            onChange={(e) => setEmail(e.target.value)}
+            onChange={(e) => {
+              setEmail(e.target.value);
+              setCodeSentTo(null);
+            }}
             required
-            className="w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2.5 text-[var(--dark-text)] placeholder:text-[var(--muted-foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+            className={INPUT_CLASS}
             placeholder="you@example.com"
           />
-          <p className="text-[11px] text-[var(--muted-foreground)] mt-0.5">
-            Use @breadfast.com to be treated as Employee (placeholder).
-          </p>
-        </div>
-
-        <div>
-          <label htmlFor="login-display" className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">
-            Display name <span className="text-[var(--muted-foreground)]">(optional)</span>
-          </label>
-          <input
-            id="login-display"
-            type="text"
-            autoComplete="name"
-            value={displayName}
-            onChange={(e) => setDisplayName(e.target.value)}
-            className="w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2.5 text-[var(--dark-text)] placeholder:text-[var(--muted-foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
-            placeholder="Your name"
-          />
+          {method === "code" && (
+            <p className="text-[11px] text-[var(--muted-foreground)] mt-0.5">
+              We&apos;ll email you a 6-digit code. Signing in with a code also verifies your email.
+            </p>
+          )}
         </div>
 
-        <div>
-          <label htmlFor="login-phone" className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">
-            Phone <span className="text-[var(--muted-foreground)]">(optional)</span>
-          </label>
-          <input
-            id="login-phone"
-            type="tel"
-            autoComplete="tel"
-            value={phone}
-            onChange={(e) => setPhone(e.target.value)}
-            className="w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2.5 text-[var(--dark-text)] placeholder:text-[var(--muted-foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
-            placeholder="+1 234 567 8900"
-          />
-        </div>
-
-        <div>
-          <label htmlFor="login-password" className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">
-            Password <span className="text-[var(--muted-foreground)]">(optional for demo)</span>
-          </label>
-          <input
-            id="login-password"
-            type="password"
-            autoComplete="current-password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            className="w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2.5 text-[var(--dark-text)] placeholder:text-[var(--muted-foreground)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
-            placeholder="••••••••"
-          />
-        </div>
+        {method === "password" && isSignUp && (
+          <>
+            <div>
+              <label htmlFor="login-display" className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">
+                Display name <span className="text-[var(--muted-foreground)]">(optional)</span>
+              </label>
+              <input
+                id="login-display"
+                type="text"
+                autoComplete="name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="Your name"
+              />
+            </div>
 
-        <div>
-          <span className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">User type (demo)</span>
-          <div className="flex flex-wrap gap-2">
-            {USER_TYPES.map(({ value, label }) => (
-              <label
-                key={value}
-                className="flex items-center gap-1.5 cursor-pointer"
-              >
-                <input
-                  type="radio"
-                  name="userType"
-                  value={value}
-                  checked={userType === value}
-                  onChange={() => setUserType(value)}
-                  className="rounded-full border-[var(--sky-blue)] text-[var(--primary)] focus:ring-[var(--primary)]"
-                />
-                <span className="text-sm text-[var(--dark-text)]">{label}</span>
+            <div>
+              <label htmlFor="login-phone" className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">
+                Phone <span className="text-[var(--muted-foreground)]">(optional)</span>
               </label>
-            ))}
+              <input
+                id="login-phone"
+                type="tel"
+                autoComplete="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="+1 234 567 8900"
+              />
+            </div>
+          </>
+        )}
+
+        {method === "password" && (
+          <div>
+            <label htmlFor="login-password" className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">
+              Password
+            </label>
+            <input
+              id="login-password"
+              type="password"
+              autoComplete={isSignUp ? "new-password" : "current-password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              minLength={isSignUp ? 8 : undefined}
+              className={INPUT_CLASS}
+              placeholder="••••••••"
+            />
+            {isSignUp && (
+              <p className="text-[11px] text-[var(--muted-foreground)] mt-0.5">At least 8 characters.</p>
+            )}
           </div>
-        </div>
+        )}
 
-        <div>
-          <span className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">Loyalty tier (demo)</span>
-          <p className="text-[11px] text-[var(--muted-foreground)] mb-1.5">
-            Explorer 0–4 · Adventurer 5–9 · Voyager 10+ bookings
-          </p>
-          <div className="flex flex-col gap-1.5">
-            {LOYALTY_LEVELS.map(({ value, label, hint }) => (
-              <label
-                key={value}
-                className="flex items-center gap-2 cursor-pointer py-1"
+        {method === "code" && codeSentTo && (
+          <div>
+            <label htmlFor="login-code" className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">
+              Code
+            </label>
+            <input
+              id="login-code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              pattern="[0-9]{6}"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              required
+              className={`${INPUT_CLASS} tracking-[0.3em]`}
+              placeholder="123456"
+            />
+            <p className="text-[11px] text-[var(--muted-foreground)] mt-0.5">
+              Sent to {codeSentTo}.{" "}
+              <button
+                type="button"
+                onClick={() => {
+                  setCodeSentTo(null);
+                  setCode("");
+                }}
+                className="text-[var(--primary)] hover:underline"
               >
-                <input
-                  type="radio"
-                  name="loyaltyLevel"
-                  value={value}
-                  checked={loyaltyLevel === value}
-                  onChange={() => setLoyaltyLevel(value)}
-                  className="rounded-full border-[var(--sky-blue)] text-[var(--primary)] focus:ring-[var(--primary)]"
-                />
-                <span className="text-sm text-[var(--dark-text)]">{label}</span>
-                <span className="text-[11px] text-[var(--muted-foreground)]">({hint})</span>
-              </label>
-            ))}
+                Send a new code
+              </button>
+            </p>
           </div>
-        </div>
+        )}
 
         <div>
           <label htmlFor="login-timeout" className="block text-xs font-medium text-[var(--muted-foreground)] mb-1">
@@ -236,10 +283,26 @@ export default function LoginPage() {
           disabled={loading}
           className="w-full rounded-xl bg-[var(--primary)] text-white font-semibold py-2.5 hover:bg-[var(--primary-hover)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:ring-offset-2 focus:ring-offset-[var(--light-bg)] disabled:opacity-50 disabled:pointer-events-none transition-colors"
         >
-          {loading ? "Signing in…" : "Sign in"}
+          {submitLabel}
         </button>
       </form>
 
+        {method === "password" && (
+          <p className="text-center text-sm text-[var(--muted-foreground)]">
+            {isSignUp ? "Already have an account?" : "New here?"}{" "}
+            <button
+              type="button"
+              onClick={() => {
+                setIsSignUp((v) => !v);
+                setError(null);
+              }}
+              className="text-[var(--primary)] hover:underline"
+            >
+              {isSignUp ? "Sign in" : "Create an account"}
+            </button>
+          </p>
+        )}
+
         <p className="text-center text-sm text-[var(--muted-foreground)]">
           <Link href="/" className="text-[var(--primary)] hover:underline">
             ← Back to search
@@ -41,6 +41,7 @@ import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
 
 import { serializePlaceTypes, type NormalizedPlaceType, type PlaceSuggestion } from "@/lib/place-utils";
 import { determineSearchRoute } from "@/lib/search-routing";
+import type { FlexibleDates } from "@/search/flexible";
 
 type SearchMode = "place" | "vibe";
 
@@ -109,7 +110,7 @@ const FEATURED_HOTEL_IDS = [
 interface LikedHotelDetails {
   id: string;
   name: string;
-  main_photo?: string;
+  thumbnail?: string;
   address?: string;
   rating?: number;
   reviewCount?: number;
@@ -140,6 +141,7 @@ export default function HomePage() {
   const [placeLng, setPlaceLng] = useState<number | undefined>(undefined);
   const [checkin, setCheckin] = useState("");
   const [checkout, setCheckout] = useState("");
+  const [flexibleDates, setFlexibleDates] = useState<FlexibleDates | null>(null);
   const [occupancies, setOccupancies] = useState<Occupancy[]>(() => DEFAULT_OCCUPANCIES);
   const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
   const [loadingPlaces, setLoadingPlaces] = useState(false);
@@ -185,6 +187,7 @@ export default function HomePage() {
     setQuery(last.mode === "place" ? (last.placeName ?? "") : (last.aiSearch ?? ""));
     if (last.checkin) setCheckin(last.checkin);
     if (last.checkout) setCheckout(last.checkout);
+    setFlexibleDates(last.flexibleDates ?? null);
     setOccupancies(parseOccupanciesParam(last.occupancies));
   }, []);
 
@@ -210,7 +213,7 @@ export default function HomePage() {
               ? {
                   id: d.id ?? id,
                   name: d.name ?? "Hotel",
-                  main_photo: d.main_photo,
+                  thumbnail: d.main_photo,
                   address: d.address ?? d.city,
                   rating: d.rating,
                   reviewCount: d.reviewCount,
@@ -276,7 +279,7 @@ export default function HomePage() {
               ? {
                   id: d.id ?? id,
                   name: d.name ?? FEATURED_HOTEL_IDS.find((h) => h.id === id)?.name ?? "Hotel",
-                  main_photo: d.main_photo,
+                  thumbnail: d.main_photo,
                   address: d.address ?? d.city,
                   rating: d.rating,
                   reviewCount: d.reviewCount,
@@ -440,6 +443,7 @@ export default function HomePage() {
       searchRadius: placeSearchRadius,
       countryCode: mode === "place" ? placeCountryCode : undefined,
       placeType: mode === "place" ? placePlaceType : undefined,
+      flexibleDates: flexibleDates ?? undefined,
     });
     setLastSearch(params);
     pushRecentSearch(params);
@@ -724,9 +728,9 @@ export default function HomePage() {
                           className="block focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:ring-inset rounded-xl"
                         >
                           <div className="relative h-28 w-full overflow-hidden bg-[var(--muted)]">
-                            {hotel.main_photo ? (
+                            {hotel.thumbnail ? (
                               <img
-                                src={hotel.main_photo}
+                                src={hotel.thumbnail}
                                 alt=""
                                 className="w-full h-full object-cover"
                                 loading="lazy"
@@ -802,6 +806,8 @@ export default function HomePage() {
             setCheckin(c);
             setCheckout(o);
           }}
+          flexibleDates={flexibleDates}
+          onFlexibleDatesChange={setFlexibleDates}
           occupancies={occupancies}
           onOccupanciesChange={setOccupancies}
           locale={locale}
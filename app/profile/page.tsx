@@ -7,15 +7,23 @@ import {
   type Locale,
 } from "@/context/LocaleCurrencyContext";
 import { useAuth } from "@/context/AuthContext";
+import { getLoyaltyProgress } from "@/auth/types";
 import { BottomNav } from "@/components/BottomNav";
 import { ArrowLeftIcon } from "@/components/Icons";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { useEffect } from "react";
 
 export default function ProfilePage() {
   const router = useRouter();
-  const { isReady, isLoggedIn, userProfile, logout } = useAuth();
+  const { isReady, isLoggedIn, userProfile, logout, logoutEverywhere, refreshSession } = useAuth();
   const { locale, currency, setLocale, setCurrency } = useLocaleCurrency();
+  const loyalty = userProfile ? getLoyaltyProgress(userProfile.bookingsCount ?? 0) : null;
+
+  // Tier follows bookings made or cancelled since the app loaded; pick up the latest profile.
+  useEffect(() => {
+    refreshSession();
+  }, [refreshSession]);
 
   return (
     <main className="min-h-screen bg-[var(--light-bg)] text-[var(--dark-text)] pb-24">
@@ -76,13 +84,38 @@ export default function ProfilePage() {
                   {userProfile.userType}
                 </span>
               </p>
-              {userProfile.loyaltyLevel && (
-                <p className="text-sm">
-                  <span className="text-[var(--muted-foreground)]">Tier</span>{" "}
-                  <span className="font-medium capitalize">
-                    {userProfile.loyaltyLevel}
-                  </span>
-                </p>
+              {loyalty && (
+                <div className="space-y-1.5">
+                  <p className="text-sm">
+                    <span className="text-[var(--muted-foreground)]">Tier</span>{" "}
+                    <span className="font-medium capitalize">{loyalty.level}</span>
+                  </p>
+                  <div
+                    className="h-2 w-full overflow-hidden rounded-full bg-[var(--light-bg)] border border-[var(--sky-blue)]"
+                    role="progressbar"
+                    aria-label="Progress to next tier"
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={Math.round(loyalty.progress * 100)}
+                  >
+                    <div
+                      className="h-full rounded-full bg-[var(--primary)] transition-[width] duration-[var(--expand-duration)]"
+                      style={{ width: `${Math.round(loyalty.progress * 100)}%` }}
+                    />
+                  </div>
+                  <p className="text-[11px] text-[var(--muted-foreground)]">
+                    {loyalty.bookingsCount} confirmed {loyalty.bookingsCount === 1 ? "booking" : "bookings"}
+                    {loyalty.nextLevel ? (
+                      <>
+                        {" · "}
+                        {loyalty.bookingsToNext} more to{" "}
+                        <span className="capitalize">{loyalty.nextLevel}</span>
+                      </>
+                    ) : (
+                      " · Top tier reached"
+                    )}
+                  </p>
+                </div>
               )}
               {userProfile.phone && (
                 <p className="text-sm">
@@ -90,6 +123,26 @@ export default function ProfilePage() {
                   <span className="font-medium">{userProfile.phone}</span>
                 </p>
               )}
+              <Link
+                href="/trips"
+                className="mt-2 flex w-full items-center justify-center rounded-xl border border-[var(--sky-blue)] bg-[var(--light-bg)] py-2.5 text-sm font-medium text-[var(--dark-text)] hover:bg-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] transition-colors"
+              >
+                My trips
+              </Link>
+              <Link
+                href="/travellers"
+                className="flex w-full items-center justify-center rounded-xl border border-[var(--sky-blue)] bg-[var(--light-bg)] py-2.5 text-sm font-medium text-[var(--dark-text)] hover:bg-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] transition-colors"
+              >
+                Saved travellers
+              </Link>
+              {userProfile.userType === "b2b" && (
+                <Link
+                  href="/approvals"
+                  className="flex w-full items-center justify-center rounded-xl border border-[var(--sky-blue)] bg-[var(--light-bg)] py-2.5 text-sm font-medium text-[var(--dark-text)] hover:bg-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] transition-colors"
+                >
+                  Approvals
+                </Link>
+              )}
               <button
                 type="button"
                 onClick={() => logout()}
@@ -97,6 +150,13 @@ export default function ProfilePage() {
               >
                 Log out
               </button>
+              <button
+                type="button"
+                onClick={() => logoutEverywhere()}
+                className="w-full py-1 text-xs text-[var(--muted-foreground)] hover:text-[var(--dark-text)] hover:underline focus:outline-none focus:ring-2 focus:ring-[var(--primary)] rounded"
+              >
+                Log out on all devices
+              </button>
             </div>
           )}
         </section>
@@ -1,8 +1,11 @@
 "use client";
 
 import { HotelCard } from "@/components/HotelCard";
+import { checkRateAgainstPolicy } from "@/corporate/policy";
 import { BottomNav } from "@/components/BottomNav";
-import { SearchModal } from "@/components/SearchModal";
+import { SearchModal, type SearchModalView } from "@/components/SearchModal";
+import { toCalendarPrices } from "@/components/DateRangePicker";
+import { FlexibleDatesStrip } from "@/components/FlexibleDatesStrip";
 import { MapPinIcon, FilterIcon, MapIcon, ArrowLeftIcon } from "@/components/Icons";
 import { ResultsPageMap } from "@/components/ResultsPageMap";
 import { useFavoriteHotels } from "@/context/FavoriteHotelsContext";
@@ -12,6 +15,10 @@ import { parsePlaceTypes, serializePlaceTypes, type PlaceSuggestion, type Normal
 import { calculateHotelDistances, formatDistance } from "@/lib/distance-utils";
 import { getSearchErrorMessage } from "@/lib/search-errors";
 import { getRatesSearchTimeout } from "@/lib/rates-timeout";
+import { mergeSearchPages, nextSearchOffset, SEARCH_PAGE_SIZE } from "@/lib/search-pages";
+import { FLEXIBLE_DATES_LABELS, type FlexibleDates, type FlexibleDateWindow, flexibleDatePrices } from "@/search/flexible";
+import { applySearchStreamEvent, readStreamMessages, SEARCH_STREAM_ACCEPT, searchStreamFormatOf, type SearchStreamEvent } from "@/search/stream";
+import { isSearchResponse, type SearchResponse, type SearchResultHotel, type SearchResultPrice } from "@/search/types";
 import { DEFAULT_OCCUPANCIES, getNights, parseOccupanciesParam, serializeOccupancies, toApiOccupancies, totalGuests } from "@/lib/occupancy";
 import type { Occupancy } from "@/lib/occupancy";
 import {
@@ -29,6 +36,7 @@ import { normalizeForSearch } from "@/lib/normalize-search-text";
 import { isCountryRestricted, isLocationRestricted } from "@/config/content-restrictions";
 import { getLastSearch, setLastSearch, pushRecentSearch } from "@/lib/lastSearch";
 import { useBackgroundSearch } from "@/hooks/useBackgroundSearch";
+import { useFlexibleDates } from "@/hooks/useFlexibleDates";
 import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useCallback, useEffect, useMemo, useState, Suspense, useRef } from "react";
@@ -36,44 +44,54 @@ import { useScrollDirection } from "@/hooks/useScrollDirection";
 
 const INITIAL_BATCH = 24;
 const BATCH_SIZE = 24;
-/** Phase 4: must match server FIRST_N_HOTELS_TO_ENRICH. */
-const FIRST_N_HOTELS_TO_ENRICH = 80;
-const WAVE2_BATCH_SIZE = 80;
-const MAX_DETAILS_WAVES = 4;
-const WAVE2_DEBOUNCE_MS = 2000;
-
-interface PriceInfo {
-  amount: number;
-  currency: string;
-  refundableTag?: string;
-  taxIncluded?: boolean;
-}
-
-interface LiteAPIHotel {
-  id: string;
-  name: string;
-  main_photo?: string;
-  address?: string;
-  rating?: number;
-  reviewCount?: number;
-  starRating?: number;
-  persona?: string;
-  style?: string;
-  location_type?: string;
-  tags?: string[];
+/** Start loading the next page while the end of the list is this far below the viewport. */
+const LOAD_MORE_ROOT_MARGIN = "600px 0px";
+
+/**
+ * POST /api/rates/search; throws with a user-facing message on API errors. When the server streams (USE_RATES_STREAM),
+ * onProgress gets the response built so far after each event; the promise resolves with the same complete
+ * SearchResponse the JSON path returns.
+ */
+async function fetchSearchPage(
+  body: Record<string, unknown>,
+  signal?: AbortSignal,
+  onProgress?: (partial: SearchResponse) => void
+): Promise<SearchResponse> {
+  const res = await fetch("/api/rates/search", {
+    method: "POST",
+    headers: { "content-type": "application/json", accept: SEARCH_STREAM_ACCEPT },
+    credentials: "include",
+    body: JSON.stringify(body),
+    signal
+  });
+  const streamFormat = searchStreamFormatOf(res.headers.get("content-type"));
+  if (res.ok && streamFormat && res.body) {
+    let response: SearchResponse | null = null;
+    let done = false;
+    for await (const message of readStreamMessages(res.body, streamFormat)) {
+      const event = JSON.parse(message) as SearchStreamEvent;
+      if (event.type === "error") throw new Error(getSearchErrorMessage(0, event.error).message);
+      response = applySearchStreamEvent(response, event);
+      done = event.type === "done";
+      if (response && !done) onProgress?.(response);
+    }
+    if (!done || !isSearchResponse(response)) throw new Error(getSearchErrorMessage(0, null).message);
+    return response;
+  }
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || json?.error) {
+    const { message } = getSearchErrorMessage(res.status, json?.error);
+    throw new Error(message);
+  }
+  if (!isSearchResponse(json)) throw new Error(getSearchErrorMessage(res.status, null).message);
+  return json;
 }
 
-interface SearchResponse {
-  mode: "place" | "vibe";
-  raw: {
-    data: any[];
-    hotels?: LiteAPIHotel[];
-  };
-  pricesByHotelId: Record<string, PriceInfo>;
-  /** Per hotelId: true if the hotel has at least one refundable rate (any room/rate). */
-  hasRefundableRateByHotelId?: Record<string, boolean>;
-  /** Enriched from hotel details API (Phase 4: rating, reviewCount, starRating). Phase 1: location for map markers. */
-  hotelDetailsByHotelId?: Record<string, { reviewCount?: number; rating?: number; starRating?: number; location?: { latitude: number; longitude: number } }>;
+/** Friendly message for a failed search request (network failures get the generic copy). */
+function searchFailureMessage(err: any): string {
+  return err?.message && !/Failed to fetch|Load failed|NetworkError/i.test(String(err?.message))
+    ? err.message
+    : getSearchErrorMessage(0, null).message;
 }
 
 function ResultsLoading({ locationLabel }: { locationLabel?: string }) {
@@ -139,7 +157,8 @@ function ResultsContent() {
     centerLat: centerLatParam,
     centerLng: centerLngParam,
     placeType: placeTypeParam,
-    searchRadius: searchRadiusParam
+    searchRadius: searchRadiusParam,
+    flexibleDates: flexibleDatesParam
   } = queryParams;
   const placeTypesParam = queryParams.placeTypes.length
     ? placeTypesFromUrl.join(",")
@@ -154,6 +173,8 @@ function ResultsContent() {
   const { currency, locale } = useLocaleCurrency();
   const [data, setData] = useState<SearchResponse | null>(null);
   const [loading, setLoading] = useState(true);
+  /** First page still streaming in (USE_RATES_STREAM); data holds the hotels so far. */
+  const [streaming, setStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
   const [visibleCount, setVisibleCount] = useState(INITIAL_BATCH);
@@ -164,11 +185,14 @@ function ResultsContent() {
   const [lazyLoadResult, setLazyLoadResult] = useState<SearchResponse | null>(null);
   const [lazyLoadLoading, setLazyLoadLoading] = useState(false);
   const [lazyLoadError, setLazyLoadError] = useState<string | null>(null);
+  // Further pages of the current search (infinite scroll)
+  const [pageLoading, setPageLoading] = useState(false);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const pageInFlightRef = useRef(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const lastScrollY = useRef(0);
-  // Phase 4: cascaded enrichment (wave 2+). Only merge batch when this matches current search.
+  // Bumped per search; a page that arrives for an older search is dropped.
   const searchGenerationRef = useRef(0);
-  const batchInFlightRef = useRef(false);
-  const nextWaveStartRef = useRef(0);
   const backgroundSearch = useBackgroundSearch({
     currency,
     locale,
@@ -212,6 +236,9 @@ function ResultsContent() {
   const [selectedPlaceLng, setSelectedPlaceLng] = useState<number | undefined>(undefined);
 
   const [searchModalOpen, setSearchModalOpen] = useState(false);
+  /** "when" when opened from the flexible-dates price calendar. */
+  const [searchModalInitialView, setSearchModalInitialView] = useState<SearchModalView>("overview");
+  const [editFlexibleDates, setEditFlexibleDates] = useState<FlexibleDates | null>(flexibleDatesParam ?? null);
   const { isFavorite, toggleFavorite } = useFavoriteHotels();
   const bottomNavVisible = useScrollDirection();
 
@@ -269,6 +296,7 @@ function ResultsContent() {
     setGlobalSearchCheckout(checkoutParam);
     setGlobalSearchOccupanciesParam(effectiveOccupanciesParam);
     setEditOccupancies(occupancies);
+    setEditFlexibleDates(flexibleDatesParam ?? null);
 
     const initialQuery = mode === "place" ? (placeNameParam ?? "") : (aiSearchParam ?? "");
     setGlobalSearchQuery(initialQuery);
@@ -294,7 +322,7 @@ function ResultsContent() {
     }
 
     setVisibleCount(INITIAL_BATCH);
-  }, [mode, placeIdParam, placeNameParam, placeAddressParam, placeTypesParam, queryParams.countryCode, queryParams.placeType, centerLatParam, centerLngParam, aiSearchParam, checkinParam, checkoutParam, effectiveOccupanciesParam, occupancies]);
+  }, [mode, placeIdParam, placeNameParam, placeAddressParam, placeTypesParam, queryParams.countryCode, queryParams.placeType, centerLatParam, centerLngParam, aiSearchParam, checkinParam, checkoutParam, effectiveOccupanciesParam, occupancies, flexibleDatesParam]);
 
   // Only run search when we have required params (avoids 400 from API). Place mode: placeId OR area (lat/lng/radius).
   const hasAreaOnlyParams =
@@ -379,7 +407,64 @@ function ResultsContent() {
   // Phase 1: search type (Type 1 = specific hotel, Type 2 = city/area). Used in Phase 5 for API dispatch.
   const isSpecificHotelSearch = isSpecificHotelPlace(placeTypesFromUrl);
 
-  // Fetch results (refetches when currency changes so list reloads with new prices)
+  // Search request without paging; shared by the first page and the ones infinite scroll loads
+  const searchRequestBody = useMemo(() => {
+    // City/country: use placeId (area can exceed default radius). Others: use lat/lng/radius only.
+    const usePlaceIdForSearch =
+      mode === "place" &&
+      (placeTypeParam === "city" || placeTypeParam === "country");
+    const effectiveLat = latitudeParam ?? centerLatParam;
+    const effectiveLng = longitudeParam ?? centerLngParam;
+    const effectiveRadius = radiusParam ?? searchRadiusParam ?? (effectiveLat != null ? 50000 : undefined);
+    const hasAreaParams =
+      !usePlaceIdForSearch &&
+      effectiveLat != null &&
+      effectiveLng != null &&
+      effectiveRadius != null &&
+      effectiveRadius > 0;
+
+    return {
+      mode,
+      ...(mode === "place" && hasAreaParams
+        ? {
+            latitude: effectiveLat,
+            longitude: effectiveLng,
+            radius: effectiveRadius,
+            countryCode: countryCodeParam ?? undefined
+          }
+        : mode === "place"
+          ? {
+              placeId: placeIdParam ?? undefined,
+              placeName: placeNameParam ?? undefined,
+              placeTypes: placeTypesParam ? placeTypesParam.split(",").filter(Boolean) : undefined,
+              countryCode: countryCodeParam ?? undefined
+            }
+          : { aiSearch: aiSearchParam ?? undefined }),
+      checkin: checkinParam,
+      checkout: checkoutParam,
+      occupancies: toApiOccupancies(occupancies),
+      currency,
+      guestNationality: nationalityParam,
+      language: locale,
+      timeout: getRatesSearchTimeout(),
+      ...(starsParam != null && starsParam.length > 0 && { starRating: starsParam }),
+      ...(minRatingParam != null && !Number.isNaN(minRatingParam) && { minRating: minRatingParam }),
+      ...(minReviewsCountParam != null && !Number.isNaN(minReviewsCountParam) && minReviewsCountParam >= 0 && { minReviewsCount: minReviewsCountParam }),
+      ...(facilitiesParam != null && facilitiesParam.length > 0 && { facilities: facilitiesParam })
+    };
+  }, [mode, placeIdParam, placeNameParam, placeTypesParam, placeTypeParam, countryCodeParam, aiSearchParam, checkinParam, checkoutParam, occupancies, currency, locale, nationalityParam, latitudeParam, longitudeParam, radiusParam, centerLatParam, centerLngParam, searchRadiusParam, starsParam, minRatingParam, minReviewsCountParam, facilitiesParam]);
+
+  // Flexible dates: cheapest stays around the searched dates, for the strip and the When calendar's heat-map
+  const flexible = useFlexibleDates(
+    hasRequiredSearchParams && flexibleDatesParam ? { ...searchRequestBody, flex: flexibleDatesParam } : null
+  );
+  const flexiblePrices = useMemo(() => (flexible.data ? flexibleDatePrices(flexible.data) : []), [flexible.data]);
+  const calendarPrices = useMemo(() => toCalendarPrices(flexiblePrices, locale), [flexiblePrices, locale]);
+
+  const handleFlexibleDateSelect = (stay: FlexibleDateWindow) => {
+    router.push(resultsUrl({ ...queryParams, checkin: stay.checkin, checkout: stay.checkout }));
+  };
+
   // Fetch results (refetches when currency changes so list reloads with new prices).
   useEffect(() => {
     if (!hasRequiredSearchParams) {
@@ -396,13 +481,15 @@ function ResultsContent() {
         try {
           const raw = typeof window !== "undefined" ? sessionStorage.getItem(PRELOADED_SEARCH_RESULT_KEY) : null;
           if (raw) {
-            const parsed = JSON.parse(raw) as { signature?: string; data?: SearchResponse };
+            const parsed = JSON.parse(raw) as { signature?: string; data?: unknown };
             const currentSig = backgroundSearchParamsSignature(queryParams);
-            if (parsed?.signature === currentSig && parsed?.data) {
+            // A preload of an older response version is dropped and searched again
+            if (parsed?.signature === currentSig && isSearchResponse(parsed?.data)) {
               sessionStorage.removeItem(PRELOADED_SEARCH_RESULT_KEY);
               setData(parsed.data);
               searchGenerationRef.current += 1;
-              nextWaveStartRef.current = FIRST_N_HOTELS_TO_ENRICH;
+              setPageError(null);
+              setStreaming(false);
               setLastSearch(queryParams);
               pushRecentSearch(queryParams);
               setLoading(false);
@@ -413,67 +500,24 @@ function ResultsContent() {
           // ignore
         }
         setLoading(true);
+        setStreaming(false);
         setError(null);
         setLazyLoadResult(null);
         setLazyLoadError(null);
-        // City/country: use placeId (area can exceed default radius). Others: use lat/lng/radius only.
-        const usePlaceIdForSearch =
-          mode === "place" &&
-          (placeTypeParam === "city" || placeTypeParam === "country");
-        const effectiveLat = latitudeParam ?? centerLatParam;
-        const effectiveLng = longitudeParam ?? centerLngParam;
-        const effectiveRadius = radiusParam ?? searchRadiusParam ?? (effectiveLat != null ? 50000 : undefined);
-        const hasAreaParams =
-          !usePlaceIdForSearch &&
-          effectiveLat != null &&
-          effectiveLng != null &&
-          effectiveRadius != null &&
-          effectiveRadius > 0;
-
-        const body = {
-          mode,
-          ...(mode === "place" && hasAreaParams
-            ? {
-                latitude: effectiveLat,
-                longitude: effectiveLng,
-                radius: effectiveRadius,
-                countryCode: countryCodeParam ?? undefined
-              }
-            : mode === "place"
-              ? {
-                  placeId: placeIdParam ?? undefined,
-                  placeName: placeNameParam ?? undefined,
-                  placeTypes: placeTypesParam ? placeTypesParam.split(",").filter(Boolean) : undefined,
-                  countryCode: countryCodeParam ?? undefined
-                }
-              : { aiSearch: aiSearchParam ?? undefined }),
-          checkin: checkinParam,
-          checkout: checkoutParam,
-          occupancies: toApiOccupancies(occupancies),
-          currency,
-          guestNationality: nationalityParam,
-          language: locale,
-          timeout: getRatesSearchTimeout(),
-          ...(starsParam != null && starsParam.length > 0 && { starRating: starsParam }),
-          ...(minRatingParam != null && !Number.isNaN(minRatingParam) && { minRating: minRatingParam }),
-          ...(minReviewsCountParam != null && !Number.isNaN(minReviewsCountParam) && minReviewsCountParam >= 0 && { minReviewsCount: minReviewsCountParam }),
-          ...(facilitiesParam != null && facilitiesParam.length > 0 && { facilities: facilitiesParam })
-        };
-        const res = await fetch("/api/rates/search", {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify(body),
-          signal: abortController.signal
-        });
-        const json = await res.json().catch(() => ({}));
-        if (!res.ok || json?.error) {
-          const { message } = getSearchErrorMessage(res.status, json?.error);
-          throw new Error(message);
-        }
-        setData(json as SearchResponse);
+        setPageError(null);
         searchGenerationRef.current += 1;
-        nextWaveStartRef.current = FIRST_N_HOTELS_TO_ENRICH;
+        // Streamed search: show hotels as they arrive; filters and sort apply to what is there so far
+        const json = await fetchSearchPage(
+          { ...searchRequestBody, offset: 0, limit: SEARCH_PAGE_SIZE },
+          abortController.signal,
+          (partial) => {
+            if (partial.hotels.length === 0) return;
+            setData(partial);
+            setStreaming(true);
+            setLoading(false);
+          }
+        );
+        setData(json);
         const currentParams = parseResultsSearchParams(searchParams);
         setLastSearch(currentParams);
         pushRecentSearch(currentParams);
@@ -483,14 +527,12 @@ function ResultsContent() {
           return;
         }
         // Network failure (no response) or timeout: use friendly message
-        const msg =
-          err?.message &&
-          !/Failed to fetch|Load failed|NetworkError/i.test(String(err?.message))
-            ? err.message
-            : getSearchErrorMessage(0, null).message;
-        setError(msg);
+        setError(searchFailureMessage(err));
       } finally {
-        if (!didAbort) setLoading(false);
+        if (!didAbort) {
+          setLoading(false);
+          setStreaming(false);
+        }
       }
     }
 
@@ -498,119 +540,62 @@ function ResultsContent() {
     return () => {
       abortController.abort();
     };
-  }, [hasRequiredSearchParams, mode, placeIdParam, placeNameParam, placeTypesParam, placeTypeParam, countryCodeParam, aiSearchParam, checkinParam, checkoutParam, occupancies, currency, locale, nationalityParam, latitudeParam, longitudeParam, radiusParam, centerLatParam, centerLngParam, searchRadiusParam, searchParams, retryCount]);
-
-  // Phase 4: same order as server and as displayed in Recommended (raw.hotels first, then raw.data). Used for wave 2+ batch order.
-  const allHotelIdsInRecommendedOrder = useMemo(() => {
-    const raw = data?.raw?.hotels ?? data?.raw?.data;
-    if (!raw || !Array.isArray(raw)) return [];
-    const seen = new Set<string>();
-    const ids: string[] = [];
-    const list = raw as any[];
-    for (const item of list) {
-      const id = item?.id ?? item?.hotelId ?? item?.hotel?.id;
-      if (id && typeof id === "string" && !seen.has(id)) {
-        seen.add(id);
-        ids.push(id);
-      }
+  }, [hasRequiredSearchParams, searchRequestBody, searchParams, retryCount]);
+
+  // Next page of the current search, appended in server order. Each page arrives priced and enriched.
+  const loadNextPage = useCallback(async () => {
+    const offset = nextSearchOffset(data);
+    if (offset == null || pageInFlightRef.current) return;
+    const generationAtStart = searchGenerationRef.current;
+    pageInFlightRef.current = true;
+    setPageLoading(true);
+    setPageError(null);
+    try {
+      const page = await fetchSearchPage({ ...searchRequestBody, offset, limit: SEARCH_PAGE_SIZE });
+      if (searchGenerationRef.current !== generationAtStart) return;
+      setData((prev) => (prev ? mergeSearchPages(prev, page) : prev));
+    } catch (err: any) {
+      if (searchGenerationRef.current === generationAtStart) setPageError(searchFailureMessage(err));
+    } finally {
+      pageInFlightRef.current = false;
+      setPageLoading(false);
     }
-    return ids;
-  }, [data?.raw?.hotels, data?.raw?.data]);
-
-  // Phase 4: cascaded enrichment wave 2+. Request next batch after delay or when scrolling near bottom; merge only if search unchanged.
-  useEffect(() => {
-    if (!data || batchInFlightRef.current) return;
-    const ids = allHotelIdsInRecommendedOrder;
-    const start = nextWaveStartRef.current;
-    if (start >= ids.length) return;
-    const waveNumber = Math.floor(start / WAVE2_BATCH_SIZE) + 1;
-    if (waveNumber > MAX_DETAILS_WAVES) return;
-
-    const timer = setTimeout(async () => {
-      const batchIds = ids.slice(start, start + WAVE2_BATCH_SIZE);
-      if (batchIds.length === 0) return;
-      const generationAtStart = searchGenerationRef.current;
-      batchInFlightRef.current = true;
-      try {
-        const res = await fetch("/api/hotel/details/batch", {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify({ hotelIds: batchIds, language: locale })
-        });
-        const json = await res.json();
-        if (!res.ok || json?.error) return;
-        if (searchGenerationRef.current !== generationAtStart) return;
-        const batch = json.hotelDetailsByHotelId as Record<string, { reviewCount?: number; rating?: number; starRating?: number; location?: { latitude: number; longitude: number } }>;
-        if (batch && Object.keys(batch).length > 0) {
-          setData((prev) =>
-            prev
-              ? {
-                  ...prev,
-                  hotelDetailsByHotelId: { ...prev.hotelDetailsByHotelId, ...batch }
-                }
-              : null
-          );
-        }
-        nextWaveStartRef.current = start + WAVE2_BATCH_SIZE;
-      } finally {
-        batchInFlightRef.current = false;
-      }
-    }, WAVE2_DEBOUNCE_MS);
-
-    return () => clearTimeout(timer);
-  }, [data, allHotelIdsInRecommendedOrder, locale]);
-
-  function buildHotelsFromResponse(res: SearchResponse | null): LiteAPIHotel[] {
-    if (!res) return [];
-    const raw = res.raw?.hotels ??
-      (Array.isArray(res.raw?.data)
-        ? res.raw.data.map((item: any) => item.hotel).filter(Boolean)
-        : []);
-    const detailsByHotelId = res.hotelDetailsByHotelId ?? {};
-    return (raw as any[]).map((h: any) => {
-      const id = h?.id ?? h?.hotelId;
-      const details = id ? detailsByHotelId[id] : undefined;
-      return {
-        ...h,
-        id,
-        reviewCount: h?.reviewCount ?? h?.review_count ?? details?.reviewCount ?? undefined,
-        rating: h?.rating ?? details?.rating ?? undefined,
-        starRating: h?.starRating ?? h?.star_rating ?? details?.starRating ?? undefined
-      };
-    });
-  }
+  }, [data, searchRequestBody]);
 
-  const allHotels: LiteAPIHotel[] = useMemo(
-    () => buildHotelsFromResponse(data),
-    [data?.raw?.hotels, data?.raw?.data, data?.hotelDetailsByHotelId]
-  );
+  const allHotels: SearchResultHotel[] = useMemo(() => data?.hotels ?? [], [data?.hotels]);
 
   // Phase 8: main hotel ids for dedupe; lazy-only hotels from "Show all properties" response
   const mainHotelIds = useMemo(() => new Set(allHotels.map((h) => h.id)), [allHotels]);
-  const lazyAllHotels = useMemo(() => buildHotelsFromResponse(lazyLoadResult), [lazyLoadResult]);
+  const lazyAllHotels = useMemo(() => lazyLoadResult?.hotels ?? [], [lazyLoadResult?.hotels]);
   const lazyOnlyHotels = useMemo(
     () => lazyAllHotels.filter((h) => !mainHotelIds.has(h.id)),
     [lazyAllHotels, mainHotelIds]
   );
 
-  // Phase 8: merged lookups so cards can use one source for both main and lazy segments
-  const mergedPricesByHotelId = useMemo(
-    () => ({ ...(data?.pricesByHotelId ?? {}), ...(lazyLoadResult?.pricesByHotelId ?? {}) }),
-    [data?.pricesByHotelId, lazyLoadResult?.pricesByHotelId]
-  );
-  const mergedHasRefundableByHotelId = useMemo(
-    () => ({ ...(data?.hasRefundableRateByHotelId ?? {}), ...(lazyLoadResult?.hasRefundableRateByHotelId ?? {}) }),
-    [data?.hasRefundableRateByHotelId, lazyLoadResult?.hasRefundableRateByHotelId]
+  const travelPolicy = data?.travelPolicy ?? null;
+  /** Same price data as the cards (stay total for all rooms); star cap uses the card's star rating. */
+  const policyCheckFor = useCallback(
+    (hotel: { starRating?: number }, price: SearchResultPrice | undefined) =>
+      travelPolicy
+        ? checkRateAgainstPolicy(
+            {
+              totalAmount: price?.amount,
+              currency: price?.currency,
+              nights,
+              rooms: occupancies.length,
+              starRating: hotel.starRating
+            },
+            travelPolicy
+          )
+        : undefined,
+    [travelPolicy, nights, occupancies.length]
   );
 
   // Phase 8: distance from center for sorting (and later radius filter)
   const hotelDistances = useMemo(() => {
     if (effectiveCenterLat == null || effectiveCenterLng == null) return {};
-    const mergedDetails = { ...(data?.hotelDetailsByHotelId ?? {}), ...(lazyLoadResult?.hotelDetailsByHotelId ?? {}) };
-    const allHotelsForDistance = [...allHotels, ...lazyOnlyHotels];
-    return calculateHotelDistances(allHotelsForDistance, mergedDetails, effectiveCenterLat, effectiveCenterLng);
-  }, [allHotels, lazyOnlyHotels, data?.hotelDetailsByHotelId, lazyLoadResult?.hotelDetailsByHotelId, effectiveCenterLat, effectiveCenterLng]);
+    return calculateHotelDistances([...allHotels, ...lazyOnlyHotels], effectiveCenterLat, effectiveCenterLng);
+  }, [allHotels, lazyOnlyHotels, effectiveCenterLat, effectiveCenterLng]);
 
   // Phase 6: client-side filters (refundable, price range, property name) — no new request; state in URL.
   // Phase 3.5: content restriction safety net — filter out hotels in restricted countries / geographic areas.
@@ -621,17 +606,12 @@ function ResultsContent() {
     // This is a safety net in case upstream data sources return restricted hotels.
     list = list.filter((hotel) => {
       // Check country code if available in hotel metadata
-      const hotelCountryCode =
-        (hotel as any).countryCode ??
-        (hotel as any).country_code ??
-        (hotel as any).country;
-      if (hotelCountryCode && isCountryRestricted(hotelCountryCode)) {
+      if (hotel.countryCode && isCountryRestricted(hotel.countryCode)) {
         return false;
       }
 
       // Check geographic coordinates against restricted bounding boxes
-      const details = data?.hotelDetailsByHotelId?.[hotel.id];
-      const location = details?.location;
+      const location = hotel.location;
       if (
         location?.latitude != null &&
         location?.longitude != null &&
@@ -656,21 +636,21 @@ function ResultsContent() {
       });
     }
 
-    if (refundableOnlyParam && mergedHasRefundableByHotelId) {
-      list = list.filter((h) => mergedHasRefundableByHotelId[h.id] === true);
+    if (refundableOnlyParam) {
+      list = list.filter((h) => h.hasRefundableRate);
     }
     if (minPriceParam != null && !Number.isNaN(minPriceParam)) {
-      list = list.filter((h) => (mergedPricesByHotelId[h.id]?.amount ?? 0) >= minPriceParam);
+      list = list.filter((h) => (h.price?.amount ?? 0) >= minPriceParam);
     }
     if (maxPriceParam != null && !Number.isNaN(maxPriceParam)) {
-      list = list.filter((h) => (mergedPricesByHotelId[h.id]?.amount ?? Infinity) <= maxPriceParam);
+      list = list.filter((h) => (h.price?.amount ?? Infinity) <= maxPriceParam);
     }
     if (nameFilterParam != null && nameFilterParam.trim() !== "") {
       const q = normalizeForSearch(nameFilterParam.trim());
       list = list.filter((h) => normalizeForSearch(h.name ?? "").includes(q));
     }
     return list;
-  }, [allHotels, data?.hotelDetailsByHotelId, hasCenter, searchRadiusParam, hotelDistances, mergedHasRefundableByHotelId, mergedPricesByHotelId, refundableOnlyParam, minPriceParam, maxPriceParam, nameFilterParam]);
+  }, [allHotels, hasCenter, searchRadiusParam, hotelDistances, refundableOnlyParam, minPriceParam, maxPriceParam, nameFilterParam]);
 
   const sortedHotels = useMemo(() => {
     const list = [...filteredHotels];
@@ -684,15 +664,15 @@ function ResultsContent() {
     }
     if (sortOrder === "price_asc") {
       return list.sort((a, b) => {
-        const pa = mergedPricesByHotelId[a.id]?.amount ?? Infinity;
-        const pb = mergedPricesByHotelId[b.id]?.amount ?? Infinity;
+        const pa = a.price?.amount ?? Infinity;
+        const pb = b.price?.amount ?? Infinity;
         return pa - pb;
       });
     }
     if (sortOrder === "price_desc") {
       return list.sort((a, b) => {
-        const pa = mergedPricesByHotelId[a.id]?.amount ?? 0;
-        const pb = mergedPricesByHotelId[b.id]?.amount ?? 0;
+        const pa = a.price?.amount ?? 0;
+        const pb = b.price?.amount ?? 0;
         return pb - pa;
       });
     }
@@ -700,7 +680,7 @@ function ResultsContent() {
       return list.sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0));
     }
     return list;
-  }, [filteredHotels, sortOrder, mergedPricesByHotelId, hotelDistances]);
+  }, [filteredHotels, sortOrder, hotelDistances]);
 
   // Phase 8: same filters and sort applied to lazy-only segment
   // Phase 3.5: content restriction safety net applied here too.
@@ -709,15 +689,10 @@ function ResultsContent() {
 
     // CRITICAL (Layer 4): Same geographic restriction as main list
     list = list.filter((hotel) => {
-      const hotelCountryCode =
-        (hotel as any).countryCode ??
-        (hotel as any).country_code ??
-        (hotel as any).country;
-      if (hotelCountryCode && isCountryRestricted(hotelCountryCode)) {
+      if (hotel.countryCode && isCountryRestricted(hotel.countryCode)) {
         return false;
       }
-      const details = data?.hotelDetailsByHotelId?.[hotel.id] ?? lazyLoadResult?.hotelDetailsByHotelId?.[hotel.id];
-      const location = details?.location;
+      const location = hotel.location;
       if (
         location?.latitude != null &&
         location?.longitude != null &&
@@ -741,21 +716,21 @@ function ResultsContent() {
       });
     }
 
-    if (refundableOnlyParam && mergedHasRefundableByHotelId) {
-      list = list.filter((h) => mergedHasRefundableByHotelId[h.id] === true);
+    if (refundableOnlyParam) {
+      list = list.filter((h) => h.hasRefundableRate);
     }
     if (minPriceParam != null && !Number.isNaN(minPriceParam)) {
-      list = list.filter((h) => (mergedPricesByHotelId[h.id]?.amount ?? 0) >= minPriceParam);
+      list = list.filter((h) => (h.price?.amount ?? 0) >= minPriceParam);
     }
     if (maxPriceParam != null && !Number.isNaN(maxPriceParam)) {
-      list = list.filter((h) => (mergedPricesByHotelId[h.id]?.amount ?? Infinity) <= maxPriceParam);
+      list = list.filter((h) => (h.price?.amount ?? Infinity) <= maxPriceParam);
     }
     if (nameFilterParam != null && nameFilterParam.trim() !== "") {
       const q = normalizeForSearch(nameFilterParam.trim());
       list = list.filter((h) => normalizeForSearch(h.name ?? "").includes(q));
     }
     return list;
-  }, [lazyOnlyHotels, data?.hotelDetailsByHotelId, lazyLoadResult?.hotelDetailsByHotelId, hasCenter, searchRadiusParam, hotelDistances, mergedHasRefundableByHotelId, mergedPricesByHotelId, refundableOnlyParam, minPriceParam, maxPriceParam, nameFilterParam]);
+  }, [lazyOnlyHotels, hasCenter, searchRadiusParam, hotelDistances, refundableOnlyParam, minPriceParam, maxPriceParam, nameFilterParam]);
 
   const sortedLazyHotels = useMemo(() => {
     const list = [...filteredLazyHotels];
@@ -769,15 +744,15 @@ function ResultsContent() {
     }
     if (sortOrder === "price_asc") {
       return list.sort((a, b) => {
-        const pa = mergedPricesByHotelId[a.id]?.amount ?? Infinity;
-        const pb = mergedPricesByHotelId[b.id]?.amount ?? Infinity;
+        const pa = a.price?.amount ?? Infinity;
+        const pb = b.price?.amount ?? Infinity;
         return pa - pb;
       });
     }
     if (sortOrder === "price_desc") {
       return list.sort((a, b) => {
-        const pa = mergedPricesByHotelId[a.id]?.amount ?? 0;
-        const pb = mergedPricesByHotelId[b.id]?.amount ?? 0;
+        const pa = a.price?.amount ?? 0;
+        const pb = b.price?.amount ?? 0;
         return pb - pa;
       });
     }
@@ -785,20 +760,46 @@ function ResultsContent() {
       return list.sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0));
     }
     return list;
-  }, [filteredLazyHotels, sortOrder, mergedPricesByHotelId, hotelDistances]);
+  }, [filteredLazyHotels, sortOrder, hotelDistances]);
 
   const visibleHotels = sortedHotels.slice(0, visibleCount);
   const hasMore = visibleCount < sortedHotels.length;
+  const hasMorePages = nextSearchOffset(data) != null;
+  const moreResultsComing = hasMorePages || streaming;
+
+  // Price, rating and distance order only hold across every hotel, so load the remaining pages in the
+  // background for those sorts (the list re-sorts as they arrive). Recommended is the server's own page order.
+  const sortNeedsAllPages = sortOrder !== "recommended";
+  useEffect(() => {
+    if (sortNeedsAllPages && hasMorePages && !loading && !pageLoading && !pageError) loadNextPage();
+  }, [sortNeedsAllPages, hasMorePages, loading, pageLoading, pageError, loadNextPage]);
+
+  // Infinite scroll: show the next batch of loaded hotels, then fetch the next page. Filters are per hotel,
+  // so a short filtered list keeps the sentinel in view and pages keep loading until it fills or runs out.
+  useEffect(() => {
+    const el = loadMoreRef.current;
+    if (!el || (!hasMore && !hasMorePages) || pageError) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (!entries.some((e) => e.isIntersecting)) return;
+        if (hasMore) setVisibleCount((c) => c + BATCH_SIZE);
+        else loadNextPage();
+      },
+      { rootMargin: LOAD_MORE_ROOT_MARGIN }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [hasMore, hasMorePages, pageError, loadNextPage, visibleCount, sortedHotels.length]);
 
   const priceBounds = useMemo(() => {
-    const amounts = mergedPricesByHotelId
-      ? Object.values(mergedPricesByHotelId).map((p) => p.amount).filter((n) => typeof n === "number" && !Number.isNaN(n))
-      : [];
+    const amounts = [...allHotels, ...lazyOnlyHotels]
+      .map((h) => h.price?.amount)
+      .filter((n): n is number => typeof n === "number" && !Number.isNaN(n));
     if (amounts.length === 0) return { min: 0, max: 10000 };
     const min = Math.min(...amounts);
     const max = Math.max(...amounts);
     return { min: Math.floor(min), max: Math.ceil(max) || Math.ceil(min) + 1 };
-  }, [mergedPricesByHotelId]);
+  }, [allHotels, lazyOnlyHotels]);
 
   const locationLabel =
     mode === "place" ? (placeNameParam || "this location") : "your search";
@@ -810,7 +811,8 @@ function ResultsContent() {
     (minReviewsCountParam != null && !Number.isNaN(minReviewsCountParam) && minReviewsCountParam >= 0) ||
     (facilitiesParam?.length ?? 0) > 0;
 
-  const fetchShowAllProperties = async () => {
+  /** First page of the unfiltered search, or (offset > 0) the next one, appended. */
+  const fetchShowAllProperties = async (offset = 0) => {
     if (!hasRequiredSearchParams || !data || lazyLoadLoading) return;
     setLazyLoadLoading(true);
     setLazyLoadError(null);
@@ -838,28 +840,15 @@ function ResultsContent() {
           latitude: latitudeParam,
           longitude: longitudeParam,
           radius: radiusParam
-        })
+        }),
+        offset,
+        limit: SEARCH_PAGE_SIZE
       };
-      const res = await fetch("/api/rates/search", {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify(body),
-        signal: abortController.signal
-      });
-      const json = await res.json().catch(() => ({}));
-      if (!res.ok || json?.error) {
-        const { message } = getSearchErrorMessage(res.status, json?.error);
-        throw new Error(message);
-      }
-      setLazyLoadResult(json as SearchResponse);
+      const json = await fetchSearchPage(body, abortController.signal);
+      setLazyLoadResult((prev) => (offset > 0 && prev ? mergeSearchPages(prev, json) : json));
     } catch (err: any) {
       if (err?.name !== "AbortError") {
-        const msg =
-          err?.message && !/Failed to fetch|Load failed|NetworkError/i.test(String(err?.message))
-            ? err.message
-            : getSearchErrorMessage(0, null).message;
-        setLazyLoadError(msg);
+        setLazyLoadError(searchFailureMessage(err));
       }
     } finally {
       setLazyLoadLoading(false);
@@ -938,6 +927,7 @@ function ResultsContent() {
       minRating: queryParams.minRating,
       countryCode: hasPlace ? (selectedCountryCode ?? queryParams.countryCode) : undefined,
       placeType: hasPlace ? (selectedPlaceType ?? queryParams.placeType) as NormalizedPlaceType | undefined : undefined,
+      flexibleDates: editFlexibleDates ?? undefined,
     });
     const preloaded = backgroundSearch.getResultForParams(params);
     if (preloaded != null && typeof preloaded === "object") {
@@ -1101,15 +1091,49 @@ function ResultsContent() {
           {lazyLoadResult
             ? `${sortedHotels.length + sortedLazyHotels.length} hotel${sortedHotels.length + sortedLazyHotels.length !== 1 ? "s" : ""} found`
             : sortedHotels.length === allHotels.length
-              ? `${allHotels.length} hotel${allHotels.length !== 1 ? "s" : ""} found`
-              : `${sortedHotels.length} of ${allHotels.length} hotel${allHotels.length !== 1 ? "s" : ""} found`}
+              ? `${allHotels.length}${moreResultsComing ? "+" : ""} hotel${allHotels.length !== 1 ? "s" : ""} found`
+              : `${sortedHotels.length} of ${allHotels.length}${moreResultsComing ? "+" : ""} hotel${allHotels.length !== 1 ? "s" : ""} found`}
+          {moreResultsComing && sortNeedsAllPages ? " · sorting as more load" : ""}
         </p>
       )}
 
+      {flexibleDatesParam && hasRequiredSearchParams && !error && (flexible.loading || flexiblePrices.length > 0) && (
+        <section className="px-4 pb-4 space-y-2" aria-label="Prices for flexible dates">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-sm font-semibold text-[var(--dark-text)]">
+              {FLEXIBLE_DATES_LABELS[flexibleDatesParam]} · cheapest stays
+            </h2>
+            {flexiblePrices.length > 0 && (
+              <button
+                type="button"
+                onClick={() => {
+                  setSearchModalInitialView("when");
+                  setSearchModalOpen(true);
+                }}
+                className="text-xs font-medium text-[var(--primary)] hover:underline"
+              >
+                Price calendar
+              </button>
+            )}
+          </div>
+          <FlexibleDatesStrip
+            prices={flexiblePrices}
+            checkin={checkinParam}
+            checkout={checkoutParam}
+            onSelect={handleFlexibleDateSelect}
+            loading={flexible.loading}
+            locale={locale}
+          />
+        </section>
+      )}
+
       {searchModalOpen && (
         <SearchModal
-          initialView="overview"
-          onClose={() => setSearchModalOpen(false)}
+          initialView={searchModalInitialView}
+          onClose={() => {
+            setSearchModalOpen(false);
+            setSearchModalInitialView("overview");
+          }}
           onSearch={doSearchFromModal}
           placeId={selectedPlaceId}
           placeLabel={selectedPlaceName}
@@ -1123,6 +1147,9 @@ function ResultsContent() {
             setGlobalSearchCheckin(c);
             setGlobalSearchCheckout(o);
           }}
+          flexibleDates={editFlexibleDates}
+          onFlexibleDatesChange={setEditFlexibleDates}
+          datePrices={calendarPrices}
           occupancies={editOccupancies}
           onOccupanciesChange={setEditOccupancies}
           locale={locale}
@@ -1430,9 +1457,6 @@ function ResultsContent() {
           onClose={() => setMapViewOpen(false)}
           onOpenFilters={() => setFilterPanelOpen(true)}
           hotels={sortedHotels}
-          hotelDetailsByHotelId={data?.hotelDetailsByHotelId ?? {}}
-          pricesByHotelId={mergedPricesByHotelId}
-          hasRefundableByHotelId={mergedHasRefundableByHotelId ?? {}}
           currency={currency}
           nights={nights}
           occupanciesLength={occupancies.length}
@@ -1501,10 +1525,9 @@ function ResultsContent() {
       {!loading && !error && (allHotels.length > 0 || (lazyLoadResult && sortedLazyHotels.length > 0)) && (
         <section className="space-y-4">
           {visibleHotels.map((hotel) => {
-            const price = mergedPricesByHotelId[hotel.id];
+            const price = hotel.price;
             const distance = hotelDistances[hotel.id];
             const hrefParamsStr = serializeResultsQuery(queryParams).toString();
-            const hasAnyRefundable = mergedHasRefundableByHotelId[hotel.id];
 
             return (
               <HotelCard
@@ -1513,23 +1536,42 @@ function ResultsContent() {
                 price={price}
                 nights={nights}
                 occupanciesLength={occupancies.length}
-                hasRefundable={hasAnyRefundable}
+                hasRefundable={hotel.hasRefundableRate}
                 href={`/hotel/${hotel.id}?${hrefParamsStr}`}
                 isFavorite={isFavorite(hotel.id)}
                 onToggleFavorite={() => toggleFavorite(hotel.id)}
                 distance={distance}
+                policyCheck={policyCheckFor(hotel, price)}
               />
             );
           })}
-          {hasMore && (
-            <div className="pt-2 pb-4 flex justify-center">
-              <button
-                type="button"
-                onClick={() => setVisibleCount((c) => c + BATCH_SIZE)}
-                className="rounded-full border border-[var(--sky-blue)] bg-white px-6 py-2.5 text-sm font-medium text-[var(--dark-text)] hover:bg-[var(--light-bg)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] transition-colors duration-150"
-              >
-                Load more
-              </button>
+          {streaming && !hasMore && (
+            <p className="pt-2 pb-4 text-sm text-center text-[var(--muted-foreground)]">Finding more hotels…</p>
+          )}
+          {(hasMore || hasMorePages) && (
+            <div ref={loadMoreRef} className="pt-2 pb-4 flex flex-col items-center gap-3">
+              {pageError ? (
+                <>
+                  <p className="text-sm text-[var(--dark-text)] text-center">{pageError}</p>
+                  <button
+                    type="button"
+                    onClick={() => { setPageError(null); loadNextPage(); }}
+                    className="rounded-full border border-[var(--primary)] bg-[var(--primary)] text-white text-sm font-medium px-5 py-2 hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                  >
+                    Try again
+                  </button>
+                </>
+              ) : pageLoading && !hasMore ? (
+                <p className="text-sm text-[var(--muted-foreground)]">Loading more hotels…</p>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => (hasMore ? setVisibleCount((c) => c + BATCH_SIZE) : loadNextPage())}
+                  className="rounded-full border border-[var(--sky-blue)] bg-white px-6 py-2.5 text-sm font-medium text-[var(--dark-text)] hover:bg-[var(--light-bg)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] transition-colors duration-150"
+                >
+                  Load more
+                </button>
+              )}
             </div>
           )}
 
@@ -1538,7 +1580,7 @@ function ResultsContent() {
             <div className="pt-4 pb-4 flex flex-col items-center gap-2">
               <button
                 type="button"
-                onClick={fetchShowAllProperties}
+                onClick={() => fetchShowAllProperties()}
                 className="rounded-full border border-[var(--primary)] bg-[var(--primary)]/10 px-6 py-2.5 text-sm font-medium text-[var(--primary)] hover:bg-[var(--primary)]/20 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] transition-colors duration-150"
               >
                 Show all properties
@@ -1558,7 +1600,7 @@ function ResultsContent() {
               <p className="text-sm text-[var(--dark-text)]">{lazyLoadError}</p>
               <button
                 type="button"
-                onClick={() => { setLazyLoadError(null); fetchShowAllProperties(); }}
+                onClick={() => { setLazyLoadError(null); fetchShowAllProperties(nextSearchOffset(lazyLoadResult) ?? 0); }}
                 className="rounded-full border border-[var(--primary)] bg-[var(--primary)] text-white text-sm font-medium px-5 py-2 hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
               >
                 Try again
@@ -1575,10 +1617,9 @@ function ResultsContent() {
                 </h2>
               </div>
               {sortedLazyHotels.map((hotel) => {
-                const price = mergedPricesByHotelId[hotel.id];
+                const price = hotel.price;
                 const distance = hotelDistances[hotel.id];
                 const hrefParamsStr = serializeResultsQuery(queryParams).toString();
-                const hasAnyRefundable = mergedHasRefundableByHotelId[hotel.id];
 
                 return (
                   <HotelCard
@@ -1587,14 +1628,26 @@ function ResultsContent() {
                     price={price}
                     nights={nights}
                     occupanciesLength={occupancies.length}
-                    hasRefundable={hasAnyRefundable}
+                    hasRefundable={hotel.hasRefundableRate}
                     href={`/hotel/${hotel.id}?${hrefParamsStr}`}
                     isFavorite={isFavorite(hotel.id)}
                     onToggleFavorite={() => toggleFavorite(hotel.id)}
                     distance={distance}
+                    policyCheck={policyCheckFor(hotel, price)}
                   />
                 );
               })}
+              {nextSearchOffset(lazyLoadResult) != null && !lazyLoadLoading && !lazyLoadError && (
+                <div className="pt-2 pb-4 flex justify-center">
+                  <button
+                    type="button"
+                    onClick={() => fetchShowAllProperties(nextSearchOffset(lazyLoadResult) ?? 0)}
+                    className="rounded-full border border-[var(--sky-blue)] bg-white px-6 py-2.5 text-sm font-medium text-[var(--dark-text)] hover:bg-[var(--light-bg)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] transition-colors duration-150"
+                  >
+                    Load more options
+                  </button>
+                </div>
+              )}
             </>
           )}
         </section>
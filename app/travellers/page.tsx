@@ -0,0 +1,310 @@
+"use client";
+
+import type { SavedTraveller, TravellerRelation } from "@/travellers/types";
+import { useAuth } from "@/context/AuthContext";
+import { BottomNav } from "@/components/BottomNav";
+import { ArrowLeftIcon } from "@/components/Icons";
+import { useSavedTravellers } from "@/hooks/useSavedTravellers";
+import { checkGuestName, getAgeOn } from "@/lib/guests";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { FormEvent, useState } from "react";
+
+const RELATION_LABELS: Record<TravellerRelation, string> = {
+  self: "Me",
+  spouse: "Spouse / partner",
+  child: "Child",
+  other: "Other"
+};
+
+interface TravellerForm {
+  relation: TravellerRelation;
+  firstName: string;
+  lastName: string;
+  birthDate: string;
+  email: string;
+  phone: string;
+}
+
+const EMPTY_FORM: TravellerForm = { relation: "self", firstName: "", lastName: "", birthDate: "", email: "", phone: "" };
+
+const INPUT_CLASS =
+  "w-full rounded-xl border border-[var(--sky-blue)] bg-white px-3 py-2 text-sm text-[var(--dark-text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]";
+
+function todayYYYYMMDD(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function toForm(traveller: SavedTraveller): TravellerForm {
+  return {
+    relation: traveller.relation,
+    firstName: traveller.firstName,
+    lastName: traveller.lastName,
+    birthDate: traveller.birthDate ?? "",
+    email: traveller.email ?? "",
+    phone: traveller.phone ?? ""
+  };
+}
+
+function TravellerEditor({
+  initial,
+  submitLabel,
+  onSubmit,
+  onCancel
+}: {
+  initial: TravellerForm;
+  submitLabel: string;
+  onSubmit: (form: TravellerForm) => Promise<string | null>;
+  onCancel?: () => void;
+}) {
+  const [form, setForm] = useState<TravellerForm>(initial);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const set = (patch: Partial<TravellerForm>) => setForm((prev) => ({ ...prev, ...patch }));
+  const nameHints = [form.firstName, form.lastName]
+    .map((name) => (name.trim() ? checkGuestName(name) : null))
+    .filter((check) => check && !check.valid);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(await onSubmit(form));
+    setBusy(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-[var(--dark-text)]">Who is this?</label>
+        <select
+          value={form.relation}
+          onChange={(e) => set({ relation: e.target.value as TravellerRelation })}
+          className={INPUT_CLASS}
+        >
+          {(Object.keys(RELATION_LABELS) as TravellerRelation[]).map((relation) => (
+            <option key={relation} value={relation}>
+              {RELATION_LABELS[relation]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-[var(--dark-text)]">First name</label>
+          <input type="text" value={form.firstName} onChange={(e) => set({ firstName: e.target.value })} className={INPUT_CLASS} />
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-[var(--dark-text)]">Last name</label>
+          <input type="text" value={form.lastName} onChange={(e) => set({ lastName: e.target.value })} className={INPUT_CLASS} />
+        </div>
+      </div>
+      {nameHints.map((hint, i) => (
+        <p key={i} className="text-[11px] text-amber-800">
+          {hint!.message}.{hint!.suggestion ? ` Try “${hint!.suggestion}”.` : ""}
+        </p>
+      ))}
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-[var(--dark-text)]">
+          Date of birth{" "}
+          <span className="text-[var(--muted-foreground)]">
+            {form.relation === "child" ? "(fills in the child's age when you search)" : "(optional)"}
+          </span>
+        </label>
+        <input
+          type="date"
+          value={form.birthDate}
+          max={todayYYYYMMDD()}
+          onChange={(e) => set({ birthDate: e.target.value })}
+          className={INPUT_CLASS}
+        />
+      </div>
+      {form.relation !== "child" && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-[var(--dark-text)]">
+              Email <span className="text-[var(--muted-foreground)]">(optional)</span>
+            </label>
+            <input type="email" value={form.email} onChange={(e) => set({ email: e.target.value })} className={INPUT_CLASS} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-[var(--dark-text)]">
+              Phone <span className="text-[var(--muted-foreground)]">(optional)</span>
+            </label>
+            <input type="tel" value={form.phone} onChange={(e) => set({ phone: e.target.value })} className={INPUT_CLASS} />
+          </div>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={busy}
+          className="flex-1 rounded-full bg-[var(--primary)] text-white text-xs font-semibold py-2 hover:bg-[var(--primary-hover)] disabled:opacity-50 transition"
+        >
+          {busy ? "Saving…" : submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={onCancel}
+            className="flex-1 rounded-full border border-[var(--sky-blue)] bg-white text-[var(--dark-text)] text-xs font-semibold py-2 hover:bg-[var(--light-bg)] disabled:opacity-50 transition"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export default function TravellersPage() {
+  const router = useRouter();
+  const { isReady, isLoggedIn } = useAuth();
+  const { travellers, loading, error, reload } = useSavedTravellers();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+
+  const save = async (form: TravellerForm, id?: string): Promise<string | null> => {
+    try {
+      const res = await fetch(id ? `/api/travellers/${encodeURIComponent(id)}` : "/api/travellers", {
+        method: id ? "PUT" : "POST",
+        headers: { "content-type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          ...form,
+          birthDate: form.birthDate || undefined,
+          email: form.relation === "child" ? undefined : form.email || undefined,
+          phone: form.relation === "child" ? undefined : form.phone || undefined
+        })
+      });
+      const json = await res.json();
+      if (!res.ok || json?.error) return json?.error?.message ?? "Could not save this traveller";
+      await reload();
+      setEditingId(null);
+      setAdding(false);
+      return null;
+    } catch {
+      return "Could not save this traveller";
+    }
+  };
+
+  const remove = async (id: string) => {
+    await fetch(`/api/travellers/${encodeURIComponent(id)}`, { method: "DELETE", credentials: "include" }).catch(() => null);
+    await reload();
+  };
+
+  return (
+    <main className="min-h-screen bg-[var(--light-bg)] text-[var(--dark-text)] pb-24">
+      <header className="sticky top-0 z-10 flex items-center gap-3 px-4 py-3 bg-white/95 backdrop-blur border-b border-[var(--sky-blue)] pt-[max(0.75rem,env(safe-area-inset-top))]">
+        <Link
+          href="/profile"
+          className="h-9 w-9 shrink-0 rounded-full border border-[var(--sky-blue)] bg-[var(--light-bg)] flex items-center justify-center text-[var(--dark-text)] hover:bg-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] transition-colors duration-[var(--expand-duration)]"
+          aria-label="Back to profile"
+        >
+          <ArrowLeftIcon className="w-5 h-5" />
+        </Link>
+        <h1 className="text-lg font-bold text-[var(--dark-text)] truncate">Saved travellers</h1>
+      </header>
+
+      <div className="max-w-md mx-auto px-4 py-6 space-y-6">
+        {isReady && !isLoggedIn && (
+          <section className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 shadow-sm space-y-4">
+            <p className="text-sm text-[var(--muted-foreground)]">
+              Log in to save the people you travel with and fill in checkout in one tap.
+            </p>
+            <Link
+              href="/login"
+              className="inline-flex items-center justify-center w-full rounded-xl bg-[var(--primary)] hover:bg-[var(--primary-hover)] text-white font-semibold py-3 px-4 transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:ring-offset-2"
+            >
+              Log in
+            </Link>
+          </section>
+        )}
+
+        {isLoggedIn && loading && (
+          <div className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 text-sm text-[var(--muted-foreground)] animate-pulse shadow-sm">
+            Loading saved travellers…
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-xl border border-red-500/40 bg-red-50 px-3 py-3 text-xs text-red-700">{error}</div>
+        )}
+
+        {isLoggedIn && !loading && (
+          <>
+            {travellers.length === 0 && !adding && (
+              <section className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 shadow-sm text-sm text-[var(--muted-foreground)]">
+                No saved travellers yet. Add yourself and the people you travel with; checkout fills in their details
+                and searches fill in your children&apos;s ages.
+              </section>
+            )}
+
+            {travellers.length > 0 && (
+              <ul className="space-y-3">
+                {travellers.map((traveller) => {
+                  const age = traveller.birthDate ? getAgeOn(traveller.birthDate, todayYYYYMMDD()) : null;
+                  return (
+                    <li key={traveller.id} className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 shadow-sm space-y-2">
+                      {editingId === traveller.id ? (
+                        <TravellerEditor
+                          initial={toForm(traveller)}
+                          submitLabel="Save changes"
+                          onSubmit={(form) => save(form, traveller.id)}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      ) : (
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="min-w-0">
+                            <p className="text-sm font-semibold text-[var(--dark-text)] truncate">
+                              {traveller.firstName} {traveller.lastName}
+                            </p>
+                            <p className="text-xs text-[var(--muted-foreground)] mt-0.5">
+                              {RELATION_LABELS[traveller.relation]}
+                              {age != null ? ` · ${age} ${age === 1 ? "year" : "years"} old` : ""}
+                              {traveller.email ? ` · ${traveller.email}` : ""}
+                            </p>
+                          </div>
+                          <div className="flex shrink-0 gap-3 text-xs font-medium">
+                            <button type="button" onClick={() => setEditingId(traveller.id)} className="text-[var(--primary)] hover:underline">
+                              Edit
+                            </button>
+                            <button type="button" onClick={() => remove(traveller.id)} className="text-red-600 hover:underline">
+                              Remove
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            {adding ? (
+              <section className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 shadow-sm">
+                <TravellerEditor
+                  initial={{ ...EMPTY_FORM, relation: travellers.some((t) => t.relation === "self") ? "spouse" : "self" }}
+                  submitLabel="Save traveller"
+                  onSubmit={(form) => save(form)}
+                  onCancel={() => setAdding(false)}
+                />
+              </section>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setAdding(true)}
+                className="w-full py-3 rounded-xl border-2 border-dashed border-[var(--muted)] text-[var(--muted-foreground)] text-sm font-medium hover:border-[var(--sky-blue)] hover:text-[var(--dark-text)] transition-colors"
+              >
+                + Add a traveller
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      <BottomNav onSearchClick={() => router.push("/")} />
+    </main>
+  );
+}
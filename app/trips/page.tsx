@@ -0,0 +1,338 @@
+"use client";
+
+import type { TripSummary } from "@/bookings/types";
+import type { RefundEstimate } from "@/lib/cancellation";
+import { useAuth } from "@/context/AuthContext";
+import { BottomNav } from "@/components/BottomNav";
+import { ArrowLeftIcon, CalendarIcon } from "@/components/Icons";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+interface TripDetails {
+  trip: TripSummary;
+  live: { status?: string; cancellationPolicies?: { refundableTag?: string } } | null;
+  refundEstimate: RefundEstimate | null;
+}
+
+function formatStayDate(dateStr: string | undefined): string {
+  if (!dateStr) return "—";
+  const d = new Date(dateStr);
+  if (Number.isNaN(d.getTime())) return dateStr;
+  return d.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${amount.toFixed(2)}`;
+}
+
+function todayYYYYMMDD(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function TripCard({
+  trip,
+  onCancelled
+}: {
+  trip: TripSummary;
+  onCancelled: (trip: TripSummary) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [details, setDetails] = useState<TripDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+
+  const isCancelled = trip.status === "cancelled";
+
+  const loadDetails = useCallback(async () => {
+    if (!trip.bookingId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/trips/${encodeURIComponent(trip.bookingId)}`, {
+        credentials: "include"
+      });
+      const json = await res.json();
+      if (!res.ok || json?.error) {
+        throw new Error(json?.error?.message ?? "Could not load booking status");
+      }
+      setDetails(json.data as TripDetails);
+    } catch (err: any) {
+      setError(err.message ?? "Could not load booking status");
+    } finally {
+      setLoading(false);
+    }
+  }, [trip.bookingId]);
+
+  const handleCancel = async () => {
+    if (!trip.bookingId) return;
+    setCancelling(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/trips/${encodeURIComponent(trip.bookingId)}/cancel`, {
+        method: "POST",
+        credentials: "include"
+      });
+      const json = await res.json();
+      if (!res.ok || json?.error) {
+        throw new Error(json?.error?.message ?? "Could not cancel this booking");
+      }
+      setConfirmingCancel(false);
+      onCancelled(json.data.trip as TripSummary);
+      await loadDetails();
+    } catch (err: any) {
+      setError(err.message ?? "Could not cancel this booking");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const refund = details?.refundEstimate;
+
+  return (
+    <li className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 shadow-sm space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-[var(--dark-text)] truncate">
+            {trip.hotelName ?? "Hotel booking"}
+          </p>
+          <p className="text-xs text-[var(--muted-foreground)] mt-0.5 flex items-center gap-1">
+            <CalendarIcon className="w-3.5 h-3.5" />
+            {formatStayDate(trip.checkin)} – {formatStayDate(trip.checkout)}
+          </p>
+        </div>
+        <span
+          className={`shrink-0 rounded-full px-2.5 py-0.5 text-[11px] font-semibold border ${
+            isCancelled
+              ? "border-red-500/40 bg-red-50 text-red-700"
+              : "border-[var(--primary)]/40 bg-[var(--primary)]/10 text-[var(--primary)]"
+          }`}
+        >
+          {isCancelled ? "Cancelled" : "Confirmed"}
+        </span>
+      </div>
+
+      <div className="text-xs text-[var(--muted-foreground)] space-y-0.5">
+        {trip.bookingId && (
+          <p>
+            Confirmation # <span className="font-mono text-[var(--dark-text)]">{trip.bookingId}</span>
+          </p>
+        )}
+        {trip.hotelConfirmationCode && (
+          <p>
+            Hotel reference <span className="font-mono text-[var(--dark-text)]">{trip.hotelConfirmationCode}</span>
+          </p>
+        )}
+        {trip.price && (
+          <p>
+            Total paid <span className="font-medium text-[var(--dark-text)]">{formatMoney(trip.price.amount, trip.price.currency)}</span>
+          </p>
+        )}
+      </div>
+
+      {!isCancelled && trip.checkin && trip.checkout && (
+        <a
+          href={`/api/vouchers/${encodeURIComponent(trip.id)}?format=ics`}
+          className="inline-flex items-center gap-1 text-xs font-medium text-[var(--primary)] hover:underline mr-4"
+        >
+          <CalendarIcon className="w-3.5 h-3.5" />
+          Add to calendar
+        </a>
+      )}
+
+      {trip.bookingId && (
+        <button
+          type="button"
+          onClick={() => {
+            const next = !expanded;
+            setExpanded(next);
+            if (next && !details) loadDetails();
+          }}
+          className="text-xs font-medium text-[var(--primary)] hover:underline"
+        >
+          {expanded ? "Hide details" : "Manage booking"}
+        </button>
+      )}
+
+      {expanded && (
+        <div className="rounded-xl border border-[var(--sky-blue)] bg-[var(--light-bg)] p-3 text-xs space-y-2">
+          {loading && <p className="text-[var(--muted-foreground)] animate-pulse">Checking status with the hotel…</p>}
+          {!loading && details?.live?.status && (
+            <p>
+              <span className="text-[var(--muted-foreground)]">Live status</span>{" "}
+              <span className="font-medium text-[var(--dark-text)]">{details.live.status}</span>
+            </p>
+          )}
+          {!loading && !isCancelled && refund && (
+            <p className="text-[var(--dark-text)]">
+              {refund.isFullRefund
+                ? `Free cancellation right now — you would be refunded ${formatMoney(refund.refundAmount, refund.currency)}.`
+                : refund.refundAmount > 0
+                  ? `Cancelling now costs ${formatMoney(refund.penaltyAmount, refund.currency)}; you would be refunded ${formatMoney(refund.refundAmount, refund.currency)}.`
+                  : "This booking is no longer refundable. Cancelling now refunds nothing."}
+              {refund.isFullRefund && refund.nextChangeAt && (
+                <span className="block text-[var(--muted-foreground)] mt-0.5">
+                  Free cancellation ends {new Date(refund.nextChangeAt).toLocaleString()}.
+                </span>
+              )}
+            </p>
+          )}
+          {!loading && !isCancelled && details && !confirmingCancel && (
+            <button
+              type="button"
+              onClick={() => setConfirmingCancel(true)}
+              className="w-full rounded-xl border border-red-500/40 bg-white py-2 text-xs font-semibold text-red-700 hover:bg-red-50 transition"
+            >
+              Cancel booking
+            </button>
+          )}
+          {confirmingCancel && (
+            <div className="rounded-lg border border-red-500/40 bg-red-50 p-2.5 space-y-2">
+              <p className="text-red-700 font-medium">
+                {refund
+                  ? `Cancel this booking? You will be refunded ${formatMoney(refund.refundAmount, refund.currency)}.`
+                  : "Cancel this booking? The hotel's cancellation policy applies."}{" "}
+                This cannot be undone.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  disabled={cancelling}
+                  onClick={handleCancel}
+                  className="flex-1 rounded-full bg-red-600 text-white text-xs font-semibold py-2 disabled:opacity-50"
+                >
+                  {cancelling ? "Cancelling…" : "Yes, cancel"}
+                </button>
+                <button
+                  type="button"
+                  disabled={cancelling}
+                  onClick={() => setConfirmingCancel(false)}
+                  className="flex-1 rounded-full border border-[var(--sky-blue)] bg-white text-[var(--dark-text)] text-xs font-semibold py-2"
+                >
+                  Keep booking
+                </button>
+              </div>
+            </div>
+          )}
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function TripsPage() {
+  const router = useRouter();
+  const { isReady, isLoggedIn } = useAuth();
+  const [trips, setTrips] = useState<TripSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isReady || !isLoggedIn) return;
+    let cancelled = false;
+    fetch("/api/trips", { credentials: "include" })
+      .then((res) => res.json().then((json) => ({ ok: res.ok, json })))
+      .then(({ ok, json }) => {
+        if (cancelled) return;
+        if (!ok || json?.error) {
+          setError(json?.error?.message ?? "Could not load your trips");
+          return;
+        }
+        setTrips(json.data as TripSummary[]);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Could not load your trips");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isReady, isLoggedIn]);
+
+  const { upcoming, past } = useMemo(() => {
+    const today = todayYYYYMMDD();
+    const list = trips ?? [];
+    return {
+      upcoming: list.filter((t) => t.status !== "cancelled" && (t.checkout ?? "") >= today),
+      past: list.filter((t) => t.status === "cancelled" || (t.checkout ?? "") < today)
+    };
+  }, [trips]);
+
+  const handleCancelled = useCallback((updated: TripSummary) => {
+    setTrips((prev) => (prev ?? []).map((t) => (t.id === updated.id ? updated : t)));
+  }, []);
+
+  return (
+    <main className="min-h-screen bg-[var(--light-bg)] text-[var(--dark-text)] pb-24">
+      <header className="sticky top-0 z-10 flex items-center gap-3 px-4 py-3 bg-white/95 backdrop-blur border-b border-[var(--sky-blue)] pt-[max(0.75rem,env(safe-area-inset-top))]">
+        <Link
+          href="/"
+          className="h-9 w-9 shrink-0 rounded-full border border-[var(--sky-blue)] bg-[var(--light-bg)] flex items-center justify-center text-[var(--dark-text)] hover:bg-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)] transition-colors duration-[var(--expand-duration)]"
+          aria-label="Back to home"
+        >
+          <ArrowLeftIcon className="w-5 h-5" />
+        </Link>
+        <h1 className="text-lg font-bold text-[var(--dark-text)] truncate">My trips</h1>
+      </header>
+
+      <div className="max-w-md mx-auto px-4 py-6 space-y-6">
+        {isReady && !isLoggedIn && (
+          <section className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 shadow-sm space-y-4">
+            <p className="text-sm text-[var(--muted-foreground)]">
+              Log in to see your upcoming and past reservations.
+            </p>
+            <Link
+              href="/login"
+              className="inline-flex items-center justify-center w-full rounded-xl bg-[var(--primary)] hover:bg-[var(--primary-hover)] text-white font-semibold py-3 px-4 transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:ring-offset-2"
+            >
+              Log in
+            </Link>
+          </section>
+        )}
+
+        {isLoggedIn && !trips && !error && (
+          <div className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 text-sm text-[var(--muted-foreground)] animate-pulse shadow-sm">
+            Loading your trips…
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-xl border border-red-500/40 bg-red-50 px-3 py-3 text-xs text-red-700">
+            {error}
+          </div>
+        )}
+
+        {trips && trips.length === 0 && (
+          <section className="rounded-2xl border border-[var(--sky-blue)] bg-white p-4 shadow-sm text-sm text-[var(--muted-foreground)]">
+            No trips yet. Your bookings will show up here once confirmed.
+          </section>
+        )}
+
+        {upcoming.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-semibold text-[var(--dark-text)]">Upcoming</h2>
+            <ul className="space-y-3">
+              {upcoming.map((trip) => (
+                <TripCard key={trip.id} trip={trip} onCancelled={handleCancelled} />
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {past.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-semibold text-[var(--dark-text)]">Past and cancelled</h2>
+            <ul className="space-y-3">
+              {past.map((trip) => (
+                <TripCard key={trip.id} trip={trip} onCancelled={handleCancelled} />
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+
+      <BottomNav onSearchClick={() => router.push("/")} />
+    </main>
+  );
+}
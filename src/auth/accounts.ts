@@ -0,0 +1,111 @@
+import { consumeLoginCode } from "./login-codes";
+import { MIN_PASSWORD_LENGTH, hashPassword, verifyAgainstDummyHash, verifyPassword } from "./password";
+import { buildUserProfile } from "./server";
+import { createSession, revokeAllSessionsForUser } from "./sessions";
+import type { IdentityBlob, UserRecord } from "./types";
+import { createUser, getUserByEmail, isValidEmail, normalizeEmail, updateUser } from "./users";
+
+export type AuthFailureCode =
+  | "INVALID_EMAIL"
+  | "WEAK_PASSWORD"
+  | "EMAIL_TAKEN"
+  | "INVALID_CREDENTIALS"
+  | "INVALID_CODE";
+
+export type AuthResult =
+  | { ok: true; user: UserRecord }
+  | { ok: false; code: AuthFailureCode; message: string };
+
+const INVALID_CREDENTIALS: AuthResult = {
+  ok: false,
+  code: "INVALID_CREDENTIALS",
+  message: "Email or password is incorrect."
+};
+
+export async function registerWithPassword(input: {
+  email: string;
+  password: string;
+  displayName?: string;
+  phone?: string;
+}): Promise<AuthResult> {
+  const email = normalizeEmail(input.email);
+  if (!isValidEmail(email)) {
+    return { ok: false, code: "INVALID_EMAIL", message: "Valid email is required." };
+  }
+  if (input.password.length < MIN_PASSWORD_LENGTH) {
+    return {
+      ok: false,
+      code: "WEAK_PASSWORD",
+      message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`
+    };
+  }
+  const user = await createUser({
+    email,
+    passwordHash: await hashPassword(input.password),
+    displayName: input.displayName,
+    phone: input.phone,
+    lastLoginAt: new Date().toISOString()
+  });
+  if (!user) {
+    return { ok: false, code: "EMAIL_TAKEN", message: "An account with this email already exists. Please sign in." };
+  }
+  return { ok: true, user };
+}
+
+export async function signInWithPassword(rawEmail: string, password: string): Promise<AuthResult> {
+  const user = await getUserByEmail(rawEmail);
+  if (!user?.passwordHash) {
+    await verifyAgainstDummyHash(password);
+    return INVALID_CREDENTIALS;
+  }
+  if (!(await verifyPassword(password, user.passwordHash))) return INVALID_CREDENTIALS;
+  const updated = await updateUser(user.userId, { lastLoginAt: new Date().toISOString() });
+  return { ok: true, user: updated ?? user };
+}
+
+/**
+ * Sign in with an emailed code. The code proves ownership of the email, so the account is marked verified;
+ * an unknown email gets a new (password-less) account. Verifying an account registered with a password drops
+ * that password and ends its sessions (someone else may have registered the email).
+ */
+export async function signInWithCode(rawEmail: string, code: string): Promise<AuthResult> {
+  const email = normalizeEmail(rawEmail);
+  if (!(await consumeLoginCode(email, code))) {
+    return { ok: false, code: "INVALID_CODE", message: "That code is incorrect or has expired." };
+  }
+  const now = new Date().toISOString();
+  const existing = await getUserByEmail(email);
+  if (existing) {
+    // First proof of ownership: whoever registered the email unverified may not be its owner, so their
+    // password and sessions go; the owner signs in with codes from now on.
+    const firstVerification = !existing.emailVerifiedAt;
+    if (firstVerification) await revokeAllSessionsForUser(existing.userId, "email_verified");
+    const updated = await updateUser(existing.userId, {
+      emailVerifiedAt: existing.emailVerifiedAt ?? now,
+      lastLoginAt: now,
+      ...(firstVerification && { passwordHash: undefined })
+    });
+    return { ok: true, user: updated ?? existing };
+  }
+  const created = (await createUser({ email, emailVerifiedAt: now, lastLoginAt: now })) ?? (await getUserByEmail(email));
+  if (!created) {
+    return { ok: false, code: "INVALID_CODE", message: "That code is incorrect or has expired." };
+  }
+  return { ok: true, user: created };
+}
+
+/** Start a server-side session and build the identity for the cookie (server-built profile). */
+export async function createIdentityForUser(
+  user: UserRecord,
+  meta: { userAgent?: string; ip?: string } = {}
+): Promise<IdentityBlob> {
+  const session = await createSession(user.userId, meta);
+  return {
+    session: {
+      sessionId: session.sessionId,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt
+    },
+    profile: buildUserProfile(user)
+  };
+}
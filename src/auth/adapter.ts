@@ -0,0 +1,30 @@
+import type { NextRequest } from "next/server";
+import { buildUserProfile, getIdentityFromRequest } from "./server";
+import type { AuthAdapter, IdentityBlob } from "./types";
+import { getUserById } from "./users";
+
+/**
+ * Standalone AuthAdapter for API routes: the signed cookie names the session and user,
+ * and the profile is rebuilt from the user store so tier changes apply without a new login.
+ * Returns null for cookies whose account no longer exists.
+ */
+export function createServerAuthAdapter(req: NextRequest): AuthAdapter {
+  let cached: Promise<IdentityBlob | null> | null = null;
+
+  const getIdentity = (): Promise<IdentityBlob | null> => {
+    cached ??= (async () => {
+      const identity = await getIdentityFromRequest(req);
+      if (!identity) return null;
+      const user = await getUserById(identity.profile.userId);
+      if (!user) return null;
+      return { session: identity.session, profile: buildUserProfile(user) };
+    })();
+    return cached;
+  };
+
+  return {
+    getIdentity,
+    getSession: async () => (await getIdentity())?.session ?? null,
+    getUserProfile: async () => (await getIdentity())?.profile ?? null
+  };
+}
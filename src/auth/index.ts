@@ -7,17 +7,40 @@ export type {
   AuthAdapter,
   IdentityBlob,
   LoyaltyLevel,
+  LoyaltyProgress,
   Session,
   UserProfile,
+  UserRecord,
   UserType
 } from "./types";
-export { getLoyaltyLevelFromBookings } from "./types";
+export { LOYALTY_TIERS, getLoyaltyLevelFromBookings, getLoyaltyProgress } from "./types";
 export type { Channel } from "./server";
 export {
   buildUserProfile,
   clearIdentityCookie,
   deriveUserTypeFromEmail,
   getChannelFromRequest,
+  getCookieIdentity,
   getIdentityFromRequest,
   setIdentityCookie
 } from "./server";
+export type { AuthFailureCode, AuthResult } from "./accounts";
+export {
+  createIdentityForUser,
+  registerWithPassword,
+  signInWithCode,
+  signInWithPassword
+} from "./accounts";
+export { createServerAuthAdapter } from "./adapter";
+export type { LoginCodeMessage, LoginCodeSender } from "./login-codes";
+export { issueLoginCode, setLoginCodeSender } from "./login-codes";
+export { MIN_PASSWORD_LENGTH } from "./password";
+export { getUserByEmail, getUserById, isValidEmail, listUsers, normalizeEmail, updateUser } from "./users";
+export type { SessionRecord, SessionValidation } from "./sessions";
+export {
+  listSessionsForUser,
+  revokeAllSessionsForUser,
+  revokeSession,
+  SESSION_ABSOLUTE_TTL_MS,
+  SESSION_IDLE_TIMEOUT_MS
+} from "./sessions";
@@ -0,0 +1,82 @@
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { getCollection } from "@/lib/data-store";
+import { normalizeEmail } from "./users";
+
+/** One pending code per email; a new request replaces the previous code. */
+const LOGIN_CODES = "login_codes";
+const CODE_TTL_MS = 10 * 60 * 1000;
+/** Wrong guesses allowed per code before it is discarded (a fresh code must be requested). */
+const MAX_CODE_ATTEMPTS = 5;
+
+interface LoginCodeRecord {
+  email: string;
+  codeHash: string;
+  attempts: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface LoginCodeMessage {
+  email: string;
+  code: string;
+  expiresAt: string;
+}
+
+/** Delivers a login code to the user (email provider, host app, …). */
+export type LoginCodeSender = (message: LoginCodeMessage) => Promise<void>;
+
+/** Development fallback: print the code to the server log. Production must register a real sender. */
+const logLoginCode: LoginCodeSender = async ({ email, code }) => {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("No login code sender is configured");
+  }
+  console.info(`[auth] Login code for ${email}: ${code}`);
+};
+
+let sender: LoginCodeSender = logLoginCode;
+
+export function setLoginCodeSender(next: LoginCodeSender): void {
+  sender = next;
+}
+
+function codes() {
+  return getCollection<LoginCodeRecord>(LOGIN_CODES);
+}
+
+function hashCode(email: string, code: string): string {
+  return createHash("sha256").update(`${email}:${code}`).digest("hex");
+}
+
+/** Create a 6-digit code for email, store its hash and send it. Throws when the sender fails. */
+export async function issueLoginCode(rawEmail: string, now = new Date()): Promise<{ expiresAt: string }> {
+  const email = normalizeEmail(rawEmail);
+  const code = String(randomInt(0, 1_000_000)).padStart(6, "0");
+  const expiresAt = new Date(now.getTime() + CODE_TTL_MS).toISOString();
+  await codes().put(email, {
+    email,
+    codeHash: hashCode(email, code),
+    attempts: 0,
+    createdAt: now.toISOString(),
+    expiresAt
+  });
+  await sender({ email, code, expiresAt });
+  return { expiresAt };
+}
+
+/** Check a submitted code. A correct code is consumed; a wrong one counts towards MAX_CODE_ATTEMPTS. */
+export async function consumeLoginCode(rawEmail: string, rawCode: string, now = new Date()): Promise<boolean> {
+  const email = normalizeEmail(rawEmail);
+  const submitted = Buffer.from(hashCode(email, rawCode.trim()), "hex");
+  let matched = false;
+  await codes().update(email, (current) => {
+    if (!current || Date.parse(current.expiresAt) <= now.getTime() || current.attempts >= MAX_CODE_ATTEMPTS) {
+      return null;
+    }
+    const expected = Buffer.from(current.codeHash, "hex");
+    matched = expected.length === submitted.length && timingSafeEqual(expected, submitted);
+    return matched
+      ? { ...current, attempts: MAX_CODE_ATTEMPTS, expiresAt: now.toISOString() }
+      : { ...current, attempts: current.attempts + 1 };
+  });
+  return matched;
+}
@@ -0,0 +1,45 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+/** scrypt cost parameters; stored with each hash so they can be raised later without breaking old hashes. */
+const N = 16384;
+const R = 8;
+const P = 1;
+const KEY_LENGTH = 64;
+const PREFIX = "scrypt";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+function deriveKey(password: string, salt: Buffer, n: number, r: number, p: number, keyLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { N: n, r, p, maxmem: 128 * n * r * 2 }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+/** Hash as "scrypt$N$r$p$salt$key" (salt and key base64url). */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, N, R, P, KEY_LENGTH);
+  return [PREFIX, N, R, P, salt.toString("base64url"), key.toString("base64url")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [prefix, n, r, p, salt, key] = stored.split("$");
+  if (prefix !== PREFIX || !salt || !key) return false;
+  const expected = Buffer.from(key, "base64url");
+  try {
+    const actual = await deriveKey(password, Buffer.from(salt, "base64url"), Number(n), Number(r), Number(p), expected.length);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  } catch {
+    return false;
+  }
+}
+
+/** A fixed hash to verify against when the account does not exist, so unknown emails take as long as wrong passwords. */
+let dummyHash: Promise<string> | null = null;
+
+export async function verifyAgainstDummyHash(password: string): Promise<void> {
+  dummyHash ??= hashPassword("dummy-password-for-timing");
+  await verifyPassword(password, await dummyHash);
+}
@@ -5,11 +5,12 @@ import {
   getAuthCookieName,
   getIdentityFromCookie
 } from "./cookie";
+import { SESSION_ABSOLUTE_TTL_MS, validateSession } from "./sessions";
 import {
   type IdentityBlob,
   type UserProfile,
+  type UserRecord,
   type UserType,
-  type LoyaltyLevel,
   getLoyaltyLevelFromBookings
 } from "./types";
 
@@ -18,7 +19,7 @@ const COOKIE_OPTIONS = {
   secure: process.env.NODE_ENV === "production",
   sameSite: "lax" as const,
   path: "/",
-  maxAge: 60 * 60 * 24 * 7 // 7 days
+  maxAge: SESSION_ABSOLUTE_TTL_MS / 1000 // server-side session decides; see sessions.ts
 };
 
 /**
@@ -27,21 +28,41 @@ const COOKIE_OPTIONS = {
  */
 export type Channel = "b2c" | "cug";
 
+/** Per-request memo so routes that ask several times (channel, identity, adapter) hit the session store once. */
+const identityByRequest = new WeakMap<NextRequest, Promise<IdentityBlob | null>>();
+
 /**
- * Read current identity from the request (cookie).
- * Use in API routes to know "who is this user?" without changing API key yet (Phase 1).
+ * Signed cookie identity, without checking the session store.
+ * Only for "is there a cookie to clear?"; use getIdentityFromRequest for anything that grants access.
  */
-export function getIdentityFromRequest(req: NextRequest): IdentityBlob | null {
-  const cookieHeader = req.headers.get("cookie");
-  return getIdentityFromCookie(cookieHeader);
+export function getCookieIdentity(req: NextRequest): IdentityBlob | null {
+  return getIdentityFromCookie(req.headers.get("cookie"));
 }
 
 /**
- * Resolve channel from request: no session → b2c, valid session → cug.
+ * Read current identity from the request (cookie), honoured only while its server-side session
+ * is live: not revoked, not past its absolute expiry, not idle too long. Each use slides the idle window.
+ */
+export function getIdentityFromRequest(req: NextRequest): Promise<IdentityBlob | null> {
+  let pending = identityByRequest.get(req);
+  if (!pending) {
+    pending = (async () => {
+      const identity = getCookieIdentity(req);
+      if (!identity) return null;
+      const validation = await validateSession(identity.session.sessionId, identity.profile.userId);
+      return validation.ok ? identity : null;
+    })();
+    identityByRequest.set(req, pending);
+  }
+  return pending;
+}
+
+/**
+ * Resolve channel from request: no live session → b2c, valid session → cug.
  * Use in API routes to select LITEAPI_KEY_B2C vs LITEAPI_KEY_CUG.
  */
-export function getChannelFromRequest(req: NextRequest): Channel {
-  const identity = getIdentityFromRequest(req);
+export async function getChannelFromRequest(req: NextRequest): Promise<Channel> {
+  const identity = await getIdentityFromRequest(req);
   return identity ? "cug" : "b2c";
 }
 
@@ -66,39 +87,31 @@ export function clearIdentityCookie(): { name: string; value: string; options: {
   };
 }
 
-/** Derive user type from email domain (placeholder until DB). */
+/** Employee type by email domain. Only meaningful for an email the user has proven they own. */
 export function deriveUserTypeFromEmail(email: string): UserType {
   const domain = email.toLowerCase().split("@")[1] ?? "";
   if (domain === "breadfast.com") return "employee";
   return "member";
 }
 
-/** Build a placeholder UserProfile for standalone login (no DB yet). */
-export function buildUserProfile(params: {
-  userId: string;
-  email: string;
-  displayName?: string;
-  phone?: string;
-  userType?: UserType;
-  loyaltyLevel?: LoyaltyLevel;
-  bookingsCount?: number;
-  accountId?: string;
-}): UserProfile {
-  const userType = params.userType ?? deriveUserTypeFromEmail(params.email);
-  const loyaltyLevel =
-    params.loyaltyLevel ??
-    (params.bookingsCount != null
-      ? getLoyaltyLevelFromBookings(params.bookingsCount)
-      : "explorer");
+/**
+ * Build the UserProfile for a stored account. Tier fields come only from the server:
+ * userType is the admin-assigned type or, once the email is verified, the email-domain type;
+ * loyalty follows the server-side bookings count.
+ */
+export function buildUserProfile(user: UserRecord): UserProfile {
+  const userType =
+    user.userType ?? (user.emailVerifiedAt ? deriveUserTypeFromEmail(user.email) : "member");
   return {
-    userId: params.userId,
-    email: params.email,
-    displayName: params.displayName,
-    phone: params.phone,
+    userId: user.userId,
+    email: user.email,
+    emailVerified: !!user.emailVerifiedAt,
+    displayName: user.displayName,
+    phone: user.phone,
     userType,
-    loyaltyLevel,
-    bookingsCount: params.bookingsCount,
-    accountId: params.accountId
+    loyaltyLevel: getLoyaltyLevelFromBookings(user.bookingsCount),
+    bookingsCount: user.bookingsCount,
+    accountId: user.accountId
   };
 }
 
@@ -0,0 +1,95 @@
+import { randomUUID } from "crypto";
+import { getCollection } from "@/lib/data-store";
+
+/** Server-side record behind each identity cookie; the cookie is only honoured while its record is live. */
+const SESSIONS = "sessions";
+
+/** Hard cap from sign-in, however active the user is. */
+export const SESSION_ABSOLUTE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+/** A session unused for this long expires; every use slides the window forward. */
+export const SESSION_IDLE_TIMEOUT_MS = 7 * 24 * 60 * 60 * 1000;
+/** lastSeenAt is written at most this often, so browsing does not rewrite the store on every request. */
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface SessionRecord {
+  sessionId: string;
+  userId: string;
+  createdAt: string;
+  lastSeenAt: string;
+  /** Absolute expiry (createdAt + SESSION_ABSOLUTE_TTL_MS). */
+  expiresAt: string;
+  revokedAt?: string;
+  /** Why the session ended early: "logout", "revoke_all", "admin". */
+  revokedReason?: string;
+  userAgent?: string;
+  ip?: string;
+}
+
+export type SessionValidation =
+  | { ok: true; session: SessionRecord }
+  | { ok: false; reason: "NOT_FOUND" | "REVOKED" | "EXPIRED" | "IDLE" | "USER_MISMATCH" };
+
+function sessions() {
+  return getCollection<SessionRecord>(SESSIONS);
+}
+
+export async function createSession(
+  userId: string,
+  meta: { userAgent?: string; ip?: string } = {},
+  now = new Date()
+): Promise<SessionRecord> {
+  const sessionId = `sess_${randomUUID()}`;
+  return sessions().put(sessionId, {
+    sessionId,
+    userId,
+    createdAt: now.toISOString(),
+    lastSeenAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_ABSOLUTE_TTL_MS).toISOString(),
+    ...(meta.userAgent && { userAgent: meta.userAgent.slice(0, 200) }),
+    ...(meta.ip && { ip: meta.ip })
+  });
+}
+
+/** Check a cookie's session against its record and slide the idle window. */
+export async function validateSession(sessionId: string, userId: string, now = new Date()): Promise<SessionValidation> {
+  const record = await sessions().get(sessionId);
+  if (!record) return { ok: false, reason: "NOT_FOUND" };
+  if (record.userId !== userId) return { ok: false, reason: "USER_MISMATCH" };
+  if (record.revokedAt) return { ok: false, reason: "REVOKED" };
+  const t = now.getTime();
+  if (t >= Date.parse(record.expiresAt)) return { ok: false, reason: "EXPIRED" };
+  const lastSeen = Date.parse(record.lastSeenAt);
+  if (t - lastSeen >= SESSION_IDLE_TIMEOUT_MS) return { ok: false, reason: "IDLE" };
+  if (t - lastSeen < TOUCH_INTERVAL_MS) return { ok: true, session: record };
+
+  const touched = await sessions().update(sessionId, (current) =>
+    current && !current.revokedAt ? { ...current, lastSeenAt: now.toISOString() } : null
+  );
+  return { ok: true, session: touched ?? record };
+}
+
+export async function revokeSession(sessionId: string, reason = "logout", now = new Date()): Promise<boolean> {
+  let revoked = false;
+  await sessions().update(sessionId, (current) => {
+    if (!current || current.revokedAt) return null;
+    revoked = true;
+    return { ...current, revokedAt: now.toISOString(), revokedReason: reason };
+  });
+  return revoked;
+}
+
+/** Sessions for a user, newest first (including ended ones, for support). */
+export async function listSessionsForUser(userId: string): Promise<SessionRecord[]> {
+  const all = await sessions().list();
+  return all.filter((s) => s.userId === userId).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Revoke every live session of a user; returns how many were revoked. */
+export async function revokeAllSessionsForUser(userId: string, reason = "revoke_all", now = new Date()): Promise<number> {
+  const live = (await listSessionsForUser(userId)).filter((s) => !s.revokedAt);
+  let count = 0;
+  for (const session of live) {
+    if (await revokeSession(session.sessionId, reason, now)) count++;
+  }
+  return count;
+}
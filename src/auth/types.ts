@@ -27,26 +27,65 @@ export interface UserProfile {
   userId: string;
   /** Email for domain-based segment rules (e.g. @breadfast.com → employee). */
   email?: string;
+  /** True once the user proved they own email; domain-based rules only apply to verified emails. */
+  emailVerified?: boolean;
   /** Optional display name. */
   displayName?: string;
   /** Optional phone number. */
   phone?: string;
   userType: UserType;
   loyaltyLevel: LoyaltyLevel;
-  /** Optional bookings count; used to compute loyalty tier (Explorer 0–4, Adventurer 5–9, Voyager 10+). */
+  /** Confirmed, non-cancelled bookings in our ledger; drives loyalty tier (Explorer 0–4, Adventurer 5–9, Voyager 10+). */
   bookingsCount?: number;
   /** Optional B2B account/org id for segment overrides. */
   accountId?: string;
 }
 
+/** Tier thresholds, lowest first: minimum confirmed bookings for each level. */
+export const LOYALTY_TIERS: { level: LoyaltyLevel; minBookings: number }[] = [
+  { level: "explorer", minBookings: 0 },
+  { level: "adventurer", minBookings: 5 },
+  { level: "voyager", minBookings: 10 }
+];
+
 /**
  * Get loyalty level from number of bookings.
  * Explorer: 0–4, Adventurer: 5–9, Voyager: 10+.
  */
 export function getLoyaltyLevelFromBookings(bookingsCount: number): LoyaltyLevel {
-  if (bookingsCount >= 10) return "voyager";
-  if (bookingsCount >= 5) return "adventurer";
-  return "explorer";
+  let level: LoyaltyLevel = "explorer";
+  for (const tier of LOYALTY_TIERS) {
+    if (bookingsCount >= tier.minBookings) level = tier.level;
+  }
+  return level;
+}
+
+/** Where a user stands within their tier (profile page progress bar). */
+export interface LoyaltyProgress {
+  level: LoyaltyLevel;
+  bookingsCount: number;
+  /** Next tier, or null at the top tier. */
+  nextLevel: LoyaltyLevel | null;
+  /** Bookings still needed for nextLevel (0 at the top tier). */
+  bookingsToNext: number;
+  /** 0–1 progress from the current tier's threshold to the next one (1 at the top tier). */
+  progress: number;
+}
+
+export function getLoyaltyProgress(bookingsCount: number): LoyaltyProgress {
+  const count = Math.max(0, Math.floor(bookingsCount));
+  const level = getLoyaltyLevelFromBookings(count);
+  const index = LOYALTY_TIERS.findIndex((t) => t.level === level);
+  const current = LOYALTY_TIERS[index];
+  const next = LOYALTY_TIERS[index + 1];
+  if (!next) return { level, bookingsCount: count, nextLevel: null, bookingsToNext: 0, progress: 1 };
+  return {
+    level,
+    bookingsCount: count,
+    nextLevel: next.level,
+    bookingsToNext: next.minBookings - count,
+    progress: (count - current.minBookings) / (next.minBookings - current.minBookings)
+  };
 }
 
 /** Identity blob: session + profile. Stored locally and optionally synced. */
@@ -80,3 +119,27 @@ export interface AuthAdapter {
    */
   getIdentity(): Promise<IdentityBlob | null>;
 }
+
+/**
+ * Stored user account (server only; never sent to the browser as-is).
+ * userType and bookingsCount are set by the server or an admin, never by the login form.
+ */
+export interface UserRecord {
+  userId: string;
+  /** Lower-cased; unique across accounts. */
+  email: string;
+  /** scrypt hash (see password.ts); absent for accounts that only sign in with email codes. */
+  passwordHash?: string;
+  /** Set once the user proved they own the email (signed in with an emailed code). */
+  emailVerifiedAt?: string;
+  displayName?: string;
+  phone?: string;
+  /** Admin-assigned type; when absent the type is derived from the (verified) email domain. */
+  userType?: UserType;
+  /** Confirmed, non-cancelled ledger bookings (recounted after each book, cancel and sign-in). */
+  bookingsCount: number;
+  accountId?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+}
@@ -0,0 +1,84 @@
+import { randomUUID } from "crypto";
+import { getCollection } from "@/lib/data-store";
+import type { UserRecord } from "./types";
+
+/** Accounts keyed by userId; a second collection maps email → userId so lookups do not scan every account. */
+const USERS = "users";
+const USER_EMAILS = "user_emails";
+
+interface UserEmailIndex {
+  email: string;
+  userId: string;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+function users() {
+  return getCollection<UserRecord>(USERS);
+}
+
+function emails() {
+  return getCollection<UserEmailIndex>(USER_EMAILS);
+}
+
+export async function getUserById(userId: string): Promise<UserRecord | null> {
+  return users().get(userId);
+}
+
+export async function getUserByEmail(email: string): Promise<UserRecord | null> {
+  const entry = await emails().get(normalizeEmail(email));
+  return entry ? users().get(entry.userId) : null;
+}
+
+export async function listUsers(): Promise<UserRecord[]> {
+  const all = await users().list();
+  return all.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Create an account for email. Returns null when the email is already registered
+ * (the email index is claimed under its write lock, so two sign-ups cannot both win).
+ */
+export async function createUser(
+  input: Omit<UserRecord, "userId" | "email" | "bookingsCount" | "createdAt" | "updatedAt"> & { email: string }
+): Promise<UserRecord | null> {
+  const email = normalizeEmail(input.email);
+  const userId = `usr_${randomUUID()}`;
+  let claimed = false;
+  await emails().update(email, (current) => {
+    if (current) return null;
+    claimed = true;
+    return { email, userId };
+  });
+  if (!claimed) return null;
+
+  const now = new Date().toISOString();
+  return users().put(userId, {
+    ...input,
+    userId,
+    email,
+    bookingsCount: 0,
+    createdAt: now,
+    updatedAt: now
+  });
+}
+
+/** Apply a partial change to an existing account; returns null when the account does not exist. */
+export async function updateUser(
+  userId: string,
+  changes: Partial<Omit<UserRecord, "userId" | "email" | "createdAt">>
+): Promise<UserRecord | null> {
+  let found = false;
+  const next = await users().update(userId, (current) => {
+    if (!current) return null;
+    found = true;
+    return { ...current, ...changes, updatedAt: new Date().toISOString() };
+  });
+  return found ? next : null;
+}
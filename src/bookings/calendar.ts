@@ -0,0 +1,109 @@
+/**
+ * Calendar export (.ics, RFC 5545) for a booking: one all-day event from check-in to check-out at the hotel,
+ * with the booking reference in the description and a reminder at the free-cancellation deadline.
+ */
+
+import type { HotelDetailsData } from "@/lib/liteapi";
+import type { Voucher } from "./voucher";
+
+const PRODUCT_ID = "-//LiteAPI Demo Travel//Bookings//EN";
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Fold content lines longer than 75 octets (continuation lines start with a space). */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of Array.from(line)) {
+    const chSize = Buffer.byteLength(ch, "utf8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + chSize > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += chSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function toIcsDate(yyyyMmDd: string): string {
+  return yyyyMmDd.slice(0, 10).replace(/-/g, "");
+}
+
+function toIcsDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** All-day events end exclusively, so the event ends the day after check-out to include it. */
+function dayAfter(yyyyMmDd: string): string {
+  const d = new Date(`${yyyyMmDd.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function hotelAddress(hotel: HotelDetailsData | null): string | undefined {
+  const parts = [hotel?.address, hotel?.city, hotel?.countryCode].filter((p): p is string => !!p);
+  return parts.length > 0 ? parts.join(", ") : undefined;
+}
+
+/** Null when the booking has no stay dates. */
+export function buildBookingCalendar(
+  voucher: Voucher,
+  hotel: HotelDetailsData | null,
+  now = new Date()
+): string | null {
+  if (!voucher.checkin || !voucher.checkout) return null;
+  const address = hotelAddress(hotel);
+  const freeUntil = voucher.cancellation.refundable ? voucher.cancellation.freeUntil : null;
+  const description = [
+    `Booking number: ${voucher.bookingId}`,
+    voucher.hotelConfirmationCode ? `Hotel confirmation: ${voucher.hotelConfirmationCode}` : null,
+    address ? `Address: ${address}` : null,
+    freeUntil
+      ? `Free cancellation until ${new Date(freeUntil).toUTCString()}.`
+      : voucher.cancellation.refundable
+        ? null
+        : "Non-refundable."
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${voucher.bookingId}@liteapi-demo-travel`,
+    `DTSTAMP:${toIcsDateTime(now.toISOString())}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(voucher.checkin)}`,
+    `DTEND;VALUE=DATE:${toIcsDate(dayAfter(voucher.checkout))}`,
+    `SUMMARY:${escapeText(`Stay at ${voucher.hotel.name}`)}`,
+    `LOCATION:${escapeText(address ? `${voucher.hotel.name}, ${address}` : voucher.hotel.name)}`,
+    ...(hotel?.location ? [`GEO:${hotel.location.latitude};${hotel.location.longitude}`] : []),
+    `DESCRIPTION:${escapeText(description)}`,
+    `STATUS:${voucher.status === "CANCELLED" ? "CANCELLED" : "CONFIRMED"}`,
+    "TRANSP:TRANSPARENT",
+    ...(freeUntil && voucher.status !== "CANCELLED"
+      ? [
+          "BEGIN:VALARM",
+          "ACTION:DISPLAY",
+          `TRIGGER;VALUE=DATE-TIME:${toIcsDateTime(freeUntil)}`,
+          `DESCRIPTION:${escapeText(`Free cancellation for ${voucher.hotel.name} ends now (booking ${voucher.bookingId})`)}`,
+          "END:VALARM"
+        ]
+      : []),
+    "END:VEVENT",
+    "END:VCALENDAR"
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
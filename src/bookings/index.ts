@@ -0,0 +1,54 @@
+/**
+ * Server-side booking ledger.
+ * Server only: the default store persists to disk through @/lib/data-store.
+ */
+
+export type {
+  BookingCorporate,
+  BookingGuest,
+  BookingHolder,
+  BookingListFilter,
+  BookingPromo,
+  BookingQuote,
+  BookingRecord,
+  BookingRecordStatus,
+  BookingStore,
+  TripSummary
+} from "./types";
+export type { BookingAttemptInput } from "./ledger";
+export {
+  bookingRecordToBookResponse,
+  getBookingStore,
+  recordBookingAttempt,
+  recordBookingConfirmed,
+  recordBookingFailed,
+  setBookingStore
+} from "./ledger";
+export { createDataStoreBookingStore } from "./store";
+export { countLoyaltyBookings, refreshLoyaltyIdentity, refreshUserLoyalty } from "./loyalty";
+export {
+  findTripForUser,
+  isBookingOwnedBy,
+  listTripsForUser,
+  toTripSummary
+} from "./trips";
+export type { PrebookRoom, PrebookSnapshot, PrebookStay } from "./prebooks";
+export {
+  getPrebookExpiresAt,
+  getPrebookOccupancies,
+  getPrebookSnapshot,
+  getPrebookStay,
+  isPrebookExpired,
+  recordPrebook
+} from "./prebooks";
+export { buildBookingCalendar } from "./calendar";
+export type { Voucher, VoucherRoom } from "./voucher";
+export {
+  buildVoucher,
+  canAccessVoucher,
+  loadVoucher,
+  renderVoucherHtml,
+  renderVoucherPdf,
+  renderVoucherText,
+  sendBookingVoucher
+} from "./voucher";
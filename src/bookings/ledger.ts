@@ -0,0 +1,124 @@
+/**
+ * Booking ledger: records every book call (pending → confirmed / failed).
+ * Used by POST /api/rates/book; support looks bookings up via /api/admin/bookings.
+ */
+
+import { randomBytes } from "crypto";
+import type { PaymentMode, SpecialRequests } from "@/checkout/types";
+import type { Channel } from "@/lib/channel-keys";
+import type { OccupancyInput } from "@/lib/liteapi";
+import type { MarginResult } from "@/lib/margin-resolver";
+import { createDataStoreBookingStore } from "./store";
+import type {
+  BookingCorporate,
+  BookingGuest,
+  BookingHolder,
+  BookingPromo,
+  BookingQuote,
+  BookingRecord,
+  BookingStore
+} from "./types";
+
+let activeStore: BookingStore | null = null;
+
+/** Current booking store (data-store backed unless replaced with setBookingStore). */
+export function getBookingStore(): BookingStore {
+  if (!activeStore) activeStore = createDataStoreBookingStore();
+  return activeStore;
+}
+
+/** Plug in another BookingStore implementation (e.g. a SQL-backed one). */
+export function setBookingStore(store: BookingStore): void {
+  activeStore = store;
+}
+
+export interface BookingAttemptInput {
+  prebookId: string;
+  transactionId?: string;
+  paymentMode?: PaymentMode;
+  hotelId?: string;
+  checkin?: string;
+  checkout?: string;
+  occupancies?: OccupancyInput[];
+  holder: BookingHolder;
+  guests: BookingGuest[];
+  channel: Channel;
+  userId?: string;
+  userEmail?: string;
+  margin: MarginResult;
+  promo?: BookingPromo;
+  quote?: BookingQuote;
+  corporate?: BookingCorporate;
+  specialRequests?: SpecialRequests;
+}
+
+/**
+ * Store a pending record before calling LiteAPI. Overwrites a previous failed attempt for the same prebook
+ * (keeping its voucher token).
+ */
+export async function recordBookingAttempt(input: BookingAttemptInput): Promise<BookingRecord> {
+  const store = getBookingStore();
+  const now = new Date().toISOString();
+  const existing = await store.get(input.prebookId);
+  const record: BookingRecord = {
+    ...input,
+    id: input.prebookId,
+    status: "pending",
+    voucherToken: existing?.voucherToken ?? randomBytes(24).toString("base64url"),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+  return store.save(record);
+}
+
+/** Copy the confirmed booking from the LiteAPI book response onto the ledger record. */
+export async function recordBookingConfirmed(
+  prebookId: string,
+  bookResponse: any
+): Promise<BookingRecord | null> {
+  const data = bookResponse?.data ?? {};
+  const price =
+    typeof data.price === "number" && typeof data.currency === "string"
+      ? { amount: data.price, currency: data.currency }
+      : undefined;
+  return getBookingStore().update(prebookId, {
+    status: "confirmed",
+    bookingId: data.bookingId != null ? String(data.bookingId) : undefined,
+    hotelConfirmationCode: data.hotelConfirmationCode ?? undefined,
+    liteApiStatus: data.status ?? undefined,
+    ...(data.hotel?.hotelId && { hotelId: String(data.hotel.hotelId) }),
+    ...(data.hotel?.name && { hotelName: String(data.hotel.name) }),
+    ...(data.checkin && { checkin: String(data.checkin) }),
+    ...(data.checkout && { checkout: String(data.checkout) }),
+    ...(price && { price }),
+    bookResponse,
+    error: undefined
+  });
+}
+
+/**
+ * Response for a repeat book call on an already-booked prebook: the stored LiteAPI response,
+ * or one rebuilt from the ledger fields when the original was not kept.
+ */
+export function bookingRecordToBookResponse(record: BookingRecord): any {
+  if (record.bookResponse && typeof record.bookResponse === "object") return record.bookResponse;
+  return {
+    data: {
+      bookingId: record.bookingId,
+      status: record.liteApiStatus ?? (record.status === "cancelled" ? "CANCELLED" : "CONFIRMED"),
+      hotelConfirmationCode: record.hotelConfirmationCode,
+      checkin: record.checkin,
+      checkout: record.checkout,
+      hotel: { hotelId: record.hotelId, name: record.hotelName },
+      price: record.price?.amount,
+      currency: record.price?.currency
+    }
+  };
+}
+
+export async function recordBookingFailed(
+  prebookId: string,
+  message: string
+): Promise<BookingRecord | null> {
+  return getBookingStore().update(prebookId, { status: "failed", error: message });
+}
@@ -0,0 +1,34 @@
+/**
+ * Loyalty tier from our own ledger: confirmed, non-cancelled bookings made by the account.
+ */
+
+import { buildUserProfile, getUserById, updateUser, type IdentityBlob, type UserRecord } from "@/auth";
+import { getBookingStore } from "./ledger";
+
+/** Confirmed bookings owned by the user (by userId; by logged-in email only once that email is verified). */
+export async function countLoyaltyBookings(user: UserRecord): Promise<number> {
+  const { total } = await getBookingStore().list({
+    owner: { userId: user.userId, email: user.emailVerifiedAt ? user.email : undefined },
+    status: "confirmed",
+    limit: 1
+  });
+  return total;
+}
+
+/** Recount the user's bookings and store the new count. Returns null when the account does not exist. */
+export async function refreshUserLoyalty(userId: string): Promise<UserRecord | null> {
+  const user = await getUserById(userId);
+  if (!user) return null;
+  const bookingsCount = await countLoyaltyBookings(user);
+  if (bookingsCount === user.bookingsCount) return user;
+  return updateUser(userId, { bookingsCount });
+}
+
+/**
+ * Recount loyalty for the signed-in user and return the identity to re-issue in the cookie
+ * (same session, refreshed profile), so the new tier's margin applies on the next request.
+ */
+export async function refreshLoyaltyIdentity(identity: IdentityBlob): Promise<IdentityBlob | null> {
+  const user = await refreshUserLoyalty(identity.profile.userId);
+  return user ? { session: identity.session, profile: buildUserProfile(user) } : null;
+}
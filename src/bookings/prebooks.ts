@@ -0,0 +1,137 @@
+/**
+ * Prebook snapshots: what LiteAPI quoted at prebook time, kept server-side so later steps
+ * (promo validation, booking) price against our copy instead of numbers sent back by the browser.
+ */
+
+import type { Channel } from "@/lib/channel-keys";
+import { getCollection } from "@/lib/data-store";
+import type { Occupancy } from "@/lib/occupancy";
+
+const COLLECTION = "prebooks";
+
+/**
+ * How long we treat a prebook as held. LiteAPI does not return an expiry with the prebook, so checkout
+ * re-prebooks after this (PREBOOK_HOLD_MINUTES overrides the default).
+ */
+const DEFAULT_PREBOOK_HOLD_MINUTES = 15;
+
+function prebookHoldMs(): number {
+  const minutes = Number(process.env.PREBOOK_HOLD_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_PREBOOK_HOLD_MINUTES) * 60 * 1000;
+}
+
+export interface PrebookSnapshot {
+  prebookId: string;
+  offerId?: string;
+  hotelId?: string;
+  /** Total to charge (prebook top-level price). */
+  price: number;
+  currency: string;
+  channel: Channel;
+  userId?: string;
+  /**
+   * Prebooked for the payment SDK (pay_now); pay-later modes book a prebook made without it.
+   * Absent on snapshots recorded before it was tracked, which were all SDK prebooks.
+   */
+  paymentSdk?: boolean;
+  /** Prebook data as returned by LiteAPI, minus the payment secretKey. */
+  data: Record<string, unknown>;
+  createdAt: string;
+  /** End of the price hold; absent on snapshots recorded before holds were tracked (see getPrebookExpiresAt). */
+  expiresAt?: string;
+}
+
+/** One room as prebooked: a LiteAPI rate's occupancy (childrenAges only when LiteAPI returned them). */
+export interface PrebookRoom {
+  occupancyNumber: number;
+  adults: number;
+  children: number;
+  childrenAges?: number[];
+}
+
+/** Dates and rooms LiteAPI prebooked, for checks that must not take the stay from the browser. */
+export interface PrebookStay {
+  checkin?: string;
+  checkout?: string;
+  /** One per rate, in occupancyNumber order. */
+  rooms: PrebookRoom[];
+}
+
+/** Store the prebook response. No-op when the response has no prebookId/price. */
+export async function recordPrebook(
+  prebookResponse: any,
+  context: { channel: Channel; userId?: string; paymentSdk: boolean }
+): Promise<PrebookSnapshot | null> {
+  const data = prebookResponse?.data;
+  if (!data?.prebookId || typeof data.price !== "number" || !data.currency) return null;
+  const rest: Record<string, unknown> = { ...data };
+  delete rest.secretKey;
+  const now = new Date();
+  const snapshot: PrebookSnapshot = {
+    prebookId: String(data.prebookId),
+    offerId: data.offerId != null ? String(data.offerId) : undefined,
+    hotelId: data.hotelId != null ? String(data.hotelId) : undefined,
+    price: data.price,
+    currency: String(data.currency),
+    channel: context.channel,
+    userId: context.userId,
+    paymentSdk: context.paymentSdk,
+    data: rest,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + prebookHoldMs()).toISOString()
+  };
+  return getCollection<PrebookSnapshot>(COLLECTION).put(snapshot.prebookId, snapshot);
+}
+
+export function getPrebookExpiresAt(snapshot: PrebookSnapshot): Date {
+  return new Date(snapshot.expiresAt ? Date.parse(snapshot.expiresAt) : Date.parse(snapshot.createdAt) + prebookHoldMs());
+}
+
+export function isPrebookExpired(snapshot: PrebookSnapshot, now: Date = new Date()): boolean {
+  return getPrebookExpiresAt(snapshot).getTime() <= now.getTime();
+}
+
+export function getPrebookSnapshot(prebookId: string): Promise<PrebookSnapshot | null> {
+  return getCollection<PrebookSnapshot>(COLLECTION).get(prebookId);
+}
+
+export function getPrebookStay(snapshot: PrebookSnapshot): PrebookStay {
+  const { data } = snapshot;
+  const roomTypes = Array.isArray(data.roomTypes) ? (data.roomTypes as any[]) : [];
+  const rates = roomTypes.flatMap((rt) => (Array.isArray(rt?.rates) ? rt.rates : []));
+  const rooms = rates
+    .map((rate: any, i: number): PrebookRoom => {
+      const children = typeof rate?.childCount === "number" ? rate.childCount : 0;
+      const ages = Array.isArray(rate?.childrenAges)
+        ? rate.childrenAges.filter((a: unknown) => typeof a === "number" && !Number.isNaN(a))
+        : [];
+      return {
+        occupancyNumber: typeof rate?.occupancyNumber === "number" ? rate.occupancyNumber : i + 1,
+        adults: typeof rate?.adultCount === "number" ? rate.adultCount : 1,
+        children,
+        ...(children > 0 && ages.length === children && { childrenAges: ages })
+      };
+    })
+    .sort((a, b) => a.occupancyNumber - b.occupancyNumber);
+  return {
+    checkin: typeof data.checkin === "string" ? data.checkin : undefined,
+    checkout: typeof data.checkout === "string" ? data.checkout : undefined,
+    rooms
+  };
+}
+
+/**
+ * Occupancies of the prebooked rooms. Adult and child counts come from the prebook; child ages from LiteAPI, else
+ * from `searched` (the browser's occupancies) for a room with as many children. Null when the ages cannot be matched
+ * or the prebook has no rates.
+ */
+export function getPrebookOccupancies(stay: PrebookStay, searched: Occupancy[] = []): Occupancy[] | null {
+  if (stay.rooms.length === 0) return null;
+  const occupancies: Occupancy[] = [];
+  for (const [i, room] of stay.rooms.entries()) {
+    const ages = room.childrenAges ?? (room.children === 0 ? [] : searched[i]?.children);
+    if (!ages || ages.length !== room.children) return null;
+    occupancies.push({ adults: room.adults, children: ages });
+  }
+  return occupancies;
+}
@@ -0,0 +1,71 @@
+import { getCollection } from "@/lib/data-store";
+import type { BookingListFilter, BookingRecord, BookingStore } from "./types";
+
+const COLLECTION = "bookings";
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+function matchesFilter(record: BookingRecord, filter: BookingListFilter): boolean {
+  if (filter.userId && record.userId !== filter.userId) return false;
+  if (filter.owner) {
+    const ownerEmail = filter.owner.email?.trim().toLowerCase();
+    const isOwner =
+      record.userId === filter.owner.userId ||
+      (!!ownerEmail && record.userEmail?.toLowerCase() === ownerEmail);
+    if (!isOwner) return false;
+  }
+  if (filter.email) {
+    const email = filter.email.trim().toLowerCase();
+    if (
+      record.holder?.email?.toLowerCase() !== email &&
+      record.userEmail?.toLowerCase() !== email
+    ) {
+      return false;
+    }
+  }
+  if (filter.hotelId && record.hotelId !== filter.hotelId) return false;
+  if (filter.bookingId && record.bookingId !== filter.bookingId) return false;
+  if (filter.status && !(Array.isArray(filter.status) ? filter.status : [filter.status]).includes(record.status)) {
+    return false;
+  }
+  if (filter.accountId && record.corporate?.accountId !== filter.accountId) return false;
+  if (filter.createdFrom && record.createdAt < filter.createdFrom) return false;
+  if (filter.createdTo && record.createdAt >= filter.createdTo) return false;
+  return true;
+}
+
+/** Default BookingStore on top of the data-store collection "bookings". */
+export function createDataStoreBookingStore(): BookingStore {
+  const collection = () => getCollection<BookingRecord>(COLLECTION);
+
+  return {
+    get(id) {
+      return collection().get(id);
+    },
+
+    async getByBookingId(bookingId) {
+      const all = await collection().list();
+      return all.find((r) => r.bookingId === bookingId) ?? null;
+    },
+
+    async list(filter = {}) {
+      const all = await collection().list();
+      const matching = all
+        .filter((r) => matchesFilter(r, filter))
+        .sort((a, b) => (a.createdAt < b.createdAt ? 1 : a.createdAt > b.createdAt ? -1 : 0));
+      const limit = Math.min(MAX_LIST_LIMIT, Math.max(1, filter.limit ?? DEFAULT_LIST_LIMIT));
+      const offset = Math.max(0, filter.offset ?? 0);
+      return { items: matching.slice(offset, offset + limit), total: matching.length };
+    },
+
+    save(record) {
+      return collection().put(record.id, record);
+    },
+
+    update(id, patch) {
+      return collection().update(id, (current) =>
+        current ? { ...current, ...patch, updatedAt: new Date().toISOString() } : null
+      ).then((r) => r ?? null);
+    }
+  };
+}
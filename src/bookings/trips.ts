@@ -0,0 +1,53 @@
+/**
+ * "My trips": the logged-in user's view of the booking ledger.
+ */
+
+import type { UserProfile } from "@/auth/types";
+import { getBookingStore } from "./ledger";
+import type { BookingRecord, TripSummary } from "./types";
+
+/** Ledger statuses shown on the trips page (pending and failed attempts are support-only). */
+const VISIBLE_STATUSES: BookingRecord["status"][] = ["confirmed", "cancelled"];
+
+export function isBookingOwnedBy(record: BookingRecord, profile: UserProfile): boolean {
+  if (record.userId && record.userId === profile.userId) return true;
+  const email = profile.email?.trim().toLowerCase();
+  return !!email && record.userEmail?.toLowerCase() === email;
+}
+
+export function toTripSummary(record: BookingRecord): TripSummary {
+  return {
+    id: record.id,
+    bookingId: record.bookingId,
+    hotelConfirmationCode: record.hotelConfirmationCode,
+    status: record.status,
+    hotelId: record.hotelId,
+    hotelName: record.hotelName,
+    checkin: record.checkin,
+    checkout: record.checkout,
+    occupancies: record.occupancies,
+    holder: record.holder,
+    price: record.price,
+    createdAt: record.createdAt
+  };
+}
+
+/** Confirmed and cancelled bookings for this user, newest first. */
+export async function listTripsForUser(profile: UserProfile): Promise<BookingRecord[]> {
+  const { items } = await getBookingStore().list({
+    owner: { userId: profile.userId, email: profile.email },
+    status: VISIBLE_STATUSES,
+    limit: 200
+  });
+  return items;
+}
+
+/** Ledger record for a LiteAPI bookingId, only if it belongs to this user. */
+export async function findTripForUser(
+  profile: UserProfile,
+  bookingId: string
+): Promise<BookingRecord | null> {
+  const record = await getBookingStore().getByBookingId(bookingId);
+  if (!record || !isBookingOwnedBy(record, profile)) return null;
+  return record;
+}
@@ -0,0 +1,173 @@
+/**
+ * Booking ledger types.
+ * Every POST /api/rates/book call is recorded here so a booking can be found after the confirmation tab is closed.
+ */
+
+import type { PaymentMode, SpecialRequests } from "@/checkout/types";
+import type { CorporateBilling, CorporateRole, PolicyCheck } from "@/corporate/types";
+import type { Channel } from "@/lib/channel-keys";
+import type { GuestType } from "@/lib/guests";
+import type { OccupancyInput } from "@/lib/liteapi";
+import type { MarginResult } from "@/lib/margin-resolver";
+
+/**
+ * Ledger status (ours, not LiteAPI's).
+ * pending: book call in flight; confirmed: LiteAPI returned a bookingId; failed: book call errored;
+ * cancelled: booking cancelled after confirmation.
+ */
+export type BookingRecordStatus = "pending" | "confirmed" | "failed" | "cancelled";
+
+export interface BookingHolder {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+}
+
+export interface BookingGuest {
+  /** 1-based room index from the prebook rates. */
+  occupancyNumber: number;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phone?: string;
+  /** Absent on records from before every guest was named (lead adults only). */
+  type?: GuestType;
+  /** Child's age, from the booked occupancy. */
+  age?: number;
+}
+
+/** Promo code sent with the book call, as re-validated by the promo engine at book time. */
+export interface BookingPromo {
+  code: string;
+  type?: "percent" | "fixed";
+  /** Percent, or fixed amount in `currency`. */
+  value?: number;
+  currency?: string;
+  /** Server-computed discount in the booking currency (absent when rejected). */
+  discount?: { amount: number; currency: string };
+  /** Why the engine refused the code at book time (e.g. USER_LIMIT_REACHED). */
+  rejectedReason?: string;
+}
+
+/** Signed checkout quote the book call was verified against (see @/checkout). */
+export interface BookingQuote {
+  quoteId: string;
+  currency: string;
+  subtotal: number;
+  discount: number;
+  payNow: number;
+  localFees: number;
+  total: number;
+}
+
+/** Company context of a B2B booking: who booked, for whom, billing and the policy check at book time. */
+export interface BookingCorporate {
+  accountId: string;
+  bookedByUserId: string;
+  bookedByEmail: string;
+  bookedByRole: CorporateRole;
+  /** The member travelling; differs from the booker when a travel manager books on their behalf. */
+  traveller: { email: string; firstName?: string; lastName?: string };
+  onBehalf: boolean;
+  billing: CorporateBilling;
+  policy: PolicyCheck;
+  /** Approval request that cleared an out-of-policy rate for a traveller. */
+  approvalId?: string;
+}
+
+export interface BookingRecord {
+  /** Ledger id. Equal to prebookId: a prebook can be booked at most once. */
+  id: string;
+  prebookId: string;
+  transactionId?: string;
+  /** How the guest pays; absent on records from before pay-later modes (pay_now). */
+  paymentMode?: PaymentMode;
+  /** LiteAPI bookingId once confirmed. */
+  bookingId?: string;
+  hotelConfirmationCode?: string;
+  status: BookingRecordStatus;
+  /** Raw status string from LiteAPI (e.g. CONFIRMED, CANCELLED). */
+  liteApiStatus?: string;
+  hotelId?: string;
+  hotelName?: string;
+  checkin?: string;
+  checkout?: string;
+  occupancies?: OccupancyInput[];
+  holder: BookingHolder;
+  guests: BookingGuest[];
+  /** Channel used for the LiteAPI key (b2c guest vs cug logged-in). */
+  channel: Channel;
+  /** Logged-in user at book time; absent for guests. */
+  userId?: string;
+  userEmail?: string;
+  /** Margin resolved for this request at book time. */
+  margin: MarginResult;
+  promo?: BookingPromo;
+  quote?: BookingQuote;
+  corporate?: BookingCorporate;
+  /** Special requests from checkout; sent to LiteAPI as remarks and printed on the voucher. */
+  specialRequests?: SpecialRequests;
+  /** Secret for downloading the voucher without logging in; returned to the confirmation page. */
+  voucherToken?: string;
+  /** When the voucher email went out. */
+  voucherSentAt?: string;
+  /** Amount charged (LiteAPI book response price). */
+  price?: { amount: number; currency: string };
+  /** LiteAPI book response as returned to the client; replayed for repeat book calls on the same prebook. */
+  bookResponse?: unknown;
+  /** Last error message when status is failed. */
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BookingListFilter {
+  userId?: string;
+  /** Bookings made by this account: matches userId, or the logged-in email recorded at book time. */
+  owner?: { userId: string; email?: string };
+  /** Matches holder email or the logged-in user's email (case-insensitive). */
+  email?: string;
+  hotelId?: string;
+  bookingId?: string;
+  /** One status, or any of several. */
+  status?: BookingRecordStatus | BookingRecordStatus[];
+  /** Bookings made under this corporate account. */
+  accountId?: string;
+  /** Only records created at or after this ISO date. */
+  createdFrom?: string;
+  /** Only records created before this ISO date. */
+  createdTo?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Booking store contract. The default implementation persists through @/lib/data-store;
+ * swap with setBookingStore() to use another backend.
+ */
+export interface BookingStore {
+  get(id: string): Promise<BookingRecord | null>;
+  getByBookingId(bookingId: string): Promise<BookingRecord | null>;
+  /** Newest first. */
+  list(filter?: BookingListFilter): Promise<{ items: BookingRecord[]; total: number }>;
+  save(record: BookingRecord): Promise<BookingRecord>;
+  /** Shallow-merge patch into an existing record (updatedAt is set automatically). Returns null if not found. */
+  update(id: string, patch: Partial<Omit<BookingRecord, "id" | "createdAt">>): Promise<BookingRecord | null>;
+}
+
+/** User-facing view of a ledger record (no margin or internal error details). Returned by /api/trips. */
+export interface TripSummary {
+  id: string;
+  bookingId?: string;
+  hotelConfirmationCode?: string;
+  status: BookingRecordStatus;
+  hotelId?: string;
+  hotelName?: string;
+  checkin?: string;
+  checkout?: string;
+  occupancies?: OccupancyInput[];
+  holder: BookingHolder;
+  price?: { amount: number; currency: string };
+  createdAt: string;
+}
@@ -0,0 +1,274 @@
+/**
+ * Booking vouchers: what the guest shows at the hotel. Built from the ledger record (plus the prebook snapshot
+ * for room names and policies), rendered as HTML, plain text and PDF, emailed after booking and downloadable
+ * again through /api/vouchers/[id].
+ */
+
+import { timingSafeEqual } from "crypto";
+import type { UserProfile } from "@/auth/types";
+import { formatSpecialRequests } from "@/checkout/special-requests";
+import type { PaymentMode } from "@/checkout/types";
+import { getFreeCancellationDeadline, isNonRefundableTag, type CancellationPolicies } from "@/lib/cancellation";
+import { sendMail } from "@/lib/mailer";
+import { getNights } from "@/lib/occupancy";
+import { renderTextPdf, type PdfLine } from "@/lib/pdf";
+import { getBookingStore } from "./ledger";
+import { getPrebookSnapshot, type PrebookSnapshot } from "./prebooks";
+import { isBookingOwnedBy } from "./trips";
+import type { BookingHolder, BookingRecord } from "./types";
+
+export interface VoucherRoom {
+  /** 1-based, as in the book call's occupancyNumber. */
+  number: number;
+  name: string;
+  boardName?: string;
+  adults: number;
+  childAges: number[];
+  /** Lead guest first; children as "Name (age 5)". */
+  guestNames: string[];
+}
+
+export interface Voucher {
+  bookingId: string;
+  hotelConfirmationCode?: string;
+  status: string;
+  hotel: { id?: string; name: string };
+  checkin?: string;
+  checkout?: string;
+  nights: number;
+  holder: BookingHolder;
+  rooms: VoucherRoom[];
+  price?: { amount: number; currency: string };
+  paymentMode: PaymentMode;
+  /** Taxes and fees not included in the price, paid at the property. */
+  payAtProperty?: { amount: number; currency: string };
+  cancellation: { refundable: boolean; freeUntil: string | null };
+  specialRequests?: string;
+}
+
+/** The token from the booking, or the logged-in owner of the booking. */
+export function canAccessVoucher(
+  record: BookingRecord,
+  access: { token?: string | null; profile?: UserProfile | null }
+): boolean {
+  if (access.profile && isBookingOwnedBy(record, access.profile)) return true;
+  if (!access.token || !record.voucherToken) return false;
+  const given = Buffer.from(access.token);
+  const expected = Buffer.from(record.voucherToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function prebookRates(prebook: PrebookSnapshot | null): any[] {
+  const roomTypes = Array.isArray(prebook?.data.roomTypes) ? (prebook!.data.roomTypes as any[]) : [];
+  return roomTypes.flatMap((rt) => (Array.isArray(rt?.rates) ? rt.rates : []));
+}
+
+export function buildVoucher(record: BookingRecord, prebook: PrebookSnapshot | null): Voucher {
+  const booked = ((record.bookResponse as any)?.data ?? {}) as Record<string, any>;
+  const bookedRooms: any[] = Array.isArray(booked.bookedRooms) ? booked.bookedRooms : [];
+  const rates = prebookRates(prebook);
+  const occupancies = record.occupancies?.length ? record.occupancies : [{ adults: 1, children: [] }];
+
+  const rooms: VoucherRoom[] = occupancies.map((occupancy, i) => {
+    const number = i + 1;
+    const bookedRoom = bookedRooms[i];
+    const rate = rates.find((r) => r?.occupancyNumber === number) ?? rates[i] ?? rates[0];
+    const inRoom = record.guests.filter((g) => g.occupancyNumber === number);
+    const named = inRoom.length > 0 ? inRoom : i === 0 ? [record.holder] : [];
+    return {
+      number,
+      name: String(bookedRoom?.roomType?.name ?? rate?.name ?? "Room"),
+      boardName: bookedRoom?.boardName ?? rate?.boardName ?? undefined,
+      adults: occupancy.adults,
+      childAges: occupancy.children ?? [],
+      guestNames: (named.length > 0 ? named : [record.holder]).map((g) => {
+        const name = `${g.firstName} ${g.lastName}`.trim();
+        return "type" in g && g.type === "child" && g.age != null ? `${name} (age ${g.age})` : name;
+      })
+    };
+  });
+
+  const policies: CancellationPolicies | undefined = booked.cancellationPolicies ?? rates[0]?.cancellationPolicies;
+  const localFees = record.quote?.localFees ?? 0;
+
+  return {
+    bookingId: record.bookingId ?? record.id,
+    hotelConfirmationCode: record.hotelConfirmationCode,
+    status: record.status === "cancelled" ? "CANCELLED" : record.liteApiStatus ?? "CONFIRMED",
+    hotel: { id: record.hotelId, name: record.hotelName ?? booked.hotel?.name ?? "Hotel" },
+    checkin: record.checkin,
+    checkout: record.checkout,
+    nights: record.checkin && record.checkout ? getNights(record.checkin, record.checkout) : 0,
+    holder: record.holder,
+    rooms,
+    price: record.price,
+    paymentMode: record.paymentMode ?? "pay_now",
+    ...(localFees > 0 && record.quote && { payAtProperty: { amount: localFees, currency: record.quote.currency } }),
+    cancellation: {
+      refundable: !isNonRefundableTag(policies?.refundableTag),
+      freeUntil: getFreeCancellationDeadline(policies)
+    },
+    specialRequests: formatSpecialRequests(record.specialRequests)
+  };
+}
+
+function formatDate(value: string | undefined): string {
+  if (!value) return "—";
+  const d = new Date(`${value.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+}
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  return `${d.toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" })}, ${d
+    .toISOString()
+    .slice(11, 16)} UTC`;
+}
+
+function formatMoney(money: { amount: number; currency: string }): string {
+  return `${money.currency} ${money.amount.toFixed(2)}`;
+}
+
+const PAYMENT_LABELS: Record<PaymentMode, string> = {
+  pay_now: "Total paid",
+  account_credit: "Total billed to your account",
+  pay_at_property: "Total due at the property"
+};
+
+function cancellationText(voucher: Voucher): string {
+  if (!voucher.cancellation.refundable) return "Non-refundable.";
+  return voucher.cancellation.freeUntil
+    ? `Free cancellation until ${formatDateTime(voucher.cancellation.freeUntil)}.`
+    : "See the hotel's cancellation terms.";
+}
+
+function guestsText(room: VoucherRoom): string {
+  const adults = `${room.adults} ${room.adults === 1 ? "adult" : "adults"}`;
+  if (room.childAges.length === 0) return adults;
+  return `${adults}, ${room.childAges.length} ${room.childAges.length === 1 ? "child" : "children"} (${room.childAges.join(", ")})`;
+}
+
+/** Label/value rows shared by the text, HTML and PDF renderings. */
+function summaryRows(voucher: Voucher): [string, string][] {
+  return [
+    ["Booking number", voucher.bookingId],
+    ...(voucher.hotelConfirmationCode ? [["Hotel confirmation", voucher.hotelConfirmationCode] as [string, string]] : []),
+    ["Status", voucher.status],
+    ["Check-in", formatDate(voucher.checkin)],
+    ["Check-out", formatDate(voucher.checkout)],
+    ["Nights", String(voucher.nights)],
+    ["Lead guest", `${voucher.holder.firstName} ${voucher.holder.lastName} (${voucher.holder.email})`],
+    ...(voucher.price ? [[PAYMENT_LABELS[voucher.paymentMode], formatMoney(voucher.price)] as [string, string]] : []),
+    ...(voucher.payAtProperty
+      ? [["Pay at the property", `${formatMoney(voucher.payAtProperty)} (local taxes and fees)`] as [string, string]]
+      : []),
+    ["Cancellation", cancellationText(voucher)]
+  ];
+}
+
+export function renderVoucherText(voucher: Voucher): string {
+  return [
+    `Booking voucher – ${voucher.hotel.name}`,
+    "",
+    ...summaryRows(voucher).map(([label, value]) => `${label}: ${value}`),
+    "",
+    ...voucher.rooms.map(
+      (room) =>
+        `Room ${room.number}: ${room.name}${room.boardName ? `, ${room.boardName}` : ""} – ${guestsText(room)} – guests: ${room.guestNames.join(", ")}`
+    ),
+    ...(voucher.specialRequests ? ["", `Special requests: ${voucher.specialRequests}`] : []),
+    "",
+    "Please show this voucher at check-in. Special requests are subject to availability."
+  ].join("\n");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderVoucherHtml(voucher: Voucher): string {
+  const cell = "padding:6px 8px;border-bottom:1px solid #e2e8f0;vertical-align:top;";
+  const rows = summaryRows(voucher)
+    .map(
+      ([label, value]) =>
+        `<tr><th style="${cell}text-align:left;color:#64748b;font-weight:500;width:40%">${escapeHtml(label)}</th><td style="${cell}">${escapeHtml(value)}</td></tr>`
+    )
+    .join("");
+  const rooms = voucher.rooms
+    .map(
+      (room) =>
+        `<tr><td style="${cell}">Room ${room.number}</td><td style="${cell}"><strong>${escapeHtml(room.name)}</strong>${
+          room.boardName ? `<br>${escapeHtml(room.boardName)}` : ""
+        }</td><td style="${cell}">${escapeHtml(guestsText(room))}</td><td style="${cell}">${room.guestNames.map(escapeHtml).join("<br>")}</td></tr>`
+    )
+    .join("");
+  return `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Booking voucher ${escapeHtml(voucher.bookingId)}</title></head>
+<body style="margin:0;padding:24px;background:#f8fafc;font-family:Helvetica,Arial,sans-serif;color:#0f172a;font-size:14px">
+<div style="max-width:640px;margin:0 auto;background:#fff;border:1px solid #e2e8f0;border-radius:12px;padding:24px">
+<p style="margin:0;color:#64748b;font-size:12px;text-transform:uppercase;letter-spacing:0.05em">Booking voucher</p>
+<h1 style="margin:4px 0 16px;font-size:22px">${escapeHtml(voucher.hotel.name)}</h1>
+<table style="width:100%;border-collapse:collapse">${rows}</table>
+<h2 style="margin:24px 0 8px;font-size:16px">Rooms</h2>
+<table style="width:100%;border-collapse:collapse">${rooms}</table>
+${
+  voucher.specialRequests
+    ? `<h2 style="margin:24px 0 8px;font-size:16px">Special requests</h2><p style="margin:0;white-space:pre-wrap">${escapeHtml(voucher.specialRequests)}</p>`
+    : ""
+}
+<p style="margin:24px 0 0;color:#64748b;font-size:12px">Please show this voucher at check-in. Special requests are subject to availability.</p>
+</div>
+</body>
+</html>`;
+}
+
+export function renderVoucherPdf(voucher: Voucher): Buffer {
+  const lines: PdfLine[] = [
+    { text: "BOOKING VOUCHER", size: 9, muted: true },
+    { text: voucher.hotel.name, size: 18, bold: true, spaceBefore: 4 },
+    ...summaryRows(voucher).map(([label, value], i) => ({ text: `${label}: ${value}`, spaceBefore: i === 0 ? 12 : 2 })),
+    { text: "Rooms", size: 13, bold: true, spaceBefore: 16 },
+    ...voucher.rooms.flatMap((room): PdfLine[] => [
+      { text: `Room ${room.number}: ${room.name}${room.boardName ? `, ${room.boardName}` : ""}`, bold: true, spaceBefore: 6 },
+      { text: `${guestsText(room)} - guests: ${room.guestNames.join(", ")}`, muted: true }
+    ]),
+    ...(voucher.specialRequests
+      ? [
+          { text: "Special requests", size: 13, bold: true, spaceBefore: 16 } as PdfLine,
+          { text: voucher.specialRequests, spaceBefore: 4 }
+        ]
+      : []),
+    { text: "Please show this voucher at check-in. Special requests are subject to availability.", size: 9, muted: true, spaceBefore: 20 }
+  ];
+  return renderTextPdf(lines, `Booking voucher ${voucher.bookingId}`);
+}
+
+export async function loadVoucher(record: BookingRecord): Promise<Voucher> {
+  const prebook = await getPrebookSnapshot(record.prebookId).catch(() => null);
+  return buildVoucher(record, prebook);
+}
+
+/** Email the voucher (HTML body, PDF attached) to the lead guest. Never throws: the booking is already made. */
+export async function sendBookingVoucher(record: BookingRecord): Promise<void> {
+  try {
+    const voucher = await loadVoucher(record);
+    await sendMail({
+      to: [record.holder.email],
+      subject: `Your booking at ${voucher.hotel.name} – ${voucher.bookingId}`,
+      text: renderVoucherText(voucher),
+      html: renderVoucherHtml(voucher),
+      attachments: [
+        { filename: `voucher-${voucher.bookingId}.pdf`, contentType: "application/pdf", content: renderVoucherPdf(voucher) }
+      ]
+    });
+    await getBookingStore().update(record.id, { voucherSentAt: new Date().toISOString() });
+  } catch (err) {
+    console.error("Voucher: failed to send", record.id, err);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Account credit: what customers owe on account_credit bookings, against their segment's credit limit.
+ * A company's members share one credit line (debtor "account:<accountId>"); anyone else owes on their own.
+ * Book time reserves the debt (serialized per debtor so two bookings cannot both take the last of the limit),
+ * confirmation charges it, a failed or cancelled booking releases it and admin settles it once the invoice is paid.
+ */
+
+import type { UserProfile } from "@/auth/types";
+import { getCollection } from "@/lib/data-store";
+import { convertAmount, roundMoney } from "@/lib/fx";
+import { withKeyedLock } from "@/lib/keyed-lock";
+import type { AccountCreditEntry, AccountCreditStatus } from "./types";
+
+const COLLECTION = "account_credit";
+
+/** Debts that still use up the credit limit. */
+const OUTSTANDING: AccountCreditStatus[] = ["reserved", "charged"];
+
+type Money = { amount: number; currency: string };
+
+export type AccountCreditCheck = { ok: true } | { ok: false; available: Money };
+
+function entries() {
+  return getCollection<AccountCreditEntry>(COLLECTION);
+}
+
+export function getAccountCreditDebtor(profile: UserProfile): string {
+  return profile.accountId ? `account:${profile.accountId}` : `user:${profile.userId}`;
+}
+
+/** Debts of one debtor (or all), newest first; optionally only one status. */
+export async function listAccountCreditEntries(
+  filter: { debtorId?: string; status?: AccountCreditStatus } = {}
+): Promise<AccountCreditEntry[]> {
+  const all = await entries().list();
+  return all
+    .filter((e) => (!filter.debtorId || e.debtorId === filter.debtorId) && (!filter.status || e.status === filter.status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Outstanding (reserved + charged) debt of a debtor in the limit's currency; null when a debt's currency cannot
+ * be converted.
+ */
+export async function getAccountCreditOwed(
+  debtorId: string,
+  currency: string,
+  excludePrebookId?: string
+): Promise<number | null> {
+  let owed = 0;
+  for (const entry of await listAccountCreditEntries({ debtorId })) {
+    if (entry.id === excludePrebookId || !OUTSTANDING.includes(entry.status)) continue;
+    const converted = convertAmount(entry.amount.amount, entry.amount.currency, currency);
+    if (converted == null) return null;
+    owed += converted;
+  }
+  return roundMoney(owed);
+}
+
+/** Whether amount still fits under the limit (the checkout quote's check; booking re-checks under the lock). */
+export async function checkAccountCredit(input: {
+  profile: UserProfile;
+  limit: Money;
+  amount: Money;
+  excludePrebookId?: string;
+}): Promise<AccountCreditCheck> {
+  const owed = await getAccountCreditOwed(
+    getAccountCreditDebtor(input.profile),
+    input.limit.currency,
+    input.excludePrebookId
+  );
+  const needed = convertAmount(input.amount.amount, input.amount.currency, input.limit.currency);
+  const available = owed == null ? 0 : roundMoney(Math.max(0, input.limit.amount - owed));
+  if (needed != null && owed != null && needed <= available + 0.005) return { ok: true };
+  return { ok: false, available: { amount: available, currency: input.limit.currency } };
+}
+
+/** Book time: check the limit and reserve the debt for this prebook. */
+export function reserveAccountCredit(input: {
+  prebookId: string;
+  profile: UserProfile;
+  limit: Money;
+  amount: Money;
+}): Promise<AccountCreditCheck> {
+  const debtorId = getAccountCreditDebtor(input.profile);
+  return withKeyedLock(`account-credit:${debtorId}`, async () => {
+    const check = await checkAccountCredit({ ...input, excludePrebookId: input.prebookId });
+    if (!check.ok) return check;
+    const now = new Date().toISOString();
+    const existing = await entries().get(input.prebookId);
+    await entries().put(input.prebookId, {
+      id: input.prebookId,
+      debtorId,
+      userId: input.profile.userId,
+      amount: { amount: roundMoney(input.amount.amount), currency: input.amount.currency },
+      status: "reserved",
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    });
+    return check;
+  });
+}
+
+async function setStatus(
+  prebookId: string,
+  from: AccountCreditStatus[],
+  status: AccountCreditStatus,
+  patch: Partial<AccountCreditEntry> = {}
+): Promise<AccountCreditEntry | null> {
+  return entries().update(prebookId, (current) =>
+    current && from.includes(current.status)
+      ? { ...current, ...patch, status, updatedAt: new Date().toISOString() }
+      : null
+  );
+}
+
+/** Booking confirmed: the reserved debt is owed until the invoice is settled. */
+export async function chargeAccountCredit(prebookId: string, bookingId?: string): Promise<void> {
+  await setStatus(prebookId, ["reserved"], "charged", bookingId ? { bookingId } : {});
+}
+
+/** Booking failed or was cancelled: the debt no longer counts toward the limit. */
+export async function releaseAccountCredit(prebookId: string): Promise<void> {
+  await setStatus(prebookId, OUTSTANDING, "released");
+}
+
+/** Invoice paid: frees the credit. Null when there is no charged debt for the prebook. */
+export async function settleAccountCredit(prebookId: string): Promise<AccountCreditEntry | null> {
+  const settled = await setStatus(prebookId, ["charged"], "settled");
+  return settled?.status === "settled" ? settled : null;
+}
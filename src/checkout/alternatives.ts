@@ -0,0 +1,89 @@
+/**
+ * Nearest equivalent offers for one that can no longer be prebooked: same room name, board and
+ * refundability score highest, then the price closest to the one the user picked.
+ */
+
+import type { AlternativeOffer } from "./types";
+
+const MAX_ALTERNATIVES = 3;
+
+export interface AlternativeOfferCriteria {
+  roomName?: string;
+  boardName?: string;
+  refundableTag?: string;
+  /** Price of the offer the user picked (for ordering). */
+  price?: number;
+  excludeOfferId?: string;
+}
+
+function normalizeName(value: string | undefined): string {
+  return (value ?? "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function isRefundable(tag: string | undefined): boolean {
+  return tag !== "NRF" && tag !== "NRFN";
+}
+
+function roomNamesMatch(a: string, b: string): boolean {
+  return a !== "" && b !== "" && (a === b || a.includes(b) || b.includes(a));
+}
+
+/** Offer-level total (offerRetailRate), else the sum of rate totals; same as the hotel page. */
+function offerPrice(rt: any): { amount: number; currency: string } | null {
+  const offerLevel = rt?.offerRetailRate ?? rt?.suggestedSellingPrice;
+  if (typeof offerLevel?.amount === "number") {
+    return { amount: offerLevel.amount, currency: String(offerLevel.currency ?? "USD") };
+  }
+  let amount = 0;
+  let currency: string | undefined;
+  for (const r of rt?.rates ?? []) {
+    const total = r?.retailRate?.total?.[0];
+    if (typeof total?.amount === "number") {
+      amount += total.amount;
+      currency = total.currency;
+    }
+  }
+  return amount > 0 ? { amount, currency: currency ?? "USD" } : null;
+}
+
+/** Best matches from a /hotels/rates response for one hotel, at most one per room/board/refundability. */
+export function findAlternativeOffers(ratesResponse: any, criteria: AlternativeOfferCriteria): AlternativeOffer[] {
+  const roomTypes: any[] = ratesResponse?.data?.[0]?.roomTypes ?? [];
+  const wantedRoom = normalizeName(criteria.roomName);
+  const wantedBoard = normalizeName(criteria.boardName);
+  const wantedRefundable = criteria.refundableTag ? isRefundable(criteria.refundableTag) : undefined;
+
+  const candidates: { offer: AlternativeOffer; score: number }[] = [];
+  for (const rt of roomTypes) {
+    const firstRate = rt?.rates?.[0];
+    const price = offerPrice(rt);
+    if (!rt?.offerId || !firstRate || !price || rt.offerId === criteria.excludeOfferId) continue;
+    const roomName = String(firstRate.name ?? "Room");
+    const boardName = String(firstRate.boardName ?? "Room Only");
+    const refundableTag: string | undefined = firstRate.cancellationPolicies?.refundableTag;
+    const matches = {
+      room: roomNamesMatch(normalizeName(roomName), wantedRoom),
+      board: wantedBoard !== "" && normalizeName(boardName) === wantedBoard,
+      refundability: wantedRefundable != null && isRefundable(refundableTag) === wantedRefundable
+    };
+    candidates.push({
+      offer: { offerId: String(rt.offerId), roomName, boardName, refundableTag, price, matches },
+      score: (matches.room ? 4 : 0) + (matches.board ? 2 : 0) + (matches.refundability ? 1 : 0)
+    });
+  }
+
+  const distance = ({ offer }: { offer: AlternativeOffer }) =>
+    criteria.price != null ? Math.abs(offer.price.amount - criteria.price) : offer.price.amount;
+  candidates.sort((a, b) => b.score - a.score || distance(a) - distance(b));
+
+  const seen = new Set<string>();
+  const result: AlternativeOffer[] = [];
+  for (const { offer } of candidates) {
+    const key = `${normalizeName(offer.roomName)}|${normalizeName(offer.boardName)}|${isRefundable(offer.refundableTag)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(offer);
+    if (result.length === MAX_ALTERNATIVES) break;
+  }
+  return result;
+}
@@ -0,0 +1,45 @@
+/**
+ * Checkout quotes (server only): itemised, signed price for a prebook, verified at book time,
+ * the payment modes a prebook can be booked with (and account credit owed on account_credit bookings),
+ * and what to offer when a prebook fails.
+ */
+
+export type {
+  AccountCreditEntry,
+  AccountCreditStatus,
+  AlternativeOffer,
+  BedPreference,
+  CheckoutQuote,
+  PaymentMode,
+  PrebookFailureCode,
+  QuotePriceChange,
+  QuotePromo,
+  QuoteVerificationError,
+  SignedCheckoutQuote,
+  SpecialRequestOption,
+  SpecialRequests
+} from "./types";
+export type { AccountCreditCheck } from "./account-credit";
+export type { AlternativeOfferCriteria } from "./alternatives";
+export type { PrebookFailure } from "./prebook-failures";
+export type { QuoteVerification } from "./quote";
+export {
+  chargeAccountCredit,
+  checkAccountCredit,
+  getAccountCreditDebtor,
+  getAccountCreditOwed,
+  listAccountCreditEntries,
+  releaseAccountCredit,
+  reserveAccountCredit,
+  settleAccountCredit
+} from "./account-credit";
+export { findAlternativeOffers } from "./alternatives";
+export { buildCheckoutQuote, getQuotePriceChange, isCheckoutQuoteFor, verifyCheckoutQuote } from "./quote";
+export { classifyPrebookFailure } from "./prebook-failures";
+export { acceptsPromoCodes, getAvailablePaymentModes, isPaymentMode, PAYMENT_MODES, toBookPayment } from "./payment-modes";
+export {
+  describeSpecialRequestOptions,
+  formatSpecialRequests,
+  MAX_SPECIAL_REQUEST_NOTE_LENGTH,
+  parseSpecialRequests
+} from "./special-requests";
@@ -0,0 +1,66 @@
+/**
+ * Payment modes offered at checkout and accepted at book time. pay_now is always available; the pay-later
+ * modes come from the user's segment and, for pay-at-property, from the prebooked rate itself.
+ */
+
+import type { PrebookSnapshot } from "@/bookings/prebooks";
+import type { Channel } from "@/lib/channel-keys";
+import type { BookPayment } from "@/lib/liteapi";
+import type { Segment } from "@/segments/types";
+import type { PaymentMode } from "./types";
+
+export const PAYMENT_MODES: PaymentMode[] = ["pay_now", "account_credit", "pay_at_property"];
+
+export function isPaymentMode(value: unknown): value is PaymentMode {
+  return typeof value === "string" && (PAYMENT_MODES as string[]).includes(value);
+}
+
+/**
+ * Modes a promo code can discount: only account_credit, which we invoice ourselves. The payment SDK charges the card
+ * the prebook price and the hotel charges pay_at_property guests its own, so checkout hides promo codes for them.
+ */
+export function acceptsPromoCodes(mode: PaymentMode): boolean {
+  return mode === "account_credit";
+}
+
+/** True when every rate in the prebook lists PROPERTY_PAY among its payment types. */
+function allowsPayAtProperty(data: Record<string, unknown>): boolean {
+  const rates = (Array.isArray(data.roomTypes) ? data.roomTypes : []).flatMap((rt: any) =>
+    Array.isArray(rt?.rates) ? rt.rates : []
+  );
+  return (
+    rates.length > 0 &&
+    rates.every((r: any) => Array.isArray(r?.paymentTypes) && r.paymentTypes.includes("PROPERTY_PAY"))
+  );
+}
+
+/**
+ * Modes this user may pay this prebook with, pay_now first. Pay-later modes are never offered on b2c, and
+ * account_credit only with a segment credit limit (whether the booking fits under it is checked separately).
+ */
+export function getAvailablePaymentModes(input: {
+  channel: Channel;
+  segment: Segment | null;
+  prebook: PrebookSnapshot;
+}): PaymentMode[] {
+  const modes: PaymentMode[] = ["pay_now"];
+  if (input.channel !== "cug") return modes;
+  for (const mode of input.segment?.paymentModes ?? []) {
+    if (mode === "pay_at_property" && !allowsPayAtProperty(input.prebook.data)) continue;
+    if (mode === "account_credit" && !input.segment?.creditLimit) continue;
+    if (!modes.includes(mode)) modes.push(mode);
+  }
+  return modes;
+}
+
+/** LiteAPI payment for a mode; pay_now needs the payment SDK transaction. */
+export function toBookPayment(mode: PaymentMode, transactionId: string): BookPayment {
+  switch (mode) {
+    case "pay_now":
+      return { method: "TRANSACTION_ID", transactionId };
+    case "account_credit":
+      return { method: "ACC_CREDIT_CARD" };
+    case "pay_at_property":
+      return { method: "PROPERTY_PAY" };
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Prebook failures: LiteAPI answers with a message (and sometimes a numeric code) rather than a reason,
+ * so the reason is read from the message. Checkout shows a matching message and, for sold-out, changed or
+ * expired offers, equivalent offers from a fresh rates call (see ./alternatives).
+ */
+
+import type { PrebookFailureCode } from "./types";
+
+export interface PrebookFailure {
+  code: PrebookFailureCode;
+  status: number;
+  /** User-facing; the LiteAPI message is only logged. */
+  message: string;
+}
+
+// Only wording about the room or rate itself: a gateway's "Service Unavailable" is not a sold-out room
+const SOLD_OUT_PATTERN =
+  /sold.?out|no (longer )?availab|(room|rate|offer|inventory)s?.{0,20}(not available|unavailable)|no rooms?\b|allotment/i;
+const PRICE_CHANGED_PATTERN = /price.{0,20}(changed|mismatch|increase|differ)|rate.{0,20}changed/i;
+const EXPIRED_PATTERN = /expired|invalid offer|offer.{0,20}(invalid|not found)/i;
+
+const FAILURES: Record<PrebookFailureCode, Omit<PrebookFailure, "code">> = {
+  SOLD_OUT: { status: 409, message: "This room has just sold out." },
+  PRICE_CHANGED: { status: 409, message: "The hotel changed the price of this room." },
+  OFFER_EXPIRED: { status: 410, message: "This offer has expired." },
+  SUPPLIER_ERROR: {
+    status: 502,
+    message: "The hotel's booking system did not respond. Please try again in a moment."
+  },
+  PREBOOK_FAILED: {
+    status: 502,
+    message: "We could not reserve this room. Please choose it again from the hotel page."
+  }
+};
+
+/** LiteAPI answers the offer was not found or is gone. */
+const OFFER_GONE_STATUSES = [404, 410];
+/** Worth retrying as is: timeouts and rate limiting, like a 5xx. */
+const RETRY_STATUSES = [408, 429];
+
+/**
+ * Classify a prebookRate error. Null when LiteAPI never answered (config or network errors).
+ * Any other 4xx (bad request, auth) is our request being refused, not the offer: PREBOOK_FAILED, never a retry.
+ */
+export function classifyPrebookFailure(err: unknown): PrebookFailure | null {
+  const status = (err as { status?: unknown } | null)?.status;
+  if (typeof status !== "number") return null;
+  const text = String((err as Error).message ?? "");
+  let code: PrebookFailureCode;
+  if (PRICE_CHANGED_PATTERN.test(text)) code = "PRICE_CHANGED";
+  else if (SOLD_OUT_PATTERN.test(text)) code = "SOLD_OUT";
+  else if (EXPIRED_PATTERN.test(text) || OFFER_GONE_STATUSES.includes(status)) code = "OFFER_EXPIRED";
+  else if (status >= 500 || RETRY_STATUSES.includes(status)) code = "SUPPLIER_ERROR";
+  else code = "PREBOOK_FAILED";
+  return { code, ...FAILURES[code] };
+}
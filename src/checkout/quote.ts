@@ -0,0 +1,195 @@
+/**
+ * Server-authoritative checkout quote: itemised from our stored prebook snapshot (never from browser numbers),
+ * signed, and verified again by /api/rates/book before LiteAPI is called.
+ */
+
+import type { UserProfile } from "@/auth/types";
+import { getPrebookExpiresAt, type PrebookSnapshot } from "@/bookings/prebooks";
+import { roundMoney } from "@/lib/fx";
+import { evaluatePromo } from "@/promo/engine";
+import { randomUUID } from "crypto";
+import { acceptsPromoCodes } from "./payment-modes";
+import { decodeQuote, encodeQuote } from "./token";
+import type {
+  CheckoutQuote,
+  PaymentMode,
+  QuotePriceChange,
+  QuotePromo,
+  QuoteVerificationError,
+  SignedCheckoutQuote
+} from "./types";
+
+/** Long enough to finish the payment step; never past the prebook's price hold (see buildCheckoutQuote). */
+const QUOTE_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Included taxes and commission are per rate → summed across all rates.
+ * Pay-at-property fees are the stay total repeated on every rate → counted once (first rate only).
+ * Same rules as the checkout price summary (docs/PRICING_AND_CALCULATIONS.md).
+ */
+function itemiseRates(data: Record<string, unknown>): { includedTaxes: number; commission: number; localFees: number } {
+  let includedTaxes = 0;
+  let commission = 0;
+  let localFees = 0;
+  let localFeesCounted = false;
+  const roomTypes = Array.isArray(data.roomTypes) ? data.roomTypes : [];
+  for (const rt of roomTypes as any[]) {
+    for (const r of rt?.rates ?? []) {
+      const c = r?.commission?.[0]?.amount;
+      if (typeof c === "number") commission += c;
+      const taxes = r?.retailRate?.taxesAndFees;
+      if (Array.isArray(taxes)) {
+        for (const t of taxes) {
+          if (typeof t?.amount !== "number") continue;
+          if (t.included) includedTaxes += t.amount;
+          else if (!localFeesCounted) localFees += t.amount;
+        }
+      }
+      localFeesCounted = true;
+    }
+  }
+  return {
+    includedTaxes: roundMoney(includedTaxes),
+    commission: roundMoney(commission),
+    localFees: roundMoney(localFees)
+  };
+}
+
+export async function buildCheckoutQuote(
+  prebook: PrebookSnapshot,
+  options: { promoCode?: string; profile: UserProfile | null; paymentMode?: PaymentMode; now?: Date }
+): Promise<SignedCheckoutQuote> {
+  const paymentMode = options.paymentMode ?? "pay_now";
+  const now = options.now ?? new Date();
+  const subtotal = roundMoney(prebook.price);
+  const { includedTaxes, commission, localFees } = itemiseRates(prebook.data);
+
+  let discount = 0;
+  let promo: QuotePromo | undefined;
+  const code = options.promoCode?.trim().toUpperCase();
+  if (code && !acceptsPromoCodes(paymentMode)) {
+    promo = {
+      applied: false,
+      code,
+      reason: "PAYMENT_MODE",
+      message: "Promo codes can only be used when booking on account. Card and hotel payments are for the full price."
+    };
+  } else if (code) {
+    const evaluation = await evaluatePromo({
+      code,
+      amount: { amount: subtotal, currency: prebook.currency },
+      profile: options.profile,
+      now,
+      excludePrebookId: prebook.prebookId
+    });
+    if (evaluation.valid) {
+      const { rule } = evaluation;
+      discount = evaluation.discount.amount;
+      promo = {
+        applied: true,
+        code: rule.code,
+        type: rule.discount.type,
+        value: rule.discount.type === "percent" ? rule.discount.percent : rule.discount.amount,
+        ...(rule.discount.type === "fixed" && { currency: rule.discount.currency }),
+        message: evaluation.message
+      };
+    } else {
+      promo = { applied: false, code, reason: evaluation.reason, message: evaluation.message };
+    }
+  }
+
+  const payNow = roundMoney(subtotal - discount);
+  const quote: CheckoutQuote = {
+    quoteId: randomUUID(),
+    prebookId: prebook.prebookId,
+    offerId: prebook.offerId,
+    hotelId: prebook.hotelId,
+    currency: prebook.currency,
+    base: roundMoney(Math.max(0, subtotal - includedTaxes - commission)),
+    includedTaxes,
+    commission,
+    subtotal,
+    discount,
+    payNow,
+    localFees,
+    total: roundMoney(payNow + localFees),
+    ...(promo && { promo }),
+    paymentMode,
+    userId: options.profile?.userId,
+    issuedAt: now.toISOString(),
+    expiresAt: new Date(Math.min(now.getTime() + QUOTE_TTL_MS, getPrebookExpiresAt(prebook).getTime())).toISOString()
+  };
+  return { quote, token: encodeQuote(quote) };
+}
+
+/**
+ * Prebook price against the price shown before it (the hotel page's offerRetailRate, or the previous prebook
+ * after a re-prebook). Undefined when nothing changed or the shown price is in another currency.
+ */
+export function getQuotePriceChange(
+  shown: { amount: number; currency: string } | undefined,
+  prebook: PrebookSnapshot
+): QuotePriceChange | undefined {
+  if (!shown || shown.currency !== prebook.currency) return undefined;
+  const previous = roundMoney(shown.amount);
+  const current = roundMoney(prebook.price);
+  if (Math.abs(current - previous) < 0.005) return undefined;
+  return { currency: prebook.currency, previous, current, difference: roundMoney(current - previous) };
+}
+
+/**
+ * Replay of an already booked prebook: the caller proves it started this checkout with a genuine token for
+ * the prebook, issued to the booking's account. Expiry and price do not matter once the booking exists.
+ */
+export function isCheckoutQuoteFor(token: unknown, context: { prebookId: string; userId?: string }): boolean {
+  const quote = typeof token === "string" && token ? decodeQuote(token) : null;
+  return !!quote && quote.prebookId === context.prebookId && (quote.userId ?? null) === (context.userId ?? null);
+}
+
+export type QuoteVerification =
+  | { ok: true; quote: CheckoutQuote }
+  | { ok: false; code: QuoteVerificationError; message: string };
+
+/**
+ * Book time: the token must be ours, unexpired, for this prebook, account and payment mode, and priced on the
+ * same prebook snapshot. The promo discount is re-checked by the caller when it locks the redemption.
+ * paymentTaken: the card was already charged against this prebook. The quote's lifetime (and so the price hold)
+ * only gates starting the payment; after it, LiteAPI decides whether the prebook can still be booked.
+ */
+export function verifyCheckoutQuote(
+  token: string,
+  context: {
+    prebookId: string;
+    userId?: string;
+    prebook: PrebookSnapshot | null;
+    paymentMode: PaymentMode;
+    paymentTaken?: boolean;
+    now?: Date;
+  }
+): QuoteVerification {
+  const quote = decodeQuote(token);
+  if (!quote) {
+    return { ok: false, code: "QUOTE_INVALID", message: "Your price quote could not be verified." };
+  }
+  if (quote.prebookId !== context.prebookId) {
+    return { ok: false, code: "QUOTE_PREBOOK_MISMATCH", message: "Your price quote is for a different reservation." };
+  }
+  if ((quote.userId ?? null) !== (context.userId ?? null)) {
+    return { ok: false, code: "QUOTE_USER_MISMATCH", message: "Your price quote was issued to a different account." };
+  }
+  if (quote.paymentMode !== context.paymentMode) {
+    return {
+      ok: false,
+      code: "QUOTE_PAYMENT_MODE_MISMATCH",
+      message: "Your price quote was for a different payment option."
+    };
+  }
+  if (!context.paymentTaken && Date.parse(quote.expiresAt) <= (context.now ?? new Date()).getTime()) {
+    return { ok: false, code: "QUOTE_EXPIRED", message: "Your price quote has expired." };
+  }
+  const { prebook } = context;
+  if (!prebook || roundMoney(prebook.price) !== quote.subtotal || prebook.currency !== quote.currency) {
+    return { ok: false, code: "QUOTE_PRICE_CHANGED", message: "The price of this reservation has changed." };
+  }
+  return { ok: true, quote };
+}
@@ -0,0 +1,62 @@
+/**
+ * Special requests: the structured options and free-text note from checkout, and the remarks text sent to
+ * LiteAPI with the booking. Safe to import from client components.
+ */
+
+import type { BedPreference, SpecialRequestOption, SpecialRequests } from "./types";
+
+/** Same limit as the checkout textarea. */
+export const MAX_SPECIAL_REQUEST_NOTE_LENGTH = 500;
+
+export const SPECIAL_REQUEST_OPTION_LABELS: Record<SpecialRequestOption, string> = {
+  early_checkin: "Early check-in",
+  late_checkout: "Late check-out",
+  high_floor: "High floor",
+  quiet_room: "Quiet room",
+  adjacent_rooms: "Adjacent rooms"
+};
+
+export const BED_PREFERENCE_LABELS: Record<BedPreference, string> = {
+  double: "Double bed",
+  twin: "Twin beds"
+};
+
+const OPTIONS = Object.keys(SPECIAL_REQUEST_OPTION_LABELS) as SpecialRequestOption[];
+
+/**
+ * Normalise special requests from a request body. A plain string is treated as the note (older clients).
+ * Unknown options are dropped; undefined when nothing is left.
+ */
+export function parseSpecialRequests(value: unknown): SpecialRequests | undefined {
+  const raw: Record<string, unknown> =
+    typeof value === "string" ? { note: value } : value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const options = Array.isArray(raw.options)
+    ? OPTIONS.filter((o) => (raw.options as unknown[]).includes(o))
+    : [];
+  const bedPreference =
+    typeof raw.bedPreference === "string" && raw.bedPreference in BED_PREFERENCE_LABELS
+      ? (raw.bedPreference as BedPreference)
+      : undefined;
+  const note =
+    typeof raw.note === "string" && raw.note.trim() !== ""
+      ? raw.note.trim().slice(0, MAX_SPECIAL_REQUEST_NOTE_LENGTH)
+      : undefined;
+  if (options.length === 0 && !bedPreference && !note) return undefined;
+  return { options, ...(bedPreference && { bedPreference }), ...(note && { note }) };
+}
+
+/** Labels for the picked options and bed preference, in display order (the note is not included). */
+export function describeSpecialRequestOptions(requests: SpecialRequests): string[] {
+  return [
+    ...requests.options.map((o) => SPECIAL_REQUEST_OPTION_LABELS[o]),
+    ...(requests.bedPreference ? [BED_PREFERENCE_LABELS[requests.bedPreference]] : [])
+  ];
+}
+
+/** One line for LiteAPI's remarks and the voucher, e.g. "Early check-in; Twin beds. Arriving by train". */
+export function formatSpecialRequests(requests: SpecialRequests | undefined): string | undefined {
+  if (!requests) return undefined;
+  const picked = describeSpecialRequestOptions(requests).join("; ");
+  const text = [picked, requests.note].filter(Boolean).join(". ");
+  return text || undefined;
+}
@@ -0,0 +1,54 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { CheckoutQuote } from "./types";
+
+const SEP = ".";
+
+function getSecret(): string {
+  const secret =
+    process.env.QUOTE_SIGNING_SECRET ??
+    process.env.AUTH_COOKIE_SECRET ??
+    process.env.SESSION_SECRET ??
+    (process.env.NODE_ENV === "development"
+      ? "dev-secret-min-16-chars"
+      : undefined);
+  if (!secret || secret.length < 16) {
+    throw new Error(
+      "QUOTE_SIGNING_SECRET (or AUTH_COOKIE_SECRET) must be set (min 16 chars) for checkout quotes"
+    );
+  }
+  return secret;
+}
+
+/**
+ * Quotes are signed with a key derived for them, never with the configured secret itself: it may be the auth
+ * cookie secret, and a quote signature must never verify as a cookie (or the other way round).
+ */
+function getSigningKey(): Buffer {
+  return createHmac("sha256", getSecret()).update("checkout-quote").digest();
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSigningKey()).update(payload).digest("base64url");
+}
+
+export function encodeQuote(quote: CheckoutQuote): string {
+  const encoded = Buffer.from(JSON.stringify(quote), "utf8").toString("base64url");
+  return `${encoded}${SEP}${sign(encoded)}`;
+}
+
+/** Quote from a token, or null when the token is malformed or the signature does not match. */
+export function decodeQuote(token: string): CheckoutQuote | null {
+  const i = token.indexOf(SEP);
+  if (i === -1) return null;
+  const encoded = token.slice(0, i);
+  const signature = token.slice(i + 1);
+  try {
+    const sigBuf = Buffer.from(signature, "base64url");
+    const expectedBuf = Buffer.from(sign(encoded), "base64url");
+    if (sigBuf.length !== expectedBuf.length || !timingSafeEqual(sigBuf, expectedBuf)) return null;
+    const quote = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8")) as CheckoutQuote;
+    return quote?.quoteId && quote?.prebookId ? quote : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Checkout quote types: the itemised price we show at checkout and verify at book time.
+ */
+
+/**
+ * How a booking is paid. pay_now: card through the LiteAPI payment SDK (the default, always offered).
+ * account_credit: booked on our LiteAPI account credit and invoiced to the customer or company later.
+ * pay_at_property: booked with LiteAPI's PROPERTY_PAY method, nothing charged by us; the guest pays the hotel
+ * (only for rates LiteAPI marks PROPERTY_PAY).
+ * The alternatives are enabled per segment (Segment.paymentModes) and only for signed-in (CUG) users.
+ */
+export type PaymentMode = "pay_now" | "account_credit" | "pay_at_property";
+
+/**
+ * An account_credit booking's debt: reserved at book time (counts toward the credit limit), charged once LiteAPI
+ * confirms it, settled when the invoice is paid. Released when the booking fails or is cancelled.
+ */
+export type AccountCreditStatus = "reserved" | "charged" | "settled" | "released";
+
+export interface AccountCreditEntry {
+  /** The prebookId (one debt per booking). */
+  id: string;
+  /** Who owes it: "account:<accountId>" for a company (its members share one limit), else "user:<userId>". */
+  debtorId: string;
+  userId: string;
+  /** What the customer owes: the quote's payNow. */
+  amount: { amount: number; currency: string };
+  status: AccountCreditStatus;
+  bookingId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Promo part of a quote: the code the engine accepted, or why it refused it. */
+export type QuotePromo =
+  | {
+      applied: true;
+      code: string;
+      type: "percent" | "fixed";
+      /** Percent, or fixed amount in `currency`. */
+      value: number;
+      currency?: string;
+      message: string;
+    }
+  | { applied: false; code: string; reason: string; message: string };
+
+/**
+ * Itemised quote for one prebook and payment mode. All amounts are in `currency` (the prebook currency), rounded
+ * to 2 decimals. subtotal = base + includedTaxes + commission = prebook price; payNow = subtotal - discount;
+ * total = payNow + localFees (local fees are paid at the property).
+ * A promo discount only applies to account_credit, the one mode where we bill the amount: the payment SDK charges
+ * the card the prebook price and the hotel charges pay_at_property guests its own.
+ */
+export interface CheckoutQuote {
+  /** Random id, recorded on the ledger booking. */
+  quoteId: string;
+  prebookId: string;
+  offerId?: string;
+  hotelId?: string;
+  currency: string;
+  base: number;
+  includedTaxes: number;
+  commission: number;
+  subtotal: number;
+  discount: number;
+  payNow: number;
+  localFees: number;
+  total: number;
+  promo?: QuotePromo;
+  /** Payment mode the quote is priced for; booking with another mode needs a new quote. */
+  paymentMode: PaymentMode;
+  /** Logged-in user the quote was issued to; a quote cannot be used by another account. */
+  userId?: string;
+  issuedAt: string;
+  /** Quote TTL, capped at the end of the prebook's price hold; checkout re-prebooks when it passes. */
+  expiresAt: string;
+}
+
+/** Quote plus its signature, as returned by /api/checkout/quote and sent back to /api/rates/book. */
+export interface SignedCheckoutQuote {
+  quote: CheckoutQuote;
+  /** base64url(quote JSON) + "." + HMAC; the server trusts the token, never the `quote` object sent alongside it. */
+  token: string;
+}
+
+/** Prebook price against the price the user was shown before (hotel page list price, or the previous prebook). */
+export interface QuotePriceChange {
+  currency: string;
+  previous: number;
+  current: number;
+  /** current - previous; positive when the price went up. */
+  difference: number;
+}
+
+/** Why POST /api/rates/prebook failed, as shown at checkout (see classifyPrebookFailure). */
+export type PrebookFailureCode = "SOLD_OUT" | "PRICE_CHANGED" | "OFFER_EXPIRED" | "SUPPLIER_ERROR" | "PREBOOK_FAILED";
+
+/** Offer from a fresh rates call, suggested when the one the user picked can no longer be prebooked. */
+export interface AlternativeOffer {
+  offerId: string;
+  roomName: string;
+  boardName: string;
+  refundableTag?: string;
+  /** Total to pay now (offerRetailRate), like the hotel page list price. */
+  price: { amount: number; currency: string };
+  /** Which attributes match the offer the user picked. */
+  matches: { room: boolean; board: boolean; refundability: boolean };
+}
+
+export type QuoteVerificationError =
+  | "QUOTE_INVALID"
+  | "QUOTE_EXPIRED"
+  | "QUOTE_PREBOOK_MISMATCH"
+  | "QUOTE_USER_MISMATCH"
+  | "QUOTE_PRICE_CHANGED"
+  | "QUOTE_PAYMENT_MODE_MISMATCH";
+
+/** Structured special requests picked at checkout (forwarded to the hotel as booking remarks). */
+export type SpecialRequestOption = "early_checkin" | "late_checkout" | "high_floor" | "quiet_room" | "adjacent_rooms";
+
+export type BedPreference = "double" | "twin";
+
+export interface SpecialRequests {
+  options: SpecialRequestOption[];
+  bedPreference?: BedPreference;
+  /** Free text from the checkout field (max 500 characters). */
+  note?: string;
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { HomeIcon, SearchIcon, UserIcon } from "@/components/Icons";
+import { CalendarIcon, HomeIcon, SearchIcon, UserIcon } from "@/components/Icons";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 
@@ -14,6 +14,7 @@ export function BottomNav({ onSearchClick, visible = true }: BottomNavProps) {
   const pathname = usePathname();
   const isHome = pathname === "/";
   const isProfileSection = pathname === "/profile" || pathname === "/login";
+  const isTrips = pathname === "/trips";
 
   return (
     <nav
@@ -46,6 +47,20 @@ export function BottomNav({ onSearchClick, visible = true }: BottomNavProps) {
         <span className="text-xs font-medium">Search</span>
       </button>
 
+      <Link
+        href="/trips"
+        className={`flex flex-col items-center gap-0.5 min-w-[64px] py-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--primary)] ${
+          isTrips
+            ? "text-[var(--primary)] font-semibold"
+            : "text-[var(--dark-text)] hover:text-[var(--primary)]"
+        }`}
+        aria-label="Trips"
+        aria-current={isTrips ? "page" : undefined}
+      >
+        <CalendarIcon className="w-6 h-6" />
+        <span className="text-xs font-medium">Trips</span>
+      </Link>
+
       <Link
         href="/profile"
         className={`flex flex-col items-center gap-0.5 min-w-[64px] py-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--primary)] ${
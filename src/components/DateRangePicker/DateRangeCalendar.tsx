@@ -1,6 +1,7 @@
 "use client";
 
 import {
+  formatDateForInput,
   getDayNamesShort,
   getDaysInMonth,
   getFirstDayOfMonth,
@@ -9,17 +10,52 @@ import {
   isPastDay,
   isSameDay,
 } from "@/lib/date-utils";
+import type { FlexibleDatePrice, PriceLevel } from "@/search/flexible";
 import { useState } from "react";
 
 const INITIAL_MONTHS = 4;
 const LOAD_MORE_MONTHS = 3;
 
+/** Heat-map cell for a check-in day (flexible dates). */
+export interface DateRangeCalendarPrice {
+  /** Short price shown under the day, e.g. "1.2K". */
+  label: string;
+  level: PriceLevel;
+  /** Check-out of the priced stay, so a picker can select the whole stay from its check-in. */
+  checkout?: string;
+}
+
+/** Heat-map cells from flexible-dates prices, labelled compactly (e.g. "1.2K") to fit under the day. */
+export function toCalendarPrices(
+  prices: FlexibleDatePrice[],
+  locale?: string
+): Record<string, DateRangeCalendarPrice> {
+  const format = new Intl.NumberFormat(locale, { notation: "compact", maximumFractionDigits: 1 });
+  return Object.fromEntries(
+    prices.map((p) => [p.checkin, { label: format.format(p.amount), level: p.level, checkout: p.checkout }])
+  );
+}
+
+const PRICE_LEVEL_CLASSES: Record<PriceLevel, string> = {
+  low: "bg-[var(--primary)]/15",
+  mid: "bg-[var(--star)]/15",
+  high: "bg-[var(--dark-text)]/10"
+};
+
+const PRICE_LABEL_CLASSES: Record<PriceLevel, string> = {
+  low: "text-[var(--primary)]",
+  mid: "text-[var(--star)]",
+  high: "text-[var(--muted-foreground)]"
+};
+
 export interface DateRangeCalendarProps {
   minDate: Date;
   startDate: Date | null;
   endDate: Date | null;
   onSelect: (date: Date) => void;
   locale?: string;
+  /** Price heat-map by check-in day (YYYY-MM-DD); days without an entry render as usual. */
+  prices?: Record<string, DateRangeCalendarPrice>;
 }
 
 export function DateRangeCalendar({
@@ -28,6 +64,7 @@ export function DateRangeCalendar({
   endDate,
   onSelect,
   locale,
+  prices,
 }: DateRangeCalendarProps) {
   const [visibleMonthCount, setVisibleMonthCount] = useState(INITIAL_MONTHS);
   const today = new Date(minDate.getFullYear(), minDate.getMonth(), minDate.getDate());
@@ -90,6 +127,8 @@ export function DateRangeCalendar({
                   startDate !== null &&
                   endDate !== null &&
                   isInRange(date, startDate, endDate);
+                const price = isPast ? undefined : prices?.[formatDateForInput(date)];
+                const isPlain = !isStart && !isEnd && !inRange;
 
                 const handleClick = () => {
                   if (isPast) return;
@@ -100,7 +139,11 @@ export function DateRangeCalendar({
                   <div
                     key={i}
                     role="gridcell"
-                    aria-label={date.toLocaleDateString(locale)}
+                    aria-label={
+                      price
+                        ? `${date.toLocaleDateString(locale)}, from ${price.label}`
+                        : date.toLocaleDateString(locale)
+                    }
                     aria-disabled={isPast}
                     className="relative aspect-square flex items-center justify-center"
                   >
@@ -117,8 +160,9 @@ export function DateRangeCalendar({
                       onClick={handleClick}
                       disabled={isPast}
                       className={`
-                        relative z-10 w-full aspect-square flex items-center justify-center text-sm font-medium
-                        transition-colors rounded-full
+                        relative z-10 w-full aspect-square flex flex-col items-center justify-center text-sm font-medium
+                        transition-colors ${price ? "rounded-lg" : "rounded-full"}
+                        ${price && isPlain ? PRICE_LEVEL_CLASSES[price.level] : ""}
                         ${isPast
                           ? "text-[var(--muted-foreground)] line-through cursor-not-allowed"
                           : "cursor-pointer"
@@ -134,6 +178,13 @@ export function DateRangeCalendar({
                       `}
                     >
                       {day}
+                      {price && (
+                        <span
+                          className={`text-[10px] leading-none font-semibold ${isPlain ? PRICE_LABEL_CLASSES[price.level] : ""}`}
+                        >
+                          {price.label}
+                        </span>
+                      )}
                     </button>
                   </div>
                 );
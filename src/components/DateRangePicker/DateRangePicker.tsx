@@ -1,6 +1,8 @@
 "use client";
 
-import { DateRangeCalendar } from "./DateRangeCalendar";
+import { DateRangeCalendar, type DateRangeCalendarPrice } from "./DateRangeCalendar";
+import { FlexibleDatesToggle } from "./FlexibleDatesToggle";
+import type { FlexibleDates } from "@/search/flexible";
 import {
   addDays,
   compareDay,
@@ -24,6 +26,11 @@ export interface DateRangePickerProps {
   /** When provided, open state is controlled: no default trigger is rendered. */
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
+  /** Flexible-dates mode; the toggle is shown when onFlexibleDatesChange is provided. */
+  flexibleDates?: FlexibleDates | null;
+  onFlexibleDatesChange?: (value: FlexibleDates | null) => void;
+  /** Price heat-map by check-in day (see DateRangeCalendar). */
+  prices?: Record<string, DateRangeCalendarPrice>;
 }
 
 export function DateRangePicker({
@@ -36,6 +43,9 @@ export function DateRangePicker({
   locale,
   open: controlledOpen,
   onOpenChange,
+  flexibleDates = null,
+  onFlexibleDatesChange,
+  prices,
 }: DateRangePickerProps) {
   const [internalOpen, setInternalOpen] = useState(false);
   const open = onOpenChange !== undefined ? controlledOpen ?? false : internalOpen;
@@ -207,8 +217,17 @@ export function DateRangePicker({
               endDate={endDate}
               onSelect={handleDaySelect}
               locale={locale}
+              prices={prices}
             />
 
+            {onFlexibleDatesChange && (
+              <FlexibleDatesToggle
+                value={flexibleDates}
+                onChange={onFlexibleDatesChange}
+                className="flex flex-wrap gap-2 mt-3"
+              />
+            )}
+
             <div className="flex items-center justify-between gap-3 mt-4 pt-3 border-t border-slate-800">
               <button
                 ref={resetButtonRef}
@@ -0,0 +1,41 @@
+"use client";
+
+import { FLEXIBLE_DATES_LABELS, FLEXIBLE_DATES_OPTIONS, type FlexibleDates } from "@/search/flexible";
+
+export interface FlexibleDatesToggleProps {
+  /** null = exact dates only. */
+  value: FlexibleDates | null;
+  onChange: (value: FlexibleDates | null) => void;
+  className?: string;
+}
+
+/** "Exact dates" / "± 3 days" / "Cheapest week" chips under a date calendar. */
+export function FlexibleDatesToggle({ value, onChange, className }: FlexibleDatesToggleProps) {
+  const options: { value: FlexibleDates | null; label: string }[] = [
+    { value: null, label: "Exact dates" },
+    ...FLEXIBLE_DATES_OPTIONS.map((option) => ({ value: option, label: FLEXIBLE_DATES_LABELS[option] }))
+  ];
+  return (
+    <div className={className ?? "flex flex-wrap gap-2"} role="radiogroup" aria-label="Date flexibility">
+      {options.map((option) => {
+        const selected = option.value === value;
+        return (
+          <button
+            key={option.label}
+            type="button"
+            role="radio"
+            aria-checked={selected}
+            onClick={() => onChange(option.value)}
+            className={`rounded-full border px-3 py-1.5 text-xs font-medium transition-colors ${
+              selected
+                ? "border-[var(--dark-text)] bg-[var(--dark-text)] text-white"
+                : "border-[var(--sky-blue)] bg-white text-[var(--dark-text)] hover:bg-[var(--light-bg)]"
+            }`}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 export { DateRangePicker } from "./DateRangePicker";
 export type { DateRangePickerProps } from "./DateRangePicker";
-export { DateRangeCalendar } from "./DateRangeCalendar";
-export type { DateRangeCalendarProps } from "./DateRangeCalendar";
+export { DateRangeCalendar, toCalendarPrices } from "./DateRangeCalendar";
+export type { DateRangeCalendarPrice, DateRangeCalendarProps } from "./DateRangeCalendar";
+export { FlexibleDatesToggle } from "./FlexibleDatesToggle";
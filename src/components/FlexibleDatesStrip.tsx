@@ -0,0 +1,68 @@
+"use client";
+
+import { formatRangeShort, parseYYYYMMDD } from "@/lib/date-utils";
+import { cheapestFlexibleDate, type FlexibleDatePrice, type FlexibleDateWindow } from "@/search/flexible";
+
+export interface FlexibleDatesStripProps {
+  prices: FlexibleDatePrice[];
+  /** The stay currently shown; its card is marked as selected. */
+  checkin: string;
+  checkout: string;
+  onSelect: (window: FlexibleDateWindow) => void;
+  loading?: boolean;
+  locale?: string;
+}
+
+/** Horizontal strip of stays around the chosen dates with their price; the cheapest is highlighted. */
+export function FlexibleDatesStrip({ prices, checkin, checkout, onSelect, loading, locale }: FlexibleDatesStripProps) {
+  if (loading) {
+    return (
+      <div className="flex overflow-x-auto gap-2 pb-1 -mx-4 px-4" aria-busy="true" aria-label="Loading prices for other dates">
+        {[1, 2, 3, 4, 5].map((i) => (
+          <div key={i} className="flex-shrink-0 w-24 h-16 rounded-xl border border-[var(--sky-blue)] bg-[var(--muted)] animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+  if (prices.length === 0) return null;
+
+  const cheapest = cheapestFlexibleDate(prices);
+  return (
+    <div className="flex overflow-x-auto gap-2 pb-1 -mx-4 px-4" role="list" aria-label="Prices for other dates">
+      {prices.map((p) => {
+        const start = parseYYYYMMDD(p.checkin);
+        const end = parseYYYYMMDD(p.checkout);
+        const isSelected = p.checkin === checkin && p.checkout === checkout;
+        const isCheapest = cheapest?.checkin === p.checkin;
+        return (
+          <button
+            key={p.checkin}
+            type="button"
+            role="listitem"
+            onClick={() => onSelect(p)}
+            aria-current={isSelected ? "date" : undefined}
+            className={`flex-shrink-0 min-w-24 rounded-xl border px-3 py-2 text-left transition-colors ${
+              isSelected
+                ? "border-[var(--dark-text)] bg-[var(--light-bg)]"
+                : isCheapest
+                  ? "border-[var(--primary)] bg-[var(--primary)]/10 hover:bg-[var(--primary)]/15"
+                  : "border-[var(--sky-blue)] bg-white hover:bg-[var(--light-bg)]"
+            }`}
+          >
+            <span className="block text-xs text-[var(--muted-foreground)] whitespace-nowrap">
+              {start && end ? formatRangeShort(start, end, locale) : p.checkin}
+            </span>
+            <span
+              className={`block text-sm font-semibold whitespace-nowrap ${isCheapest ? "text-[var(--primary)]" : "text-[var(--dark-text)]"}`}
+            >
+              {p.currency} {p.amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+            </span>
+            {isCheapest && (
+              <span className="block text-[10px] font-semibold uppercase tracking-wide text-[var(--primary)]">Cheapest</span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
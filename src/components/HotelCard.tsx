@@ -1,27 +1,17 @@
 "use client";
 
 import { HeartIcon, HeartIconFilled, MapPinIcon } from "@/components/Icons";
+import { describePolicyViolations } from "@/corporate/policy";
+import type { PolicyCheck } from "@/corporate/types";
 import { formatDistance } from "@/lib/distance-utils";
+import type { SearchResultHotel, SearchResultPrice } from "@/search/types";
 import Link from "next/link";
 
-export interface HotelCardHotel {
-  id: string;
-  name: string;
-  main_photo?: string;
-  address?: string;
-  rating?: number;
-  reviewCount?: number;
-  starRating?: number;
-  persona?: string;
-  tags?: string[];
-}
+/** A search result, or any hotel with at least an id and a name (e.g. from the lazy "all properties" list). */
+export type HotelCardHotel = Pick<SearchResultHotel, "id" | "name"> &
+  Partial<Pick<SearchResultHotel, "thumbnail" | "address" | "rating" | "reviewCount" | "starRating" | "persona" | "tags">>;
 
-export interface HotelCardPrice {
-  amount: number;
-  currency: string;
-  refundableTag?: string;
-  taxIncluded?: boolean;
-}
+export type HotelCardPrice = SearchResultPrice;
 
 interface HotelCardProps {
   hotel: HotelCardHotel;
@@ -34,6 +24,8 @@ interface HotelCardProps {
   onToggleFavorite: (e: React.MouseEvent) => void;
   /** Distance from search center in meters (optional) */
   distance?: number;
+  /** B2B: result of the company travel policy check for this price (absent for non-corporate users). */
+  policyCheck?: PolicyCheck;
 }
 
 export function HotelCard({
@@ -46,6 +38,7 @@ export function HotelCard({
   isFavorite,
   onToggleFavorite,
   distance,
+  policyCheck,
 }: HotelCardProps) {
   return (
     <Link
@@ -54,9 +47,9 @@ export function HotelCard({
     >
       {/* Image on top — vertical layout */}
       <div className="relative h-52 w-full overflow-hidden bg-[var(--muted)]">
-        {hotel.main_photo ? (
+        {hotel.thumbnail ? (
           <img
-            src={hotel.main_photo}
+            src={hotel.thumbnail}
             alt={hotel.name}
             className="w-full h-full object-cover"
             loading="lazy"
@@ -182,6 +175,11 @@ export function HotelCard({
               {", "}
               {price.taxIncluded ? "incl. taxes & fees" : "+ taxes & fees"}
             </div>
+            {policyCheck && !policyCheck.inPolicy && (
+              <p className="mt-1 inline-flex rounded-full border border-amber-300 bg-amber-50 px-2 py-0.5 text-[11px] font-medium text-amber-800">
+                Out of policy · {describePolicyViolations(policyCheck.violations)}
+              </p>
+            )}
           </div>
         )}
       </div>
@@ -4,7 +4,7 @@ import { loadGoogleMapsScript, DEFAULT_MAP_OPTIONS } from "@/lib/google-maps";
 import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import { HeartIcon, HeartIconFilled, FilterIcon } from "@/components/Icons";
 import Link from "next/link";
-import type { HotelCardHotel, HotelCardPrice } from "@/components/HotelCard";
+import type { SearchResultHotel, SearchResultPrice } from "@/search/types";
 import type { ResultsQueryParams } from "@/lib/results-query";
 
 declare global {
@@ -69,10 +69,7 @@ export interface ResultsPageMapProps {
   onClose: () => void;
   onOpenFilters: () => void;
   /** Filtered + sorted hotel list (same as list view). */
-  hotels: HotelCardHotel[];
-  hotelDetailsByHotelId: Record<string, { location?: { latitude: number; longitude: number }; rating?: number; reviewCount?: number; starRating?: number }>;
-  pricesByHotelId: Record<string, HotelCardPrice>;
-  hasRefundableByHotelId: Record<string, boolean>;
+  hotels: SearchResultHotel[];
   currency: string;
   nights: number;
   occupanciesLength: number;
@@ -241,9 +238,6 @@ export function ResultsPageMap({
   onClose,
   onOpenFilters,
   hotels,
-  hotelDetailsByHotelId,
-  pricesByHotelId,
-  hasRefundableByHotelId,
   currency,
   nights,
   occupanciesLength,
@@ -263,7 +257,7 @@ export function ResultsPageMap({
   const clusterZoomAnimationInProgressRef = useRef(false);
   const [mapReady, setMapReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedHotel, setSelectedHotel] = useState<HotelCardHotel | null>(null);
+  const [selectedHotel, setSelectedHotel] = useState<SearchResultHotel | null>(null);
   const [projectionReady, setProjectionReady] = useState(false);
   const [zoomLevel, setZoomLevel] = useState<number>(DEFAULT_ZOOM);
   const [searchAreaLoading, setSearchAreaLoading] = useState(false);
@@ -306,12 +300,12 @@ export function ResultsPageMap({
   const hotelsWithLocation = useMemo(() => {
     return hotels
       .map((h) => {
-        const loc = hotelDetailsByHotelId[h.id]?.location;
+        const loc = h.location;
         if (!loc || typeof loc.latitude !== "number" || typeof loc.longitude !== "number") return null;
         return { hotel: h, lat: loc.latitude, lng: loc.longitude };
       })
-      .filter((x): x is { hotel: HotelCardHotel; lat: number; lng: number } => x !== null);
-  }, [hotels, hotelDetailsByHotelId]);
+      .filter((x): x is { hotel: SearchResultHotel; lat: number; lng: number } => x !== null);
+  }, [hotels]);
 
   const hasAnyLocation = hotelsWithLocation.length > 0;
 
@@ -439,7 +433,7 @@ export function ResultsPageMap({
     const radius = getClusterRadiusDeg(zoomLevel);
     const cellKey = (lat: number, lng: number) =>
       `${Math.floor(lat / radius)}_${Math.floor(lng / radius)}`;
-    const grid = new Map<string, { hotel: HotelCardHotel; lat: number; lng: number }[]>();
+    const grid = new Map<string, { hotel: SearchResultHotel; lat: number; lng: number }[]>();
     hotelsWithLocation.forEach((item) => {
       const key = cellKey(item.lat, item.lng);
       if (!grid.has(key)) grid.set(key, []);
@@ -453,7 +447,7 @@ export function ResultsPageMap({
 
       if (items.length === 1) {
         const hotel = items[0].hotel;
-        const price = pricesByHotelId[hotel.id];
+        const price = hotel.price;
         const label = price ? formatPrice(price.amount) : hotel.name.slice(0, 12);
         const overlay = createPriceOverlay(google, centerPos, label, () => setSelectedHotel(hotel));
         overlay.setMap(map);
@@ -505,7 +499,7 @@ export function ResultsPageMap({
       });
       overlaysRef.current = [];
     };
-  }, [mapReady, projectionReady, zoomLevel, hotelsWithLocation, pricesByHotelId, formatPrice]);
+  }, [mapReady, projectionReady, zoomLevel, hotelsWithLocation, formatPrice]);
 
   const hrefParamsStr = useMemo(
     () => serializeResultsQuery(queryParams).toString(),
@@ -605,8 +599,8 @@ export function ResultsPageMap({
           <div className="overflow-y-auto flex-1 p-4 pb-6">
             <MapHotelCard
               hotel={selectedHotel}
-              price={pricesByHotelId[selectedHotel.id]}
-              hasRefundable={hasRefundableByHotelId[selectedHotel.id]}
+              price={selectedHotel.price}
+              hasRefundable={selectedHotel.hasRefundableRate}
               nights={nights}
               occupanciesLength={occupanciesLength}
               href={`/hotel/${selectedHotel.id}?${hrefParamsStr}`}
@@ -634,8 +628,8 @@ function MapHotelCard({
   onToggleFavorite,
   onClose,
 }: {
-  hotel: HotelCardHotel;
-  price?: HotelCardPrice;
+  hotel: SearchResultHotel;
+  price?: SearchResultPrice;
   hasRefundable?: boolean;
   nights: number;
   occupanciesLength: number;
@@ -648,8 +642,8 @@ function MapHotelCard({
     <div className="rounded-2xl border border-[var(--sky-blue)] bg-white overflow-hidden">
       <div className="flex gap-3 p-3">
         <div className="relative w-24 h-24 shrink-0 rounded-xl overflow-hidden bg-[var(--muted)]">
-          {hotel.main_photo ? (
-            <img src={hotel.main_photo} alt={hotel.name} className="w-full h-full object-cover" />
+          {hotel.thumbnail ? (
+            <img src={hotel.thumbnail} alt={hotel.name} className="w-full h-full object-cover" />
           ) : (
             <div className="w-full h-full flex items-center justify-center text-xs text-[var(--muted-foreground)]">No photo</div>
           )}
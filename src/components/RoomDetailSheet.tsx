@@ -1,6 +1,8 @@
 "use client";
 
 import { ImageGallery } from "@/components/ImageGallery";
+import { describePolicyViolations } from "@/corporate/policy";
+import type { PolicyCheck } from "@/corporate/types";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 const AMENITIES_SHOW_MORE_THRESHOLD = 5;
@@ -30,6 +32,7 @@ function parseRoomDescription(html: string): { label?: string; content: string }
 
 export interface RoomTypeOffer {
   offerId: string;
+  roomName?: string;
   boardName: string;
   totalAmount: number;
   currency: string;
@@ -38,6 +41,7 @@ export interface RoomTypeOffer {
   refundableTag?: string;
   cancelTime?: string;
   mappedRoomId?: number;
+  policyCheck?: PolicyCheck;
 }
 
 export interface RoomGroup {
@@ -442,6 +446,11 @@ export function RoomDetailSheet({
                       taxes/fees at property
                     </p>
                   )}
+                  {selectedOffer.policyCheck && !selectedOffer.policyCheck.inPolicy && (
+                    <p className="mt-1 inline-flex rounded-full border border-amber-300 bg-amber-50 px-2 py-0.5 text-[11px] font-medium text-amber-800">
+                      Out of policy · {describePolicyViolations(selectedOffer.policyCheck.violations)}
+                    </p>
+                  )}
                   <button
                     type="button"
                     onClick={() => {
@@ -17,19 +17,28 @@ import { useCallback, useState } from "react";
 
 type RoomSelectorVariant = "default" | "whoStep";
 
+/** A saved child traveller with their age at check-in, offered as a one-tap child for a room. */
+export interface SavedChildAge {
+  id: string;
+  name: string;
+  age: number;
+}
+
 interface RoomSelectorProps {
   occupancies: Occupancy[];
   onChange: (occupancies: Occupancy[]) => void;
   className?: string;
   /** "whoStep" = always expanded, card per room, "Add another room", "Contact us" (for SearchModal Who view). */
   variant?: RoomSelectorVariant;
+  savedChildren?: SavedChildAge[];
 }
 
 export function RoomSelector({
   occupancies,
   onChange,
   className = "",
-  variant = "default"
+  variant = "default",
+  savedChildren = []
 }: RoomSelectorProps) {
   const [open, setOpen] = useState(false);
   const rooms = occupancies.length;
@@ -80,6 +89,19 @@ export function RoomSelector({
   /** Sentinel for "age not yet selected" (whoStep: user must choose from dropdown). */
   const CHILD_AGE_UNSET = -1;
 
+  /** Fill the room's first child without an age, or add a child, with a saved child's age. */
+  const addSavedChild = useCallback(
+    (index: number, age: number) => {
+      updateRoom(index, (o) => {
+        const unset = o.children.indexOf(CHILD_AGE_UNSET);
+        if (unset >= 0) return { ...o, children: o.children.map((a, i) => (i === unset ? age : a)) };
+        if (o.children.length >= MAX_CHILDREN_PER_ROOM) return o;
+        return { ...o, children: [...o.children, age] };
+      });
+    },
+    [updateRoom]
+  );
+
   const roomContent = (
     <>
       {!isWhoStep && (
@@ -222,6 +244,24 @@ export function RoomSelector({
                   </button>
                 </div>
               </div>
+              {savedChildren.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {savedChildren.map((child) => (
+                    <button
+                      key={child.id}
+                      type="button"
+                      onClick={() => addSavedChild(index, child.age)}
+                      disabled={
+                        room.children.length >= MAX_CHILDREN_PER_ROOM && !room.children.includes(CHILD_AGE_UNSET)
+                      }
+                      className="rounded-full border border-[var(--sky-blue)] bg-white px-2.5 py-1 text-[11px] font-medium text-[var(--dark-text)] hover:border-[var(--primary)] disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      aria-label={`Room ${index + 1} add ${child.name}, age ${child.age}`}
+                    >
+                      + {child.name} ({child.age})
+                    </button>
+                  ))}
+                </div>
+              )}
               {isWhoStep && room.children.length > 0 && (
                 <p className="text-[11px] text-[var(--muted-foreground)]">
                   Ages 0 to 17
@@ -1,7 +1,7 @@
 "use client";
 
-import { DateRangeCalendar } from "@/components/DateRangePicker";
-import { RoomSelector } from "@/components/RoomSelector";
+import { DateRangeCalendar, type DateRangeCalendarPrice, FlexibleDatesToggle } from "@/components/DateRangePicker";
+import { RoomSelector, type SavedChildAge } from "@/components/RoomSelector";
 import {
   addDays,
   compareDay,
@@ -10,7 +10,8 @@ import {
   getDaysBetween,
   parseYYYYMMDD,
 } from "@/lib/date-utils";
-import { type Occupancy, hasUnsetChildAges, totalGuests } from "@/lib/occupancy";
+import { getAgeOn } from "@/lib/guests";
+import { CHILD_AGE_MAX, CHILD_AGE_MIN, type Occupancy, hasUnsetChildAges, totalGuests } from "@/lib/occupancy";
 import {
   ArrowLeftIcon,
   CalendarIcon,
@@ -26,7 +27,9 @@ import { normalizePlace } from "@/lib/normalize-location";
 import { isSpecificHotelPlace, type PlaceSuggestion } from "@/lib/place-utils";
 import { processPredictions } from "@/lib/process-predictions";
 import { useGooglePlacesSession } from "@/hooks/useGooglePlacesSession";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useSavedTravellers } from "@/hooks/useSavedTravellers";
+import { FLEXIBLE_DATES_LABELS, type FlexibleDates } from "@/search/flexible";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 const MAX_RANGE_DAYS = 30;
 
@@ -77,6 +80,9 @@ function WhenStepContent({
   onClose,
   onNext,
   locale,
+  flexibleDates,
+  onFlexibleDatesChange,
+  prices,
 }: {
   checkin: string;
   checkout: string;
@@ -85,6 +91,9 @@ function WhenStepContent({
   /** Called after saving dates; use to e.g. advance to Who view. */
   onNext: () => void;
   locale?: string;
+  flexibleDates: FlexibleDates | null;
+  onFlexibleDatesChange?: (value: FlexibleDates | null) => void;
+  prices?: Record<string, DateRangeCalendarPrice>;
 }) {
   const today = new Date();
   const todayNorm = new Date(today.getFullYear(), today.getMonth(), today.getDate());
@@ -97,7 +106,14 @@ function WhenStepContent({
 
   // Same logic as DateRangePicker.handleDaySelect: no past; first tap = check-in;
   // second = check-out (range fill); when both set, next tap = new check-in.
+  // A priced heat-map day starts a new selection with its whole stay.
   const handleDaySelect = useCallback((date: Date) => {
+    const pricedCheckout = parseYYYYMMDD(prices?.[formatDateForInput(date)]?.checkout ?? "");
+    if (pricedCheckout && (!startDate || endDate != null)) {
+      setStartDate(date);
+      setEndDate(pricedCheckout);
+      return;
+    }
     if (!startDate) {
       setStartDate(date);
       setEndDate(null);
@@ -119,7 +135,7 @@ function WhenStepContent({
           : date;
       setEndDate(cappedEnd);
     }
-  }, [startDate, endDate]);
+  }, [startDate, endDate, prices]);
 
   const handleNext = useCallback(() => {
     const start = startDate ?? todayNorm;
@@ -144,7 +160,20 @@ function WhenStepContent({
           endDate={endDate}
           onSelect={handleDaySelect}
           locale={locale}
+          prices={prices}
         />
+        {prices && Object.keys(prices).length > 0 && (
+          <p className="text-xs text-[var(--muted-foreground)] mt-1">
+            Prices are the cheapest stay from each check-in day. Tap one to pick that stay.
+          </p>
+        )}
+        {onFlexibleDatesChange && (
+          <FlexibleDatesToggle
+            value={flexibleDates}
+            onChange={onFlexibleDatesChange}
+            className="flex flex-wrap gap-2 mt-3 pt-3 border-t border-[var(--muted)]"
+          />
+        )}
       </div>
       <div className="flex justify-end gap-3 pt-4 border-t border-[var(--muted)]">
         <button
@@ -215,6 +244,11 @@ interface SearchModalProps {
   checkin: string;
   checkout: string;
   onDatesChange: (range: { checkin: string; checkout: string }) => void;
+  /** Flexible dates ("± 3 days", "cheapest week"); the toggle is shown when onFlexibleDatesChange is provided. */
+  flexibleDates?: FlexibleDates | null;
+  onFlexibleDatesChange?: (value: FlexibleDates | null) => void;
+  /** Price heat-map for the When calendar, by check-in day. */
+  datePrices?: Record<string, DateRangeCalendarPrice>;
   /** Guests */
   occupancies: Occupancy[];
   onOccupanciesChange: (occupancies: Occupancy[]) => void;
@@ -243,6 +277,9 @@ export function SearchModal({
   checkin,
   checkout,
   onDatesChange,
+  flexibleDates = null,
+  onFlexibleDatesChange,
+  datePrices,
   occupancies,
   onOccupanciesChange,
   locale,
@@ -282,6 +319,16 @@ export function SearchModal({
   const [loadingPlaces, setLoadingPlaces] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const placesSession = useGooglePlacesSession();
+  const { travellers } = useSavedTravellers();
+
+  // Saved children with their age at check-in (today until dates are picked), for one-tap child ages
+  const savedChildren = useMemo<SavedChildAge[]>(() => {
+    const onDate = checkin || formatDateForInput(new Date());
+    return travellers.flatMap((t) => {
+      const age = t.relation === "child" && t.birthDate ? getAgeOn(t.birthDate, onDate) : null;
+      return age != null && age >= CHILD_AGE_MIN && age <= CHILD_AGE_MAX ? [{ id: t.id, name: t.firstName, age }] : [];
+    });
+  }, [travellers, checkin]);
 
   // Exit: 220ms to match --modal-exit-duration; 0 when user prefers reduced motion.
   const requestClose = useCallback(() => {
@@ -672,6 +719,9 @@ export function SearchModal({
               onClose={() => setView("overview")}
               onNext={() => setView("who")}
               locale={locale}
+              flexibleDates={flexibleDates}
+              onFlexibleDatesChange={onFlexibleDatesChange}
+              prices={datePrices}
             />
           </div>
       );
@@ -690,6 +740,7 @@ export function SearchModal({
           <CollapsedSummaryCard
             label="When"
             value={dateRangeText}
+            valueSecondary={flexibleDates ? FLEXIBLE_DATES_LABELS[flexibleDates] : undefined}
             onClick={() => setView("when")}
             icon={<CalendarIcon className="w-5 h-5 text-[var(--primary)] shrink-0" />}
           />
@@ -697,6 +748,7 @@ export function SearchModal({
             variant="whoStep"
             occupancies={occupancies}
             onChange={onOccupanciesChange}
+            savedChildren={savedChildren}
             className="rounded-xl border border-[var(--sky-blue)] bg-white shadow-sm overflow-hidden"
           />
           <button
@@ -65,10 +65,16 @@ interface AuthContextValue {
   setIdentity: (identity: IdentityBlob | null) => void;
   /** Refresh identity from server (GET /api/auth/session). */
   refreshSession: () => Promise<void>;
-  /** Log in via API then update state and storage. */
-  login: (body: { email: string; password?: string; displayName?: string; phone?: string; userType?: string; loyaltyLevel?: string }) => Promise<{ ok: boolean; error?: string }>;
+  /** Log in with a password or an emailed code via API, then update state and storage. */
+  login: (body: { email: string; password?: string; code?: string }) => Promise<{ ok: boolean; error?: string }>;
+  /** Create a password account (signs in on success). */
+  register: (body: { email: string; password: string; displayName?: string; phone?: string }) => Promise<{ ok: boolean; error?: string }>;
+  /** Email a one-time sign-in code. */
+  requestLoginCode: (email: string) => Promise<{ ok: boolean; error?: string }>;
   /** Log out via API then clear state and storage. */
   logout: () => Promise<void>;
+  /** Revoke every session of this account (all devices), then clear state and storage. */
+  logoutEverywhere: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextValue | null>(null);
@@ -121,17 +127,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, [refreshSession]);
 
-  const login = useCallback(
-    async (body: {
-      email: string;
-      password?: string;
-      displayName?: string;
-      phone?: string;
-      userType?: string;
-      loyaltyLevel?: string;
-    }) => {
+  /** POST a JSON body to an auth route; on success optionally refresh the session from the cookie it set. */
+  const postAuth = useCallback(
+    async (url: string, body: unknown, fallbackError: string, refresh: boolean) => {
       try {
-        const res = await fetch("/api/auth/login", {
+        const res = await fetch(url, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           credentials: "include",
@@ -139,17 +139,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         });
         const data = await res.json();
         if (!res.ok) {
-          return { ok: false, error: data?.error?.message ?? "Login failed" };
+          return { ok: false, error: data?.error?.message ?? fallbackError };
         }
-        await refreshSession();
+        if (refresh) await refreshSession();
         return { ok: true };
       } catch (e) {
-        return { ok: false, error: (e as Error).message ?? "Login failed" };
+        return { ok: false, error: (e as Error).message ?? fallbackError };
       }
     },
     [refreshSession]
   );
 
+  const login = useCallback(
+    (body: { email: string; password?: string; code?: string }) =>
+      postAuth("/api/auth/login", body, "Login failed", true),
+    [postAuth]
+  );
+
+  const register = useCallback(
+    (body: { email: string; password: string; displayName?: string; phone?: string }) =>
+      postAuth("/api/auth/register", body, "Sign up failed", true),
+    [postAuth]
+  );
+
+  const requestLoginCode = useCallback(
+    (email: string) => postAuth("/api/auth/login/code", { email }, "Could not send code", false),
+    [postAuth]
+  );
+
   const logout = useCallback(async () => {
     try {
       await fetch("/api/auth/logout", { method: "POST", credentials: "include" });
@@ -160,6 +177,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  const logoutEverywhere = useCallback(async () => {
+    try {
+      await fetch("/api/auth/sessions/revoke-all", { method: "POST", credentials: "include" });
+    } finally {
+      setIdentityState(null);
+      writeStoredIdentity(null);
+      setIsReady(true);
+    }
+  }, []);
+
   const getSession = useCallback(
     async (): Promise<Session | null> => identity?.session ?? null,
     [identity]
@@ -188,7 +215,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setIdentity,
       refreshSession,
       login,
-      logout
+      register,
+      requestLoginCode,
+      logout,
+      logoutEverywhere
     }),
     [
       isReady,
@@ -200,7 +230,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setIdentity,
       refreshSession,
       login,
-      logout
+      register,
+      requestLoginCode,
+      logout,
+      logoutEverywhere
     ]
   );
 
@@ -0,0 +1,385 @@
+/**
+ * Approval workflow for out-of-policy rates: a traveller requests approval for the rate held at checkout,
+ * a travel manager of the same account approves or rejects it. Approving re-runs the prebook (the held one
+ * has usually expired by then) and the traveller pays against the new prebook, prebooked again when checkout
+ * resumes after its hold ended (accepted up to the approved price).
+ */
+
+import { randomUUID } from "crypto";
+import { getPrebookSnapshot, isPrebookExpired, recordPrebook, type PrebookSnapshot } from "@/bookings/prebooks";
+import type { PaymentMode } from "@/checkout/types";
+import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
+import { roundMoney } from "@/lib/fx";
+import { withKeyedLock } from "@/lib/keyed-lock";
+import { prebookRate } from "@/lib/liteapi";
+import type { Occupancy } from "@/lib/occupancy";
+import { checkStayAgainstPolicy, isApprovalRequired, type CorporateStayInput } from "./booking";
+import type { CorporateContext } from "./membership";
+import { sendApprovalNotification, type ApprovalEvent } from "./notifier";
+import { describePolicyViolations } from "./policy";
+import {
+  getApprovalRequest,
+  getApprovedPrebook,
+  listApprovalRequests,
+  listCorporateMembers,
+  saveApprovalPrebook,
+  saveApprovalRequest,
+  updateApprovalRequest
+} from "./store";
+import type { ApprovalPriceChange, ApprovalRequest, CorporateMember } from "./types";
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${amount.toFixed(2)}`;
+}
+
+function travellerName(approval: ApprovalRequest): string {
+  const name = [approval.traveller.firstName, approval.traveller.lastName].filter(Boolean).join(" ");
+  return name || approval.traveller.email;
+}
+
+function stayLine(approval: ApprovalRequest): string {
+  const hotel = approval.hotelName ?? approval.hotelId ?? "hotel";
+  const dates = approval.checkin && approval.checkout ? ` (${approval.checkin} → ${approval.checkout})` : "";
+  return `${hotel}${dates}`;
+}
+
+async function notify(event: ApprovalEvent, approval: ApprovalRequest): Promise<void> {
+  const stay = stayLine(approval);
+  const held = formatMoney(approval.heldPrice.amount, approval.heldPrice.currency);
+  if (event === "approval_requested") {
+    const managers = (await listCorporateMembers(approval.accountId)).filter((m) => m.role === "travel_manager");
+    await sendApprovalNotification({
+      event,
+      to: managers.map((m) => m.email),
+      subject: `Approval needed: ${travellerName(approval)} at ${stay}`,
+      text: [
+        `${travellerName(approval)} asked to book ${stay} for ${held}.`,
+        `Out of policy: ${describePolicyViolations(approval.policy.violations)}.`,
+        approval.reason ? `Reason: ${approval.reason}` : null,
+        "Review it under Approvals in your account."
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      approval
+    });
+    return;
+  }
+
+  const change = approval.priceChange;
+  const lines: Record<Exclude<ApprovalEvent, "approval_requested">, string[]> = {
+    approval_approved: [
+      `${approval.decidedByEmail} approved your stay at ${stay}.`,
+      change
+        ? `The price changed from ${formatMoney(change.previous, change.currency)} to ${formatMoney(change.current, change.currency)}.`
+        : `Price: ${held}.`,
+      "Complete your booking under Approvals in your account."
+    ],
+    approval_rejected: [
+      `${approval.decidedByEmail} rejected your stay at ${stay}.`,
+      approval.decisionNote ? `Note: ${approval.decisionNote}` : ""
+    ],
+    approval_expired: [`The rate for ${stay} is no longer available. Please search again.`]
+  };
+  const subjects: Record<Exclude<ApprovalEvent, "approval_requested">, string> = {
+    approval_approved: `Approved: ${stay}`,
+    approval_rejected: `Not approved: ${stay}`,
+    approval_expired: `Rate no longer available: ${stay}`
+  };
+  await sendApprovalNotification({
+    event,
+    to: [approval.requestedByEmail],
+    subject: subjects[event],
+    text: lines[event].filter(Boolean).join("\n"),
+    approval
+  });
+}
+
+export type ApprovalResult =
+  | { ok: true; approval: ApprovalRequest }
+  | {
+      ok: false;
+      status: number;
+      code:
+        | "APPROVAL_NOT_REQUIRED"
+        | "CORPORATE_ROLE_REQUIRED"
+        | "APPROVAL_NOT_PENDING"
+        | "PRICE_CHANGED"
+        | "OFFER_UNAVAILABLE";
+      message: string;
+      approval?: ApprovalRequest;
+    };
+
+/**
+ * Hold an out-of-policy rate for approval and notify the account's travel managers.
+ * Asking again for the same prebook returns the pending request instead of creating another.
+ */
+export async function createApprovalRequest(
+  ctx: CorporateContext,
+  input: {
+    userId: string;
+    prebook: PrebookSnapshot;
+    stay: CorporateStayInput;
+    occupancies: Occupancy[];
+    paymentMode: PaymentMode;
+    hotelName?: string;
+    reason?: string;
+  }
+): Promise<ApprovalResult> {
+  const { account, member } = ctx;
+  const policy = checkStayAgainstPolicy(account, input.stay);
+  if (!isApprovalRequired(member, policy)) {
+    return {
+      ok: false,
+      status: 400,
+      code: "APPROVAL_NOT_REQUIRED",
+      message: policy.inPolicy ? "This rate is within your travel policy." : "Travel managers can book this rate directly."
+    };
+  }
+  if (!input.prebook.offerId) {
+    throw new Error("Prebook has no offerId");
+  }
+  const offerId = input.prebook.offerId;
+
+  return withKeyedLock(`approval-request:${input.prebook.prebookId}`, async () => {
+    const existing = (await listApprovalRequests({ accountId: account.id, requestedByUserId: input.userId })).find(
+      (a) => a.status === "pending" && a.heldPrebookId === input.prebook.prebookId
+    );
+    if (existing) return { ok: true, approval: existing };
+
+    const now = new Date().toISOString();
+    const approval: ApprovalRequest = {
+      id: `apr_${randomUUID()}`,
+      accountId: account.id,
+      status: "pending",
+      requestedByUserId: input.userId,
+      requestedByEmail: member.email,
+      traveller: { email: member.email, firstName: member.firstName, lastName: member.lastName },
+      reason: input.reason,
+      offerId,
+      hotelId: input.prebook.hotelId,
+      hotelName: input.hotelName,
+      checkin: input.stay.checkin,
+      checkout: input.stay.checkout,
+      occupancies: input.occupancies,
+      paymentMode: input.paymentMode,
+      channel: input.prebook.channel,
+      heldPrebookId: input.prebook.prebookId,
+      heldPrice: { amount: input.prebook.price, currency: input.prebook.currency },
+      policy,
+      createdAt: now,
+      updatedAt: now
+    };
+    await saveApprovalRequest(approval);
+    await notify("approval_requested", approval);
+    return { ok: true, approval };
+  });
+}
+
+function requireManager(approval: ApprovalRequest, manager: CorporateMember): ApprovalResult | null {
+  if (manager.role !== "travel_manager" || manager.accountId !== approval.accountId) {
+    return {
+      ok: false,
+      status: 403,
+      code: "CORPORATE_ROLE_REQUIRED",
+      message: "Only travel managers of this company can decide approval requests."
+    };
+  }
+  if (approval.status !== "pending") {
+    return {
+      ok: false,
+      status: 409,
+      code: "APPROVAL_NOT_PENDING",
+      message: `This request was already ${approval.status}.`,
+      approval
+    };
+  }
+  return null;
+}
+
+function priceChangeFor(approval: ApprovalRequest, price: number, currency: string): ApprovalPriceChange | undefined {
+  const previous = approval.heldPrice.amount;
+  if (currency === approval.heldPrice.currency && Math.abs(price - previous) < 0.005) return undefined;
+  return { currency, previous, current: price, difference: roundMoney(price - previous) };
+}
+
+/**
+ * Prebook the request's offer again, for the payment SDK only when the traveller pays now. Null when LiteAPI
+ * refuses the offer (4xx: it is gone); anything else (network, 5xx, config) is rethrown so the caller can retry.
+ */
+async function prebookApprovalOffer(
+  approval: ApprovalRequest,
+  paymentMode: PaymentMode
+): Promise<{ snapshot: PrebookSnapshot; data: Record<string, unknown> } | null> {
+  const paymentSdk = paymentMode === "pay_now";
+  let resp: any = null;
+  try {
+    resp = await prebookRate(
+      { offerId: approval.offerId, usePaymentSdk: paymentSdk },
+      getLiteApiKeyForChannel(approval.channel)
+    );
+  } catch (err: any) {
+    if (!(err?.status >= 400 && err.status < 500)) throw err;
+    console.warn("Corporate: approval prebook refused", approval.id, err.message);
+    return null;
+  }
+  const snapshot = await recordPrebook(resp, { channel: approval.channel, userId: approval.requestedByUserId, paymentSdk });
+  return snapshot ? { snapshot, data: resp.data } : null;
+}
+
+/**
+ * Approve: re-run the prebook for the held offer. A higher price than the held one is not approved silently:
+ * the first call returns PRICE_CHANGED (request stays pending, priceChange set) and the manager approves again
+ * with acceptPrice equal to the new price. An offer that can no longer be prebooked expires the request.
+ */
+export async function approveApprovalRequest(
+  id: string,
+  manager: CorporateMember,
+  options: { note?: string; acceptPrice?: number } = {}
+): Promise<ApprovalResult | null> {
+  return withKeyedLock(`approval:${id}`, async () => {
+    const approval = await getApprovalRequest(id);
+    if (!approval) return null;
+    const refused = requireManager(approval, manager);
+    if (refused) return refused;
+
+    // A refused offer expires the request; other failures leave it pending so the manager can try again.
+    const prebooked = await prebookApprovalOffer(approval, approval.paymentMode ?? "pay_now");
+    const snapshot = prebooked?.snapshot;
+    const now = new Date().toISOString();
+    if (!prebooked || !snapshot) {
+      const expired = (await updateApprovalRequest(id, (current) =>
+        current ? { ...current, status: "expired", decidedByEmail: manager.email, decidedAt: now, updatedAt: now } : null
+      )) as ApprovalRequest;
+      await notify("approval_expired", expired);
+      return {
+        ok: false,
+        status: 409,
+        code: "OFFER_UNAVAILABLE",
+        message: "This rate is no longer available. The traveller has been asked to search again.",
+        approval: expired
+      };
+    }
+
+    const priceChange = priceChangeFor(approval, snapshot.price, snapshot.currency);
+    const increased = priceChange != null && (priceChange.currency !== approval.heldPrice.currency || priceChange.difference > 0);
+    if (increased && (options.acceptPrice == null || Math.abs(options.acceptPrice - snapshot.price) >= 0.005)) {
+      const updated = (await updateApprovalRequest(id, (current) =>
+        current ? { ...current, priceChange, updatedAt: now } : null
+      )) as ApprovalRequest;
+      return {
+        ok: false,
+        status: 409,
+        code: "PRICE_CHANGED",
+        message: `The price is now ${formatMoney(snapshot.price, snapshot.currency)}. Approve again to accept the new price.`,
+        approval: updated
+      };
+    }
+
+    await saveApprovalPrebook(id, snapshot.prebookId, prebooked.data);
+    const approved = (await updateApprovalRequest(id, (current) =>
+      current
+        ? {
+            ...current,
+            status: "approved",
+            decidedByEmail: manager.email,
+            decidedAt: now,
+            decisionNote: options.note,
+            approvedPrebookId: snapshot.prebookId,
+            approvedPrice: { amount: snapshot.price, currency: snapshot.currency },
+            priceChange,
+            updatedAt: now
+          }
+        : null
+    )) as ApprovalRequest;
+    await notify("approval_approved", approved);
+    return { ok: true, approval: approved };
+  });
+}
+
+export type ApprovedPrebookResult =
+  | { ok: true; data: Record<string, unknown>; approval: ApprovalRequest }
+  | {
+      ok: false;
+      status: number;
+      code: "APPROVAL_NOT_APPROVED" | "APPROVAL_PRICE_CHANGED" | "OFFER_UNAVAILABLE";
+      message: string;
+    };
+
+/**
+ * The approved prebook for checkout. Its price hold usually ends before the traveller pays, so once it has (or
+ * the traveller picked a payment mode that needs the other kind of prebook), the offer is prebooked again and
+ * the new prebook replaces it when its price is within the approved price.
+ */
+export async function resumeApprovedPrebook(
+  id: string,
+  paymentMode?: PaymentMode
+): Promise<ApprovedPrebookResult | null> {
+  return withKeyedLock(`approval:${id}`, async () => {
+    const approval = await getApprovalRequest(id);
+    if (!approval) return null;
+    const stored = await getApprovedPrebook(approval);
+    if (!stored || !approval.approvedPrebookId) {
+      return {
+        ok: false,
+        status: 409,
+        code: "APPROVAL_NOT_APPROVED",
+        message:
+          approval.status === "pending" ? "This request is still waiting for approval." : `This request was ${approval.status}.`
+      };
+    }
+    const mode = paymentMode ?? approval.paymentMode ?? "pay_now";
+    const held = await getPrebookSnapshot(approval.approvedPrebookId);
+    if (held && !isPrebookExpired(held) && (held.paymentSdk ?? true) === (mode === "pay_now")) {
+      return { ok: true, data: stored, approval };
+    }
+
+    const prebooked = await prebookApprovalOffer(approval, mode);
+    const snapshot = prebooked?.snapshot;
+    if (!prebooked || !snapshot) {
+      return {
+        ok: false,
+        status: 409,
+        code: "OFFER_UNAVAILABLE",
+        message: "This rate is no longer available. Please search again."
+      };
+    }
+    const limit = approval.approvedPrice ?? approval.heldPrice;
+    if (snapshot.currency !== limit.currency || snapshot.price - limit.amount >= 0.005) {
+      return {
+        ok: false,
+        status: 409,
+        code: "APPROVAL_PRICE_CHANGED",
+        message: `The price is now ${formatMoney(snapshot.price, snapshot.currency)}, above the approved ${formatMoney(limit.amount, limit.currency)}. Please request a new approval.`
+      };
+    }
+
+    await saveApprovalPrebook(id, snapshot.prebookId, prebooked.data);
+    const now = new Date().toISOString();
+    const resumed = (await updateApprovalRequest(id, (current) =>
+      current ? { ...current, approvedPrebookId: snapshot.prebookId, paymentMode: mode, updatedAt: now } : null
+    )) as ApprovalRequest;
+    return { ok: true, data: prebooked.data, approval: resumed };
+  });
+}
+
+export async function rejectApprovalRequest(
+  id: string,
+  manager: CorporateMember,
+  options: { note?: string } = {}
+): Promise<ApprovalResult | null> {
+  return withKeyedLock(`approval:${id}`, async () => {
+    const approval = await getApprovalRequest(id);
+    if (!approval) return null;
+    const refused = requireManager(approval, manager);
+    if (refused) return refused;
+    const now = new Date().toISOString();
+    const rejected = (await updateApprovalRequest(id, (current) =>
+      current
+        ? { ...current, status: "rejected", decidedByEmail: manager.email, decidedAt: now, decisionNote: options.note, updatedAt: now }
+        : null
+    )) as ApprovalRequest;
+    await notify("approval_rejected", rejected);
+    return { ok: true, approval: rejected };
+  });
+}
+
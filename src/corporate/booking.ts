@@ -0,0 +1,119 @@
+import type { BookingCorporate } from "@/bookings/types";
+import { getCachedHotelDetails } from "@/lib/liteapi";
+import type { CorporateContext } from "./membership";
+import { policyLimitsInCurrency } from "./membership";
+import { checkRateAgainstPolicy, countNights } from "./policy";
+import { findApprovalForPrebook, getCorporateMember } from "./store";
+import type { CorporateAccount, CorporateMember, PolicyCheck } from "./types";
+
+/** What a prebooked stay is checked with: our prebook price (stay total for all rooms) and the hotel's stars. */
+export interface CorporateStayInput {
+  price?: { amount: number; currency: string };
+  checkin?: string;
+  checkout?: string;
+  rooms: number;
+  starRating?: number;
+}
+
+/** Check a prebooked stay against the account policy, in the prebook currency. */
+export function checkStayAgainstPolicy(account: CorporateAccount, stay: CorporateStayInput): PolicyCheck {
+  const limits = policyLimitsInCurrency(
+    account.policy,
+    stay.price?.currency ?? account.policy.maxNightlyRate?.currency ?? "USD"
+  );
+  return checkRateAgainstPolicy(
+    {
+      totalAmount: stay.price?.amount,
+      currency: stay.price?.currency,
+      nights: stay.checkin && stay.checkout ? countNights(stay.checkin, stay.checkout) : 1,
+      rooms: stay.rooms,
+      starRating: stay.starRating
+    },
+    limits
+  );
+}
+
+/** Star rating for the policy's star cap (cached hotel details; undefined when unknown). */
+export async function getPolicyStarRating(hotelId: string | undefined, apiKey?: string): Promise<number | undefined> {
+  if (!hotelId) return undefined;
+  const details = await getCachedHotelDetails(hotelId, undefined, apiKey).catch(() => null);
+  return details?.starRating;
+}
+
+/** Travellers need a travel manager's approval for out-of-policy rates; travel managers book them directly. */
+export function isApprovalRequired(member: CorporateMember, policy: PolicyCheck): boolean {
+  return !policy.inPolicy && member.role === "traveller";
+}
+
+export type CorporateBookingResult =
+  | { ok: true; corporate: BookingCorporate }
+  | {
+      ok: false;
+      status: number;
+      code: "CORPORATE_ROLE_REQUIRED" | "TRAVELLER_NOT_FOUND" | "APPROVAL_REQUIRED";
+      message: string;
+    };
+
+/**
+ * Company context for a B2B book call. onBehalfOf (a member email) is only allowed for travel managers
+ * and must name a member of the same account; everyone else books for themselves.
+ * The policy check uses our prebook price (stay total for all rooms) in the prebook currency; a traveller's
+ * out-of-policy rate needs an approved request whose re-run prebook is the one being booked.
+ */
+export async function resolveCorporateBooking(
+  ctx: CorporateContext,
+  input: CorporateStayInput & { userId: string; prebookId: string; onBehalfOf?: string }
+): Promise<CorporateBookingResult> {
+  const { account, member } = ctx;
+  let traveller = member;
+  if (input.onBehalfOf && input.onBehalfOf.trim().toLowerCase() !== member.email) {
+    if (member.role !== "travel_manager") {
+      return {
+        ok: false,
+        status: 403,
+        code: "CORPORATE_ROLE_REQUIRED",
+        message: "Only travel managers can book on behalf of another traveller."
+      };
+    }
+    const other = await getCorporateMember(input.onBehalfOf);
+    if (!other || other.accountId !== account.id) {
+      return {
+        ok: false,
+        status: 400,
+        code: "TRAVELLER_NOT_FOUND",
+        message: "That traveller is not a member of your company account."
+      };
+    }
+    traveller = other;
+  }
+
+  const policy = checkStayAgainstPolicy(account, input);
+  let approvalId: string | undefined;
+  if (isApprovalRequired(member, policy)) {
+    const approval = await findApprovalForPrebook(input.prebookId, input.userId);
+    if (!approval) {
+      return {
+        ok: false,
+        status: 403,
+        code: "APPROVAL_REQUIRED",
+        message: "This rate is outside your travel policy and needs a travel manager's approval."
+      };
+    }
+    approvalId = approval.id;
+  }
+
+  return {
+    ok: true,
+    corporate: {
+      accountId: account.id,
+      bookedByUserId: input.userId,
+      bookedByEmail: member.email,
+      bookedByRole: member.role,
+      traveller: { email: traveller.email, firstName: traveller.firstName, lastName: traveller.lastName },
+      onBehalf: traveller.email !== member.email,
+      billing: account.billing,
+      policy,
+      ...(approvalId && { approvalId })
+    }
+  };
+}
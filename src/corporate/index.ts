@@ -0,0 +1,60 @@
+/**
+ * Corporate (B2B) accounts (server only): companies, members and roles, travel policy and billing,
+ * and approvals for out-of-policy rates.
+ * Client code imports the pure helpers from "@/corporate/policy" and types from "@/corporate/types".
+ */
+
+export type {
+  ApprovalPriceChange,
+  ApprovalRequest,
+  ApprovalStatus,
+  CorporateAccount,
+  CorporateBilling,
+  CorporateMember,
+  CorporateRole,
+  PolicyCheck,
+  PolicyLimits,
+  PolicyViolation,
+  TravelPolicy
+} from "./types";
+export type { ApprovalResult, ApprovedPrebookResult } from "./approvals";
+export {
+  approveApprovalRequest,
+  createApprovalRequest,
+  rejectApprovalRequest,
+  resumeApprovedPrebook
+} from "./approvals";
+export type { CorporateBookingResult, CorporateStayInput } from "./booking";
+export {
+  checkStayAgainstPolicy,
+  getPolicyStarRating,
+  isApprovalRequired,
+  resolveCorporateBooking
+} from "./booking";
+export type { CorporateContext } from "./membership";
+export {
+  getCorporateContext,
+  getCorporateContextForRequest,
+  policyLimitsInCurrency,
+  syncCorporateMembership,
+  syncCorporateMembershipForEmail
+} from "./membership";
+export type { ApprovalEvent, ApprovalNotification, ApprovalNotifier, MailboxMessage } from "./notifier";
+export { listMailboxMessages, setApprovalNotifier } from "./notifier";
+export { checkRateAgainstPolicy, countNights, describePolicyViolations } from "./policy";
+export type { CorporateAccountInput, CorporateMemberInput } from "./store";
+export {
+  deleteCorporateAccount,
+  deleteCorporateMember,
+  findApprovalForPrebook,
+  getApprovalRequest,
+  getApprovedPrebook,
+  getCorporateAccount,
+  getCorporateMember,
+  listApprovalRequests,
+  listCorporateAccounts,
+  listCorporateMembers,
+  normalizeMemberEmail,
+  saveCorporateAccount,
+  saveCorporateMember
+} from "./store";
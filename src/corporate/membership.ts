@@ -0,0 +1,66 @@
+/**
+ * Linking signed-in users to corporate accounts, and the limits their searches are checked against.
+ */
+
+import type { NextRequest } from "next/server";
+import { createServerAuthAdapter, getUserByEmail, updateUser, type UserProfile, type UserRecord } from "@/auth";
+import { convertAmount, roundMoney } from "@/lib/fx";
+import { getCorporateAccount, getCorporateMember } from "./store";
+import type { CorporateAccount, CorporateMember, PolicyLimits, TravelPolicy } from "./types";
+
+export interface CorporateContext {
+  account: CorporateAccount;
+  member: CorporateMember;
+}
+
+/**
+ * Bring the stored user in line with their membership: members (with a verified email, on an active account)
+ * get userType b2b and the accountId; users no longer in an account lose them.
+ * Returns the updated user, or the same record when nothing changed.
+ */
+export async function syncCorporateMembership(user: UserRecord): Promise<UserRecord> {
+  const member = user.emailVerifiedAt ? await getCorporateMember(user.email) : null;
+  const account = member ? await getCorporateAccount(member.accountId) : null;
+  if (member && account?.active) {
+    if (user.accountId === account.id && user.userType === "b2b") return user;
+    return (await updateUser(user.userId, { accountId: account.id, userType: "b2b" })) ?? user;
+  }
+  if (!user.accountId && user.userType !== "b2b") return user;
+  return (
+    (await updateUser(user.userId, {
+      accountId: undefined,
+      userType: user.userType === "b2b" ? undefined : user.userType
+    })) ?? user
+  );
+}
+
+/** Re-sync the account (if any) registered under email, after an admin or travel manager changes membership. */
+export async function syncCorporateMembershipForEmail(email: string): Promise<void> {
+  const user = await getUserByEmail(email);
+  if (user) await syncCorporateMembership(user);
+}
+
+/** Account and membership of a signed-in B2B user; null for everyone else (or a stale profile). */
+export async function getCorporateContext(profile: UserProfile | null): Promise<CorporateContext | null> {
+  if (!profile?.accountId || !profile.email) return null;
+  const member = await getCorporateMember(profile.email);
+  if (!member || member.accountId !== profile.accountId) return null;
+  const account = await getCorporateAccount(member.accountId);
+  return account?.active ? { account, member } : null;
+}
+
+/** Corporate context of the signed-in caller (profile from the user store). */
+export async function getCorporateContextForRequest(req: NextRequest): Promise<CorporateContext | null> {
+  return getCorporateContext(await createServerAuthAdapter(req).getUserProfile());
+}
+
+/** Policy limits in the given currency (nightly limit converted with reference FX; dropped when no rate is known). */
+export function policyLimitsInCurrency(policy: TravelPolicy, currency: string): PolicyLimits {
+  const limits: PolicyLimits = { currency };
+  if (policy.maxNightlyRate) {
+    const converted = convertAmount(policy.maxNightlyRate.amount, policy.maxNightlyRate.currency, currency);
+    if (converted != null) limits.maxNightlyRate = roundMoney(converted);
+  }
+  if (policy.maxStarRating != null) limits.maxStarRating = policy.maxStarRating;
+  return limits;
+}
@@ -0,0 +1,77 @@
+/**
+ * Approval notifications. Delivery is pluggable (setApprovalNotifier); the default writes each message
+ * to the server log and to a local mailbox collection, readable through /api/admin/corporate/mailbox.
+ */
+
+import { randomUUID } from "crypto";
+import { getCollection } from "@/lib/data-store";
+import type { ApprovalRequest } from "./types";
+
+const MAILBOX = "corporate_mailbox";
+
+export type ApprovalEvent = "approval_requested" | "approval_approved" | "approval_rejected" | "approval_expired";
+
+export interface ApprovalNotification {
+  event: ApprovalEvent;
+  /** Recipient emails: travel managers for a new request, the requester for a decision. */
+  to: string[];
+  subject: string;
+  text: string;
+  approval: ApprovalRequest;
+}
+
+/** Delivers an approval notification (email provider, chat webhook, …). */
+export type ApprovalNotifier = (notification: ApprovalNotification) => Promise<void>;
+
+/** One delivered message in the local mailbox. */
+export interface MailboxMessage {
+  id: string;
+  event: ApprovalEvent;
+  to: string[];
+  subject: string;
+  text: string;
+  approvalId: string;
+  createdAt: string;
+}
+
+function mailbox() {
+  return getCollection<MailboxMessage>(MAILBOX);
+}
+
+const mailboxNotifier: ApprovalNotifier = async ({ event, to, subject, text, approval }) => {
+  console.info(`[corporate] ${subject} → ${to.join(", ") || "(no recipients)"}`);
+  const message: MailboxMessage = {
+    id: randomUUID(),
+    event,
+    to,
+    subject,
+    text,
+    approvalId: approval.id,
+    createdAt: new Date().toISOString()
+  };
+  await mailbox().put(message.id, message);
+};
+
+let notifier: ApprovalNotifier = mailboxNotifier;
+
+export function setApprovalNotifier(next: ApprovalNotifier): void {
+  notifier = next;
+}
+
+/** Newest first; optionally only messages sent to one email. */
+export async function listMailboxMessages(to?: string): Promise<MailboxMessage[]> {
+  const all = await mailbox().list();
+  const email = to?.trim().toLowerCase();
+  return all
+    .filter((m) => !email || m.to.includes(email))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Send through the configured notifier. Never throws: a failed notification must not undo a decision. */
+export async function sendApprovalNotification(notification: ApprovalNotification): Promise<void> {
+  try {
+    await notifier(notification);
+  } catch (err) {
+    console.error("Corporate: failed to send approval notification", notification.event, notification.approval.id, err);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Travel policy checks. Pure functions (no server imports) so the results and hotel pages
+ * flag rates with the same logic the server records on bookings.
+ */
+
+import type { PolicyCheck, PolicyLimits, PolicyViolation } from "./types";
+
+/** Nights between two YYYY-MM-DD dates (at least 1). */
+export function countNights(checkin: string, checkout: string): number {
+  const ms = Date.parse(`${checkout}T00:00:00Z`) - Date.parse(`${checkin}T00:00:00Z`);
+  return Number.isFinite(ms) ? Math.max(1, Math.round(ms / 86_400_000)) : 1;
+}
+
+/**
+ * Check a rate against policy limits. totalAmount is the stay total for all rooms in limits.currency;
+ * a price in another currency is not compared (only the star cap applies).
+ */
+export function checkRateAgainstPolicy(
+  rate: { totalAmount?: number; currency?: string; nights: number; rooms: number; starRating?: number },
+  limits: PolicyLimits
+): PolicyCheck {
+  const violations: PolicyViolation[] = [];
+  let nightlyRate: number | undefined;
+  if (rate.totalAmount != null && (!rate.currency || rate.currency === limits.currency)) {
+    nightlyRate = rate.totalAmount / Math.max(1, rate.nights) / Math.max(1, rate.rooms);
+    if (limits.maxNightlyRate != null && nightlyRate > limits.maxNightlyRate + 0.005) {
+      violations.push("NIGHTLY_RATE");
+    }
+  }
+  if (limits.maxStarRating != null && rate.starRating != null && rate.starRating > limits.maxStarRating) {
+    violations.push("STAR_RATING");
+  }
+  return { inPolicy: violations.length === 0, violations, ...(nightlyRate != null && { nightlyRate }) };
+}
+
+/** Short label for UI badges. */
+export function describePolicyViolations(violations: PolicyViolation[]): string {
+  if (violations.length === 0) return "In policy";
+  return violations
+    .map((v) => (v === "NIGHTLY_RATE" ? "Above nightly rate limit" : "Above star rating limit"))
+    .join(" · ");
+}
@@ -0,0 +1,154 @@
+import { getCollection } from "@/lib/data-store";
+import type { ApprovalRequest, ApprovalStatus, CorporateAccount, CorporateMember } from "./types";
+
+const ACCOUNTS = "corporate_accounts";
+const MEMBERS = "corporate_members";
+const APPROVALS = "corporate_approvals";
+/** LiteAPI prebook response of an approved request (holds the payment secretKey), keyed by approval id. */
+const APPROVAL_PREBOOKS = "corporate_approval_prebooks";
+
+interface ApprovalPrebook {
+  approvalId: string;
+  prebookId: string;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+export type CorporateAccountInput = Omit<CorporateAccount, "createdAt" | "updatedAt">;
+export type CorporateMemberInput = Omit<CorporateMember, "createdAt" | "updatedAt">;
+
+export function normalizeMemberEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function accounts() {
+  return getCollection<CorporateAccount>(ACCOUNTS);
+}
+
+function members() {
+  return getCollection<CorporateMember>(MEMBERS);
+}
+
+function approvals() {
+  return getCollection<ApprovalRequest>(APPROVALS);
+}
+
+function approvalPrebooks() {
+  return getCollection<ApprovalPrebook>(APPROVAL_PREBOOKS);
+}
+
+export async function listCorporateAccounts(): Promise<CorporateAccount[]> {
+  const all = await accounts().list();
+  return all.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getCorporateAccount(id: string): Promise<CorporateAccount | null> {
+  return accounts().get(id);
+}
+
+export async function saveCorporateAccount(account: CorporateAccountInput): Promise<CorporateAccount> {
+  const now = new Date().toISOString();
+  const saved = await accounts().update(account.id, (current) => ({
+    ...account,
+    createdAt: current?.createdAt ?? now,
+    updatedAt: now
+  }));
+  return saved as CorporateAccount;
+}
+
+export function deleteCorporateAccount(id: string): Promise<boolean> {
+  return accounts().delete(id);
+}
+
+/** Members of one account: travel managers first, then by email. */
+export async function listCorporateMembers(accountId: string): Promise<CorporateMember[]> {
+  const all = await members().list();
+  return all
+    .filter((m) => m.accountId === accountId)
+    .sort((a, b) =>
+      a.role === b.role ? a.email.localeCompare(b.email) : a.role === "travel_manager" ? -1 : 1
+    );
+}
+
+export function getCorporateMember(email: string): Promise<CorporateMember | null> {
+  return members().get(normalizeMemberEmail(email));
+}
+
+/**
+ * Add or update a member. Returns null when the email already belongs to another account
+ * (an email can be a member of one account only).
+ */
+export async function saveCorporateMember(member: CorporateMemberInput): Promise<CorporateMember | null> {
+  const email = normalizeMemberEmail(member.email);
+  const now = new Date().toISOString();
+  let conflict = false;
+  const saved = await members().update(email, (current) => {
+    if (current && current.accountId !== member.accountId) {
+      conflict = true;
+      return null;
+    }
+    return { ...member, email, createdAt: current?.createdAt ?? now, updatedAt: now };
+  });
+  return conflict ? null : saved;
+}
+
+export function deleteCorporateMember(email: string): Promise<boolean> {
+  return members().delete(normalizeMemberEmail(email));
+}
+
+export function getApprovalRequest(id: string): Promise<ApprovalRequest | null> {
+  return approvals().get(id);
+}
+
+/** Requests of one account, newest first; optionally only one requester's or one status. */
+export async function listApprovalRequests(filter: {
+  accountId: string;
+  requestedByUserId?: string;
+  status?: ApprovalStatus;
+}): Promise<ApprovalRequest[]> {
+  const all = await approvals().list();
+  return all
+    .filter(
+      (a) =>
+        a.accountId === filter.accountId &&
+        (!filter.requestedByUserId || a.requestedByUserId === filter.requestedByUserId) &&
+        (!filter.status || a.status === filter.status)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** The approved request whose re-run prebook is prebookId, for that requester (the book route's check). */
+export async function findApprovalForPrebook(prebookId: string, userId: string): Promise<ApprovalRequest | null> {
+  const all = await approvals().list();
+  return (
+    all.find((a) => a.status === "approved" && a.approvedPrebookId === prebookId && a.requestedByUserId === userId) ??
+    null
+  );
+}
+
+export function saveApprovalRequest(approval: ApprovalRequest): Promise<ApprovalRequest> {
+  return approvals().put(approval.id, approval);
+}
+
+/** Read-modify-write one request (see Collection.update); resolves to the stored request. */
+export function updateApprovalRequest(
+  id: string,
+  updater: (current: ApprovalRequest | null) => ApprovalRequest | null
+): Promise<ApprovalRequest | null> {
+  return approvals().update(id, updater);
+}
+
+export async function saveApprovalPrebook(
+  approvalId: string,
+  prebookId: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  await approvalPrebooks().put(approvalId, { approvalId, prebookId, data, createdAt: new Date().toISOString() });
+}
+
+/** Prebook response for checkout (payment SDK needs its secretKey and transactionId); only for approved requests. */
+export async function getApprovedPrebook(approval: ApprovalRequest): Promise<Record<string, unknown> | null> {
+  if (approval.status !== "approved" || !approval.approvedPrebookId) return null;
+  const stored = await approvalPrebooks().get(approval.id);
+  return stored?.prebookId === approval.approvedPrebookId ? stored.data : null;
+}
@@ -0,0 +1,115 @@
+/**
+ * Corporate (B2B) accounts: a company, its members and the travel policy their bookings are checked against.
+ */
+
+import type { PaymentMode } from "@/checkout/types";
+import type { Channel } from "@/lib/channel-keys";
+import type { Occupancy } from "@/lib/occupancy";
+
+/** travel_manager: sees all company bookings, manages travellers, books on their behalf. traveller: books own trips. */
+export type CorporateRole = "travel_manager" | "traveller";
+
+/** Limits a rate should stay within; every field is optional (no field = no limit). */
+export interface TravelPolicy {
+  /** Per room per night, tax-inclusive offer price. Converted into the search currency for checks. */
+  maxNightlyRate?: { amount: number; currency: string };
+  /** Highest hotel star rating allowed (e.g. 4 → 5-star hotels are out of policy). */
+  maxStarRating?: number;
+}
+
+/** Invoice details recorded on every company booking. */
+export interface CorporateBilling {
+  companyName: string;
+  billingEmail?: string;
+  address?: string;
+  taxId?: string;
+}
+
+export interface CorporateAccount {
+  /** Also the accountId on member profiles and segment rules (b2b_account). */
+  id: string;
+  name: string;
+  active: boolean;
+  billing: CorporateBilling;
+  policy: TravelPolicy;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Membership is keyed by email so travellers can be added before they sign up. One account per email. */
+export interface CorporateMember {
+  email: string;
+  accountId: string;
+  role: CorporateRole;
+  firstName?: string;
+  lastName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Policy limits expressed in one currency (what the results and hotel pages compare prices with). */
+export interface PolicyLimits {
+  currency: string;
+  maxNightlyRate?: number;
+  maxStarRating?: number;
+}
+
+export type PolicyViolation = "NIGHTLY_RATE" | "STAR_RATING";
+
+export interface PolicyCheck {
+  inPolicy: boolean;
+  violations: PolicyViolation[];
+  /** Per room per night price the check used, when a price was given. */
+  nightlyRate?: number;
+}
+
+/**
+ * Out-of-policy request from a traveller, decided by a travel manager of the same account.
+ * expired: the offer could no longer be prebooked when the manager approved it.
+ */
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "expired";
+
+/** Held price vs the price of the prebook re-run on approval (same currency). */
+export interface ApprovalPriceChange {
+  currency: string;
+  previous: number;
+  current: number;
+  difference: number;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  accountId: string;
+  status: ApprovalStatus;
+  requestedByUserId: string;
+  requestedByEmail: string;
+  traveller: { email: string; firstName?: string; lastName?: string };
+  /** Why the traveller needs this rate (shown to the approver). */
+  reason?: string;
+  offerId: string;
+  hotelId?: string;
+  hotelName?: string;
+  checkin?: string;
+  checkout?: string;
+  /** Rooms and guests as searched (checkout is reopened with them once approved). */
+  occupancies: Occupancy[];
+  /** How the traveller means to pay; pay-later modes are prebooked without the payment SDK. Absent = pay_now. */
+  paymentMode?: PaymentMode;
+  /** Channel the offer was priced for; the approval prebook uses the same LiteAPI key. */
+  channel: Channel;
+  /** The prebook and price held when approval was requested. */
+  heldPrebookId: string;
+  heldPrice: { amount: number; currency: string };
+  policy: PolicyCheck;
+  decidedByEmail?: string;
+  decidedAt?: string;
+  decisionNote?: string;
+  /** Prebook the traveller pays against: re-run on approval, and again on resume once its price hold ended. */
+  approvedPrebookId?: string;
+  /** Price the manager approved; a resumed prebook above it needs a new approval. */
+  approvedPrice?: { amount: number; currency: string };
+  /** Set when the re-run prebook price differs from the held price. */
+  priceChange?: ApprovalPriceChange;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,26 @@
+import type { CorporateRole } from "./types";
+
+const ROLES: CorporateRole[] = ["travel_manager", "traveller"];
+
+export interface MemberFields {
+  email: string;
+  role: CorporateRole;
+  firstName?: string;
+  lastName?: string;
+}
+
+function optionalName(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, 100) : undefined;
+}
+
+/** Validate a member body ({ email, role?, firstName?, lastName? }); role defaults to traveller. */
+export function parseMemberFields(body: any): { ok: true; value: MemberFields } | { ok: false; message: string } {
+  const email = typeof body?.email === "string" ? body.email.trim().toLowerCase() : "";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return { ok: false, message: "Valid email is required" };
+  const role = body?.role ?? "traveller";
+  if (!ROLES.includes(role)) return { ok: false, message: `role must be one of ${ROLES.join(", ")}` };
+  return {
+    ok: true,
+    value: { email, role, firstName: optionalName(body?.firstName), lastName: optionalName(body?.lastName) }
+  };
+}
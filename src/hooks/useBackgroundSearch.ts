@@ -12,6 +12,7 @@ import type { ResultsQueryParams } from "@/lib/results-query";
 import { backgroundSearchParamsSignature } from "@/lib/results-query";
 import { parseOccupanciesParam, toApiOccupancies } from "@/lib/occupancy";
 import { getRatesSearchTimeout } from "@/lib/rates-timeout";
+import { SEARCH_PAGE_SIZE } from "@/lib/search-pages";
 
 const DEBOUNCE_MS_LOCATION = 500;
 const DEBOUNCE_MS_DATE_OR_OCCUPANCY = 1500;
@@ -132,7 +133,9 @@ export function useBackgroundSearch(
           currency,
           guestNationality: nationality,
           language: locale,
-          timeout: getRatesSearchTimeout()
+          timeout: getRatesSearchTimeout(),
+          offset: 0,
+          limit: SEARCH_PAGE_SIZE
         };
 
         fetch("/api/rates/search", {
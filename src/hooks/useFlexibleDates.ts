@@ -0,0 +1,59 @@
+/**
+ * Flexible-dates prices (/api/rates/search/flexible) for a rates search body plus flex mode; idle while the body is
+ * null. Refetches when the body changes and drops answers for an older body.
+ */
+
+import { useEffect, useState } from "react";
+import { getSearchErrorMessage } from "@/lib/search-errors";
+import type { FlexibleDates, FlexibleDatesResponse } from "@/search/flexible";
+
+export interface UseFlexibleDatesReturn {
+  data: FlexibleDatesResponse | null;
+  loading: boolean;
+  error: string | null;
+}
+
+export function useFlexibleDates(
+  body: (Record<string, unknown> & { flex: FlexibleDates }) | null
+): UseFlexibleDatesReturn {
+  const [data, setData] = useState<FlexibleDatesResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Callers rebuild the body each render; its JSON is the identity of the request
+  const bodyKey = body ? JSON.stringify(body) : null;
+
+  useEffect(() => {
+    setData(null);
+    setError(null);
+    if (!bodyKey) {
+      setLoading(false);
+      return;
+    }
+    const abortController = new AbortController();
+    setLoading(true);
+    (async () => {
+      try {
+        const res = await fetch("/api/rates/search/flexible", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          credentials: "include",
+          body: bodyKey,
+          signal: abortController.signal
+        });
+        const json = await res.json().catch(() => null);
+        if (!res.ok || json?.error || !json?.data) {
+          throw new Error(getSearchErrorMessage(res.status, json?.error).message);
+        }
+        setData(json.data as FlexibleDatesResponse);
+      } catch (err) {
+        if (abortController.signal.aborted) return;
+        setError(err instanceof Error ? err.message : getSearchErrorMessage(0, null).message);
+      } finally {
+        if (!abortController.signal.aborted) setLoading(false);
+      }
+    })();
+    return () => abortController.abort();
+  }, [bodyKey]);
+
+  return { data, loading, error };
+}
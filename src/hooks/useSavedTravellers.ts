@@ -0,0 +1,50 @@
+/**
+ * The logged-in user's saved travellers (/api/travellers), for pre-filling checkout and the search's child ages.
+ * Empty for guests.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import type { SavedTraveller } from "@/travellers/types";
+
+export interface UseSavedTravellersReturn {
+  travellers: SavedTraveller[];
+  /** True until the first load finishes (false straight away for guests). */
+  loading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+}
+
+export function useSavedTravellers(): UseSavedTravellersReturn {
+  const { isReady, isLoggedIn, userProfile } = useAuth();
+  const [travellers, setTravellers] = useState<SavedTraveller[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch("/api/travellers", { credentials: "include" });
+      const json = await res.json();
+      if (!res.ok || json?.error) throw new Error(json?.error?.message ?? "Could not load saved travellers");
+      setTravellers(json.data as SavedTraveller[]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load saved travellers");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isReady) return;
+    if (!isLoggedIn) {
+      setTravellers([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    reload();
+  }, [isReady, isLoggedIn, userProfile?.userId, reload]);
+
+  return { travellers, loading, error, reload };
+}
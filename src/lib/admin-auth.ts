@@ -0,0 +1,32 @@
+/**
+ * Admin/support API access: shared bearer token from ADMIN_API_TOKEN.
+ * Accepts "Authorization: Bearer <token>" or "X-Admin-Token: <token>".
+ * When ADMIN_API_TOKEN is unset, admin routes are closed.
+ */
+
+import { timingSafeEqual } from "crypto";
+import { NextResponse, type NextRequest } from "next/server";
+
+function tokenFromRequest(req: NextRequest): string | null {
+  const auth = req.headers.get("authorization");
+  if (auth && auth.toLowerCase().startsWith("bearer ")) return auth.slice(7).trim();
+  return req.headers.get("x-admin-token")?.trim() || null;
+}
+
+export function isAdminRequest(req: NextRequest): boolean {
+  const expected = process.env.ADMIN_API_TOKEN?.trim();
+  if (!expected) return false;
+  const given = tokenFromRequest(req);
+  if (!given) return false;
+  const a = Buffer.from(given, "utf8");
+  const b = Buffer.from(expected, "utf8");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** 401 response for admin routes; same error shape as other API routes. */
+export function adminUnauthorizedResponse(): NextResponse {
+  return NextResponse.json(
+    { error: { message: "Admin token required" } },
+    { status: 401 }
+  );
+}
@@ -0,0 +1,433 @@
+/**
+ * Server-side response caches (search results, hotel details): bounded, with a TTL and a stale-while-revalidate
+ * window. Storage is pluggable like the data store: CACHE_STORE picks a built-in store,
+ * "memory" (default) keeps an LRU per cache in process, "disk" writes one JSON file per entry under CACHE_DIR
+ * (default DATA_DIR/cache) so instances sharing the directory share entries and they survive restarts.
+ * Register a shared store (Redis, Memcached, …) with setCacheStoreFactory(); values must be JSON-serializable.
+ * Hit/miss counters are per process; see GET /api/admin/cache.
+ *
+ * Server only (uses fs). Never import from client components.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/** What a store keeps per key. */
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  /** Fresh until this time (ms). */
+  freshUntil: number;
+  /** Served stale (and refreshed in the background) until this time; dropped afterwards. */
+  staleUntil: number;
+}
+
+export interface CacheStoreStats {
+  entries: number;
+  /** Approximate size of the stored values (JSON length), when the store tracks it. */
+  bytes?: number;
+  evictions: number;
+}
+
+/**
+ * Storage behind one named cache. Maps onto Redis-like stores: get → GET, set → SET … PX ttlMs, delete → DEL.
+ * ttlMs is how long the entry may be kept at all (fresh + stale window).
+ */
+export interface CacheStore {
+  readonly kind: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): Promise<CacheStoreStats>;
+}
+
+export interface CacheOptions {
+  /** Unique name; also the store namespace and the label on the diagnostics route. */
+  name: string;
+  ttlMs: number;
+  /** How long after the TTL an entry is still served while a refresh runs (default 0: no stale serving). */
+  staleMs?: number;
+  /** LRU bound on the number of entries. */
+  maxEntries: number;
+  /** Optional LRU bound on total JSON size, for caches of large payloads. */
+  maxBytes?: number;
+}
+
+export type CacheStoreFactory = (options: CacheOptions) => CacheStore;
+
+export interface CacheStats extends CacheStoreStats {
+  name: string;
+  store: string;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  /** Fraction of lookups answered from the cache (fresh or stale); null before the first lookup. */
+  hitRate: number | null;
+  revalidations: number;
+  revalidationErrors: number;
+  loadErrors: number;
+}
+
+function sizeOf(value: unknown): number {
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+/** In-process LRU: Map insertion order is recency order (a read re-inserts the key). */
+class MemoryCacheStore implements CacheStore {
+  readonly kind = "memory";
+  private entries = new Map<string, { entry: CacheEntry<unknown>; expiresAt: number; bytes: number }>();
+  private bytes = 0;
+  private evictions = 0;
+
+  constructor(private readonly options: CacheOptions) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const item = this.entries.get(key);
+    if (!item) return null;
+    this.entries.delete(key);
+    if (item.expiresAt <= Date.now()) {
+      this.bytes -= item.bytes;
+      return null;
+    }
+    this.entries.set(key, item);
+    return item.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void> {
+    await this.delete(key);
+    const bytes = this.options.maxBytes != null ? sizeOf(entry.value) : 0;
+    this.entries.set(key, { entry, expiresAt: Date.now() + ttlMs, bytes });
+    this.bytes += bytes;
+    this.evict();
+  }
+
+  private evict() {
+    const { maxEntries, maxBytes } = this.options;
+    // Keep at least the newest entry even when it alone exceeds maxBytes
+    while (
+      this.entries.size > 1 &&
+      (this.entries.size > maxEntries || (maxBytes != null && this.bytes > maxBytes))
+    ) {
+      const [oldest, item] = this.entries.entries().next().value as [string, { bytes: number }];
+      this.entries.delete(oldest);
+      this.bytes -= item.bytes;
+      this.evictions += 1;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const item = this.entries.get(key);
+    if (!item) return;
+    this.entries.delete(key);
+    this.bytes -= item.bytes;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  async stats(): Promise<CacheStoreStats> {
+    return {
+      entries: this.entries.size,
+      ...(this.options.maxBytes != null && { bytes: this.bytes }),
+      evictions: this.evictions
+    };
+  }
+}
+
+/** An eviction pass trims the directory to this share of maxEntries / maxBytes, so the next one is writes away. */
+const DISK_EVICT_TO = 0.9;
+
+/**
+ * One JSON file per entry (file name = hash of the key). Least recently used files (by mtime, touched on read)
+ * are removed when the directory holds more than maxEntries. Writes are atomic (tmp file + rename).
+ * File count and bytes are kept in memory (seeded from the directory once), so a write only lists the directory
+ * when it takes the cache over a bound; that pass re-reads it, which also picks up other instances' writes.
+ */
+class DiskCacheStore implements CacheStore {
+  readonly kind = "disk";
+  private evictions = 0;
+  private sizes = new Map<string, number>();
+  private bytes = 0;
+  private seeded: Promise<void> | null = null;
+
+  constructor(
+    private readonly dir: string,
+    private readonly options: CacheOptions
+  ) {}
+
+  private file(key: string): string {
+    return path.join(this.dir, `${createHash("sha1").update(key).digest("hex")}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const file = this.file(key);
+    try {
+      const stored = JSON.parse(await fs.readFile(file, "utf8")) as { key: string; expiresAt: number; entry: CacheEntry<T> };
+      if (stored.key !== key) return null;
+      if (stored.expiresAt <= Date.now()) {
+        await fs.unlink(file).catch(() => undefined);
+        this.track(file, null);
+        return null;
+      }
+      const now = new Date();
+      await fs.utimes(file, now, now).catch(() => undefined);
+      return stored.entry;
+    } catch {
+      return null;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.file(key);
+    const tmp = `${file}.${process.pid}.tmp`;
+    const json = JSON.stringify({ key, expiresAt: Date.now() + ttlMs, entry });
+    await fs.writeFile(tmp, json, "utf8");
+    await fs.rename(tmp, file);
+    await this.seed();
+    this.track(file, Buffer.byteLength(json, "utf8"));
+    if (this.overBounds(1)) await this.evict();
+  }
+
+  private seed(): Promise<void> {
+    this.seeded ??= this.listFiles().then((files) => this.reindex(files));
+    return this.seeded;
+  }
+
+  private reindex(files: { file: string; size: number }[]) {
+    this.sizes = new Map(files.map((f) => [f.file, f.size]));
+    this.bytes = files.reduce((sum, f) => sum + f.size, 0);
+  }
+
+  /** Record a file's new size, or its removal (null). */
+  private track(file: string, size: number | null) {
+    const previous = this.sizes.get(file);
+    if (previous != null) {
+      this.sizes.delete(file);
+      this.bytes -= previous;
+    }
+    if (size != null) {
+      this.sizes.set(file, size);
+      this.bytes += size;
+    }
+  }
+
+  private overBounds(share: number): boolean {
+    const { maxEntries, maxBytes } = this.options;
+    return this.sizes.size > maxEntries * share || (maxBytes != null && this.bytes > maxBytes * share);
+  }
+
+  private async listFiles(): Promise<{ file: string; mtimeMs: number; size: number }[]> {
+    let names: string[];
+    try {
+      names = (await fs.readdir(this.dir)).filter((n) => n.endsWith(".json"));
+    } catch {
+      return [];
+    }
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(this.dir, name);
+        const stat = await fs.stat(file).catch(() => null);
+        return stat ? { file, mtimeMs: stat.mtimeMs, size: stat.size } : null;
+      })
+    );
+    return files.filter((f): f is { file: string; mtimeMs: number; size: number } => f != null);
+  }
+
+  private async evict() {
+    const files = await this.listFiles();
+    this.reindex(files);
+    if (!this.overBounds(1)) return;
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const f of files) {
+      // Keep at least the newest entry even when it alone exceeds maxBytes
+      if (this.sizes.size <= 1 || !this.overBounds(DISK_EVICT_TO)) break;
+      await fs.unlink(f.file).catch(() => undefined);
+      this.track(f.file, null);
+      this.evictions += 1;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.file(key);
+    await fs.unlink(file).catch(() => undefined);
+    this.track(file, null);
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.dir, { recursive: true, force: true });
+    this.reindex([]);
+    this.seeded = Promise.resolve();
+  }
+
+  async stats(): Promise<CacheStoreStats> {
+    const files = await this.listFiles();
+    return { entries: files.length, bytes: files.reduce((sum, f) => sum + f.size, 0), evictions: this.evictions };
+  }
+}
+
+function getCacheDir(): string {
+  const configured = process.env.CACHE_DIR?.trim();
+  if (configured) return path.resolve(configured);
+  const dataDir = process.env.DATA_DIR?.trim();
+  return path.join(dataDir ? path.resolve(dataDir) : path.join(process.cwd(), ".data"), "cache");
+}
+
+export function createMemoryCacheStore(options: CacheOptions): CacheStore {
+  return new MemoryCacheStore(options);
+}
+
+export function createDiskCacheStore(options: CacheOptions, dir = getCacheDir()): CacheStore {
+  return new DiskCacheStore(path.join(dir, options.name.replace(/[^a-z0-9_-]/gi, "_")), options);
+}
+
+function defaultStoreFactory(options: CacheOptions): CacheStore {
+  return process.env.CACHE_STORE === "disk" ? createDiskCacheStore(options) : createMemoryCacheStore(options);
+}
+
+export class Cache<T> {
+  private store: CacheStore | null = null;
+  private inFlight = new Map<string, Promise<T>>();
+  private counters = { hits: 0, staleHits: 0, misses: 0, revalidations: 0, revalidationErrors: 0, loadErrors: 0 };
+
+  constructor(readonly options: CacheOptions) {}
+
+  private getStore(): CacheStore {
+    if (!this.store) this.store = (globalCaches.__cacheStoreFactory ?? defaultStoreFactory)(this.options);
+    return this.store;
+  }
+
+  /** Drop the store so the next call uses the current factory (after setCacheStoreFactory). */
+  resetStore(): void {
+    this.store = null;
+  }
+
+  /** Fresh value only; does not count towards the stats. */
+  async peek(key: string): Promise<T | null> {
+    const entry = await this.getStore().get<T>(key).catch(() => null);
+    return entry && entry.freshUntil > Date.now() ? entry.value : null;
+  }
+
+  /** Whether getOrLoad would answer without starting a load of its own: a fresh or stale entry, or a load in flight. */
+  async canServe(key: string): Promise<boolean> {
+    if (this.inFlight.has(key)) return true;
+    const entry = await this.getStore().get<T>(key).catch(() => null);
+    return !!entry && entry.staleUntil > Date.now();
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const now = Date.now();
+    const staleMs = this.options.staleMs ?? 0;
+    const entry: CacheEntry<T> = {
+      value,
+      storedAt: now,
+      freshUntil: now + this.options.ttlMs,
+      staleUntil: now + this.options.ttlMs + staleMs
+    };
+    await this.getStore().set(key, entry, this.options.ttlMs + staleMs);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.getStore().delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.getStore().clear();
+  }
+
+  /** Run loader once per key at a time and store its result; errors are not cached. */
+  private load(key: string, loader: () => Promise<T>): Promise<T> {
+    const running = this.inFlight.get(key);
+    if (running) return running;
+    const promise = (async () => {
+      try {
+        const value = await loader();
+        await this.set(key, value).catch((err) => console.warn(`[cache:${this.options.name}] store write failed`, err));
+        return value;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Fresh entry → returned. Stale entry → returned at once while loader refreshes it in the background
+   * (a failed refresh keeps the stale entry until it expires). Missing → loader runs; concurrent callers share it.
+   * Loader errors are thrown to the caller and nothing is cached.
+   */
+  async getOrLoad(key: string, loader: () => Promise<T>): Promise<T> {
+    const entry = await this.getStore().get<T>(key).catch(() => null);
+    const now = Date.now();
+    if (entry && entry.freshUntil > now) {
+      this.counters.hits += 1;
+      return entry.value;
+    }
+    if (entry && entry.staleUntil > now) {
+      this.counters.staleHits += 1;
+      if (!this.inFlight.has(key)) {
+        this.counters.revalidations += 1;
+        this.load(key, loader).catch(() => {
+          this.counters.revalidationErrors += 1;
+        });
+      }
+      return entry.value;
+    }
+    this.counters.misses += 1;
+    try {
+      return await this.load(key, loader);
+    } catch (err) {
+      this.counters.loadErrors += 1;
+      throw err;
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    const store = this.getStore();
+    const storeStats = await store.stats().catch((): CacheStoreStats => ({ entries: 0, evictions: 0 }));
+    const lookups = this.counters.hits + this.counters.staleHits + this.counters.misses;
+    return {
+      name: this.options.name,
+      store: store.kind,
+      ...this.counters,
+      hitRate: lookups > 0 ? (this.counters.hits + this.counters.staleHits) / lookups : null,
+      ...storeStats
+    };
+  }
+}
+
+// Kept on globalThis so dev-server hot reloads reuse the same caches and counters.
+const globalCaches = globalThis as typeof globalThis & {
+  __caches?: Map<string, Cache<unknown>>;
+  __cacheStoreFactory?: CacheStoreFactory;
+};
+
+/** Get (or create on first use) the named cache. Options of later calls for the same name are ignored. */
+export function getCache<T>(options: CacheOptions): Cache<T> {
+  if (!globalCaches.__caches) globalCaches.__caches = new Map();
+  let cache = globalCaches.__caches.get(options.name);
+  if (!cache) {
+    cache = new Cache<unknown>(options);
+    globalCaches.__caches.set(options.name, cache);
+  }
+  return cache as Cache<T>;
+}
+
+/** Replace the store for all caches (e.g. with a Redis adapter). Existing entries are not migrated. */
+export function setCacheStoreFactory(factory: CacheStoreFactory): void {
+  globalCaches.__cacheStoreFactory = factory;
+  for (const cache of globalCaches.__caches?.values() ?? []) cache.resetStore();
+}
+
+export async function getAllCacheStats(): Promise<CacheStats[]> {
+  return Promise.all([...(globalCaches.__caches?.values() ?? [])].map((cache) => cache.stats()));
+}
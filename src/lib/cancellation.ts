@@ -0,0 +1,96 @@
+/**
+ * Cancellation policy helpers (LiteAPI cancellationPolicies).
+ * cancelPolicyInfos[]: from cancelTime onwards, cancelling costs `amount` (in `currency`).
+ * Before the earliest cancelTime the booking is fully refundable (unless tagged non-refundable).
+ * Pure functions; safe on client and server.
+ */
+
+export interface CancelPolicyInfo {
+  cancelTime?: string;
+  amount?: number;
+  currency?: string;
+  type?: string;
+  timezone?: string;
+}
+
+export interface CancellationPolicies {
+  refundableTag?: string;
+  cancelPolicyInfos?: CancelPolicyInfo[];
+}
+
+export interface RefundEstimate {
+  /** Amount refunded if cancelled now. */
+  refundAmount: number;
+  /** Cancellation fee if cancelled now. */
+  penaltyAmount: number;
+  currency: string;
+  /** True when nothing is charged for cancelling now. */
+  isFullRefund: boolean;
+  /** Earliest upcoming cancelTime at which the fee changes (ISO), if any. */
+  nextChangeAt?: string;
+}
+
+export function isNonRefundableTag(tag: string | undefined): boolean {
+  return tag === "NRF" || tag === "NRFN";
+}
+
+/** LiteAPI sends "YYYY-MM-DD HH:mm:ss" (UTC unless timezone says otherwise). Returns epoch ms or null. */
+export function parseCancelTime(cancelTime: string | undefined): number | null {
+  if (!cancelTime) return null;
+  const trimmed = cancelTime.trim();
+  const iso = trimmed.includes("T") ? trimmed : trimmed.replace(" ", "T");
+  const withZone = /([zZ]|[+-]\d{2}:?\d{2})$/.test(iso) ? iso : `${iso}Z`;
+  const ms = Date.parse(withZone);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Estimate the refund for cancelling at `now`, given the amount paid.
+ * The fee is the amount of the latest policy whose cancelTime has passed (capped at the price).
+ */
+export function estimateRefund(
+  price: number,
+  currency: string,
+  policies: CancellationPolicies | undefined,
+  now: Date = new Date()
+): RefundEstimate {
+  if (isNonRefundableTag(policies?.refundableTag)) {
+    return { refundAmount: 0, penaltyAmount: price, currency, isFullRefund: false };
+  }
+
+  const nowMs = now.getTime();
+  const infos = (policies?.cancelPolicyInfos ?? [])
+    .map((info) => ({ info, at: parseCancelTime(info.cancelTime) }))
+    .filter((x): x is { info: CancelPolicyInfo; at: number } => x.at != null)
+    .sort((a, b) => a.at - b.at);
+
+  let penalty = 0;
+  let nextChangeAt: string | undefined;
+  for (const { info, at } of infos) {
+    if (at <= nowMs) {
+      penalty = typeof info.amount === "number" ? info.amount : price;
+    } else {
+      nextChangeAt = new Date(at).toISOString();
+      break;
+    }
+  }
+
+  const penaltyAmount = Math.min(price, Math.max(0, penalty));
+  return {
+    refundAmount: Math.max(0, Math.round((price - penaltyAmount) * 100) / 100),
+    penaltyAmount,
+    currency,
+    isFullRefund: penaltyAmount === 0,
+    ...(nextChangeAt && { nextChangeAt })
+  };
+}
+
+/** Last moment a booking can be cancelled free of charge (ISO), or null if never/unknown. */
+export function getFreeCancellationDeadline(policies: CancellationPolicies | undefined): string | null {
+  if (isNonRefundableTag(policies?.refundableTag)) return null;
+  const times = (policies?.cancelPolicyInfos ?? [])
+    .map((info) => parseCancelTime(info.cancelTime))
+    .filter((t): t is number => t != null);
+  if (times.length === 0) return null;
+  return new Date(Math.min(...times)).toISOString();
+}
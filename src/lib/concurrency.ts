@@ -0,0 +1,20 @@
+/** Run `fn` over `items` with at most `limit` calls in flight; results keep the items' order. */
+export async function settleWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]).then(
+        (value): PromiseFulfilledResult<R> => ({ status: "fulfilled", value }),
+        (reason): PromiseRejectedResult => ({ status: "rejected", reason })
+      );
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,202 @@
+/**
+ * Server-side persistence: named collections of JSON records keyed by id.
+ * Default backend is one JSON file per collection under DATA_DIR (default ".data" in the project root);
+ * DATA_STORE=memory keeps everything in process (tests, throwaway previews).
+ * Swap in a real database by registering another CollectionBackend with setCollectionBackend().
+ *
+ * Server only (uses fs). Never import from client components.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+/** One named collection of records. All methods are async so DB-backed implementations can plug in. */
+export interface Collection<T> {
+  /** All records (unordered). */
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  /** Insert or replace the record stored under id. */
+  put(id: string, value: T): Promise<T>;
+  /**
+   * Read-modify-write under the collection's write lock.
+   * updater receives the current record (or null) and returns the next one; return null to leave the record unchanged.
+   */
+  update(id: string, updater: (current: T | null) => T | null): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/** Factory for collections; one instance per backend (file, memory, or a custom DB adapter). */
+export interface CollectionBackend {
+  collection<T>(name: string): Collection<T>;
+}
+
+type RecordMap<T> = Map<string, T>;
+
+/**
+ * Base for in-process collections: a Map plus a promise chain that serializes writes. A write persists a copy
+ * with the change and only then applies it to the Map, so a failed persist leaves memory matching storage.
+ */
+abstract class MapCollection<T> implements Collection<T> {
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  protected abstract load(): Promise<RecordMap<T>>;
+  protected abstract persist(records: RecordMap<T>): Promise<void>;
+
+  /** Run fn after all previously queued writes (keeps read-modify-write atomic within this process). */
+  private enqueue<R>(fn: () => Promise<R>): Promise<R> {
+    const next = this.writeChain.then(fn, fn);
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+
+  /** Persist records with the change to id (undefined = delete), then apply it to the live Map. */
+  private async commit(records: RecordMap<T>, id: string, value: T | undefined): Promise<void> {
+    const next = new Map(records);
+    if (value === undefined) next.delete(id);
+    else next.set(id, value);
+    await this.persist(next);
+    if (value === undefined) records.delete(id);
+    else records.set(id, value);
+  }
+
+  async list(): Promise<T[]> {
+    const records = await this.load();
+    return [...records.values()];
+  }
+
+  async get(id: string): Promise<T | null> {
+    const records = await this.load();
+    return records.get(id) ?? null;
+  }
+
+  put(id: string, value: T): Promise<T> {
+    return this.enqueue(async () => {
+      await this.commit(await this.load(), id, value);
+      return value;
+    });
+  }
+
+  update(id: string, updater: (current: T | null) => T | null): Promise<T | null> {
+    return this.enqueue(async () => {
+      const records = await this.load();
+      const current = records.get(id) ?? null;
+      const next = updater(current);
+      if (next == null) return current;
+      await this.commit(records, id, next);
+      return next;
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      const records = await this.load();
+      if (!records.has(id)) return false;
+      await this.commit(records, id, undefined);
+      return true;
+    });
+  }
+}
+
+class MemoryCollection<T> extends MapCollection<T> {
+  private records: RecordMap<T> = new Map();
+
+  protected async load(): Promise<RecordMap<T>> {
+    return this.records;
+  }
+
+  protected async persist(): Promise<void> {
+    // nothing to do; records live in memory
+  }
+}
+
+/**
+ * JSON file collection: the whole collection is read once and kept in memory;
+ * every write rewrites the file atomically (tmp file + rename).
+ * Not safe across multiple server instances sharing one file — use a DB backend for that.
+ */
+class FileCollection<T> extends MapCollection<T> {
+  private records: RecordMap<T> | null = null;
+  private loading: Promise<RecordMap<T>> | null = null;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected load(): Promise<RecordMap<T>> {
+    if (this.records) return Promise.resolve(this.records);
+    if (!this.loading) {
+      this.loading = (async () => {
+        let entries: Record<string, T> = {};
+        try {
+          const raw = await fs.readFile(this.filePath, "utf8");
+          const parsed = JSON.parse(raw);
+          if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) entries = parsed;
+        } catch (err: any) {
+          if (err?.code !== "ENOENT") throw err;
+        }
+        this.records = new Map(Object.entries(entries));
+        return this.records;
+      })();
+      this.loading.catch(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  protected async persist(records: RecordMap<T>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(Object.fromEntries(records), null, 2), "utf8");
+    await fs.rename(tmp, this.filePath);
+  }
+}
+
+function createCachedBackend(factory: (name: string) => Collection<unknown>): CollectionBackend {
+  const collections = new Map<string, Collection<unknown>>();
+  return {
+    collection<T>(name: string): Collection<T> {
+      let c = collections.get(name);
+      if (!c) {
+        c = factory(name);
+        collections.set(name, c);
+      }
+      return c as Collection<T>;
+    }
+  };
+}
+
+export function createMemoryBackend(): CollectionBackend {
+  return createCachedBackend(() => new MemoryCollection());
+}
+
+export function createFileBackend(dataDir: string): CollectionBackend {
+  return createCachedBackend(
+    (name) => new FileCollection(path.join(dataDir, `${name.replace(/[^a-z0-9_-]/gi, "_")}.json`))
+  );
+}
+
+function getDataDir(): string {
+  const dir = process.env.DATA_DIR?.trim();
+  return dir ? path.resolve(dir) : path.join(process.cwd(), ".data");
+}
+
+function createDefaultBackend(): CollectionBackend {
+  return process.env.DATA_STORE === "memory" ? createMemoryBackend() : createFileBackend(getDataDir());
+}
+
+// Kept on globalThis so dev-server hot reloads reuse the same in-memory state and write queues.
+const globalStore = globalThis as typeof globalThis & { __dataStoreBackend?: CollectionBackend };
+
+/** Replace the backend (e.g. with a DB adapter). Affects collections requested after this call. */
+export function setCollectionBackend(backend: CollectionBackend): void {
+  globalStore.__dataStoreBackend = backend;
+}
+
+/** Get a named collection from the active backend. */
+export function getCollection<T>(name: string): Collection<T> {
+  if (!globalStore.__dataStoreBackend) {
+    globalStore.__dataStoreBackend = createDefaultBackend();
+  }
+  return globalStore.__dataStoreBackend.collection<T>(name);
+}
@@ -40,20 +40,18 @@ export function formatDistance(meters: number): string {
 }
 
 /**
- * Calculate distances from center point to all hotels.
+ * Calculate distances from center point to all hotels with a location.
  * Returns map of hotelId -> distance in meters.
  */
 export function calculateHotelDistances(
-  hotels: { id: string }[],
-  hotelDetailsByHotelId: Record<string, { location?: { latitude: number; longitude: number } }>,
+  hotels: { id: string; location?: { latitude: number; longitude: number } }[],
   centerLat: number,
   centerLng: number
 ): Record<string, number> {
   const distances: Record<string, number> = {};
 
   for (const hotel of hotels) {
-    const details = hotelDetailsByHotelId[hotel.id];
-    const location = details?.location;
+    const location = hotel.location;
 
     if (location?.latitude != null && location?.longitude != null) {
       distances[hotel.id] = calculateDistance(
@@ -0,0 +1,55 @@
+/**
+ * Reference exchange rates for server-side currency conversion (promo amounts, min spend, policy limits).
+ * Rates are units of currency per 1 USD. Defaults are approximate; override with FX_RATES_PER_USD
+ * (JSON, e.g. {"EGP":48.9,"EUR":0.92}) until a live FX feed is wired in.
+ * Booking prices themselves always come from LiteAPI in the requested currency; this is only for our own rules.
+ */
+
+const DEFAULT_RATES_PER_USD: Record<string, number> = {
+  USD: 1,
+  EGP: 48.5,
+  EUR: 0.92,
+  SAR: 3.75,
+  AED: 3.67,
+  CAD: 1.36,
+  GBP: 0.79
+};
+
+let cachedRates: Record<string, number> | null = null;
+
+function getRatesPerUsd(): Record<string, number> {
+  if (cachedRates) return cachedRates;
+  let overrides: Record<string, number> = {};
+  const raw = process.env.FX_RATES_PER_USD;
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (parsed && typeof parsed === "object") {
+        for (const [code, rate] of Object.entries(parsed)) {
+          if (typeof rate === "number" && rate > 0) overrides[code.toUpperCase()] = rate;
+        }
+      }
+    } catch {
+      overrides = {};
+    }
+  }
+  cachedRates = { ...DEFAULT_RATES_PER_USD, ...overrides };
+  return cachedRates;
+}
+
+/** Round to 2 decimals (minor units). */
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** Convert amount between currencies. Returns null when either currency has no known rate. */
+export function convertAmount(amount: number, from: string, to: string): number | null {
+  const fromCode = from.trim().toUpperCase();
+  const toCode = to.trim().toUpperCase();
+  if (fromCode === toCode) return amount;
+  const rates = getRatesPerUsd();
+  const fromRate = rates[fromCode];
+  const toRate = rates[toCode];
+  if (!fromRate || !toRate) return null;
+  return roundMoney((amount / fromRate) * toRate);
+}
@@ -0,0 +1,211 @@
+/**
+ * Guest details for booking: the Latin-only name rules suppliers apply (with transliteration hints for Arabic
+ * input), phone numbers, and the per-room guest list checked against the searched occupancies.
+ * Used by the checkout form and by /api/rates/book.
+ */
+
+import type { Occupancy } from "./occupancy";
+
+export const MAX_GUEST_NAME_LENGTH = 50;
+
+export type GuestType = "adult" | "child";
+
+/** Who has to be named in a room: the lead adult first, then the other adults, then children (ages from the occupancy). */
+export interface RoomGuestSlot {
+  type: GuestType;
+  age?: number;
+}
+
+export interface GuestNameCheck {
+  valid: boolean;
+  message?: string;
+  /** Latin spelling to offer instead ("Use Mohamed"), when one can be derived. */
+  suggestion?: string;
+}
+
+/** Letters A–Z only; single spaces, hyphens or apostrophes between parts (Anne-Marie, O'Neil, Abdel Rahman). */
+const LATIN_NAME = /^[A-Za-z]+(?:[ '-][A-Za-z]+)*$/;
+const ARABIC = /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/;
+const ARABIC_DIACRITICS = /[\u064B-\u065F\u0670\u0640]/g;
+
+/** Usual passport spellings (Egyptian / Gulf usage) for common names; other words fall back to letter mapping. */
+const COMMON_ARABIC_NAMES: Record<string, string> = {
+  "محمد": "Mohamed",
+  "أحمد": "Ahmed",
+  "احمد": "Ahmed",
+  "محمود": "Mahmoud",
+  "مصطفى": "Mostafa",
+  "علي": "Ali",
+  "عمر": "Omar",
+  "يوسف": "Youssef",
+  "خالد": "Khaled",
+  "حسن": "Hassan",
+  "حسين": "Hussein",
+  "إبراهيم": "Ibrahim",
+  "ابراهيم": "Ibrahim",
+  "عبدالله": "Abdullah",
+  "عبد": "Abdel",
+  "الله": "Allah",
+  "عبدالرحمن": "Abdelrahman",
+  "طارق": "Tarek",
+  "كريم": "Karim",
+  "سعيد": "Saeed",
+  "فاطمة": "Fatma",
+  "مريم": "Mariam",
+  "سارة": "Sara",
+  "نور": "Nour",
+  "منى": "Mona",
+  "هدى": "Hoda",
+  "ياسمين": "Yasmin",
+  "آية": "Aya",
+  "عائشة": "Aisha"
+};
+
+const ARABIC_LETTERS: Record<string, string> = {
+  "ا": "a", "أ": "a", "إ": "i", "آ": "a", "ء": "", "ؤ": "", "ئ": "",
+  "ب": "b", "ت": "t", "ث": "th", "ج": "g", "ح": "h", "خ": "kh", "د": "d", "ذ": "z",
+  "ر": "r", "ز": "z", "س": "s", "ش": "sh", "ص": "s", "ض": "d", "ط": "t", "ظ": "z",
+  "ع": "a", "غ": "gh", "ف": "f", "ق": "k", "ك": "k", "ل": "l", "م": "m", "ن": "n",
+  "ه": "h", "ة": "a", "و": "o", "ي": "y", "ى": "a"
+};
+
+function capitalize(word: string): string {
+  return word ? word[0].toUpperCase() + word.slice(1) : word;
+}
+
+function transliterateLetters(word: string): string {
+  return Array.from(word)
+    .map((ch) => ARABIC_LETTERS[ch] ?? (/[A-Za-z]/.test(ch) ? ch : ""))
+    .join("");
+}
+
+/** Rough Latin spelling of an Arabic name, as a hint only: the guest should still type it as in their passport. */
+export function transliterateArabic(value: string): string {
+  return value
+    .replace(ARABIC_DIACRITICS, "")
+    .trim()
+    .split(/\s+/)
+    .map((word) => {
+      if (COMMON_ARABIC_NAMES[word]) return COMMON_ARABIC_NAMES[word];
+      // "عبد" prefixes and the "ال" article are usually written Abdel- / El-
+      const prefixed = word.match(/^(عبد|ال)(.{2,})$/);
+      if (prefixed) {
+        const rest = COMMON_ARABIC_NAMES[prefixed[2]] ?? transliterateLetters(prefixed[2]);
+        return `${prefixed[1] === "عبد" ? "Abdel" : "El"}${rest.toLowerCase()}`;
+      }
+      return capitalize(transliterateLetters(word));
+    })
+    .filter(Boolean)
+    .join(" ");
+}
+
+function stripAccents(value: string): string {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/** Collapse runs of whitespace; what we store and send to LiteAPI. */
+export function normalizeGuestName(value: string): string {
+  return value.trim().replace(/\s+/g, " ");
+}
+
+export function checkGuestName(value: string): GuestNameCheck {
+  const name = normalizeGuestName(value);
+  if (!name) return { valid: false, message: "Required" };
+  if (name.length > MAX_GUEST_NAME_LENGTH) {
+    return { valid: false, message: `Use at most ${MAX_GUEST_NAME_LENGTH} characters` };
+  }
+  if (LATIN_NAME.test(name)) return { valid: true };
+  if (ARABIC.test(name)) {
+    const suggestion = transliterateArabic(name);
+    return {
+      valid: false,
+      message: "Hotels need names in English letters, spelled as in your passport",
+      ...(suggestion && LATIN_NAME.test(suggestion) && { suggestion })
+    };
+  }
+  const plain = stripAccents(name);
+  if (LATIN_NAME.test(plain)) {
+    return { valid: false, message: "Use letters without accents", suggestion: plain };
+  }
+  return { valid: false, message: "Use letters, spaces, hyphens or apostrophes only" };
+}
+
+export function isValidGuestName(value: string): boolean {
+  return checkGuestName(value).valid;
+}
+
+/** International or local format: digits with optional leading +, spaces, dashes and brackets; 7–15 digits. */
+export function isValidPhone(value: string): boolean {
+  const phone = value.trim();
+  if (!/^\+?[\d\s()-]+$/.test(phone)) return false;
+  const digits = phone.replace(/\D/g, "").length;
+  return digits >= 7 && digits <= 15;
+}
+
+export function getRoomGuestSlots(occupancy: Occupancy): RoomGuestSlot[] {
+  return [
+    ...Array.from({ length: Math.max(1, occupancy.adults) }, (): RoomGuestSlot => ({ type: "adult" })),
+    ...occupancy.children.map((age): RoomGuestSlot => ({ type: "child", age }))
+  ];
+}
+
+export interface RoomGuestInput {
+  occupancyNumber: number;
+  firstName: string;
+  lastName: string;
+  type?: GuestType;
+}
+
+/**
+ * Check a book request's guests against the occupancies: every adult and child of every room named, with valid
+ * names, and nobody in a room that was not searched. Returns the guests in slot order with child ages from the
+ * occupancy, or a message for the first problem.
+ */
+export function assignGuestsToRooms<G extends RoomGuestInput>(
+  occupancies: Occupancy[],
+  guests: G[]
+): { ok: true; guests: (G & { type: GuestType; age?: number })[] } | { ok: false; message: string } {
+  const assigned: (G & { type: GuestType; age?: number })[] = [];
+  for (const guest of guests) {
+    if (guest.occupancyNumber < 1 || guest.occupancyNumber > occupancies.length) {
+      return { ok: false, message: `Room ${guest.occupancyNumber} is not part of this booking.` };
+    }
+  }
+  for (const [i, occupancy] of occupancies.entries()) {
+    const room = i + 1;
+    const inRoom = guests.filter((g) => g.occupancyNumber === room);
+    const adults = inRoom.filter((g) => g.type !== "child");
+    const children = inRoom.filter((g) => g.type === "child");
+    const slots = getRoomGuestSlots(occupancy);
+    const adultSlots = slots.filter((s) => s.type === "adult").length;
+    if (adults.length !== adultSlots || children.length !== occupancy.children.length) {
+      return {
+        ok: false,
+        message: `Room ${room} is for ${adultSlots} ${adultSlots === 1 ? "adult" : "adults"}${
+          occupancy.children.length > 0 ? ` and ${occupancy.children.length} ${occupancy.children.length === 1 ? "child" : "children"}` : ""
+        }; please name every guest.`
+      };
+    }
+    for (const guest of inRoom) {
+      if (!isValidGuestName(guest.firstName) || !isValidGuestName(guest.lastName)) {
+        return { ok: false, message: `Guest names in room ${room} must use English letters only.` };
+      }
+    }
+    assigned.push(
+      ...adults.map((g) => ({ ...g, type: "adult" as const })),
+      ...children.map((g, c) => ({ ...g, type: "child" as const, age: occupancy.children[c] }))
+    );
+  }
+  return { ok: true, guests: assigned };
+}
+
+/** Age in whole years on a date (YYYY-MM-DD), e.g. a child's age at check-in; null for unparseable dates. */
+export function getAgeOn(birthDate: string, onDate: string): number | null {
+  const birth = /^(\d{4})-(\d{2})-(\d{2})/.exec(birthDate);
+  const on = /^(\d{4})-(\d{2})-(\d{2})/.exec(onDate);
+  if (!birth || !on) return null;
+  const [by, bm, bd] = birth.slice(1).map(Number);
+  const [oy, om, od] = on.slice(1).map(Number);
+  const age = oy - by - (om < bm || (om === bm && od < bd) ? 1 : 0);
+  return age >= 0 ? age : null;
+}
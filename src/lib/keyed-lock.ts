@@ -0,0 +1,19 @@
+/**
+ * In-process keyed mutex: calls with the same key run one after another, different keys run in parallel.
+ * Serializes concurrent requests inside one server instance only; cross-instance safety needs a DB/Redis lock.
+ */
+
+const tails = new Map<string, Promise<unknown>>();
+
+export async function withKeyedLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = tails.get(key) ?? Promise.resolve();
+  const run = previous.then(fn, fn);
+  const tail = run.catch(() => undefined);
+  tails.set(key, tail);
+  try {
+    return await run;
+  } finally {
+    // Drop the entry once nobody queued behind us, so the map does not grow per key forever.
+    if (tails.get(key) === tail) tails.delete(key);
+  }
+}
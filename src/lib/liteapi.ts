@@ -1,10 +1,11 @@
 import { isCountryRestricted } from "@/config/content-restrictions";
+import { getCache } from "@/lib/cache";
 
 // Validated inside request function
 const API_BASE = "https://api.liteapi.travel/v3.0";
 const BOOK_BASE = "https://book.liteapi.travel/v3.0";
 
-type HttpMethod = "GET" | "POST";
+type HttpMethod = "GET" | "POST" | "PUT";
 
 interface LiteApiError extends Error {
   status?: number;
@@ -44,12 +45,12 @@ async function request<T>(
     headers: {
       "X-API-Key": apiKey,
       accept: "application/json",
-      ...(method === "POST"
+      ...(method !== "GET"
         ? { "content-type": "application/json" }
         : {})
     },
     body:
-      method === "POST" && options?.body
+      method !== "GET" && options?.body
         ? JSON.stringify(options.body)
         : undefined,
     cache: "no-store"
@@ -123,6 +124,10 @@ export interface RatesSearchParams {
   guestNationality?: string;
   language?: string;
   limit?: number;
+  /** Hotels to skip (pagination together with limit). */
+  offset?: number;
+  /** Search these hotels only instead of a place / area (e.g. the refundable check for one results page). */
+  hotelIds?: string[];
   timeout?: number;
   /** Phase 3: CUG margin % (e.g. 10). Sent to LiteAPI when provided. */
   margin?: number;
@@ -171,6 +176,8 @@ export function buildRatesRequestBody(params: RatesSearchParams): Record<string,
     guestNationality = DEFAULT_GUEST_NATIONALITY,
     language,
     limit,
+    offset,
+    hotelIds,
     timeout,
     margin,
     additionalMarkup,
@@ -203,6 +210,7 @@ export function buildRatesRequestBody(params: RatesSearchParams): Record<string,
 
   if (language) body.language = language;
   if (limit) body.limit = limit;
+  if (offset) body.offset = offset;
   if (timeout) body.timeout = timeout;
   if (margin != null && typeof margin === "number") body.margin = margin;
   if (additionalMarkup != null && typeof additionalMarkup === "number") body.additionalMarkup = additionalMarkup;
@@ -227,7 +235,9 @@ export function buildRatesRequestBody(params: RatesSearchParams): Record<string,
     longitude != null && typeof longitude === "number" && !Number.isNaN(longitude) &&
     radius != null && typeof radius === "number" && !Number.isNaN(radius) && radius > 0;
 
-  if (hasAreaParams) {
+  if (hotelIds && hotelIds.length > 0) {
+    body.hotelIds = hotelIds;
+  } else if (hasAreaParams) {
     body.latitude = latitude;
     body.longitude = longitude;
     body.radius = radius;
@@ -240,30 +250,132 @@ export function buildRatesRequestBody(params: RatesSearchParams): Record<string,
   return body;
 }
 
+/** LiteAPI accepts a bounded hotelIds list per rates call. */
+const REPRICE_HOTEL_IDS_PER_CALL = 200;
+
+/** Margin for one hotel (LiteAPI margin / additionalMarkup; undefined = account default). */
+export interface HotelRatesMargin {
+  margin?: number;
+  additionalMarkup?: number;
+}
+
+/** Per-hotel margin overrides for searchHotelRates (see getHotelMarginResolver in margin-resolver). */
+export interface RatesMarginOverrides {
+  /** Only hotels whose margin differs from the request's margin. */
+  marginsForHotels(hotels: { hotelId: string; hotel?: unknown }[]): Promise<Map<string, HotelRatesMargin>>;
+}
+
+/**
+ * LiteAPI takes one margin per rates call. Hotels whose override margin differs are priced again with
+ * hotelIds + their margin, and their entries replaced, so the list shows what the hotel page will charge.
+ * Hotels that cannot be re-priced are dropped rather than shown at the wrong margin.
+ * Also applied to each chunk of a rates stream (resp = one chunk).
+ */
+export async function applyMarginOverrides(
+  resp: any,
+  params: RatesSearchParams,
+  apiKey: string | undefined,
+  overrides: RatesMarginOverrides
+) {
+  const data: any[] = Array.isArray(resp?.data) ? resp.data : [];
+  if (data.length === 0) return resp;
+  const hotelsById = new Map<string, unknown>();
+  for (const h of Array.isArray(resp?.hotels) ? resp.hotels : []) {
+    const id = h?.id ?? h?.hotelId;
+    if (id) hotelsById.set(String(id), h);
+  }
+  const margins = await overrides.marginsForHotels(
+    data
+      .filter((item) => item?.hotelId)
+      .map((item) => ({ hotelId: String(item.hotelId), hotel: hotelsById.get(String(item.hotelId)) ?? item.hotel }))
+  );
+  if (margins.size === 0) return resp;
+
+  const groups = new Map<string, { margin: HotelRatesMargin; hotelIds: string[] }>();
+  margins.forEach((margin, hotelId) => {
+    const key = `${margin.margin ?? ""}:${margin.additionalMarkup ?? ""}`;
+    const group = groups.get(key) ?? { margin, hotelIds: [] };
+    group.hotelIds.push(hotelId);
+    groups.set(key, group);
+  });
+
+  const repriced = new Map<string, any>();
+  const calls: Promise<void>[] = [];
+  groups.forEach(({ margin, hotelIds }) => {
+    for (let i = 0; i < hotelIds.length; i += REPRICE_HOTEL_IDS_PER_CALL) {
+      const body = buildRatesRequestBody({
+        ...params,
+        placeId: undefined,
+        aiSearch: undefined,
+        hotelName: undefined,
+        latitude: undefined,
+        longitude: undefined,
+        radius: undefined,
+        countryCode: undefined,
+        limit: undefined,
+        offset: undefined,
+        margin: margin.margin,
+        additionalMarkup: margin.additionalMarkup
+      });
+      body.hotelIds = hotelIds.slice(i, i + REPRICE_HOTEL_IDS_PER_CALL);
+      calls.push(
+        request<any>("api", "/hotels/rates", "POST", { body, apiKey })
+          .then((r) => {
+            for (const item of Array.isArray(r?.data) ? r.data : []) {
+              if (item?.hotelId) repriced.set(String(item.hotelId), item);
+            }
+          })
+          .catch((err) => console.error("Rates: margin override re-pricing failed", err?.message ?? err))
+      );
+    }
+  });
+  await Promise.all(calls);
+
+  const dropped = new Set<string>();
+  const nextData = data.flatMap((item) => {
+    const id = item?.hotelId != null ? String(item.hotelId) : "";
+    if (!margins.has(id)) return [item];
+    const next = repriced.get(id);
+    if (next) return [next];
+    dropped.add(id);
+    return [];
+  });
+  return {
+    ...resp,
+    data: nextData,
+    ...(Array.isArray(resp?.hotels) && dropped.size > 0 && {
+      hotels: resp.hotels.filter((h: any) => !dropped.has(String(h?.id ?? h?.hotelId)))
+    })
+  };
+}
+
 export async function searchHotelRates(
   params: RatesSearchParams,
-  apiKey?: string
+  apiKey?: string,
+  options?: { marginOverrides?: RatesMarginOverrides }
 ) {
   const body = buildRatesRequestBody(params);
-  return request<any>("api", "/hotels/rates", "POST", { body, apiKey });
+  const resp = await request<any>("api", "/hotels/rates", "POST", { body, apiKey });
+  if (!options?.marginOverrides) return resp;
+  return applyMarginOverrides(resp, params, apiKey, options.marginOverrides);
 }
 
 /**
- * Phase 5: Fetch LiteAPI /hotels/rates with stream: true.
- * Returns the raw Response so the caller can pipe response.body and append extra SSE events (e.g. refundable).
+ * Phase 5: Fetch LiteAPI /hotels/rates with stream: true. Returns the SSE body (data: chunks of a rates response,
+ * then "[DONE]"); errors before the stream starts throw like request() does.
  * Caller must pass AbortSignal for cancellation.
  */
-export function fetchHotelRatesStream(
+export async function fetchHotelRatesStream(
   params: RatesSearchParams,
-  apiKey: string,
+  apiKey: string | undefined,
   signal?: AbortSignal
-): Promise<Response> {
+): Promise<ReadableStream<Uint8Array>> {
   const body = buildRatesRequestBody({ ...params, stream: true });
   const apiKeyResolved = apiKey ?? process.env.LITEAPI_API_KEY ?? null;
   if (!apiKeyResolved) {
-    return Promise.reject(new Error("LITEAPI_API_KEY (or apiKey) is not set"));
+    throw new Error("LITEAPI_API_KEY (or apiKey) is not set");
   }
-  return fetch(`${API_BASE}/hotels/rates`, {
+  const res = await fetch(`${API_BASE}/hotels/rates`, {
     method: "POST",
     headers: {
       "X-API-Key": apiKeyResolved,
@@ -274,6 +386,17 @@ export function fetchHotelRatesStream(
     signal,
     cache: "no-store"
   });
+  if (!res.ok || !res.body) {
+    const json: any = await res.json().catch(() => null);
+    const code = json?.error?.code;
+    const message =
+      json?.error?.message || json?.error?.description || `LiteAPI POST /hotels/rates (stream) failed with status ${res.status}`;
+    const error: LiteApiError = new Error(code ? `[${code}] ${message}` : message);
+    error.status = res.ok ? 502 : res.status;
+    error.code = code;
+    throw error;
+  }
+  return res.body;
 }
 
 export async function getHotelRatesForHotel(params: {
@@ -331,13 +454,20 @@ export interface HotelDetailsData {
   starRating?: number;
   /** Phase 1: from data.location — for map markers (results) and hotel page map. */
   location?: { latitude: number; longitude: number };
+  /** ISO country code (uppercase) and city; used by per-destination margin overrides. */
+  countryCode?: string;
+  city?: string;
+  /** Street address as LiteAPI returns it (data.address); used for calendar exports. */
+  address?: string;
 }
 
-const HOTEL_DETAILS_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
-const hotelDetailsCache = new Map<
-  string,
-  { at: number; value: HotelDetailsData }
->();
+/** Fresh for 1 hour; then served for up to a day while a background refresh runs. */
+const hotelDetailsCache = getCache<HotelDetailsData>({
+  name: "hotel-details",
+  ttlMs: 60 * 60 * 1000,
+  staleMs: 24 * 60 * 60 * 1000,
+  maxEntries: 20_000
+});
 
 function cacheKey(hotelId: string, language?: string): string {
   return `${hotelId}:${language ?? ""}`;
@@ -375,11 +505,19 @@ export function extractHotelDetailsFromResponse(data: any): HotelDetailsData | n
     location = { latitude: data.latitude, longitude: data.longitude };
   }
 
+  const country = data.countryCode ?? data.country_code ?? data.country;
+  const countryCode = typeof country === "string" && /^[a-z]{2}$/i.test(country.trim()) ? country.trim().toUpperCase() : undefined;
+  const city = typeof data.city === "string" && data.city.trim() !== "" ? data.city.trim() : undefined;
+  const address = typeof data.address === "string" && data.address.trim() !== "" ? data.address.trim() : undefined;
+
   if (
     numRating == null &&
     numReviewCount == null &&
     numStarRating == null &&
-    location == null
+    location == null &&
+    countryCode == null &&
+    city == null &&
+    address == null
   )
     return null;
   const out: HotelDetailsData = {};
@@ -389,6 +527,9 @@ export function extractHotelDetailsFromResponse(data: any): HotelDetailsData | n
   if (numStarRating != null && !Number.isNaN(numStarRating))
     out.starRating = numStarRating;
   if (location != null) out.location = location;
+  if (countryCode != null) out.countryCode = countryCode;
+  if (city != null) out.city = city;
+  if (address != null) out.address = address;
   return out;
 }
 
@@ -409,30 +550,20 @@ export async function getHotelDetails(
 }
 
 /**
- * Phase 4: getHotelDetails with server-side cache (hotelId + language, TTL 1h).
- * Use in search route and batch details endpoint.
+ * Phase 4: getHotelDetails with server-side cache (hotelId + language, TTL 1h, stale-while-revalidate).
+ * Use in search route and batch details endpoint. Null when the details call fails and nothing is cached.
  */
 export async function getCachedHotelDetails(
   hotelId: string,
   language: string | undefined,
   apiKey: string | undefined
 ): Promise<HotelDetailsData | null> {
-  const key = cacheKey(hotelId, language);
-  const now = Date.now();
-  const hit = hotelDetailsCache.get(key);
-  if (hit && now - hit.at < HOTEL_DETAILS_CACHE_TTL_MS) {
-    return hit.value;
-  }
   try {
-    const resp = await getHotelDetails(hotelId, language, apiKey);
-    const data = resp?.data ?? resp;
-    const extracted = extractHotelDetailsFromResponse(data);
-    if (extracted) {
-      hotelDetailsCache.set(key, { at: now, value: extracted });
-      return extracted;
-    }
-    hotelDetailsCache.set(key, { at: now, value: {} });
-    return {};
+    return await hotelDetailsCache.getOrLoad(cacheKey(hotelId, language), async () => {
+      const resp = await getHotelDetails(hotelId, language, apiKey);
+      const data = resp?.data ?? resp;
+      return extractHotelDetailsFromResponse(data) ?? {};
+    });
   } catch {
     return null;
   }
@@ -448,6 +579,15 @@ export async function prebookRate(
   return request<any>("book", "/rates/prebook", "POST", { body, apiKey });
 }
 
+/**
+ * LiteAPI book payment: the payment SDK transaction, the card/credit on our LiteAPI account (account credit),
+ * or PROPERTY_PAY for rates the guest pays at the hotel (nothing is charged through LiteAPI).
+ */
+export type BookPayment =
+  | { method: "TRANSACTION_ID"; transactionId: string }
+  | { method: "ACC_CREDIT_CARD" }
+  | { method: "PROPERTY_PAY" };
+
 export async function bookRate(
   body: {
   prebookId: string;
@@ -455,16 +595,17 @@ export async function bookRate(
     firstName: string;
     lastName: string;
     email: string;
+    phone?: string;
   };
-  payment: {
-    method: "TRANSACTION_ID";
-    transactionId: string;
-  };
+  payment: BookPayment;
   guests: {
     occupancyNumber: number;
     firstName: string;
     lastName: string;
     email: string;
+    phone?: string;
+    /** Requests for the hotel for this room (special requests; not guaranteed). */
+    remarks?: string;
   }[];
   },
   apiKey?: string
@@ -472,3 +613,13 @@ export async function bookRate(
   return request<any>("book", "/rates/book", "POST", { body, apiKey });
 }
 
+
+/** Live booking details from LiteAPI (status, cancellation policies, price). */
+export async function getBooking(bookingId: string, apiKey?: string) {
+  return request<any>("book", `/bookings/${encodeURIComponent(bookingId)}`, "GET", { apiKey });
+}
+
+/** Cancel a confirmed booking. LiteAPI applies the booking's cancellation policy (refund may be partial or zero). */
+export async function cancelBooking(bookingId: string, apiKey?: string) {
+  return request<any>("book", `/bookings/${encodeURIComponent(bookingId)}`, "PUT", { apiKey });
+}
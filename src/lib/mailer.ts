@@ -0,0 +1,184 @@
+/**
+ * Outgoing mail. Delivery is pluggable (setMailTransport); MAIL_TRANSPORT picks a built-in one:
+ * "file" (default) writes each message as an .eml file under MAIL_DIR (default DATA_DIR/mail),
+ * "smtp" hands it to a local SMTP sink (SMTP_HOST / SMTP_PORT, e.g. MailHog on 1025, no auth or TLS),
+ * "log" prints the subject and recipients only.
+ * Server only.
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import net from "net";
+import path from "path";
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer | string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+/** Delivers one message (file, SMTP, an email provider's API, …). */
+export type MailTransport = (message: MailMessage & { from: string }) => Promise<void>;
+
+const DEFAULT_FROM = "LiteAPI Demo Travel <no-reply@localhost>";
+const SMTP_TIMEOUT_MS = 10_000;
+
+function mailFrom(): string {
+  return process.env.MAIL_FROM?.trim() || DEFAULT_FROM;
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(content: Buffer | string): string {
+  const b64 = (typeof content === "string" ? Buffer.from(content, "utf8") : content).toString("base64");
+  return b64.replace(/.{1,76}/g, "$&\r\n").trimEnd();
+}
+
+/** RFC 5322 message: text (+ html alternative), attachments as base64 parts. */
+export function buildMimeMessage(message: MailMessage & { from: string }, now = new Date()): string {
+  const boundary = `mixed_${randomUUID()}`;
+  const altBoundary = `alt_${randomUUID()}`;
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${message.from.replace(/^.*@|>.*$/g, "") || "localhost"}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`
+  ];
+  const body = [
+    `--${boundary}`,
+    `Content-Type: multipart/alternative; boundary="${altBoundary}"`,
+    "",
+    `--${altBoundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    ...(message.html
+      ? [
+          `--${altBoundary}`,
+          "Content-Type: text/html; charset=utf-8",
+          "Content-Transfer-Encoding: base64",
+          "",
+          base64Lines(message.html)
+        ]
+      : []),
+    `--${altBoundary}--`,
+    ...(message.attachments ?? []).flatMap((a) => [
+      `--${boundary}`,
+      `Content-Type: ${a.contentType}; name="${a.filename}"`,
+      "Content-Transfer-Encoding: base64",
+      `Content-Disposition: attachment; filename="${a.filename}"`,
+      "",
+      base64Lines(a.content)
+    ]),
+    `--${boundary}--`,
+    ""
+  ];
+  return [...headers, "", ...body].join("\r\n");
+}
+
+function mailDir(): string {
+  const configured = process.env.MAIL_DIR?.trim();
+  if (configured) return path.resolve(configured);
+  const dataDir = process.env.DATA_DIR?.trim();
+  return path.join(dataDir ? path.resolve(dataDir) : path.join(process.cwd(), ".data"), "mail");
+}
+
+const fileTransport: MailTransport = async (message) => {
+  const dir = mailDir();
+  await mkdir(dir, { recursive: true });
+  const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}_${randomUUID().slice(0, 8)}.eml`);
+  await writeFile(file, buildMimeMessage(message), "utf8");
+  console.info(`[mail] ${message.subject} → ${message.to.join(", ")} (${file})`);
+};
+
+function emailAddress(value: string): string {
+  return value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+}
+
+/** Minimal SMTP client for a local sink: EHLO, MAIL FROM, RCPT TO, DATA, QUIT. */
+const smtpTransport: MailTransport = (message) => {
+  const host = process.env.SMTP_HOST?.trim() || "localhost";
+  const port = Number(process.env.SMTP_PORT) || 1025;
+  const data = buildMimeMessage(message).replace(/\r\n\./g, "\r\n..");
+  const commands = [
+    "EHLO localhost",
+    `MAIL FROM:<${emailAddress(message.from)}>`,
+    ...message.to.map((to) => `RCPT TO:<${emailAddress(to)}>`),
+    "DATA",
+    `${data}\r\n.`,
+    "QUIT"
+  ];
+
+  return new Promise<void>((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP timeout")));
+    let buffer = "";
+    let step = -1; // -1: waiting for the greeting
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      // Wait for the last line of a (possibly multi-line) reply: "250 ok" rather than "250-..."
+      const lines = buffer.split("\r\n").filter(Boolean);
+      const last = lines[lines.length - 1];
+      if (!buffer.endsWith("\r\n") || !last || last[3] === "-") return;
+      buffer = "";
+      const code = Number(last.slice(0, 3));
+      if (code >= 400) {
+        socket.destroy(new Error(`SMTP error: ${last}`));
+        return;
+      }
+      step += 1;
+      if (step < commands.length) socket.write(`${commands[step]}\r\n`);
+    });
+    socket.on("error", reject);
+    socket.on("close", (hadError) => {
+      if (!hadError) {
+        if (step >= commands.length - 1) resolve();
+        else reject(new Error("SMTP connection closed early"));
+      }
+    });
+  });
+};
+
+const logTransport: MailTransport = async ({ to, subject }) => {
+  console.info(`[mail] ${subject} → ${to.join(", ")}`);
+};
+
+const BUILT_IN_TRANSPORTS: Record<string, MailTransport> = {
+  file: fileTransport,
+  smtp: smtpTransport,
+  log: logTransport
+};
+
+let transport: MailTransport | null = null;
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+function activeTransport(): MailTransport {
+  if (!transport) transport = BUILT_IN_TRANSPORTS[process.env.MAIL_TRANSPORT?.trim() ?? ""] ?? fileTransport;
+  return transport;
+}
+
+/** Send through the configured transport. Throws on failure; callers decide whether that blocks anything. */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const to = message.to.map((t) => t.trim()).filter(Boolean);
+  if (to.length === 0) throw new Error("Mail has no recipients");
+  // Recipients go into the To: header and RCPT TO: lines as they are; a line break would inject headers or commands
+  if (to.some((t) => /[\r\n]/.test(t))) throw new Error("Mail recipient contains a line break");
+  await activeTransport()({ ...message, to, from: mailFrom() });
+}
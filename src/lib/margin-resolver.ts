@@ -1,14 +1,31 @@
 /**
  * Phase 3: Margin resolver.
- * Returns effective_margin (and optional additionalMarkup, display_discount_percent)
- * from a single "segment" record. Placeholder implementation until DB is ready;
- * when DB is available, replace resolveSegmentPlaceholder with DB lookup.
+ * Returns effective margin (and optional additionalMarkup, displayDiscountPercent)
+ * from the segment the user resolves to. Segments and their rules (b2b_account → email_domain →
+ * user_type_loyalty → default, by priority and effective dates) live in the segment store (@/segments),
+ * so pricing changes go through /api/admin/segments instead of a deploy.
+ * Margin overrides then adjust that margin for what is being bought (hotel, destination, stars, stay dates);
+ * search and hotel detail both price through getHotelMarginResolver so list and detail prices agree.
  */
 
 import type { NextRequest } from "next/server";
 import type { Channel } from "@/lib/channel-keys";
-import { getIdentityFromRequest } from "@/auth";
-import type { LoyaltyLevel, UserType } from "@/auth/types";
+import { settleWithConcurrency } from "@/lib/concurrency";
+import { extractHotelDetailsFromResponse, getCachedHotelDetails } from "@/lib/liteapi";
+import { createServerAuthAdapter, type UserProfile } from "@/auth";
+import {
+  findMarginOverride,
+  listMarginOverrides,
+  overrideAppliesTo,
+  overrideCoversStay,
+  overrideNeedsHotelFacts,
+  resolveSegment,
+  type MarginContext,
+  type MarginOverride,
+  type Segment,
+  type SegmentProfile,
+  type SegmentResolution
+} from "@/segments";
 
 export interface MarginResult {
   /** Margin % sent to LiteAPI (e.g. 10). B2C does not use this. */
@@ -19,122 +36,182 @@ export interface MarginResult {
   displayDiscountPercent?: number;
 }
 
+function segmentToMarginResult(segment: Segment): MarginResult {
+  const result: MarginResult = {};
+  if (segment.effectiveMargin != null) result.margin = segment.effectiveMargin;
+  if (segment.additionalMarkup != null) result.additionalMarkup = segment.additionalMarkup;
+  if (segment.displayDiscountPercent != null && segment.displayDiscountPercent > 0) {
+    result.displayDiscountPercent = segment.displayDiscountPercent;
+  }
+  return result;
+}
+
+/** Apply an override to the segment margin. A delta needs a segment margin to add to. */
+function applyOverride(base: MarginResult, override: MarginOverride): MarginResult {
+  const result: MarginResult = { ...base };
+  if (override.margin != null) result.margin = override.margin;
+  else if (override.marginDelta != null && base.margin != null) {
+    result.margin = Math.max(0, base.margin + override.marginDelta);
+  }
+  if (override.additionalMarkup != null) result.additionalMarkup = override.additionalMarkup;
+  return result;
+}
+
+/** Segment inputs for a signed-in user; email-domain rules only see emails the user has verified. */
+function segmentProfileFor(profile: UserProfile): SegmentProfile {
+  return {
+    userType: profile.userType,
+    loyaltyLevel: profile.loyaltyLevel,
+    email: profile.emailVerified ? profile.email : undefined,
+    accountId: profile.accountId
+  };
+}
+
+function sameMargin(a: MarginResult, b: MarginResult): boolean {
+  return a.margin === b.margin && a.additionalMarkup === b.additionalMarkup;
+}
+
+/** Margin plus the segment, rule and override that produced it (admin dry-run). */
+export interface MarginExplanation {
+  margin: MarginResult;
+  resolution: SegmentResolution | null;
+  override: MarginOverride | null;
+}
+
 /**
- * Segment row shape (matches DB segments table).
- * Placeholder uses in-memory map; DB will have effective_margin as single final column.
+ * Margin for a (possibly hypothetical) user, optionally for a specific hotel/stay.
+ * b2c and guests start from {} (LiteAPI account default), as does a CUG user no rule matches.
  */
-interface SegmentRow {
-  id: string;
-  name: string;
-  effective_margin: number | null;
-  additional_markup: number | null;
-  display_discount_percent: number | null;
-  is_cug: boolean;
+export async function explainMarginForProfile(
+  profile: SegmentProfile | null,
+  channel: Channel,
+  now: Date = new Date(),
+  context?: MarginContext
+): Promise<MarginExplanation> {
+  const resolution = channel === "cug" && profile ? await resolveSegment(profile, now) : null;
+  const base = resolution ? segmentToMarginResult(resolution.segment) : {};
+  if (!context) return { margin: base, resolution, override: null };
+  const candidates = (await listMarginOverrides()).filter((o) =>
+    overrideAppliesTo(o, channel, resolution?.segment.id)
+  );
+  const override = findMarginOverride(candidates, context);
+  return { margin: override ? applyOverride(base, override) : base, resolution, override };
+}
+
+/** Hotel facts details lookups in flight per marginsForHotels call (a search page can hold 200 hotels). */
+const HOTEL_FACTS_CONCURRENCY = 8;
+
+type HotelFacts = Pick<MarginContext, "countryCode" | "city" | "starRating">;
+
+/** Hotel facts by hotel id, shared by resolvers of one request (e.g. every flexible-dates window). */
+export type HotelFactsMemo = Map<string, Promise<HotelFacts>>;
+
+/** Which hotel facts the overrides match on. */
+function factsNeededBy(overrides: MarginOverride[]): Record<keyof HotelFacts, boolean> {
+  return {
+    countryCode: overrides.some((o) => !!o.match.countryCodes?.length),
+    city: overrides.some((o) => !!o.match.cities?.length),
+    starRating: overrides.some((o) => !!o.match.starRatings?.length)
+  };
 }
 
 /**
- * Placeholder segments. When DB is ready, load from segments table.
- * Loyalty-based member margins (testing): explorer 7%, adventurer 5%, voyager 3%.
+ * Hotel facts for override matching: from the hotel data in the rates response; cached /data/hotel only when a
+ * fact an override matches on is missing from it.
  */
-const PLACEHOLDER_SEGMENTS: Record<string, SegmentRow> = {
-  employee: {
-    id: "employee",
-    name: "Employee",
-    effective_margin: 5,
-    additional_markup: null,
-    display_discount_percent: 10,
-    is_cug: true
-  },
-  /** Member + Explorer loyalty → 7% margin (testing; will come from DB). */
-  member_explorer: {
-    id: "member_explorer",
-    name: "Member (Explorer)",
-    effective_margin: 7,
-    additional_markup: null,
-    display_discount_percent: 0,
-    is_cug: true
-  },
-  /** Member + Adventurer loyalty → 5% margin (testing; will come from DB). */
-  member_adventurer: {
-    id: "member_adventurer",
-    name: "Member (Adventurer)",
-    effective_margin: 5,
-    additional_markup: null,
-    display_discount_percent: 0,
-    is_cug: true
-  },
-  /** Member + Voyager loyalty → 3% margin (testing; will come from DB). */
-  member_voyager: {
-    id: "member_voyager",
-    name: "Member (Voyager)",
-    effective_margin: 3,
-    additional_markup: null,
-    display_discount_percent: 0,
-    is_cug: true
-  },
-  b2b: {
-    id: "b2b",
-    name: "B2B",
-    effective_margin: 0,
-    additional_markup: null,
-    display_discount_percent: null,
-    is_cug: true
+async function loadHotelFacts(
+  hotelId: string,
+  hotel: unknown,
+  needed: Record<keyof HotelFacts, boolean>,
+  options: { language?: string; apiKey?: string }
+): Promise<HotelFacts> {
+  let facts = extractHotelDetailsFromResponse(hotel) ?? {};
+  const missing = (Object.keys(needed) as (keyof HotelFacts)[]).some((key) => needed[key] && facts[key] == null);
+  if (missing) {
+    const cached = await getCachedHotelDetails(hotelId, options.language, options.apiKey);
+    facts = { ...cached, ...facts };
   }
-};
-
-/** Default segment when no rule matches (logged-in CUG). */
-const DEFAULT_SEGMENT = PLACEHOLDER_SEGMENTS.member_explorer;
+  return { countryCode: facts.countryCode, city: facts.city, starRating: facts.starRating };
+}
 
 /**
- * Placeholder resolution: userType + loyaltyLevel → segment.
- * Mimics segment_rules (user_type_loyalty + default). No DB yet.
- * When DB exists: run rules in priority order (b2b_account → email_domain → user_type_loyalty → default).
+ * Request-scoped margin pricing for hotels. Loads the user's segment and the overrides that can apply once,
+ * then prices hotels individually (hotel facts come from the rates response, else getCachedHotelDetails, each looked
+ * up once per resolver or shared memo).
  */
-function resolveSegmentPlaceholder(profile: {
-  userType: UserType;
-  loyaltyLevel: LoyaltyLevel;
-  email?: string;
-  accountId?: string;
-}): SegmentRow {
-  // 1. B2B account override (placeholder: accountId present → b2b)
-  if (profile.accountId) {
-    const seg = PLACEHOLDER_SEGMENTS.b2b;
-    if (seg) return seg;
-  }
+export interface HotelMarginResolver {
+  /** Segment margin (what the search request is sent with). */
+  base: MarginResult;
+  /** False when no override can apply to this user/stay: every hotel gets `base`. */
+  hasOverrides: boolean;
+  /** Identifies the candidate overrides (for cache keys). */
+  overridesKey: string;
+  marginForHotel(hotelId: string, hotel?: unknown): Promise<MarginResult>;
+  /** Margins only for hotels whose override changes the base margin. */
+  marginsForHotels(hotels: { hotelId: string; hotel?: unknown }[]): Promise<Map<string, MarginResult>>;
+}
 
-  // 2. Email domain (placeholder: @breadfast.com → employee)
-  if (profile.email) {
-    const domain = profile.email.toLowerCase().split("@")[1] ?? "";
-    if (domain === "breadfast.com") return PLACEHOLDER_SEGMENTS.employee;
-  }
+export async function getHotelMarginResolver(
+  req: NextRequest,
+  channel: Channel,
+  stay: { checkin?: string; checkout?: string; language?: string; apiKey?: string; hotelFacts?: HotelFactsMemo }
+): Promise<HotelMarginResolver> {
+  const profile = channel === "cug" ? await createServerAuthAdapter(req).getUserProfile() : null;
+  const resolution = profile ? await resolveSegment(segmentProfileFor(profile)) : null;
+  const base = resolution ? segmentToMarginResult(resolution.segment) : {};
+  const applicable = (await listMarginOverrides()).filter((o) => overrideAppliesTo(o, channel, resolution?.segment.id));
+  // the stay window does not depend on the hotel; drop overrides for other dates up front
+  const candidates = applicable.filter((o) => overrideCoversStay(o.match, stay.checkin, stay.checkout));
+  const needFacts = candidates.some((o) => overrideNeedsHotelFacts(o.match));
+  // From every applicable override, not just this stay's, so a memo shared across dates holds the same facts
+  const neededFacts = factsNeededBy(applicable);
+  const hotelFacts: HotelFactsMemo = stay.hotelFacts ?? new Map();
 
-  // 3. user_type + loyalty_level (explorer 7%, adventurer 5%, voyager 3% — testing; DB later)
-  if (profile.userType === "employee") return PLACEHOLDER_SEGMENTS.employee;
-  if (profile.userType === "b2b") return PLACEHOLDER_SEGMENTS.b2b;
-  if (profile.userType === "member") {
-    switch (profile.loyaltyLevel) {
-      case "voyager":
-        return PLACEHOLDER_SEGMENTS.member_voyager;
-      case "adventurer":
-        return PLACEHOLDER_SEGMENTS.member_adventurer;
-      case "explorer":
-      default:
-        return PLACEHOLDER_SEGMENTS.member_explorer;
+  const factsFor = (hotelId: string, hotel: unknown): Promise<HotelFacts> => {
+    let facts = hotelFacts.get(hotelId);
+    if (!facts) {
+      facts = loadHotelFacts(hotelId, hotel, neededFacts, stay);
+      hotelFacts.set(hotelId, facts);
     }
-  }
+    return facts;
+  };
 
-  // 4. Default
-  return DEFAULT_SEGMENT;
+  const marginForHotel = async (hotelId: string, hotel?: unknown): Promise<MarginResult> => {
+    if (candidates.length === 0) return base;
+    const facts = needFacts ? await factsFor(hotelId, hotel) : {};
+    const override = findMarginOverride(candidates, {
+      hotelId,
+      ...facts,
+      checkin: stay.checkin,
+      checkout: stay.checkout
+    });
+    return override ? applyOverride(base, override) : base;
+  };
+
+  return {
+    base,
+    hasOverrides: candidates.length > 0,
+    overridesKey: candidates.map((o) => `${o.id}@${o.updatedAt}`).join(","),
+    marginForHotel,
+    async marginsForHotels(hotels) {
+      const out = new Map<string, MarginResult>();
+      if (candidates.length === 0) return out;
+      const margins = await settleWithConcurrency(hotels, HOTEL_FACTS_CONCURRENCY, (h) =>
+        marginForHotel(h.hotelId, h.hotel)
+      );
+      hotels.forEach((h, i) => {
+        const result = margins[i];
+        if (result.status === "fulfilled" && !sameMargin(result.value, base)) out.set(h.hotelId, result.value);
+      });
+      return out;
+    }
+  };
 }
 
-function segmentToMarginResult(segment: SegmentRow): MarginResult {
-  const result: MarginResult = {};
-  if (segment.effective_margin != null) result.margin = segment.effective_margin;
-  if (segment.additional_markup != null) result.additionalMarkup = segment.additional_markup;
-  if (segment.display_discount_percent != null && segment.display_discount_percent > 0) {
-    result.displayDiscountPercent = segment.display_discount_percent;
-  }
-  return result;
+/** Segment a signed-in user resolves to on this channel (null for b2c, guests and users no rule matches). */
+export async function resolveSegmentForProfile(profile: UserProfile | null, channel: Channel): Promise<Segment | null> {
+  if (channel !== "cug" || !profile) return null;
+  return (await resolveSegment(segmentProfileFor(profile)))?.segment ?? null;
 }
 
 /**
@@ -142,20 +219,15 @@ function segmentToMarginResult(segment: SegmentRow): MarginResult {
  * Use in rates routes: after resolving channel, if CUG call this and pass margin into LiteAPI.
  *
  * - channel b2c: returns {} (use LiteAPI account default).
- * - channel cug: resolves segment from identity (userType, loyaltyLevel, email, accountId), returns segment's effective_margin etc.
+ * - channel cug: resolves segment from identity (userType, loyaltyLevel, email, accountId), returns segment's effective margin etc.
+ * Hotel-specific pricing (overrides) goes through getHotelMarginResolver.
  */
-export function getMarginForRequest(req: NextRequest, channel: Channel): MarginResult {
+export async function getMarginForRequest(req: NextRequest, channel: Channel): Promise<MarginResult> {
   if (channel === "b2c") return {};
 
-  const identity = getIdentityFromRequest(req);
-  if (!identity?.profile) return {};
-
-  const segment = resolveSegmentPlaceholder({
-    userType: identity.profile.userType,
-    loyaltyLevel: identity.profile.loyaltyLevel,
-    email: identity.profile.email,
-    accountId: identity.profile.accountId
-  });
+  const profile = await createServerAuthAdapter(req).getUserProfile();
+  if (!profile) return {};
 
-  return segmentToMarginResult(segment);
+  const { margin } = await explainMarginForProfile(segmentProfileFor(profile), channel);
+  return margin;
 }
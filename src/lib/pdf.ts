@@ -0,0 +1,117 @@
+/**
+ * Minimal PDF writer for text documents (vouchers): A4 pages, Helvetica / Helvetica-Bold, word wrap and page breaks.
+ * Text is WinAnsi (Latin-1); other characters print as "?". No dependencies.
+ */
+
+export interface PdfLine {
+  text: string;
+  /** Font size in points (default 10). */
+  size?: number;
+  bold?: boolean;
+  /** Grey text. */
+  muted?: boolean;
+  /** Extra space above the line, in points. */
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+/** Average Helvetica glyph width as a fraction of the font size; good enough for wrapping. */
+const AVG_CHAR_WIDTH = 0.5;
+
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map((ch) => {
+      const code = ch.charCodeAt(0);
+      if (ch === "–" || ch === "—") return "-";
+      if (ch === "’" || ch === "‘") return "'";
+      if (ch === "“" || ch === "”") return '"';
+      if (ch === "…") return "...";
+      if (ch === "→") return "->";
+      return code >= 0x20 && code <= 0xff ? ch : "?";
+    })
+    .join("");
+}
+
+function escapePdfText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+}
+
+function wrap(text: string, size: number): string[] {
+  const maxChars = Math.max(10, Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * AVG_CHAR_WIDTH)));
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = current ? `${current} ${word}` : word;
+    if (next.length <= maxChars) {
+      current = next;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word;
+    while (current.length > maxChars) {
+      lines.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  }
+  if (current || lines.length === 0) lines.push(current);
+  return lines;
+}
+
+/** Page content streams for the lines, breaking pages when the next line would run into the bottom margin. */
+function layout(lines: PdfLine[]): string[] {
+  const pages: string[] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+  for (const line of lines) {
+    const size = line.size ?? 10;
+    const leading = size * 1.35;
+    y -= line.spaceBefore ?? 0;
+    for (const text of wrap(toWinAnsi(line.text), size)) {
+      if (y - leading < MARGIN) {
+        pages.push(ops.join("\n"));
+        ops = [];
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      const color = line.muted ? "0.4 0.4 0.4 rg" : "0 0 0 rg";
+      ops.push(`BT ${color} /${line.bold ? "F2" : "F1"} ${size} Tf ${MARGIN} ${y.toFixed(1)} Td (${escapePdfText(text)}) Tj ET`);
+    }
+  }
+  pages.push(ops.join("\n"));
+  return pages;
+}
+
+export function renderTextPdf(lines: PdfLine[], title = "Document"): Buffer {
+  const pages = layout(lines);
+  // Objects: 1 catalog, 2 pages, 3 F1, 4 F2, 5 info, then per page: page + content stream
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = `<< /Title (${escapePdfText(toWinAnsi(title))}) /Producer (LiteAPI Demo Travel) >>`;
+  pages.forEach((content, i) => {
+    const pageId = pageIds[i];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+  });
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(out, "latin1");
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    out += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
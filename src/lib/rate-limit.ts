@@ -0,0 +1,75 @@
+/**
+ * In-process fixed-window rate limiter (login attempts, code requests).
+ * Counts per server instance only; several instances each allow `limit` per window until a shared store is plugged in.
+ */
+
+import type { NextRequest } from "next/server";
+
+export interface RateLimitOptions {
+  /** Attempts allowed per window. */
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the window resets (0 when allowed). */
+  retryAfterSeconds: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+const windows = new Map<string, Window>();
+
+/** Drop expired windows now and then so one-off keys (emails, IPs) do not accumulate forever. */
+function prune(now: number) {
+  if (windows.size < 1000) return;
+  for (const [key, window] of windows) {
+    if (window.resetAt <= now) windows.delete(key);
+  }
+}
+
+/** Count one attempt against key; allowed is false once the window already holds `limit` attempts. */
+export function takeRateLimit(key: string, options: RateLimitOptions, now = Date.now()): RateLimitResult {
+  prune(now);
+  let window = windows.get(key);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + options.windowMs };
+    windows.set(key, window);
+  }
+  if (window.count >= options.limit) {
+    return { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000) };
+  }
+  window.count += 1;
+  return { allowed: true, remaining: options.limit - window.count, retryAfterSeconds: 0 };
+}
+
+/** Forget attempts for key (e.g. after a successful login). */
+export function resetRateLimit(key: string): void {
+  windows.delete(key);
+}
+
+/** Proxies in front of the app that append to X-Forwarded-For (TRUSTED_PROXY_HOPS, default 1); 0 ignores the header. */
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+}
+
+/**
+ * Client address for per-IP limits. The platform's req.ip when it sets one; else the X-Forwarded-For entry the
+ * outermost trusted proxy appended (counted from the right). Entries left of it are whatever the client sent.
+ */
+export function getClientIp(req: NextRequest): string {
+  if (req.ip) return req.ip;
+  const hops = trustedProxyHops();
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops > 0 && forwarded.length >= hops) return forwarded[forwarded.length - hops];
+  return "unknown";
+}
@@ -7,6 +7,7 @@
 import { parseOccupanciesParam, serializeOccupancies, DEFAULT_OCCUPANCIES } from "@/lib/occupancy";
 import type { Occupancy } from "@/lib/occupancy";
 import { parsePlaceTypes, serializePlaceTypes, type NormalizedPlaceType } from "@/lib/place-utils";
+import { isFlexibleDates, type FlexibleDates } from "@/search/flexible";
 
 /** Default guest nationality (Phase 0). Must match server default. */
 export const DEFAULT_NATIONALITY = "EG";
@@ -57,6 +58,8 @@ export interface ResultsQueryParams {
   placeType?: NormalizedPlaceType;
   /** Phase 7: country code for country-level searches AND geographic restrictions (LITEAPI) */
   countryCode?: string;
+  /** Also compare prices for nearby dates ("± 3 days") or 7-night stays ("cheapest week"); the list keeps the exact dates. */
+  flexibleDates?: FlexibleDates;
 }
 
 const DEFAULT_SORT: ResultsSortOption = "recommended";
@@ -111,6 +114,7 @@ export function parseResultsSearchParams(
   const centerLatParam = params.get("centerLat");
   const centerLngParam = params.get("centerLng");
   const searchRadiusParam = params.get("searchRadius");
+  const flexParam = params.get("flex");
 
   const validPlaceTypes: NormalizedPlaceType[] = ["country", "city", "hotel", "airport", "region", "attraction"];
   const placeType = placeTypeParam && validPlaceTypes.includes(placeTypeParam as NormalizedPlaceType)
@@ -148,7 +152,8 @@ export function parseResultsSearchParams(
     ...(placeType && { placeType }),
     ...(centerLatParam != null && centerLatParam !== "" && !Number.isNaN(Number(centerLatParam)) && { centerLat: Number(centerLatParam) }),
     ...(centerLngParam != null && centerLngParam !== "" && !Number.isNaN(Number(centerLngParam)) && { centerLng: Number(centerLngParam) }),
-    ...(searchRadiusParam != null && searchRadiusParam !== "" && !Number.isNaN(Number(searchRadiusParam)) && Number(searchRadiusParam) > 0 && { searchRadius: Number(searchRadiusParam) })
+    ...(searchRadiusParam != null && searchRadiusParam !== "" && !Number.isNaN(Number(searchRadiusParam)) && Number(searchRadiusParam) > 0 && { searchRadius: Number(searchRadiusParam) }),
+    ...(isFlexibleDates(flexParam) && { flexibleDates: flexParam })
   };
 }
 
@@ -188,6 +193,7 @@ export function serializeResultsQuery(params: ResultsQueryParams): URLSearchPara
   if (params.centerLat != null && !Number.isNaN(params.centerLat)) q.set("centerLat", String(params.centerLat));
   if (params.centerLng != null && !Number.isNaN(params.centerLng)) q.set("centerLng", String(params.centerLng));
   if (params.searchRadius != null && !Number.isNaN(params.searchRadius) && params.searchRadius > 0) q.set("searchRadius", String(params.searchRadius));
+  if (params.flexibleDates) q.set("flex", params.flexibleDates);
 
   return q;
 }
@@ -261,6 +267,7 @@ export function buildResultsQueryParams(options: {
   searchRadius?: number;
   placeType?: NormalizedPlaceType;
   countryCode?: string;
+  flexibleDates?: FlexibleDates;
 }): ResultsQueryParams {
   const occupanciesStr = serializeOccupancies(options.occupancies);
   const placeTypes = options.placeTypes ?? [];
@@ -291,6 +298,7 @@ export function buildResultsQueryParams(options: {
     centerLng: options.centerLng,
     searchRadius: options.searchRadius,
     placeType: options.placeType,
-    countryCode: options.countryCode
+    countryCode: options.countryCode,
+    flexibleDates: options.flexibleDates
   };
 }
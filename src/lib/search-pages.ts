@@ -0,0 +1,37 @@
+/**
+ * Paged rates search (/api/rates/search with offset + limit): page size and merging pages into one response.
+ * Client-safe.
+ */
+
+/** Hotels per /api/rates/search page; the server enriches and prices one page per request. */
+export const SEARCH_PAGE_SIZE = 50;
+
+export interface SearchPageInfo {
+  offset: number;
+  limit: number;
+  /** Hotels in this page. */
+  count: number;
+  /** Offset of the next page; null when this was the last one. */
+  nextOffset: number | null;
+}
+
+/** The parts of a search response that accumulate across pages. */
+export interface PagedSearchResponse {
+  hotels: { id: string }[];
+  page?: SearchPageInfo;
+}
+
+/** Append the next page: hotels in server order (duplicates dropped), page info from the new page. */
+export function mergeSearchPages<T extends PagedSearchResponse>(prev: T, next: T): T {
+  const seen = new Set(prev.hotels.map((h) => h.id));
+  return {
+    ...prev,
+    hotels: [...prev.hotels, ...next.hotels.filter((h) => !seen.has(h.id))],
+    page: next.page
+  };
+}
+
+/** Offset to request next, or null when the response is complete (also for unpaged responses). */
+export function nextSearchOffset(response: PagedSearchResponse | null | undefined): number | null {
+  return response?.page?.nextOffset ?? null;
+}
@@ -0,0 +1,4 @@
+/** Trimmed string from untrusted input (request bodies); undefined when missing, not a string or blank. */
+export function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
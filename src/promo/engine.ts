@@ -0,0 +1,187 @@
+/**
+ * Promo engine: validates a code against the rule store and computes the discount server-side.
+ * Redemptions are locked at book time (serialized per code) so limits hold under concurrent bookings.
+ */
+
+import type { UserProfile } from "@/auth/types";
+import { convertAmount, roundMoney } from "@/lib/fx";
+import { withKeyedLock } from "@/lib/keyed-lock";
+import {
+  getPromoRedemption,
+  getPromoRule,
+  listPromoRedemptions,
+  normalizePromoCode,
+  savePromoRedemption,
+  updatePromoRedemption
+} from "./store";
+import type { Money, PromoEvaluation, PromoRedemption, PromoRule } from "./types";
+
+/** A lock that was never confirmed or released stops counting toward limits after this long. */
+const REDEMPTION_LOCK_TTL_MS = 30 * 60 * 1000;
+
+function formatMoney(money: Money): string {
+  return `${money.currency} ${money.amount.toFixed(2)}`;
+}
+
+function countsTowardLimits(redemption: PromoRedemption, nowMs: number): boolean {
+  if (redemption.status === "redeemed") return true;
+  if (redemption.status === "locked") {
+    return nowMs - Date.parse(redemption.updatedAt) < REDEMPTION_LOCK_TTL_MS;
+  }
+  return false;
+}
+
+function needsLogin(rule: PromoRule): boolean {
+  const e = rule.eligibility;
+  return (
+    e?.requireLogin === true ||
+    (e?.userTypes?.length ?? 0) > 0 ||
+    (e?.loyaltyLevels?.length ?? 0) > 0 ||
+    rule.maxRedemptionsPerUser != null
+  );
+}
+
+/** Discount for this rule on `amount` (in the booking currency), or null if a currency cannot be converted. */
+function computeDiscount(rule: PromoRule, amount: Money): Money | null {
+  const { discount } = rule;
+  let value: number;
+  if (discount.type === "percent") {
+    value = (amount.amount * discount.percent) / 100;
+    if (discount.maxDiscount) {
+      const cap = convertAmount(discount.maxDiscount.amount, discount.maxDiscount.currency, amount.currency);
+      if (cap == null) return null;
+      value = Math.min(value, cap);
+    }
+  } else {
+    const converted = convertAmount(discount.amount, discount.currency, amount.currency);
+    if (converted == null) return null;
+    value = converted;
+  }
+  return { amount: roundMoney(Math.max(0, Math.min(value, amount.amount))), currency: amount.currency };
+}
+
+export interface PromoEvaluationInput {
+  code: string;
+  /** Amount the discount applies to (what we charge), in the booking currency. */
+  amount: Money;
+  profile: UserProfile | null;
+  now?: Date;
+  /** Ignore an existing redemption for this prebook when counting limits (re-validation of the same booking). */
+  excludePrebookId?: string;
+}
+
+export async function evaluatePromo(input: PromoEvaluationInput): Promise<PromoEvaluation> {
+  const code = normalizePromoCode(input.code ?? "");
+  if (!code) return { valid: false, reason: "EMPTY", message: "Please enter a promo code." };
+
+  const rule = await getPromoRule(code);
+  if (!rule) return { valid: false, reason: "NOT_FOUND", message: "Invalid or expired code" };
+  if (!rule.active) return { valid: false, reason: "INACTIVE", message: "Invalid or expired code" };
+
+  const now = input.now ?? new Date();
+  const nowMs = now.getTime();
+  if (rule.validFrom && Date.parse(rule.validFrom) > nowMs) {
+    return { valid: false, reason: "NOT_STARTED", message: "This code is not active yet." };
+  }
+  if (rule.validTo && Date.parse(rule.validTo) <= nowMs) {
+    return { valid: false, reason: "EXPIRED", message: "Invalid or expired code" };
+  }
+
+  const { profile } = input;
+  if (needsLogin(rule) && !profile) {
+    return { valid: false, reason: "LOGIN_REQUIRED", message: "Log in to use this code." };
+  }
+  const userTypes = rule.eligibility?.userTypes ?? [];
+  const loyaltyLevels = rule.eligibility?.loyaltyLevels ?? [];
+  if (profile && userTypes.length > 0 && !userTypes.includes(profile.userType)) {
+    return { valid: false, reason: "NOT_ELIGIBLE", message: "This code is not available for your account." };
+  }
+  if (profile && loyaltyLevels.length > 0 && !loyaltyLevels.includes(profile.loyaltyLevel)) {
+    return { valid: false, reason: "NOT_ELIGIBLE", message: "This code is not available for your membership tier." };
+  }
+
+  if (rule.minSpend) {
+    const min = convertAmount(rule.minSpend.amount, rule.minSpend.currency, input.amount.currency);
+    if (min == null) {
+      return { valid: false, reason: "CURRENCY_UNSUPPORTED", message: "This code cannot be used in this currency." };
+    }
+    if (input.amount.amount < min) {
+      return {
+        valid: false,
+        reason: "MIN_SPEND",
+        message: `Spend at least ${formatMoney({ amount: min, currency: input.amount.currency })} to use this code.`
+      };
+    }
+  }
+
+  const discount = computeDiscount(rule, input.amount);
+  if (!discount) {
+    return { valid: false, reason: "CURRENCY_UNSUPPORTED", message: "This code cannot be used in this currency." };
+  }
+
+  if (rule.maxRedemptions != null || rule.maxRedemptionsPerUser != null) {
+    const counted = (await listPromoRedemptions(code)).filter(
+      (r) => r.id !== input.excludePrebookId && countsTowardLimits(r, nowMs)
+    );
+    if (rule.maxRedemptions != null && counted.length >= rule.maxRedemptions) {
+      return { valid: false, reason: "GLOBAL_LIMIT_REACHED", message: "This code has been fully redeemed." };
+    }
+    if (
+      rule.maxRedemptionsPerUser != null &&
+      profile &&
+      counted.filter((r) => r.userId === profile.userId).length >= rule.maxRedemptionsPerUser
+    ) {
+      return { valid: false, reason: "USER_LIMIT_REACHED", message: "You have already used this code." };
+    }
+  }
+
+  return { valid: true, rule, discount, message: "Promo code applied!" };
+}
+
+/**
+ * Book time: re-validate the code and reserve a redemption for this prebook.
+ * Serialized per code so two concurrent bookings cannot both take the last redemption.
+ */
+export function lockPromoRedemption(input: {
+  code: string;
+  prebookId: string;
+  amount: Money;
+  profile: UserProfile | null;
+}): Promise<PromoEvaluation> {
+  const code = normalizePromoCode(input.code);
+  return withKeyedLock(`promo:${code}`, async () => {
+    const evaluation = await evaluatePromo({
+      code,
+      amount: input.amount,
+      profile: input.profile,
+      excludePrebookId: input.prebookId
+    });
+    if (!evaluation.valid) return evaluation;
+    const now = new Date().toISOString();
+    const existing = await getPromoRedemption(input.prebookId);
+    await savePromoRedemption({
+      id: input.prebookId,
+      code,
+      prebookId: input.prebookId,
+      userId: input.profile?.userId,
+      discount: evaluation.discount,
+      status: "locked",
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    });
+    return evaluation;
+  });
+}
+
+/** Booking confirmed: the locked redemption becomes permanent. */
+export async function markPromoRedeemed(prebookId: string, bookingId?: string): Promise<void> {
+  await updatePromoRedemption(prebookId, { status: "redeemed", ...(bookingId && { bookingId }) });
+}
+
+/** Booking failed: free the redemption so it no longer counts toward limits. */
+export async function releasePromoRedemption(prebookId: string): Promise<void> {
+  const existing = await getPromoRedemption(prebookId);
+  if (existing?.status === "locked") {
+    await updatePromoRedemption(prebookId, { status: "released" });
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Promo engine (server only): rule store, validation and book-time redemption locking.
+ */
+
+export type {
+  Money,
+  PromoDiscount,
+  PromoEligibility,
+  PromoEvaluation,
+  PromoRedemption,
+  PromoRedemptionStatus,
+  PromoRejectReason,
+  PromoRule
+} from "./types";
+export type { PromoEvaluationInput } from "./engine";
+export {
+  evaluatePromo,
+  lockPromoRedemption,
+  markPromoRedeemed,
+  releasePromoRedemption
+} from "./engine";
+export {
+  deletePromoRule,
+  getPromoRule,
+  listPromoRedemptions,
+  listPromoRules,
+  normalizePromoCode,
+  savePromoRule
+} from "./store";
@@ -0,0 +1,107 @@
+import { getCollection } from "@/lib/data-store";
+import type { PromoRedemption, PromoRule } from "./types";
+
+const RULES = "promo_rules";
+const REDEMPTIONS = "promo_redemptions";
+
+/** Codes the app shipped with before the engine existed; seeded once when the rule store is empty. */
+const SEED_RULES: Omit<PromoRule, "createdAt" | "updatedAt">[] = [
+  {
+    code: "SAVE10",
+    description: "10% off",
+    active: true,
+    discount: { type: "percent", percent: 10 }
+  },
+  {
+    code: "FLAT20",
+    description: "EGP 20 off (converted to the booking currency)",
+    active: true,
+    discount: { type: "fixed", amount: 20, currency: "EGP" }
+  }
+];
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function rules() {
+  return getCollection<PromoRule>(RULES);
+}
+
+function redemptions() {
+  return getCollection<PromoRedemption>(REDEMPTIONS);
+}
+
+let seeded: Promise<void> | null = null;
+
+function ensureSeeded(): Promise<void> {
+  if (!seeded) {
+    seeded = (async () => {
+      const existing = await rules().list();
+      if (existing.length > 0) return;
+      const now = new Date().toISOString();
+      for (const rule of SEED_RULES) {
+        await rules().put(rule.code, { ...rule, createdAt: now, updatedAt: now });
+      }
+    })();
+    seeded.catch(() => {
+      seeded = null;
+    });
+  }
+  return seeded;
+}
+
+export async function listPromoRules(): Promise<PromoRule[]> {
+  await ensureSeeded();
+  const all = await rules().list();
+  return all.sort((a, b) => a.code.localeCompare(b.code));
+}
+
+export async function getPromoRule(code: string): Promise<PromoRule | null> {
+  await ensureSeeded();
+  return rules().get(normalizePromoCode(code));
+}
+
+export async function savePromoRule(
+  rule: Omit<PromoRule, "createdAt" | "updatedAt">
+): Promise<PromoRule> {
+  await ensureSeeded();
+  const code = normalizePromoCode(rule.code);
+  const now = new Date().toISOString();
+  const saved = await rules().update(code, (current) => ({
+    ...rule,
+    code,
+    createdAt: current?.createdAt ?? now,
+    updatedAt: now
+  }));
+  return saved as PromoRule;
+}
+
+export async function deletePromoRule(code: string): Promise<boolean> {
+  await ensureSeeded();
+  return rules().delete(normalizePromoCode(code));
+}
+
+export function listPromoRedemptions(code: string): Promise<PromoRedemption[]> {
+  const normalized = normalizePromoCode(code);
+  return redemptions()
+    .list()
+    .then((all) => all.filter((r) => r.code === normalized));
+}
+
+export function getPromoRedemption(prebookId: string): Promise<PromoRedemption | null> {
+  return redemptions().get(prebookId);
+}
+
+export function savePromoRedemption(redemption: PromoRedemption): Promise<PromoRedemption> {
+  return redemptions().put(redemption.id, redemption);
+}
+
+export function updatePromoRedemption(
+  prebookId: string,
+  patch: Partial<Omit<PromoRedemption, "id" | "createdAt">>
+): Promise<PromoRedemption | null> {
+  return redemptions().update(prebookId, (current) =>
+    current ? { ...current, ...patch, updatedAt: new Date().toISOString() } : null
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Promo engine types: rules (what a code gives and to whom) and redemptions (who used it).
+ */
+
+import type { LoyaltyLevel, UserType } from "@/auth/types";
+
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+export type PromoDiscount =
+  /** percent off the amount charged; maxDiscount caps it (converted to the booking currency). */
+  | { type: "percent"; percent: number; maxDiscount?: Money }
+  /** fixed amount off, converted from its own currency to the booking currency. */
+  | { type: "fixed"; amount: number; currency: string };
+
+/**
+ * Who may use a code. Empty/absent lists mean "anyone".
+ * Setting userTypes or loyaltyLevels implies the user must be logged in.
+ */
+export interface PromoEligibility {
+  userTypes?: UserType[];
+  loyaltyLevels?: LoyaltyLevel[];
+  /** When true, guests (not logged in) cannot use the code even if no segment list is set. */
+  requireLogin?: boolean;
+}
+
+export interface PromoRule {
+  /** Uppercase code; also the rule id. */
+  code: string;
+  description?: string;
+  active: boolean;
+  discount: PromoDiscount;
+  /** Minimum amount charged (converted to the booking currency) for the code to apply. */
+  minSpend?: Money;
+  /** ISO datetimes; the code is valid from validFrom (inclusive) until validTo (exclusive). */
+  validFrom?: string;
+  validTo?: string;
+  /** Total redemptions across all users. */
+  maxRedemptions?: number;
+  /** Redemptions per logged-in user (requires login). */
+  maxRedemptionsPerUser?: number;
+  eligibility?: PromoEligibility;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * locked: reserved at book time while the LiteAPI book call runs (counts toward limits);
+ * redeemed: booking confirmed; released: booking failed or lock expired.
+ */
+export type PromoRedemptionStatus = "locked" | "redeemed" | "released";
+
+export interface PromoRedemption {
+  /** Equal to prebookId: one redemption per prebook. */
+  id: string;
+  code: string;
+  prebookId: string;
+  bookingId?: string;
+  userId?: string;
+  discount: Money;
+  status: PromoRedemptionStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PromoRejectReason =
+  | "EMPTY"
+  | "NOT_FOUND"
+  | "INACTIVE"
+  | "NOT_STARTED"
+  | "EXPIRED"
+  | "LOGIN_REQUIRED"
+  | "NOT_ELIGIBLE"
+  | "MIN_SPEND"
+  | "CURRENCY_UNSUPPORTED"
+  | "GLOBAL_LIMIT_REACHED"
+  | "USER_LIMIT_REACHED";
+
+export type PromoEvaluation =
+  | {
+      valid: true;
+      rule: PromoRule;
+      /** Discount in the booking currency, rounded to 2 decimals, never more than the amount. */
+      discount: Money;
+      message: string;
+    }
+  | { valid: false; reason: PromoRejectReason; message: string };
@@ -0,0 +1,106 @@
+/**
+ * Flexible-dates search (server only): one searchHotelRates call per date window (src/search/flexible.ts), at most
+ * FLEXIBLE_SEARCH_CONCURRENCY at a time, folded into a price-by-date matrix for the destination and each hotel.
+ * Windows reuse the rates search's validated request and caller context; only the dates and margin overrides change.
+ */
+
+import { getCache } from "@/lib/cache";
+import { settleWithConcurrency } from "@/lib/concurrency";
+import { getHotelMarginResolver, type HotelFactsMemo } from "@/lib/margin-resolver";
+import { searchHotelRates } from "@/lib/liteapi";
+import type { NextRequest } from "next/server";
+import {
+  type FlexibleDates,
+  type FlexibleDatesCell,
+  type FlexibleDatesResponse,
+  type FlexibleDateWindow,
+  flexibleDateWindows
+} from "./flexible";
+import type { RatesSearchContext } from "./rates-search";
+import { type ParsedRatesResponse, parseRatesResponse } from "./results";
+
+/** LiteAPI calls in flight per flexible search; a "cheapest week" search has 14 windows. */
+const FLEXIBLE_SEARCH_CONCURRENCY = 3;
+/** Hotels priced per window: enough to find the cheapest, without pricing a whole city 14 times. */
+const FLEXIBLE_HOTEL_LIMIT = 200;
+const FLEXIBLE_CACHE_TTL_SECONDS = 600;
+const FLEXIBLE_CACHE_STALE_SECONDS = 300;
+
+export const flexibleSearchCache = getCache<FlexibleDatesResponse>({
+  name: "rates-flexible",
+  ttlMs: FLEXIBLE_CACHE_TTL_SECONDS * 1000,
+  staleMs: FLEXIBLE_CACHE_STALE_SECONDS * 1000,
+  maxEntries: 100,
+  maxBytes: 20 * 1024 * 1024
+});
+
+/** Same key as the rates search for the requested dates (it covers every other param), per flexible mode. */
+export function flexibleSearchCacheKey(ctx: RatesSearchContext, flex: FlexibleDates): string {
+  return `flex:${flex}:${ctx.cacheKey}`;
+}
+
+async function searchWindow(
+  req: NextRequest,
+  ctx: RatesSearchContext,
+  window: FlexibleDateWindow,
+  hotelFacts: HotelFactsMemo
+): Promise<ParsedRatesResponse> {
+  const { checkin, checkout } = window;
+  // Overrides can be limited to stay dates, so each window resolves its own (the segment margin does not change)
+  const marginResolver = await getHotelMarginResolver(req, ctx.channel, {
+    checkin,
+    checkout,
+    language: ctx.language,
+    apiKey: ctx.apiKey,
+    hotelFacts
+  });
+  const resp = await searchHotelRates(
+    { ...ctx.baseParams, checkin, checkout, limit: Math.min(ctx.limit, FLEXIBLE_HOTEL_LIMIT), offset: undefined },
+    ctx.apiKey,
+    marginResolver.hasOverrides ? { marginOverrides: marginResolver } : undefined
+  );
+  return parseRatesResponse(resp);
+}
+
+/** Price every window of `flex` around the requested stay. Failed windows are marked; all of them failing throws. */
+export async function loadFlexibleDates(
+  req: NextRequest,
+  ctx: RatesSearchContext,
+  flex: FlexibleDates
+): Promise<FlexibleDatesResponse> {
+  const { checkin, checkout, currency } = ctx.baseParams;
+  const windows = flexibleDateWindows(flex, checkin, checkout);
+  if (windows.length === 0) {
+    throw Object.assign(new Error("No dates to compare for this stay"), { status: 400 });
+  }
+
+  // Hotel facts do not change with the dates: every window shares one lookup per hotel
+  const hotelFacts: HotelFactsMemo = new Map();
+  const results = await settleWithConcurrency(windows, FLEXIBLE_SEARCH_CONCURRENCY, (w) =>
+    searchWindow(req, ctx, w, hotelFacts)
+  );
+  const failures = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+  if (failures.length === results.length) throw failures[0].reason;
+  if (failures.length > 0) {
+    console.warn(`[rates/flexible] ${failures.length}/${results.length} date windows failed`, failures[0].reason?.message);
+  }
+
+  const hotelPrices: Record<string, (number | null)[]> = {};
+  const cells = windows.map((window, i): FlexibleDatesCell => {
+    const result = results[i];
+    if (result.status === "rejected") return { ...window, pricedCount: 0, failed: true };
+    let cheapest: FlexibleDatesCell["cheapest"];
+    result.value.prices.forEach((price, hotelId) => {
+      (hotelPrices[hotelId] ??= new Array(windows.length).fill(null))[i] = price.amount;
+      if (!cheapest || price.amount < cheapest.price.amount) cheapest = { hotelId, price };
+    });
+    return { ...window, ...(cheapest && { cheapest }), pricedCount: result.value.prices.size };
+  });
+
+  return {
+    flex,
+    windows: cells,
+    hotelPrices,
+    currency: cells.find((c) => c.cheapest)?.cheapest?.price.currency ?? currency ?? "USD"
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Flexible-dates search ("± 3 days", "cheapest week"): the date windows tried for a stay, the price-by-date matrix
+ * POST /api/rates/search/flexible answers with, and the per-date prices behind the calendar heat-map and the
+ * hotel-page strip. Client-safe.
+ */
+
+import { addDays, compareDay, formatDateForInput, getDaysBetween, parseYYYYMMDD } from "@/lib/date-utils";
+import type { SearchResultPrice } from "./types";
+
+export type FlexibleDates = "around" | "week";
+
+export const FLEXIBLE_DATES_OPTIONS: FlexibleDates[] = ["around", "week"];
+
+export const FLEXIBLE_DATES_LABELS: Record<FlexibleDates, string> = {
+  around: "± 3 days",
+  week: "Cheapest week"
+};
+
+/** "around": same number of nights, check-in moved up to this many days earlier or later. */
+export const FLEXIBLE_AROUND_DAYS = 3;
+/** "week": 7-night stays checking in on any of the FLEXIBLE_WEEK_START_DAYS days from the chosen check-in. */
+export const FLEXIBLE_WEEK_NIGHTS = 7;
+export const FLEXIBLE_WEEK_START_DAYS = 14;
+
+export function isFlexibleDates(value: unknown): value is FlexibleDates {
+  return typeof value === "string" && (FLEXIBLE_DATES_OPTIONS as string[]).includes(value);
+}
+
+export interface FlexibleDateWindow {
+  checkin: string;
+  checkout: string;
+  nights: number;
+  /** Days from the requested check-in (negative = earlier). */
+  shift: number;
+}
+
+/** Date windows to price for a stay, in check-in order; windows starting before `today` are left out. */
+export function flexibleDateWindows(
+  flex: FlexibleDates,
+  checkin: string,
+  checkout: string,
+  today: Date = new Date()
+): FlexibleDateWindow[] {
+  const start = parseYYYYMMDD(checkin);
+  const end = parseYYYYMMDD(checkout);
+  if (!start || !end || compareDay(end, start) <= 0) return [];
+  const nights = flex === "week" ? FLEXIBLE_WEEK_NIGHTS : getDaysBetween(start, end) - 1;
+  const shifts =
+    flex === "week"
+      ? Array.from({ length: FLEXIBLE_WEEK_START_DAYS }, (_, i) => i)
+      : Array.from({ length: FLEXIBLE_AROUND_DAYS * 2 + 1 }, (_, i) => i - FLEXIBLE_AROUND_DAYS);
+  return shifts.flatMap((shift) => {
+    const windowStart = addDays(start, shift);
+    if (compareDay(windowStart, today) < 0) return [];
+    return [
+      {
+        checkin: formatDateForInput(windowStart),
+        checkout: formatDateForInput(addDays(windowStart, nights)),
+        nights,
+        shift
+      }
+    ];
+  });
+}
+
+export interface FlexibleDatesCell extends FlexibleDateWindow {
+  /** Cheapest hotel for these dates; absent when nothing had a rate or the search failed. */
+  cheapest?: { hotelId: string; price: SearchResultPrice };
+  /** Hotels with a rate for these dates. */
+  pricedCount: number;
+  /** LiteAPI failed for this window (timeout, …); the other windows still count. */
+  failed?: boolean;
+}
+
+export interface FlexibleDatesResponse {
+  flex: FlexibleDates;
+  /** In check-in order. */
+  windows: FlexibleDatesCell[];
+  /** Per hotel: the stay total for each window (same order); null = no rate for those dates. */
+  hotelPrices: Record<string, (number | null)[]>;
+  /** Currency of every amount (the search currency). */
+  currency: string;
+}
+
+export type PriceLevel = "low" | "mid" | "high";
+
+export interface FlexibleDatePrice extends FlexibleDateWindow {
+  amount: number;
+  currency: string;
+  /** Where the amount sits between the cheapest and the dearest window, in thirds. */
+  level: PriceLevel;
+}
+
+/**
+ * Stay total per window for the destination (its cheapest hotel) or for one hotel. Windows without a price are left
+ * out, so both the heat-map and the strip only show dates that can actually be booked.
+ */
+export function flexibleDatePrices(response: FlexibleDatesResponse, hotelId?: string): FlexibleDatePrice[] {
+  const hotelAmounts = hotelId ? response.hotelPrices[hotelId] ?? [] : null;
+  const priced = response.windows.flatMap(({ cheapest, pricedCount, failed, ...window }, i) => {
+    const amount = hotelAmounts ? hotelAmounts[i] : cheapest?.price.amount;
+    return amount != null ? [{ ...window, amount }] : [];
+  });
+  const amounts = priced.map((p) => p.amount);
+  const min = Math.min(...amounts);
+  const range = Math.max(...amounts) - min;
+  return priced.map((p) => {
+    const ratio = range > 0 ? (p.amount - min) / range : 0;
+    const level: PriceLevel = ratio < 1 / 3 ? "low" : ratio < 2 / 3 ? "mid" : "high";
+    return { ...p, currency: response.currency, level };
+  });
+}
+
+/** Cheapest window; the earliest one on a tie. */
+export function cheapestFlexibleDate(prices: FlexibleDatePrice[]): FlexibleDatePrice | null {
+  return prices.reduce<FlexibleDatePrice | null>((best, p) => (!best || p.amount < best.amount ? p : best), null);
+}
@@ -0,0 +1,39 @@
+/**
+ * Rates search (server only): request handling shared by the JSON and streaming routes, and the LiteAPI rates payload
+ * → versioned SearchResponse hotels, and the flexible-dates fan-out. Clients import the contract from "@/search/types",
+ * "@/search/stream" and "@/search/flexible".
+ */
+
+export type {
+  SearchMode,
+  SearchPromoConfig,
+  SearchResponse,
+  SearchResultHotel,
+  SearchResultLocation,
+  SearchResultPrice
+} from "./types";
+export { isSearchResponse, SEARCH_RESPONSE_VERSION } from "./types";
+export type { FlexibleDates, FlexibleDatesResponse } from "./flexible";
+export { isFlexibleDates } from "./flexible";
+export {
+  buildSearchResultHotels,
+  emptyParsedRates,
+  mergeParsedRates,
+  parseRatesResponse,
+  parseRefundableHotelIds,
+  type ParsedRatesResponse
+} from "./results";
+export {
+  type CachedRatesSearch,
+  isRatesStreamEnabled,
+  loadHotelDetails,
+  loadRatesSearch,
+  NoRatesError,
+  prepareRatesSearch,
+  ratesSearchError,
+  ratesSearchErrorResponse,
+  ratesSearchPage,
+  type RatesSearchContext,
+  searchCache
+} from "./rates-search";
+export { flexibleSearchCache, flexibleSearchCacheKey, loadFlexibleDates } from "./flexible-search";
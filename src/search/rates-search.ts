@@ -0,0 +1,409 @@
+/**
+ * Rates search shared by the JSON and streaming handlers of POST /api/rates/search (server only): request parsing,
+ * the response cache and its key, the JSON loader and error mapping. Both handlers answer with the same
+ * SearchResponse from the same cache entries; the stream just sends it as events while LiteAPI's stream arrives.
+ */
+
+import { type Channel, getChannelFromRequest } from "@/auth";
+import { getCorporateContextForRequest, policyLimitsInCurrency } from "@/corporate";
+import type { PolicyLimits } from "@/corporate/types";
+import { getCache } from "@/lib/cache";
+import { getLiteApiKeyForChannel } from "@/lib/channel-keys";
+import { getHotelMarginResolver, type HotelMarginResolver } from "@/lib/margin-resolver";
+import {
+  getCachedHotelDetails,
+  type HotelDetailsData,
+  type RatesSearchParams,
+  resolveGuestNationality,
+  searchHotelRates
+} from "@/lib/liteapi";
+import type { SearchPageInfo } from "@/lib/search-pages";
+import { NextRequest, NextResponse } from "next/server";
+import { buildSearchResultHotels, parseRatesResponse, parseRefundableHotelIds } from "./results";
+import { SEARCH_RESPONSE_VERSION, type SearchMode, type SearchPromoConfig, type SearchResponse } from "./types";
+
+const DEFAULT_RATES_TIMEOUT_SECONDS = 5;
+/** Phase 7: TTL for search response cache (seconds). Same params → cache hit. */
+const RATES_SEARCH_CACHE_TTL_SECONDS = 180;
+/** After the TTL, serve the cached response for this long while a background search refreshes it. */
+const RATES_SEARCH_CACHE_STALE_SECONDS = 120;
+/** Hotels per call when the client does not page (legacy callers). Also the furthest a paged search goes. */
+const FULL_SEARCH_LIMIT = 1000;
+const MAX_PAGE_SIZE = 200;
+/** Hotel-targeted searches (e.g. the hotel page's flexible dates) name at most this many hotels. */
+const MAX_HOTEL_IDS = 50;
+const MIN_TIMEOUT_SECONDS = 1;
+const MAX_TIMEOUT_SECONDS = 30;
+
+export interface CachedRatesSearch {
+  payload: Omit<SearchResponse, "travelPolicy">;
+  headers: Record<string, string>;
+}
+
+/** Phase 7: cache for full search response. Key = canonical params string; headers kept as plain entries (JSON-serializable). */
+export const searchCache = getCache<CachedRatesSearch>({
+  name: "rates-search",
+  ttlMs: RATES_SEARCH_CACHE_TTL_SECONDS * 1000,
+  staleMs: RATES_SEARCH_CACHE_STALE_SECONDS * 1000,
+  maxEntries: 200,
+  maxBytes: 100 * 1024 * 1024
+});
+
+/** Hotels came back without rates; answered with 404 NO_RATES and not cached. */
+export class NoRatesError extends Error {}
+
+/** USE_RATES_STREAM=true: stream results to clients that accept NDJSON or SSE; everyone else gets JSON. */
+export function isRatesStreamEnabled(): boolean {
+  return process.env.USE_RATES_STREAM === "true";
+}
+
+/** Phase 7: build cache key from all params that affect the result (exclude client-only: refundable, sort, price range, name). Phase 4: include lat/lng/radius. Phase 7: include countryCode. */
+function ratesSearchCacheKey(params: {
+  mode: string;
+  placeId?: string;
+  aiSearch?: string;
+  checkin: string;
+  checkout: string;
+  occupancies: { adults: number; children?: number[] }[];
+  currency?: string;
+  language?: string;
+  guestNationality: string;
+  timeout: number;
+  offset: number;
+  limit: number;
+  margin: number | null;
+  additionalMarkup: number | null;
+  /** Candidate margin overrides (ids + versions); an admin edit must not serve stale prices from cache. */
+  marginOverridesKey: string;
+  starRating: number[] | undefined;
+  minRating: number | undefined;
+  minReviewsCount: number | undefined;
+  facilities: number[] | undefined;
+  strictFacilityFiltering: boolean | undefined;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  countryCode?: string;
+  hotelIds?: string[];
+}): string {
+  const occ = JSON.stringify(params.occupancies);
+  const star = (params.starRating ?? []).slice().sort((a, b) => a - b).join(",");
+  const fac = (params.facilities ?? []).slice().sort((a, b) => a - b).join(",");
+  const lat = params.latitude ?? "";
+  const lng = params.longitude ?? "";
+  const rad = params.radius ?? "";
+  const cc = params.countryCode ?? "";
+  const ids = (params.hotelIds ?? []).slice().sort().join(",");
+  return `rates:v${SEARCH_RESPONSE_VERSION}:${params.mode}:${ids}:${params.placeId ?? ""}:${params.aiSearch ?? ""}:${params.checkin}:${params.checkout}:${occ}:${params.currency ?? ""}:${params.language ?? ""}:${params.guestNationality}:${params.timeout}:${params.offset}:${params.limit}:${params.margin ?? ""}:${params.additionalMarkup ?? ""}:${params.marginOverridesKey}:${star}:${params.minRating ?? ""}:${params.minReviewsCount ?? ""}:${fac}:${params.strictFacilityFiltering ?? false}:${lat}:${lng}:${rad}:${cc}`;
+}
+
+/** A validated search request, resolved for the caller (channel, margin, policy). */
+export interface RatesSearchContext {
+  mode: SearchMode;
+  channel: Channel;
+  paged: boolean;
+  offset: number;
+  limit: number;
+  language?: string;
+  apiKey: string | undefined;
+  baseParams: RatesSearchParams;
+  marginResolver: HotelMarginResolver;
+  cacheKey: string;
+  headers: Record<string, string>;
+  promoConfig: SearchPromoConfig;
+  /** B2B travel policy in the search currency; per caller, so kept out of the shared cache entry. */
+  travelPolicy: PolicyLimits | null;
+}
+
+/** Phase 9: stable error shape { error: { message, code? } } for client to map to friendly copy. */
+function invalidParams(message: string): { ok: false; response: NextResponse } {
+  return {
+    ok: false,
+    response: NextResponse.json({ error: { message, code: "INVALID_PARAMS" } }, { status: 400 })
+  };
+}
+
+/**
+ * Parse and validate the request body (read from `req` unless the caller already did); failures come back as a 400
+ * response to return as is.
+ */
+export async function prepareRatesSearch(
+  req: NextRequest,
+  parsedBody?: unknown
+): Promise<{ ok: true; ctx: RatesSearchContext } | { ok: false; response: NextResponse }> {
+  let body: Partial<RatesSearchParams & { currency?: string; guestNationality?: string; language?: string; adults?: number; timeout?: number; minReviewsCount?: number; facilities?: number[]; strictFacilityFiltering?: boolean; offset?: number; limit?: number }> = {};
+
+  try {
+    body = parsedBody !== undefined ? (parsedBody as typeof body) ?? {} : await req.json();
+  } catch {
+    return invalidParams("Invalid request");
+  }
+
+  const { mode, placeId, aiSearch, checkin, checkout, occupancies: rawOccupancies, adults: legacyAdults, currency, guestNationality, language, timeout: requestedTimeout, starRating: bodyStarRating, minRating: bodyMinRating, minReviewsCount: bodyMinReviewsCount, facilities: bodyFacilities, strictFacilityFiltering: bodyStrictFacility, latitude: bodyLatitude, longitude: bodyLongitude, radius: bodyRadius, countryCode: bodyCountryCode, offset: bodyOffset, limit: bodyLimit, hotelIds: bodyHotelIds } = body;
+
+  if (!mode || !checkin || !checkout) {
+    return invalidParams("Something's missing in your search.");
+  }
+
+  // Support occupancies array or legacy single "adults". Child ages must be 0–17 (LiteAPI rejects invalid values).
+  const CHILD_AGE_MIN = 0;
+  const CHILD_AGE_MAX = 17;
+  const occupancies = Array.isArray(rawOccupancies) && rawOccupancies.length > 0
+    ? rawOccupancies
+        .filter((o: any) => o && typeof o.adults === "number" && o.adults >= 1)
+        .map((o: any) => {
+          const rawChildren = Array.isArray(o.children) ? o.children : [];
+          const children = rawChildren
+            .filter((a: any) => typeof a === "number" && !Number.isNaN(a) && a >= CHILD_AGE_MIN && a <= CHILD_AGE_MAX);
+          return { adults: o.adults, children };
+        })
+    : [{ adults: typeof legacyAdults === "number" && legacyAdults >= 1 ? legacyAdults : 2, children: [] }];
+
+  if (occupancies.length === 0) {
+    return invalidParams("Something's missing in your search.");
+  }
+
+  // Paging: limit turns it on (offset defaults to 0); without it the whole set comes back in one response
+  const paged = typeof bodyLimit === "number" && Number.isFinite(bodyLimit) && bodyLimit >= 1;
+  const limit = paged ? Math.min(MAX_PAGE_SIZE, Math.floor(bodyLimit)) : FULL_SEARCH_LIMIT;
+  const offset = paged && typeof bodyOffset === "number" && Number.isFinite(bodyOffset) && bodyOffset > 0 ? Math.floor(bodyOffset) : 0;
+  if (offset >= FULL_SEARCH_LIMIT) {
+    return invalidParams(`offset must be below ${FULL_SEARCH_LIMIT}`);
+  }
+
+  // Phase 4: area-only search (lat/lng/radius) does not require placeId or aiSearch
+  const latitude = typeof bodyLatitude === "number" && !Number.isNaN(bodyLatitude) ? bodyLatitude : undefined;
+  const longitude = typeof bodyLongitude === "number" && !Number.isNaN(bodyLongitude) ? bodyLongitude : undefined;
+  const radius = typeof bodyRadius === "number" && !Number.isNaN(bodyRadius) && bodyRadius > 0 ? bodyRadius : undefined;
+  const hasAreaParams = latitude != null && longitude != null && radius != null;
+  // Hotel-targeted search (e.g. one hotel's prices across dates): no place, vibe or area needed
+  const hotelIds = Array.isArray(bodyHotelIds)
+    ? [...new Set(bodyHotelIds.filter((id: unknown): id is string => typeof id === "string" && id.trim() !== ""))]
+    : [];
+  if (hotelIds.length > MAX_HOTEL_IDS) {
+    return invalidParams(`At most ${MAX_HOTEL_IDS} hotelIds per search`);
+  }
+  const hasHotelIds = hotelIds.length > 0;
+
+  if (!hasAreaParams && !hasHotelIds) {
+    if (mode === "place" && !placeId) {
+      return invalidParams("Something's missing in your search.");
+    }
+    if (mode === "vibe" && !aiSearch) {
+      return invalidParams("Something's missing in your search.");
+    }
+  }
+
+  const channel = await getChannelFromRequest(req);
+  const apiKey = getLiteApiKeyForChannel(channel);
+  // Segment margin for the search call; per-hotel/destination overrides re-price affected hotels (searchHotelRates)
+  const marginResolver = await getHotelMarginResolver(req, channel, { checkin, checkout, language, apiKey });
+  const marginResult = marginResolver.base;
+  const marginValue = marginResult.margin ?? null;
+  const additionalMarkupValue = marginResult.additionalMarkup ?? null;
+
+  const timeoutSeconds =
+    typeof requestedTimeout === "number" && !Number.isNaN(requestedTimeout)
+      ? Math.min(MAX_TIMEOUT_SECONDS, Math.max(MIN_TIMEOUT_SECONDS, Math.round(requestedTimeout)))
+      : DEFAULT_RATES_TIMEOUT_SECONDS;
+
+  const guestNationalityResolved = resolveGuestNationality(guestNationality);
+  // Phase 6/7: server-side filters (LiteAPI starRating, minRating, minReviewsCount, facilities). Omit for vibe (Type 3) per plan.
+  const starRating = Array.isArray(bodyStarRating) && bodyStarRating.length > 0
+    ? bodyStarRating.filter((n: unknown) => typeof n === "number" && !Number.isNaN(n))
+    : undefined;
+  const minRating = typeof bodyMinRating === "number" && !Number.isNaN(bodyMinRating) ? bodyMinRating : undefined;
+  const minReviewsCount = typeof bodyMinReviewsCount === "number" && !Number.isNaN(bodyMinReviewsCount) && bodyMinReviewsCount >= 0 ? bodyMinReviewsCount : undefined;
+  const facilities = Array.isArray(bodyFacilities) && bodyFacilities.length > 0
+    ? bodyFacilities.filter((n: unknown) => typeof n === "number" && !Number.isNaN(n))
+    : undefined;
+  const strictFacilityFiltering = bodyStrictFacility === true;
+
+  const countryCode = typeof bodyCountryCode === "string" && bodyCountryCode.trim() !== "" ? bodyCountryCode.trim() : undefined;
+
+  // When hasAreaParams, send only lat/lng/radius (no placeId) so results are not over-restricted; hotelIds replace both.
+  // Otherwise send placeId/aiSearch.
+  const baseParams = {
+    mode,
+    ...(hasHotelIds ? { hotelIds } : hasAreaParams ? { latitude, longitude, radius } : { placeId, aiSearch }),
+    checkin,
+    checkout,
+    occupancies,
+    currency,
+    guestNationality: guestNationalityResolved,
+    language,
+    limit,
+    ...(offset > 0 && { offset }),
+    timeout: timeoutSeconds,
+    maxRatesPerHotel: 1,
+    ...(marginValue != null && { margin: marginValue }),
+    ...(additionalMarkupValue != null && { additionalMarkup: additionalMarkupValue }),
+    ...(starRating != null && starRating.length > 0 && { starRating }),
+    ...(minRating != null && { minRating }),
+    ...(minReviewsCount != null && { minReviewsCount }),
+    ...(facilities != null && facilities.length > 0 && { facilities }),
+    ...(strictFacilityFiltering && { strictFacilityFiltering: true as const }),
+    ...(countryCode && { countryCode })
+  };
+
+  // Phase 7: check cache before calling LiteAPI (same key = same result). Phase 4: include lat/lng/radius.
+  const cacheKey = ratesSearchCacheKey({
+    mode,
+    placeId,
+    aiSearch,
+    checkin,
+    checkout,
+    occupancies,
+    currency,
+    language,
+    guestNationality: guestNationalityResolved,
+    timeout: timeoutSeconds,
+    offset,
+    limit,
+    margin: marginValue ?? null,
+    additionalMarkup: additionalMarkupValue ?? null,
+    marginOverridesKey: marginResolver.overridesKey,
+    starRating,
+    minRating,
+    minReviewsCount,
+    facilities,
+    strictFacilityFiltering: strictFacilityFiltering || undefined,
+    ...(hasAreaParams && { latitude, longitude, radius }),
+    ...(countryCode && { countryCode }),
+    ...(hasHotelIds && { hotelIds })
+  });
+  // B2B travel policy in the search currency (per caller, so kept out of the shared cache entry)
+  const corporate = await getCorporateContextForRequest(req).catch(() => null);
+  const travelPolicy = corporate ? policyLimitsInCurrency(corporate.account.policy, currency ?? "USD") : null;
+
+  // Debug headers: verify channel and margin (inspect in DevTools → Network → response headers)
+  const headers: Record<string, string> = {};
+  headers["X-Rate-Channel"] = channel;
+  if (marginValue != null) headers["X-Rate-Margin"] = String(marginValue);
+  else headers["X-Rate-Margin"] = "none";
+  if (additionalMarkupValue != null) headers["X-Rate-AdditionalMarkup"] = String(additionalMarkupValue);
+  if (marginResolver.hasOverrides) headers["X-Rate-Margin-Overrides"] = marginResolver.overridesKey;
+
+  // Phase 4: expose promo config so client can show was/now (real or configured discount)
+  const promoConfig = {
+    isCug: channel === "cug",
+    displayDiscountPercent: marginResult.displayDiscountPercent ?? undefined
+  };
+
+  return {
+    ok: true,
+    ctx: { mode, channel, paged, offset, limit, language, apiKey, baseParams, marginResolver, cacheKey, headers, promoConfig, travelPolicy }
+  };
+}
+
+/** Where a page of `count` hotels ends. Keep paging until a page comes back empty: LiteAPI can return short pages when suppliers time out. */
+export function ratesSearchPage(ctx: RatesSearchContext, count: number): SearchPageInfo {
+  const { paged, offset, limit } = ctx;
+  return {
+    offset,
+    limit,
+    count,
+    nextOffset: paged && count > 0 && offset + limit < FULL_SEARCH_LIMIT ? offset + limit : null
+  };
+}
+
+/** Cached hotel details for hotels of this search; failed lookups are left out. */
+export async function loadHotelDetails(
+  ctx: RatesSearchContext,
+  hotelIds: string[]
+): Promise<Record<string, HotelDetailsData | null>> {
+  const detailsByHotelId: Record<string, HotelDetailsData | null> = {};
+  const results = await Promise.allSettled(hotelIds.map((id) => getCachedHotelDetails(id, ctx.language, ctx.apiKey)));
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") detailsByHotelId[hotelIds[i]] = result.value;
+  });
+  return detailsByHotelId;
+}
+
+/** The whole search in one go: the JSON path, and the loader behind every cache entry. */
+export async function loadRatesSearch(ctx: RatesSearchContext): Promise<CachedRatesSearch> {
+  const { paged, offset, baseParams, apiKey, marginResolver } = ctx;
+  // Main results (cheapest rate per hotel) + refundable-only (LiteAPI: refundableRatesOnly=true).
+  // A refundable-only page would hold different hotels than the main page, so paged searches ask about this page's hotels.
+  const searchMain = () =>
+    searchHotelRates(
+      baseParams,
+      apiKey,
+      marginResolver.hasOverrides ? { marginOverrides: marginResolver } : undefined
+    );
+  const [resp, refundableResp] = paged
+    ? await searchMain().then(async (main) => {
+        const pageHotelIds = parseRatesResponse(main).ratedIds;
+        const refundable =
+          pageHotelIds.length > 0
+            ? await searchHotelRates({ ...baseParams, hotelIds: pageHotelIds, offset: undefined, refundableRatesOnly: true }, apiKey)
+            : { data: [] };
+        return [main, refundable] as const;
+      })
+    : await Promise.all([searchMain(), searchHotelRates({ ...baseParams, refundableRatesOnly: true }, apiKey)]);
+
+  const parsed = parseRatesResponse(resp);
+  if (parsed.invalid > 0) console.warn(`[rates/search] dropped ${parsed.invalid} malformed LiteAPI entries`);
+  // Hotels in refundable-only response have at least one refundable rate (refundableRatesOnly parameter)
+  const refundableHotelIds = parseRefundableHotelIds(refundableResp);
+
+  // Phase 9: no availability for these dates (hotels returned but no rates). Later pages just come back empty.
+  if (offset === 0 && parsed.ratedIds.length > 0 && parsed.prices.size === 0) {
+    throw new NoRatesError();
+  }
+
+  // Enrich the hotels of this response (one page when paged) with cached details: ratings, stars, location (Phase 4 + Phase 1)
+  const detailsByHotelId = await loadHotelDetails(ctx, parsed.order);
+  const hotels = buildSearchResultHotels(parsed, refundableHotelIds, detailsByHotelId);
+
+  const payload: CachedRatesSearch["payload"] = {
+    version: SEARCH_RESPONSE_VERSION,
+    mode: ctx.mode,
+    hotels,
+    promoConfig: ctx.promoConfig,
+    page: ratesSearchPage(ctx, hotels.length)
+  };
+  return { payload, headers: ctx.headers };
+}
+
+/** Status and { message, code } for a failed search: friendly copy, never LiteAPI's own message. */
+export function ratesSearchError(err: any): { status: number; error: { message: string; code: string } } {
+  if (err instanceof NoRatesError) {
+    return {
+      status: 404,
+      error: {
+        message: "We don't have availability for these dates in this area. Try changing your dates or looking at a nearby area.",
+        code: "NO_RATES"
+      }
+    };
+  }
+  const status = typeof err?.status === "number" ? err.status : 500;
+  const msg = err?.message ?? "";
+  const isTimeout =
+    status === 408 ||
+    status === 504 ||
+    /timeout|timed out/i.test(String(msg));
+  const is4xx = status >= 400 && status < 500;
+
+  let code: string;
+  let message: string;
+  if (isTimeout) {
+    code = "TIMEOUT";
+    message =
+      "The search is taking longer than usual. Try again in a moment, or adjust your dates or destination.";
+  } else if (is4xx) {
+    code = "INVALID_PARAMS";
+    message =
+      "Something's missing in your search. Please check destination, dates, and guests and try again.";
+  } else {
+    code = "SEARCH_FAILED";
+    message =
+      "We couldn't load results right now. Please check your connection and try again.";
+  }
+  return { status: isTimeout ? 408 : status, error: { message, code } };
+}
+
+export function ratesSearchErrorResponse(err: any): NextResponse {
+  const { status, error } = ratesSearchError(err);
+  return NextResponse.json({ error }, { status });
+}
@@ -0,0 +1,186 @@
+/**
+ * LiteAPI /hotels/rates payload → SearchResultHotel list. The payload is checked field by field: entries without a
+ * hotel id are dropped (and counted), malformed prices are treated as "no rate", and unknown shapes of optional
+ * fields are ignored, so one bad supplier entry cannot break or leak into the results page.
+ */
+
+import { extractHotelDetailsFromResponse, type HotelDetailsData } from "@/lib/liteapi";
+import type { SearchResultHotel, SearchResultPrice } from "./types";
+
+type Json = Record<string, unknown>;
+
+function asRecord(value: unknown): Json | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Json) : undefined;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : undefined;
+}
+
+/** Static content LiteAPI sends with rates (includeHotelData). */
+interface RatesHotelContent {
+  name?: string;
+  thumbnail?: string;
+  persona?: string;
+  tags?: string[];
+  details: HotelDetailsData;
+}
+
+export interface ParsedRatesResponse {
+  /** Hotel ids in LiteAPI's order: the hotels list first, then any rated hotel missing from it. */
+  order: string[];
+  /** Hotels LiteAPI returned rates for (data[]), in order. */
+  ratedIds: string[];
+  content: Map<string, RatesHotelContent>;
+  prices: Map<string, SearchResultPrice>;
+  /** Entries dropped for having no usable hotel id. */
+  invalid: number;
+}
+
+function hotelIdOf(item: Json | undefined): string | undefined {
+  return asString(item?.id) ?? asString(item?.hotelId);
+}
+
+function parseContent(hotel: Json): RatesHotelContent {
+  const tags = asArray(hotel.tags).filter((t): t is string => typeof t === "string" && t.trim() !== "");
+  return {
+    name: asString(hotel.name),
+    thumbnail: asString(hotel.main_photo) ?? asString(hotel.thumbnail),
+    persona: asString(hotel.persona),
+    ...(tags.length > 0 && { tags }),
+    details: extractHotelDetailsFromResponse(hotel) ?? {}
+  };
+}
+
+/** Cheapest offer of a data[] item: the first room type's offer total, else its first rate's retail total. */
+function parsePrice(item: Json): SearchResultPrice | undefined {
+  const roomType = asRecord(asArray(item.roomTypes)[0]);
+  const rate = asRecord(asArray(roomType?.rates)[0]);
+  const retailRate = asRecord(rate?.retailRate);
+  const retailTotal = asRecord(asArray(retailRate?.total)[0]);
+  const offer = asRecord(roomType?.offerRetailRate) ?? asRecord(roomType?.suggestedSellingPrice) ?? retailTotal;
+  const amount = asNumber(offer?.amount);
+  if (amount == null || amount < 0) return undefined;
+  const refundableTag = asString(asRecord(rate?.cancellationPolicies)?.refundableTag);
+  return {
+    amount,
+    currency: asString(offer?.currency) ?? asString(retailTotal?.currency) ?? "USD",
+    ...(refundableTag && { refundableTag }),
+    taxIncluded: asRecord(asArray(retailRate?.taxesAndFees)[0])?.included === true
+  };
+}
+
+export function emptyParsedRates(): ParsedRatesResponse {
+  return { order: [], ratedIds: [], content: new Map(), prices: new Map(), invalid: 0 };
+}
+
+export function parseRatesResponse(input: unknown): ParsedRatesResponse {
+  const root = asRecord(input);
+  const parsed = emptyParsedRates();
+  const seen = new Set<string>();
+  const add = (id: string) => {
+    if (seen.has(id)) return;
+    seen.add(id);
+    parsed.order.push(id);
+  };
+
+  for (const raw of asArray(root?.hotels)) {
+    const hotel = asRecord(raw);
+    const id = hotelIdOf(hotel);
+    if (!hotel || !id) {
+      parsed.invalid += 1;
+      continue;
+    }
+    parsed.content.set(id, parseContent(hotel));
+    add(id);
+  }
+
+  for (const raw of asArray(root?.data)) {
+    const item = asRecord(raw);
+    const id = asString(item?.hotelId);
+    if (!item || !id) {
+      parsed.invalid += 1;
+      continue;
+    }
+    const hotel = asRecord(item.hotel);
+    if (hotel && !parsed.content.has(id)) parsed.content.set(id, parseContent(hotel));
+    const price = parsePrice(item);
+    if (price) parsed.prices.set(id, price);
+    if (!parsed.ratedIds.includes(id)) parsed.ratedIds.push(id);
+    add(id);
+  }
+  return parsed;
+}
+
+/**
+ * Add one chunk of LiteAPI's rates stream to what arrived before. Returns the hotels seen for the first time and the
+ * ones priced (or re-priced) by this chunk.
+ */
+export function mergeParsedRates(
+  target: ParsedRatesResponse,
+  chunk: ParsedRatesResponse
+): { added: string[]; priced: string[] } {
+  const known = new Set(target.order);
+  const rated = new Set(target.ratedIds);
+  const added = chunk.order.filter((id) => !known.has(id));
+  target.order.push(...added);
+  target.ratedIds.push(...chunk.ratedIds.filter((id) => !rated.has(id)));
+  chunk.content.forEach((content, id) => {
+    if (!target.content.has(id)) target.content.set(id, content);
+  });
+  chunk.prices.forEach((price, id) => target.prices.set(id, price));
+  target.invalid += chunk.invalid;
+  return { added, priced: [...chunk.prices.keys()] };
+}
+
+/** Hotels in a refundableRatesOnly response: each has at least one refundable rate. */
+export function parseRefundableHotelIds(input: unknown): Set<string> {
+  const ids = new Set<string>();
+  for (const raw of asArray(asRecord(input)?.data)) {
+    const id = asString(asRecord(raw)?.hotelId);
+    if (id) ids.add(id);
+  }
+  return ids;
+}
+
+/**
+ * One SearchResultHotel per hotel, in LiteAPI order. Content from the rates payload wins; cached hotel details
+ * (detailsByHotelId) fill the gaps (ratings, stars, location, address).
+ */
+export function buildSearchResultHotels(
+  parsed: ParsedRatesResponse,
+  refundableHotelIds: Set<string>,
+  detailsByHotelId: Record<string, HotelDetailsData | null | undefined>
+): SearchResultHotel[] {
+  return parsed.order.map((id) => {
+    const content = parsed.content.get(id);
+    const details: HotelDetailsData = { ...(detailsByHotelId[id] ?? {}), ...(content?.details ?? {}) };
+    const price = parsed.prices.get(id);
+    return {
+      id,
+      name: content?.name ?? "Hotel",
+      ...(content?.thumbnail && { thumbnail: content.thumbnail }),
+      ...((details.address ?? details.city) && { address: details.address ?? details.city }),
+      ...(details.city && { city: details.city }),
+      ...(details.countryCode && { countryCode: details.countryCode }),
+      ...(details.location && { location: details.location }),
+      ...(details.rating != null && { rating: details.rating }),
+      ...(details.reviewCount != null && { reviewCount: details.reviewCount }),
+      ...(details.starRating != null && { starRating: details.starRating }),
+      ...(price && { price }),
+      hasRefundableRate: refundableHotelIds.has(id),
+      ...(content?.persona && { persona: content.persona }),
+      ...(content?.tags && { tags: content.tags })
+    };
+  });
+}
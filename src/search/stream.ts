@@ -0,0 +1,140 @@
+/**
+ * Streaming /api/rates/search (USE_RATES_STREAM): events, their NDJSON / SSE encoding, and folding them into the same
+ * SearchResponse the JSON path returns, so the results page filters, sorts and pages both alike. Client-safe.
+ */
+
+import type { PolicyLimits } from "@/corporate/types";
+import type { SearchPageInfo } from "@/lib/search-pages";
+import {
+  SEARCH_RESPONSE_VERSION,
+  type SearchMode,
+  type SearchPromoConfig,
+  type SearchResponse,
+  type SearchResultHotel,
+  type SearchResultPrice
+} from "./types";
+
+export type SearchStreamFormat = "ndjson" | "sse";
+
+export const SEARCH_STREAM_CONTENT_TYPES: Record<SearchStreamFormat, string> = {
+  ndjson: "application/x-ndjson",
+  sse: "text/event-stream"
+};
+
+/** Accept header for clients that read either a stream or plain JSON (the server decides). */
+export const SEARCH_STREAM_ACCEPT = `${SEARCH_STREAM_CONTENT_TYPES.ndjson}, application/json;q=0.9`;
+
+/** Review scores, stars and location from cached hotel details; only the fields the rates payload lacked. */
+export type SearchResultDetails = Partial<
+  Pick<SearchResultHotel, "address" | "city" | "countryCode" | "location" | "rating" | "reviewCount" | "starRating">
+>;
+
+export type SearchStreamEvent =
+  /** First event: everything but the hotels. */
+  | { type: "meta"; version: typeof SEARCH_RESPONSE_VERSION; mode: SearchMode; promoConfig: SearchPromoConfig; travelPolicy?: PolicyLimits | null }
+  /** Hotels seen for the first time, in LiteAPI order (priced when the rate came with them). */
+  | { type: "hotels"; hotels: SearchResultHotel[] }
+  /** Hotels already sent that were priced later. */
+  | { type: "prices"; prices: Record<string, SearchResultPrice> }
+  /** Hotels already sent that have a refundable rate; hotels sent after this event carry hasRefundableRate. */
+  | { type: "refundable"; hotelIds: string[] }
+  | { type: "enrichment"; details: Record<string, SearchResultDetails> }
+  /** Last event of a complete search. */
+  | { type: "done"; page?: SearchPageInfo }
+  /** Last event of a failed search (e.g. NO_RATES once every hotel came back unpriced). */
+  | { type: "error"; error: { message: string; code?: string } };
+
+export function searchStreamFormatOf(contentType: string | null | undefined): SearchStreamFormat | null {
+  const type = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if (type === SEARCH_STREAM_CONTENT_TYPES.ndjson) return "ndjson";
+  if (type === SEARCH_STREAM_CONTENT_TYPES.sse) return "sse";
+  return null;
+}
+
+/** Stream format a request asked for in its Accept header; null when it wants JSON. */
+export function searchStreamFormatForAccept(accept: string | null | undefined): SearchStreamFormat | null {
+  const types = (accept ?? "").split(",").map((t) => t.split(";")[0].trim().toLowerCase());
+  if (types.includes(SEARCH_STREAM_CONTENT_TYPES.ndjson)) return "ndjson";
+  if (types.includes(SEARCH_STREAM_CONTENT_TYPES.sse)) return "sse";
+  return null;
+}
+
+export function encodeSearchStreamEvent(event: SearchStreamEvent, format: SearchStreamFormat): string {
+  const json = JSON.stringify(event);
+  return format === "sse" ? `event: ${event.type}\ndata: ${json}\n\n` : `${json}\n`;
+}
+
+/**
+ * Messages of an NDJSON (one per line) or SSE (data lines of one event) body, as raw strings. Also reads LiteAPI's
+ * own rates stream; its "[DONE]" marker is yielded like any other message.
+ */
+export async function* readStreamMessages(
+  body: ReadableStream<Uint8Array>,
+  format: SearchStreamFormat
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const separator = format === "sse" ? /\r?\n\r?\n/ : /\r?\n/;
+  const toMessage = (part: string): string | null => {
+    if (format === "ndjson") return part.trim() || null;
+    const data = part
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""));
+    return data.length > 0 ? data.join("\n") : null;
+  };
+  let buffer = "";
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const parts = buffer.split(separator);
+      buffer = done ? "" : parts.pop() ?? "";
+      for (const part of parts) {
+        const message = toMessage(part);
+        if (message != null) yield message;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Fold one event into the response built so far (null before "meta"). */
+export function applySearchStreamEvent(response: SearchResponse | null, event: SearchStreamEvent): SearchResponse | null {
+  if (event.type === "meta") {
+    return {
+      version: event.version,
+      mode: event.mode,
+      hotels: [],
+      promoConfig: event.promoConfig,
+      ...(event.travelPolicy !== undefined && { travelPolicy: event.travelPolicy })
+    };
+  }
+  if (!response) return response;
+  switch (event.type) {
+    case "hotels": {
+      const seen = new Set(response.hotels.map((h) => h.id));
+      return { ...response, hotels: [...response.hotels, ...event.hotels.filter((h) => !seen.has(h.id))] };
+    }
+    case "prices":
+      return {
+        ...response,
+        hotels: response.hotels.map((h) => (event.prices[h.id] ? { ...h, price: event.prices[h.id] } : h))
+      };
+    case "refundable": {
+      const ids = new Set(event.hotelIds);
+      return { ...response, hotels: response.hotels.map((h) => (ids.has(h.id) ? { ...h, hasRefundableRate: true } : h)) };
+    }
+    case "enrichment":
+      return {
+        ...response,
+        hotels: response.hotels.map((h) => (event.details[h.id] ? { ...h, ...event.details[h.id] } : h))
+      };
+    case "done":
+      return { ...response, ...(event.page && { page: event.page }) };
+    default:
+      return response;
+  }
+}
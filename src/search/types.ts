@@ -0,0 +1,71 @@
+/**
+ * /api/rates/search response contract, shared by the route, the results page, the map and HotelCard.
+ * Client-safe. Bump SEARCH_RESPONSE_VERSION on breaking changes so cached or preloaded responses of the old
+ * shape are not read as the new one.
+ */
+
+import type { PolicyLimits } from "@/corporate/types";
+import type { SearchPageInfo } from "@/lib/search-pages";
+
+/** 1 was the raw LiteAPI payload plus per-hotel lookups (pricesByHotelId, …). */
+export const SEARCH_RESPONSE_VERSION = 2;
+
+export type SearchMode = "place" | "vibe";
+
+/** Cheapest offer for the whole stay (all rooms), as LiteAPI priced it. */
+export interface SearchResultPrice {
+  amount: number;
+  currency: string;
+  /** RFN (refundable) / NRFN (non-refundable) for this cheapest rate. */
+  refundableTag?: string;
+  taxIncluded?: boolean;
+}
+
+export interface SearchResultLocation {
+  latitude: number;
+  longitude: number;
+}
+
+/** One hotel card: static content, review scores and the price, merged server-side. */
+export interface SearchResultHotel {
+  id: string;
+  name: string;
+  thumbnail?: string;
+  address?: string;
+  city?: string;
+  countryCode?: string;
+  location?: SearchResultLocation;
+  /** Guest rating 0–10. */
+  rating?: number;
+  reviewCount?: number;
+  starRating?: number;
+  /** Absent when the hotel came back without a bookable rate. */
+  price?: SearchResultPrice;
+  /** At least one refundable rate (any room), not just the cheapest one. */
+  hasRefundableRate: boolean;
+  /** Vibe search: who the hotel suits and what it is known for. */
+  persona?: string;
+  tags?: string[];
+}
+
+export interface SearchPromoConfig {
+  isCug: boolean;
+  displayDiscountPercent?: number;
+}
+
+export interface SearchResponse {
+  version: typeof SEARCH_RESPONSE_VERSION;
+  mode: SearchMode;
+  /** In LiteAPI's (recommended) order. */
+  hotels: SearchResultHotel[];
+  promoConfig: SearchPromoConfig;
+  /** B2B: company travel policy limits in the search currency; null for everyone else. */
+  travelPolicy?: PolicyLimits | null;
+  /** Paged searches: where this response (or the last merged page) ends. */
+  page?: SearchPageInfo;
+}
+
+export function isSearchResponse(value: unknown): value is SearchResponse {
+  const v = value as Partial<SearchResponse> | null;
+  return !!v && v.version === SEARCH_RESPONSE_VERSION && Array.isArray(v.hotels);
+}
@@ -0,0 +1,39 @@
+/**
+ * Segments and segment rules (server only): which margin a logged-in user gets;
+ * margin overrides adjust it per hotel, destination, star rating and stay dates.
+ * Stored through @/lib/data-store and editable at runtime via /api/admin/segments.
+ */
+
+export type {
+  MarginContext,
+  MarginOverride,
+  MarginOverrideMatch,
+  Segment,
+  SegmentProfile,
+  SegmentResolution,
+  SegmentRule,
+  SegmentRuleMatch,
+  SegmentRuleType
+} from "./types";
+export {
+  findMarginOverride,
+  overrideAppliesTo,
+  overrideCoversStay,
+  overrideMatchesContext,
+  overrideNeedsHotelFacts
+} from "./overrides";
+export { isRuleEffective, resolveSegment, ruleMatchesProfile } from "./resolver";
+export {
+  deleteMarginOverride,
+  deleteSegment,
+  deleteSegmentRule,
+  getMarginOverride,
+  getSegment,
+  getSegmentRule,
+  listMarginOverrides,
+  listSegmentRules,
+  listSegments,
+  saveMarginOverride,
+  saveSegment,
+  saveSegmentRule
+} from "./store";
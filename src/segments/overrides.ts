@@ -0,0 +1,62 @@
+/**
+ * Margin overrides: adjust the segment margin for what is being bought (hotel, destination, stars, stay dates).
+ */
+
+import type { MarginContext, MarginOverride, MarginOverrideMatch } from "./types";
+
+/** Channel/segment filters, checked once per request before any hotel is looked at. */
+export function overrideAppliesTo(
+  override: MarginOverride,
+  channel: "b2c" | "cug",
+  segmentId: string | undefined
+): boolean {
+  if (!override.active) return false;
+  if (!(override.channels ?? ["cug"]).includes(channel)) return false;
+  if (override.segmentIds?.length && (!segmentId || !override.segmentIds.includes(segmentId))) return false;
+  return true;
+}
+
+/**
+ * Stay-date window: matches when any night of the stay (check-in up to the night before check-out) falls in
+ * stayFrom..stayTo. The whole stay then gets the override's margin (LiteAPI takes one margin per rate).
+ * Without a check-out only the check-in night counts.
+ */
+export function overrideCoversStay(match: MarginOverrideMatch, checkin?: string, checkout?: string): boolean {
+  if (!match.stayFrom && !match.stayTo) return true;
+  // YYYY-MM-DD strings compare correctly as text
+  const first = checkin?.slice(0, 10);
+  if (!first) return false;
+  const end = checkout?.slice(0, 10);
+  if (match.stayTo && first > match.stayTo) return false;
+  if (match.stayFrom && (end && end > first ? end <= match.stayFrom : first < match.stayFrom)) return false;
+  return true;
+}
+
+/** True when matching needs hotel facts (country, city, stars) beyond the hotelId and dates. */
+export function overrideNeedsHotelFacts(match: MarginOverrideMatch): boolean {
+  return Boolean(match.countryCodes?.length || match.cities?.length || match.starRatings?.length);
+}
+
+export function overrideMatchesContext(match: MarginOverrideMatch, ctx: MarginContext): boolean {
+  if (match.hotelIds?.length && (!ctx.hotelId || !match.hotelIds.includes(ctx.hotelId))) return false;
+  if (match.countryCodes?.length) {
+    const country = ctx.countryCode?.toUpperCase();
+    if (!country || !match.countryCodes.some((c) => c.toUpperCase() === country)) return false;
+  }
+  if (match.cities?.length) {
+    const city = ctx.city?.trim().toLowerCase();
+    if (!city || !match.cities.some((c) => c.trim().toLowerCase() === city)) return false;
+  }
+  if (match.starRatings?.length) {
+    if (ctx.starRating == null || !match.starRatings.includes(Math.floor(ctx.starRating))) return false;
+  }
+  return overrideCoversStay(match, ctx.checkin, ctx.checkout);
+}
+
+/** First matching override (list must be sorted by priority), or null. */
+export function findMarginOverride(
+  overrides: MarginOverride[],
+  ctx: MarginContext
+): MarginOverride | null {
+  return overrides.find((o) => overrideMatchesContext(o.match, ctx)) ?? null;
+}
@@ -0,0 +1,50 @@
+/**
+ * Segment resolution: first active, in-window rule (by priority) whose match fits the profile
+ * and whose segment exists. No match → null (caller falls back to the LiteAPI account default).
+ */
+
+import { getSegment, listSegmentRules } from "./store";
+import type { SegmentProfile, SegmentResolution, SegmentRule, SegmentRuleMatch } from "./types";
+
+export function isRuleEffective(rule: SegmentRule, now: Date): boolean {
+  if (!rule.active) return false;
+  const t = now.getTime();
+  if (rule.effectiveFrom && Date.parse(rule.effectiveFrom) > t) return false;
+  if (rule.effectiveTo && Date.parse(rule.effectiveTo) <= t) return false;
+  return true;
+}
+
+export function ruleMatchesProfile(match: SegmentRuleMatch, profile: SegmentProfile): boolean {
+  switch (match.type) {
+    case "b2b_account":
+      if (!profile.accountId) return false;
+      return !match.accountIds?.length || match.accountIds.includes(profile.accountId);
+    case "email_domain": {
+      const domain = profile.email?.toLowerCase().split("@")[1] ?? "";
+      return domain !== "" && match.domains.some((d) => d.toLowerCase() === domain);
+    }
+    case "user_type_loyalty":
+      return (
+        profile.userType === match.userType &&
+        (!match.loyaltyLevels?.length || match.loyaltyLevels.includes(profile.loyaltyLevel))
+      );
+    case "default":
+      return true;
+    default:
+      return false;
+  }
+}
+
+export async function resolveSegment(
+  profile: SegmentProfile,
+  now: Date = new Date()
+): Promise<SegmentResolution | null> {
+  const rules = await listSegmentRules();
+  for (const rule of rules) {
+    if (!isRuleEffective(rule, now) || !ruleMatchesProfile(rule.match, profile)) continue;
+    const segment = await getSegment(rule.segmentId);
+    // A rule pointing at a deleted segment is skipped rather than failing pricing.
+    if (segment) return { segment, rule };
+  }
+  return null;
+}
@@ -0,0 +1,155 @@
+import { getCollection } from "@/lib/data-store";
+import type { MarginOverride, Segment, SegmentRule } from "./types";
+
+const SEGMENTS = "segments";
+const RULES = "segment_rules";
+
+type SegmentInput = Omit<Segment, "createdAt" | "updatedAt">;
+type SegmentRuleInput = Omit<SegmentRule, "createdAt" | "updatedAt">;
+
+/** The former in-code placeholder segments (explorer 7%, adventurer 5%, voyager 3%); seeded once when the store is empty. */
+const SEED_SEGMENTS: SegmentInput[] = [
+  { id: "employee", name: "Employee", effectiveMargin: 5, additionalMarkup: null, displayDiscountPercent: 10, isCug: true },
+  { id: "member_explorer", name: "Member (Explorer)", effectiveMargin: 7, additionalMarkup: null, displayDiscountPercent: 0, isCug: true },
+  { id: "member_adventurer", name: "Member (Adventurer)", effectiveMargin: 5, additionalMarkup: null, displayDiscountPercent: 0, isCug: true },
+  { id: "member_voyager", name: "Member (Voyager)", effectiveMargin: 3, additionalMarkup: null, displayDiscountPercent: 0, isCug: true },
+  {
+    id: "b2b",
+    name: "B2B",
+    effectiveMargin: 0,
+    additionalMarkup: null,
+    displayDiscountPercent: null,
+    isCug: true,
+    paymentModes: ["account_credit", "pay_at_property"],
+    creditLimit: { amount: 10000, currency: "USD" }
+  }
+];
+
+/** Same resolution order the placeholder resolver hardcoded. */
+const SEED_RULES: SegmentRuleInput[] = [
+  { id: "b2b-any-account", segmentId: "b2b", priority: 100, active: true, match: { type: "b2b_account" }, description: "Any B2B account" },
+  { id: "domain-breadfast", segmentId: "employee", priority: 200, active: true, match: { type: "email_domain", domains: ["breadfast.com"] } },
+  { id: "type-employee", segmentId: "employee", priority: 300, active: true, match: { type: "user_type_loyalty", userType: "employee" } },
+  { id: "type-b2b", segmentId: "b2b", priority: 310, active: true, match: { type: "user_type_loyalty", userType: "b2b" } },
+  { id: "member-voyager", segmentId: "member_voyager", priority: 320, active: true, match: { type: "user_type_loyalty", userType: "member", loyaltyLevels: ["voyager"] } },
+  { id: "member-adventurer", segmentId: "member_adventurer", priority: 330, active: true, match: { type: "user_type_loyalty", userType: "member", loyaltyLevels: ["adventurer"] } },
+  { id: "member-any", segmentId: "member_explorer", priority: 340, active: true, match: { type: "user_type_loyalty", userType: "member" } },
+  { id: "default", segmentId: "member_explorer", priority: 1000, active: true, match: { type: "default" } }
+];
+
+function segments() {
+  return getCollection<Segment>(SEGMENTS);
+}
+
+function rules() {
+  return getCollection<SegmentRule>(RULES);
+}
+
+let seeded: Promise<void> | null = null;
+
+function ensureSeeded(): Promise<void> {
+  if (!seeded) {
+    seeded = (async () => {
+      const [existingSegments, existingRules] = await Promise.all([segments().list(), rules().list()]);
+      if (existingSegments.length > 0 || existingRules.length > 0) return;
+      const now = new Date().toISOString();
+      for (const segment of SEED_SEGMENTS) {
+        await segments().put(segment.id, { ...segment, createdAt: now, updatedAt: now });
+      }
+      for (const rule of SEED_RULES) {
+        await rules().put(rule.id, { ...rule, createdAt: now, updatedAt: now });
+      }
+    })();
+    seeded.catch(() => {
+      seeded = null;
+    });
+  }
+  return seeded;
+}
+
+export async function listSegments(): Promise<Segment[]> {
+  await ensureSeeded();
+  const all = await segments().list();
+  return all.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export async function getSegment(id: string): Promise<Segment | null> {
+  await ensureSeeded();
+  return segments().get(id);
+}
+
+export async function saveSegment(segment: SegmentInput): Promise<Segment> {
+  await ensureSeeded();
+  const now = new Date().toISOString();
+  const saved = await segments().update(segment.id, (current) => ({
+    ...segment,
+    createdAt: current?.createdAt ?? now,
+    updatedAt: now
+  }));
+  return saved as Segment;
+}
+
+export async function deleteSegment(id: string): Promise<boolean> {
+  await ensureSeeded();
+  return segments().delete(id);
+}
+
+/** Sorted by priority (lowest first), then id. */
+export async function listSegmentRules(): Promise<SegmentRule[]> {
+  await ensureSeeded();
+  const all = await rules().list();
+  return all.sort((a, b) => a.priority - b.priority || a.id.localeCompare(b.id));
+}
+
+export async function getSegmentRule(id: string): Promise<SegmentRule | null> {
+  await ensureSeeded();
+  return rules().get(id);
+}
+
+export async function saveSegmentRule(rule: SegmentRuleInput): Promise<SegmentRule> {
+  await ensureSeeded();
+  const now = new Date().toISOString();
+  const saved = await rules().update(rule.id, (current) => ({
+    ...rule,
+    createdAt: current?.createdAt ?? now,
+    updatedAt: now
+  }));
+  return saved as SegmentRule;
+}
+
+export async function deleteSegmentRule(id: string): Promise<boolean> {
+  await ensureSeeded();
+  return rules().delete(id);
+}
+
+const OVERRIDES = "margin_overrides";
+
+function overrides() {
+  return getCollection<MarginOverride>(OVERRIDES);
+}
+
+/** Sorted by priority (lowest first), then id. */
+export async function listMarginOverrides(): Promise<MarginOverride[]> {
+  const all = await overrides().list();
+  return all.sort((a, b) => a.priority - b.priority || a.id.localeCompare(b.id));
+}
+
+export function getMarginOverride(id: string): Promise<MarginOverride | null> {
+  return overrides().get(id);
+}
+
+export async function saveMarginOverride(
+  override: Omit<MarginOverride, "createdAt" | "updatedAt">
+): Promise<MarginOverride> {
+  const now = new Date().toISOString();
+  const saved = await overrides().update(override.id, (current) => ({
+    ...override,
+    createdAt: current?.createdAt ?? now,
+    updatedAt: now
+  }));
+  return saved as MarginOverride;
+}
+
+export function deleteMarginOverride(id: string): Promise<boolean> {
+  return overrides().delete(id);
+}
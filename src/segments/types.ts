@@ -0,0 +1,121 @@
+/**
+ * Segment types: a segment is the pricing row (effective margin, markup, display discount);
+ * segment rules decide which segment a logged-in (CUG) user falls into.
+ */
+
+import type { LoyaltyLevel, UserType } from "@/auth/types";
+import type { PaymentMode } from "@/checkout/types";
+
+export interface Segment {
+  id: string;
+  name: string;
+  /** Final margin % sent to LiteAPI; null = LiteAPI account default. */
+  effectiveMargin: number | null;
+  additionalMarkup: number | null;
+  /** Configured "fake" promo: display was = retail × (1 + p/100). */
+  displayDiscountPercent: number | null;
+  isCug: boolean;
+  /** Pay-later modes offered at checkout besides pay_now (absent = card only). */
+  paymentModes?: Exclude<PaymentMode, "pay_now">[];
+  /**
+   * Most a customer (or their whole company) may owe on account_credit bookings not yet settled.
+   * account_credit is only offered with a limit.
+   */
+  creditLimit?: { amount: number; currency: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Rule types, evaluated together in priority order (seeded as b2b_account → email_domain → user_type_loyalty → default). */
+export type SegmentRuleType = "b2b_account" | "email_domain" | "user_type_loyalty" | "default";
+
+export type SegmentRuleMatch =
+  /** B2B account override; empty/absent accountIds = any user with an accountId. */
+  | { type: "b2b_account"; accountIds?: string[] }
+  /** Email domain, e.g. "breadfast.com" (exact, case-insensitive). */
+  | { type: "email_domain"; domains: string[] }
+  /** User type, optionally narrowed to loyalty levels (empty/absent = any level). */
+  | { type: "user_type_loyalty"; userType: UserType; loyaltyLevels?: LoyaltyLevel[] }
+  /** Always matches; use the highest priority number so it runs last. */
+  | { type: "default" };
+
+export interface SegmentRule {
+  id: string;
+  segmentId: string;
+  /** Lower runs first. */
+  priority: number;
+  match: SegmentRuleMatch;
+  active: boolean;
+  /** ISO datetimes; the rule applies from effectiveFrom (inclusive) until effectiveTo (exclusive). */
+  effectiveFrom?: string;
+  effectiveTo?: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What segment rules look at (subset of UserProfile, so the admin dry-run can pass a hypothetical user). */
+export interface SegmentProfile {
+  userType: UserType;
+  loyaltyLevel: LoyaltyLevel;
+  email?: string;
+  accountId?: string;
+}
+
+/** First matching rule (in priority order) and its segment. */
+export interface SegmentResolution {
+  segment: Segment;
+  rule: SegmentRule;
+}
+
+/**
+ * What is being priced. Overrides match on these; fields unknown for a hotel simply do not match
+ * criteria that need them.
+ */
+export interface MarginContext {
+  hotelId?: string;
+  /** ISO 3166-1 alpha-2, uppercase. */
+  countryCode?: string;
+  city?: string;
+  starRating?: number;
+  /** YYYY-MM-DD */
+  checkin?: string;
+  checkout?: string;
+}
+
+/** All listed criteria must match; within a list any value matches. Absent = no constraint. */
+export interface MarginOverrideMatch {
+  hotelIds?: string[];
+  countryCodes?: string[];
+  /** Hotel city names (case-insensitive), e.g. "Sharm El Sheikh". */
+  cities?: string[];
+  starRatings?: number[];
+  /**
+   * Stay-date window (YYYY-MM-DD, inclusive), e.g. 2026-08-01..2026-08-31 for "August stays": matches stays with
+   * at least one night in it (see overrideCoversStay).
+   */
+  stayFrom?: string;
+  stayTo?: string;
+}
+
+/**
+ * Per-destination / per-hotel margin override, applied on top of the user's segment margin.
+ * Set `margin` to replace the margin, or `marginDelta` to add to the segment margin (ignored when the
+ * segment has no margin, e.g. b2c). Lowest priority wins when several match.
+ */
+export interface MarginOverride {
+  id: string;
+  name?: string;
+  priority: number;
+  active: boolean;
+  match: MarginOverrideMatch;
+  margin?: number;
+  marginDelta?: number;
+  additionalMarkup?: number;
+  /** Channels it applies to (default ["cug"]). b2c only takes absolute `margin`. */
+  channels?: ("b2c" | "cug")[];
+  /** Only users resolved into these segments (absent = any segment). */
+  segmentIds?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,14 @@
+/**
+ * Saved travellers (server only): per-user store of people to book for.
+ */
+
+export type { SavedTraveller, SavedTravellerFields, TravellerRelation } from "./types";
+export {
+  createSavedTraveller,
+  deleteSavedTraveller,
+  getSavedTraveller,
+  listSavedTravellers,
+  MAX_SAVED_TRAVELLERS,
+  updateSavedTraveller
+} from "./store";
+export { parseSavedTravellerFields, TRAVELLER_RELATIONS } from "./validate";
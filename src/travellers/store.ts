@@ -0,0 +1,63 @@
+import { randomUUID } from "crypto";
+import { getCollection } from "@/lib/data-store";
+import type { SavedTraveller, SavedTravellerFields } from "./types";
+
+const TRAVELLERS = "saved_travellers";
+
+/** Per user; enough for a family plus a few regular companions. */
+export const MAX_SAVED_TRAVELLERS = 20;
+
+const RELATION_ORDER: Record<SavedTraveller["relation"], number> = { self: 0, spouse: 1, child: 2, other: 3 };
+
+function travellers() {
+  return getCollection<SavedTraveller>(TRAVELLERS);
+}
+
+/** Self first, then spouse, children (oldest first) and others. */
+export async function listSavedTravellers(userId: string): Promise<SavedTraveller[]> {
+  const all = await travellers().list();
+  return all
+    .filter((t) => t.userId === userId)
+    .sort(
+      (a, b) =>
+        RELATION_ORDER[a.relation] - RELATION_ORDER[b.relation] ||
+        (a.birthDate ?? "").localeCompare(b.birthDate ?? "") ||
+        a.createdAt.localeCompare(b.createdAt)
+    );
+}
+
+export async function getSavedTraveller(userId: string, id: string): Promise<SavedTraveller | null> {
+  const traveller = await travellers().get(id);
+  return traveller?.userId === userId ? traveller : null;
+}
+
+/** Null when the user already has MAX_SAVED_TRAVELLERS. */
+export async function createSavedTraveller(
+  userId: string,
+  fields: SavedTravellerFields
+): Promise<SavedTraveller | null> {
+  const existing = await listSavedTravellers(userId);
+  if (existing.length >= MAX_SAVED_TRAVELLERS) return null;
+  const now = new Date().toISOString();
+  const traveller: SavedTraveller = { id: `trv_${randomUUID()}`, userId, ...fields, createdAt: now, updatedAt: now };
+  return travellers().put(traveller.id, traveller);
+}
+
+/** Replace the traveller's fields; null if it does not exist or belongs to someone else. */
+export async function updateSavedTraveller(
+  userId: string,
+  id: string,
+  fields: SavedTravellerFields
+): Promise<SavedTraveller | null> {
+  return travellers().update(id, (current) =>
+    current && current.userId === userId
+      ? { ...current, ...fields, updatedAt: new Date().toISOString() }
+      : null
+  );
+}
+
+export async function deleteSavedTraveller(userId: string, id: string): Promise<boolean> {
+  const traveller = await getSavedTraveller(userId, id);
+  if (!traveller) return false;
+  return travellers().delete(id);
+}
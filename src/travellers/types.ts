@@ -0,0 +1,26 @@
+/**
+ * Saved travellers: people a logged-in user books for (themselves, a spouse, their kids). They pre-fill the guest
+ * details at checkout and, for children, the child ages in the search.
+ */
+
+export type TravellerRelation = "self" | "spouse" | "child" | "other";
+
+export interface SavedTraveller {
+  id: string;
+  userId: string;
+  relation: TravellerRelation;
+  /** Latin letters, as in the passport (same rules as checkout names). */
+  firstName: string;
+  lastName: string;
+  /** YYYY-MM-DD. Required for children: their age at check-in fills the search's child ages. */
+  birthDate?: string;
+  email?: string;
+  phone?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SavedTravellerFields = Pick<
+  SavedTraveller,
+  "relation" | "firstName" | "lastName" | "birthDate" | "email" | "phone"
+>;
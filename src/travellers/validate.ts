@@ -0,0 +1,38 @@
+import { checkGuestName, isValidPhone, normalizeGuestName } from "@/lib/guests";
+import { optionalString } from "@/lib/strings";
+import type { SavedTravellerFields, TravellerRelation } from "./types";
+
+export const TRAVELLER_RELATIONS: TravellerRelation[] = ["self", "spouse", "child", "other"];
+
+function isPastDate(value: string): boolean {
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value && d.getTime() <= Date.now();
+}
+
+/** Validate a traveller body ({ relation, firstName, lastName, birthDate?, email?, phone? }). */
+export function parseSavedTravellerFields(
+  body: any
+): { ok: true; value: SavedTravellerFields } | { ok: false; message: string } {
+  const relation = body?.relation ?? "other";
+  if (!TRAVELLER_RELATIONS.includes(relation)) {
+    return { ok: false, message: `relation must be one of ${TRAVELLER_RELATIONS.join(", ")}` };
+  }
+  const firstName = normalizeGuestName(String(body?.firstName ?? ""));
+  const lastName = normalizeGuestName(String(body?.lastName ?? ""));
+  for (const [label, name] of [["First name", firstName], ["Last name", lastName]] as const) {
+    const check = checkGuestName(name);
+    if (!check.valid) return { ok: false, message: `${label}: ${check.message}` };
+  }
+  const birthDate = optionalString(body?.birthDate);
+  if (birthDate && !(/^\d{4}-\d{2}-\d{2}$/.test(birthDate) && isPastDate(birthDate))) {
+    return { ok: false, message: "birthDate must be a past date (YYYY-MM-DD)" };
+  }
+  if (relation === "child" && !birthDate) {
+    return { ok: false, message: "Children need a birth date so their age can be filled in" };
+  }
+  const email = optionalString(body?.email)?.toLowerCase();
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return { ok: false, message: "Invalid email" };
+  const phone = optionalString(body?.phone);
+  if (phone && !isValidPhone(phone)) return { ok: false, message: "Invalid phone number" };
+  return { ok: true, value: { relation, firstName, lastName, birthDate, email, phone } };
+}